@@ -3,12 +3,14 @@ import { provideRouter } from '@angular/router';
 import { provideAnimationsAsync } from '@angular/platform-browser/animations/async';
 
 import { routes } from './app.routes';
+import { provideAppConfig } from './core/config';
 import { httpConfig } from './core/interceptors';
 
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
+    provideAppConfig(),
     provideRouter(routes),
     httpConfig,
     provideAnimationsAsync()
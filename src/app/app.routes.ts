@@ -17,12 +17,21 @@ export const routes: Routes = [
         pathMatch: 'full'
     },
 
+    // Verificación de email: fuera del grupo /auth porque el enlace también se abre con sesión iniciada
+    {
+        path: 'auth/verify',
+        loadComponent: () => import('./features/auth/pages/verify-email/verify-email.component').then(m => m.VerifyEmailComponent),
+        title: 'Verificación de Email - MindHub'
+    },
+
     // Rutas de autenticación (solo no autenticados)
     {
         path: 'auth',
         loadChildren: () => import('./features/auth/auth.routes').then(m => m.AUTH_ROUTES),
         title: 'Autenticación - MindHub',
-        canActivate: [guestGuard]
+        canActivate: [guestGuard],
+        // Re-evaluar el guard cuando otra pestaña inicia o cierra sesión
+        runGuardsAndResolvers: 'always'
     },
 
     // Dashboard (requiere autenticación)
@@ -30,7 +39,9 @@ export const routes: Routes = [
         path: 'dashboard',
         loadChildren: () => import('./features/dashboard/dashboard.routes').then(m => m.DASHBOARD_ROUTES),
         title: 'Dashboard - MindHub',
-        canActivate: [authGuard]
+        canActivate: [authGuard],
+        // Re-evaluar el guard cuando otra pestaña inicia o cierra sesión
+        runGuardsAndResolvers: 'always'
     },
 
     // Redirección: /home -> /dashboard
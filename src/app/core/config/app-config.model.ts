@@ -0,0 +1,57 @@
+// MODELO: AppConfig - configuración de ejecución (public/config.json)
+
+/** Niveles de log, de más a menos detallado */
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+/**
+ * Configuración que se descarga al arrancar la aplicación.
+ * Cambiarla no requiere recompilar: basta con servir otro config.json.
+ */
+export interface AppConfig {
+  appName: string;
+  version: string;
+  /** URL base de la API REST (sin barra final) */
+  apiUrl: string;
+  /** Backend simulado en memoria (sin servidor Spring). Solo existe en los builds de desarrollo */
+  useFakeBackend: boolean;
+  debug: boolean;
+  logLevel: LogLevel;
+  session: {
+    /** Cierre de sesión por inactividad (ms) */
+    idleTimeout: number;
+    /** Antelación del aviso previo a la expiración (ms) */
+    warningTime: number;
+  };
+  cache: {
+    /** Caché de los GET (stale-while-revalidate); desactivada, todas las lecturas van a la red */
+    enabled: boolean;
+    /** Tiempo durante el que una respuesta GET cacheada se considera fresca (ms) */
+    ttl: number;
+  };
+  polling: {
+    /** Intervalo de actualización del contador de notificaciones (ms) */
+    notifications: number;
+  };
+  /** Funcionalidades activables sin desplegar código (valor por defecto de cada flag) */
+  features: Record<string, boolean>;
+  /** Flags por usuario (username → flag → activo) para despliegues graduales */
+  featureOverrides?: Record<string, Record<string, boolean>>;
+  /** Inicio de sesión con el proveedor de identidad corporativo (OIDC + PKCE); sin él no se ofrece */
+  sso?: SsoConfig;
+}
+
+/**
+ * Cliente OIDC público: el navegador obtiene el código de autorización con PKCE
+ * y el backend lo canjea en el IdP.
+ */
+export interface SsoConfig {
+  /** Nombre del proveedor en el botón de login */
+  providerName: string;
+  /** Endpoint de autorización del IdP (`/auth/sso/dev-idp` para el IdP simulado del backend en memoria) */
+  authorizationEndpoint: string;
+  clientId: string;
+  /** Scopes separados por espacios (por defecto "openid profile email") */
+  scope?: string;
+}
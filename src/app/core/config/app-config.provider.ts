@@ -0,0 +1,71 @@
+// PROVIDER: AppConfig - descarga config.json durante el arranque
+
+import {
+  EnvironmentProviders,
+  Injectable,
+  InjectionToken,
+  inject,
+  makeEnvironmentProviders,
+  provideAppInitializer
+} from '@angular/core';
+import { HttpBackend, HttpClient, HttpHeaders } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { AppConfig } from './app-config.model';
+import { AppConfigError, validateAppConfig } from './app-config.schema';
+
+/** Ruta del fichero de configuración (se sirve desde public/) */
+export const APP_CONFIG_URL = 'config.json';
+
+/**
+ * Configuración de ejecución ya validada.
+ * Uso: `private readonly config = inject(APP_CONFIG);`
+ */
+export const APP_CONFIG = new InjectionToken<AppConfig>('APP_CONFIG');
+
+/**
+ * Guarda la configuración descargada hasta que la pide APP_CONFIG.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AppConfigLoader {
+  // HttpBackend evita los interceptores, que a su vez dependen de la configuración
+  private readonly http = new HttpClient(inject(HttpBackend));
+  private config: AppConfig | null = null;
+
+  /**
+   * Descarga y valida config.json.
+   * @throws AppConfigError si no se puede descargar o no es válido
+   */
+  async load(): Promise<void> {
+    let raw: unknown;
+
+    try {
+      raw = await firstValueFrom(this.http.get(APP_CONFIG_URL, {
+        headers: new HttpHeaders({ 'Cache-Control': 'no-cache' })
+      }));
+    } catch {
+      throw new AppConfigError(`No se pudo descargar ${APP_CONFIG_URL}`);
+    }
+
+    this.config = validateAppConfig(raw);
+  }
+
+  /**
+   * Configuración cargada; solo disponible tras el arranque.
+   */
+  get value(): AppConfig {
+    if (!this.config) {
+      throw new AppConfigError('La configuración se ha leído antes de cargarse');
+    }
+    return this.config;
+  }
+}
+
+/**
+ * Registra la carga de config.json como app initializer y provee APP_CONFIG.
+ */
+export const provideAppConfig = (): EnvironmentProviders => makeEnvironmentProviders([
+  { provide: APP_CONFIG, useFactory: () => inject(AppConfigLoader).value },
+  provideAppInitializer(() => inject(AppConfigLoader).load())
+]);
@@ -0,0 +1,121 @@
+// SCHEMA: AppConfig - validación del config.json descargado
+
+import { AppConfig, LOG_LEVELS } from './app-config.model';
+import { FAKE_BACKEND_INCLUDED } from '../interceptors/fake-backend.build';
+
+/** Regla de un campo: devuelve el problema encontrado o null */
+type FieldRule = (value: unknown) => string | null;
+
+/** Error de arranque cuando config.json no se puede descargar o no es válido */
+export class AppConfigError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(message);
+    this.name = 'AppConfigError';
+  }
+}
+
+const textRule: FieldRule = value =>
+  typeof value === 'string' && value.trim() ? null : 'debe ser un texto no vacío';
+
+const urlRule: FieldRule = value => {
+  if (typeof value !== 'string' || !/^(https?:\/\/|\/)/.test(value)) {
+    return 'debe ser una URL http(s) o una ruta absoluta';
+  }
+  return value.endsWith('/') ? 'no debe terminar en "/"' : null;
+};
+
+const booleanRule: FieldRule = value => typeof value === 'boolean' ? null : 'debe ser true o false';
+
+/** El backend simulado solo existe en los builds de desarrollo */
+const fakeBackendRule: FieldRule = value => {
+  if (typeof value !== 'boolean') {
+    return 'debe ser true o false';
+  }
+  return value && !FAKE_BACKEND_INCLUDED ? 'el backend simulado no está incluido en este build' : null;
+};
+
+const durationRule: FieldRule = value =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? null : 'debe ser un número de ms mayor que 0';
+
+const oneOf = (options: readonly string[]): FieldRule => value =>
+  options.includes(value as string) ? null : `debe ser uno de: ${options.join(', ')}`;
+
+const flagsRule: FieldRule = value =>
+  isObject(value) && Object.values(value).every(flag => typeof flag === 'boolean')
+    ? null
+    : 'debe ser un objeto con valores true/false';
+
+const optional = (rule: FieldRule): FieldRule => value => value === undefined ? null : rule(value);
+
+const ssoRule: FieldRule = value => {
+  if (!isObject(value)) {
+    return 'debe ser un objeto { providerName, authorizationEndpoint, clientId }';
+  }
+  const fields: [string, FieldRule][] = [
+    ['providerName', textRule],
+    ['authorizationEndpoint', urlRule],
+    ['clientId', textRule],
+    ['scope', optional(textRule)]
+  ];
+  const problems = fields
+    .map(([field, rule]) => {
+      const problem = rule(value[field]);
+      return problem ? `${field} ${problem}` : null;
+    })
+    .filter(problem => problem !== null);
+  return problems.length ? problems.join('; ') : null;
+};
+
+const flagsByUserRule: FieldRule = value =>
+  isObject(value) && Object.values(value).every(userFlags => flagsRule(userFlags) === null)
+    ? null
+    : 'debe ser un objeto username → { flag: true/false }';
+
+/** Reglas por ruta de campo (las rutas con punto son objetos anidados) */
+const APP_CONFIG_SCHEMA: Record<string, FieldRule> = {
+  appName: textRule,
+  version: textRule,
+  apiUrl: urlRule,
+  useFakeBackend: fakeBackendRule,
+  debug: booleanRule,
+  logLevel: oneOf(LOG_LEVELS),
+  'session.idleTimeout': durationRule,
+  'session.warningTime': durationRule,
+  'cache.enabled': booleanRule,
+  'cache.ttl': durationRule,
+  'polling.notifications': durationRule,
+  features: flagsRule,
+  featureOverrides: optional(flagsByUserRule),
+  sso: optional(ssoRule)
+};
+
+/**
+ * Comprueba que el JSON tenga la forma de AppConfig.
+ * @param value - Contenido de config.json ya parseado
+ * @returns La configuración tipada
+ * @throws AppConfigError con la lista de campos inválidos
+ */
+export const validateAppConfig = (value: unknown): AppConfig => {
+  if (!isObject(value)) {
+    throw new AppConfigError('config.json no contiene un objeto JSON');
+  }
+
+  const issues = Object.entries(APP_CONFIG_SCHEMA)
+    .map(([path, rule]) => {
+      const problem = rule(readPath(value, path));
+      return problem ? `${path}: ${problem}` : null;
+    })
+    .filter((issue): issue is string => issue !== null);
+
+  if (issues.length) {
+    throw new AppConfigError('config.json no es válido', issues);
+  }
+
+  return value as unknown as AppConfig;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const readPath = (source: Record<string, unknown>, path: string): unknown =>
+  path.split('.').reduce<unknown>((current, key) => isObject(current) ? current[key] : undefined, source);
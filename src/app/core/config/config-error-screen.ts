@@ -0,0 +1,48 @@
+// CONFIG ERROR SCREEN: pantalla de error cuando la app no puede arrancar por su configuración
+
+import { AppConfigError } from './app-config.schema';
+
+/**
+ * Sustituye el contenido de la página por un aviso con los problemas de config.json.
+ * Se pinta sin Angular porque la aplicación no ha llegado a arrancar.
+ * @param error - Error que rechazó el arranque
+ */
+export const renderConfigErrorScreen = (error: AppConfigError): void => {
+  const screen = document.createElement('main');
+  screen.setAttribute('role', 'alert');
+  screen.style.cssText = [
+    'max-width: 560px',
+    'margin: 15vh auto',
+    'padding: 32px',
+    'font-family: system-ui, sans-serif',
+    'color: #1f2937',
+    'background: #fff',
+    'border: 1px solid #fecaca',
+    'border-left: 6px solid #dc2626',
+    'border-radius: 12px',
+    'box-shadow: 0 10px 30px rgba(0, 0, 0, 0.08)'
+  ].join(';');
+
+  const title = document.createElement('h1');
+  title.textContent = 'No se pudo iniciar MindHub';
+  title.style.cssText = 'margin: 0 0 12px; font-size: 1.5rem; color: #b91c1c';
+
+  const summary = document.createElement('p');
+  summary.textContent = `${error.message}. Revisa la configuración del despliegue y recarga la página.`;
+  summary.style.cssText = 'margin: 0 0 16px; line-height: 1.5';
+
+  screen.append(title, summary);
+
+  if (error.issues.length) {
+    const list = document.createElement('ul');
+    list.style.cssText = 'margin: 0; padding-left: 20px; font-family: monospace; font-size: 0.875rem; color: #7f1d1d';
+    error.issues.forEach(issue => {
+      const item = document.createElement('li');
+      item.textContent = issue;
+      list.append(item);
+    });
+    screen.append(list);
+  }
+
+  document.body.replaceChildren(screen);
+};
@@ -0,0 +1,5 @@
+// Barrel file: Core Config
+export * from './app-config.model';
+export * from './app-config.provider';
+export * from './app-config.schema';
+export * from './config-error-screen';
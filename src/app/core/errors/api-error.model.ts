@@ -0,0 +1,101 @@
+// MODELO: ApiError - errores del backend tipados por código
+
+/**
+ * Códigos de error conocidos.
+ * Los genéricos se deducen del status HTTP cuando el backend no envía `code`.
+ */
+export const API_ERROR_CODES = [
+  // Genéricos
+  'BAD_REQUEST',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'CONFLICT',
+  'VALIDATION_FAILED',
+  'TOO_MANY_REQUESTS',
+  'SERVER_ERROR',
+  'NETWORK_ERROR',
+  'UNKNOWN',
+  // Autenticación
+  'AUTH_INVALID_CREDENTIALS',
+  'AUTH_ACCOUNT_DISABLED',
+  'AUTH_TOKEN_INVALID',
+  'AUTH_RESET_TOKEN_INVALID',
+  'AUTH_RESET_TOKEN_EXPIRED',
+  'AUTH_EMAIL_NOT_VERIFIED',
+  'AUTH_VERIFICATION_TOKEN_INVALID',
+  'AUTH_VERIFICATION_TOKEN_EXPIRED',
+  'AUTH_TWO_FACTOR_INVALID_CODE',
+  'AUTH_TWO_FACTOR_CHALLENGE_EXPIRED',
+  'AUTH_TWO_FACTOR_SETUP_REQUIRED',
+  'AUTH_TWO_FACTOR_REQUIRED',
+  'AUTH_SSO_CODE_INVALID',
+  'AUTH_SSO_LINK_EXPIRED',
+  // Usuarios
+  'USER_NOT_FOUND',
+  'USER_ALREADY_EXISTS',
+  'USER_USERNAME_TAKEN',
+  'USER_EMAIL_TAKEN',
+  'USER_LAST_ADMIN',
+  'USER_SELF_ACTION_FORBIDDEN',
+  // Publicaciones, comentarios y reportes
+  'POST_NOT_FOUND',
+  'POST_FORBIDDEN',
+  'POST_CONTENT_REQUIRED',
+  'COMMENT_NOT_FOUND',
+  'REPORT_ALREADY_SUBMITTED',
+  'REPORT_OWN_POST',
+  'REPORT_ALREADY_REVIEWED',
+  // Seguimientos
+  'FOLLOW_SELF',
+  'FOLLOW_ALREADY_EXISTS',
+  'FOLLOW_NOT_FOUND'
+] as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODES[number];
+
+/**
+ * Cuerpo de error RFC 7807 (application/problem+json).
+ * `code`, `message` y `errors` son extensiones que usa el backend.
+ */
+export interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  code?: string;
+  message?: string;
+  errors?: { field: string; message: string }[] | Record<string, string>;
+  fieldErrors?: Record<string, string>;
+}
+
+/** Datos comunes a todos los errores */
+interface ApiErrorBase {
+  status: number;
+  title?: string;
+  /** Mensaje del backend (no se muestra tal cual: el texto sale del registro) */
+  detail?: string;
+  instance?: string;
+  /** Segundos de espera que indica la cabecera Retry-After (p. ej. en un 429) */
+  retryAfter?: number;
+}
+
+/** Error de validación con los mensajes por campo */
+export interface ApiValidationError extends ApiErrorBase {
+  code: 'VALIDATION_FAILED';
+  fieldErrors: Record<string, string>;
+}
+
+/** Petición que no llegó al servidor */
+export interface ApiNetworkError extends ApiErrorBase {
+  code: 'NETWORK_ERROR';
+  status: 0;
+}
+
+/** Resto de errores: solo se distinguen por código */
+export interface ApiCodedError extends ApiErrorBase {
+  code: Exclude<ApiErrorCode, 'VALIDATION_FAILED' | 'NETWORK_ERROR'>;
+}
+
+export type ApiError = ApiValidationError | ApiNetworkError | ApiCodedError;
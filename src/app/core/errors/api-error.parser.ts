@@ -0,0 +1,131 @@
+// PARSER: ApiError - HttpErrorResponse → ApiError
+
+import { HttpErrorResponse } from '@angular/common/http';
+import { API_ERROR_CODES, ApiError, ApiErrorCode, ProblemDetails } from './api-error.model';
+
+const KNOWN_CODES = new Set<string>(API_ERROR_CODES);
+
+/**
+ * Convierte un error de HttpClient en un ApiError.
+ * El código sale, por orden, de `code`, del último segmento de `type`
+ * (p. ej. `.../problems/user-not-found` → USER_NOT_FOUND) o del status HTTP.
+ * @param error - Error recibido en el subscribe/catchError
+ */
+export const parseApiError = (error: unknown): ApiError => {
+  if (!(error instanceof HttpErrorResponse)) {
+    return { code: 'UNKNOWN', status: 0, detail: error instanceof Error ? error.message : undefined };
+  }
+
+  if (error.status === 0) {
+    return { code: 'NETWORK_ERROR', status: 0 };
+  }
+
+  const body = toProblemDetails(error.error);
+  const base = {
+    status: error.status,
+    title: body.title,
+    detail: body.detail ?? body.message,
+    instance: body.instance,
+    retryAfter: readRetryAfter(error)
+  };
+  const fieldErrors = readFieldErrors(body);
+  const code = readCode(body) ?? codeFromStatus(error.status, !!fieldErrors);
+
+  if (code === 'VALIDATION_FAILED') {
+    return { ...base, code, fieldErrors: fieldErrors ?? {} };
+  }
+
+  if (code === 'NETWORK_ERROR') {
+    return { ...base, code, status: 0 };
+  }
+
+  return { ...base, code };
+};
+
+/**
+ * Indica si el error tiene alguno de los códigos.
+ */
+export const hasApiErrorCode = (error: unknown, ...codes: ApiErrorCode[]): boolean =>
+  codes.includes(parseApiError(error).code);
+
+const toProblemDetails = (body: unknown): ProblemDetails => {
+  if (body && typeof body === 'object') {
+    return body as ProblemDetails;
+  }
+
+  if (typeof body === 'string') {
+    try {
+      const parsed = JSON.parse(body);
+      return parsed && typeof parsed === 'object' ? parsed : { message: body };
+    } catch {
+      return { message: body };
+    }
+  }
+
+  return {};
+};
+
+const readCode = (body: ProblemDetails): ApiErrorCode | null => {
+  const typeSegment = body.type?.split(/[/#]/).pop();
+  const candidates = [body.code, typeSegment]
+    .filter((value): value is string => !!value)
+    .map(value => value.trim().toUpperCase().replace(/-/g, '_'));
+
+  return (candidates.find(candidate => KNOWN_CODES.has(candidate)) as ApiErrorCode | undefined) ?? null;
+};
+
+const readFieldErrors = (body: ProblemDetails): Record<string, string> | null => {
+  const source = body.fieldErrors ?? body.errors;
+
+  if (Array.isArray(source)) {
+    const entries = source
+      .filter(item => item?.field && item?.message)
+      .map(item => [item.field, item.message] as const);
+    return entries.length ? Object.fromEntries(entries) : null;
+  }
+
+  if (source && typeof source === 'object' && Object.keys(source).length) {
+    return { ...source };
+  }
+
+  return null;
+};
+
+/**
+ * Segundos de la cabecera Retry-After (número o fecha HTTP).
+ */
+const readRetryAfter = (error: HttpErrorResponse): number | undefined => {
+  const value = error.headers?.get('Retry-After');
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  const delay = Number.isNaN(seconds) ? (new Date(value).getTime() - Date.now()) / 1000 : seconds;
+  return Number.isNaN(delay) ? undefined : Math.max(0, Math.ceil(delay));
+};
+
+const codeFromStatus = (status: number, hasFieldErrors: boolean): ApiErrorCode => {
+  if ((status === 400 || status === 422) && hasFieldErrors) {
+    return 'VALIDATION_FAILED';
+  }
+
+  switch (status) {
+    case 400:
+      return 'BAD_REQUEST';
+    case 401:
+      return 'UNAUTHORIZED';
+    case 403:
+      return 'FORBIDDEN';
+    case 404:
+      return 'NOT_FOUND';
+    case 409:
+      return 'CONFLICT';
+    case 422:
+      return 'VALIDATION_FAILED';
+    case 429:
+      return 'TOO_MANY_REQUESTS';
+    default:
+      return status >= 500 ? 'SERVER_ERROR' : 'UNKNOWN';
+  }
+};
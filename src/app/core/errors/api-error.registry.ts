@@ -0,0 +1,59 @@
+// REGISTRO: ApiError - mensaje para el usuario de cada código
+
+import { ApiErrorCode } from './api-error.model';
+
+/**
+ * Texto que se muestra para cada código.
+ * Es el único sitio donde se redactan los mensajes de error del backend.
+ */
+export const API_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
+  BAD_REQUEST: 'Datos inválidos. Verifica la información ingresada.',
+  UNAUTHORIZED: 'Tu sesión ha caducado. Inicia sesión de nuevo.',
+  FORBIDDEN: 'Acceso denegado.',
+  NOT_FOUND: 'El recurso solicitado no existe.',
+  CONFLICT: 'La operación entra en conflicto con datos existentes.',
+  VALIDATION_FAILED: 'Los datos proporcionados no son válidos.',
+  TOO_MANY_REQUESTS: 'Demasiados intentos. Espera un momento antes de volver a intentarlo.',
+  SERVER_ERROR: 'Error interno del servidor. Intenta nuevamente más tarde.',
+  NETWORK_ERROR: 'Error de conexión. Comprueba tu conexión a internet.',
+  UNKNOWN: 'Error inesperado. Intenta nuevamente.',
+
+  AUTH_INVALID_CREDENTIALS: 'Contraseña incorrecta.',
+  AUTH_ACCOUNT_DISABLED: 'Cuenta inactiva. Contactar con soporte técnico.',
+  AUTH_TOKEN_INVALID: 'Tu sesión ha caducado. Inicia sesión de nuevo.',
+  AUTH_RESET_TOKEN_INVALID: 'El enlace de restablecimiento no es válido o ya se ha usado.',
+  AUTH_RESET_TOKEN_EXPIRED: 'El enlace de restablecimiento ha caducado. Solicita uno nuevo.',
+  AUTH_EMAIL_NOT_VERIFIED: 'Verifica tu email para poder publicar.',
+  AUTH_VERIFICATION_TOKEN_INVALID: 'El enlace de verificación no es válido o ya se ha usado.',
+  AUTH_VERIFICATION_TOKEN_EXPIRED: 'El enlace de verificación ha caducado. Solicita uno nuevo.',
+  AUTH_TWO_FACTOR_INVALID_CODE: 'El código no es correcto.',
+  AUTH_TWO_FACTOR_CHALLENGE_EXPIRED: 'La verificación ha caducado. Inicia sesión de nuevo.',
+  AUTH_TWO_FACTOR_SETUP_REQUIRED: 'Activa la verificación en dos pasos para acceder al panel de administración.',
+  AUTH_TWO_FACTOR_REQUIRED: 'Tu rol exige la verificación en dos pasos: no se puede desactivar.',
+  AUTH_SSO_CODE_INVALID: 'No se pudo completar el inicio de sesión corporativo. Inténtalo de nuevo.',
+  AUTH_SSO_LINK_EXPIRED: 'La vinculación ha caducado. Vuelve a iniciar sesión con tu cuenta corporativa.',
+
+  USER_NOT_FOUND: 'Usuario no encontrado.',
+  USER_ALREADY_EXISTS: 'Usuario o email ya existe.',
+  USER_USERNAME_TAKEN: 'Ese nombre de usuario ya está en uso.',
+  USER_EMAIL_TAKEN: 'Ese email ya está registrado.',
+  USER_LAST_ADMIN: 'No se puede eliminar al último administrador.',
+  USER_SELF_ACTION_FORBIDDEN: 'No puedes realizar esta acción sobre tu propia cuenta.',
+
+  POST_NOT_FOUND: 'Publicación no encontrada.',
+  POST_FORBIDDEN: 'No tienes permisos para esta acción.',
+  POST_CONTENT_REQUIRED: 'El contenido es obligatorio.',
+  COMMENT_NOT_FOUND: 'Comentario no encontrado.',
+  REPORT_ALREADY_SUBMITTED: 'Ya has reportado esta publicación anteriormente.',
+  REPORT_OWN_POST: 'No puedes reportar tu propia publicación.',
+  REPORT_ALREADY_REVIEWED: 'El reporte ya ha sido revisado.',
+
+  FOLLOW_SELF: 'No puedes seguirte a ti mismo.',
+  FOLLOW_ALREADY_EXISTS: 'Ya sigues a este usuario.',
+  FOLLOW_NOT_FOUND: 'No sigues a este usuario.'
+};
+
+/**
+ * Mensaje registrado para un código.
+ */
+export const getApiErrorMessage = (code: ApiErrorCode): string => API_ERROR_MESSAGES[code];
@@ -0,0 +1,5 @@
+// Barrel file: Core Errors
+export * from './api-error.model';
+export * from './api-error.parser';
+export * from './api-error.registry';
+export * from './server-form-errors';
@@ -0,0 +1,48 @@
+// UTILIDAD: errores de validación del backend → controles de un formulario reactivo
+
+import { AbstractControl } from '@angular/forms';
+import { parseApiError } from './api-error.parser';
+
+/** Clave del error que se añade a cada control: `control.errors?.['serverError']` */
+export const SERVER_ERROR_KEY = 'serverError';
+
+/**
+ * Marca con `serverError` los controles que el backend rechazó en un VALIDATION_FAILED.
+ * El error desaparece solo cuando el usuario edita el campo, porque al cambiar el valor
+ * Angular vuelve a ejecutar los validadores y sustituye `errors`.
+ * @param form - FormGroup (o control padre) al que pertenecen los campos
+ * @param error - Error recibido de HttpClient
+ * @param fieldMap - Nombre del campo en el backend → ruta del control, si no coinciden
+ * @returns true si se asignó algún error a un control
+ */
+export const applyServerErrors = (
+  form: AbstractControl,
+  error: unknown,
+  fieldMap: Record<string, string> = {}
+): boolean => {
+  const apiError = parseApiError(error);
+  if (apiError.code !== 'VALIDATION_FAILED') {
+    return false;
+  }
+
+  let applied = false;
+
+  Object.entries(apiError.fieldErrors).forEach(([field, message]) => {
+    const control = form.get(fieldMap[field] ?? field);
+    if (!control) {
+      return;
+    }
+
+    control.setErrors({ ...control.errors, [SERVER_ERROR_KEY]: message });
+    control.markAsTouched();
+    applied = true;
+  });
+
+  return applied;
+};
+
+/**
+ * Mensaje del backend para un control, o null si no tiene.
+ */
+export const getServerError = (control: AbstractControl | null): string | null =>
+  control?.errors?.[SERVER_ERROR_KEY] ?? null;
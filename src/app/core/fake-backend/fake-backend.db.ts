@@ -0,0 +1,460 @@
+// FAKE BACKEND DB: datos en memoria del backend simulado (semilla + estado mutable)
+
+import { Injectable } from '@angular/core';
+import { User, Role, RoleName } from '../../features/user/models';
+import { NotificationResponse } from '../../features/notification/data-access/notification-response.interface';
+import {
+  ActionType,
+  MessageType,
+  NotificationType,
+  PrivacyType,
+  ReactionType,
+  ReportStatus
+} from '../../shared/models/enums/enums';
+import { DeviceInfo, LoginFailureReason, LoginMethod } from '../../features/auth/models';
+import { FakeIdpIdentity } from './fake-backend.idp';
+import { describeCurrentDevice } from './fake-backend.device';
+
+/** Usuario almacenado: el DTO público más la contraseña */
+export interface FakeUserRecord extends User {
+  password: string;
+  /** Secreto TOTP activo (base32) */
+  twoFactorSecret?: string;
+  /** Secreto generado en /auth/2fa/setup, pendiente de confirmar con un código */
+  pendingTwoFactorSecret?: string;
+  /** Códigos de recuperación sin usar */
+  recoveryCodes?: string[];
+  /** `sub` de la identidad corporativa vinculada (SSO) */
+  ssoSubject?: string;
+}
+
+export interface FakePostRecord {
+  id: number;
+  authorId: number;
+  content: string;
+  imageUrl?: string;
+  privacyType: PrivacyType;
+  creationDate: string;
+  updateDate?: string;
+}
+
+export interface FakeCommentRecord {
+  id: number;
+  postId: number;
+  authorId: number;
+  content: string;
+  creationDate: string;
+  editDate?: string;
+}
+
+export interface FakeReactionRecord {
+  id: number;
+  postId: number;
+  userId: number;
+  reactionType: ReactionType;
+  creationDate: string;
+}
+
+export interface FakeFollowRecord {
+  id: number;
+  followerId: number;
+  followedId: number;
+  followDate: string;
+}
+
+export interface FakeNotificationRecord extends NotificationResponse {
+  userId: number;
+}
+
+export interface FakeReportRecord {
+  id: number;
+  reporterId: number;
+  postId: number;
+  /** Copia del post para poder mostrarlo aunque se elimine */
+  postContent: string;
+  postAuthorId: number;
+  reason: string;
+  description?: string;
+  status: ReportStatus;
+  reportDate: string;
+  reviewDate?: string;
+}
+
+export interface FakeAdminActionRecord {
+  id: number;
+  adminId: number;
+  actionType: ActionType;
+  title: string;
+  description: string;
+  entityId: number;
+  entityType: string;
+  affectedUserId?: number;
+  actionDate: string;
+}
+
+export interface FakeChatMessageRecord {
+  id: number;
+  userId: number;
+  content: string;
+  messageType: MessageType;
+  creationDate: string;
+  sessionId: string;
+}
+
+/** Sesión abierta en un dispositivo; sus refresh tokens la van renovando */
+export interface FakeSessionRecord extends DeviceInfo {
+  id: string;
+  userId: number;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+export interface FakeLoginAttemptRecord extends DeviceInfo {
+  id: number;
+  userId: number;
+  date: string;
+  success: boolean;
+  method: LoginMethod;
+  failureReason?: LoginFailureReason;
+}
+
+/** Contraseña de todas las cuentas sembradas salvo la de admin */
+export const FAKE_DEFAULT_PASSWORD = 'password123';
+
+export const FAKE_ROLES: Record<RoleName, Role> = {
+  ADMIN: { id: 1, name: 'ADMIN', description: 'Administrador' },
+  USER: { id: 2, name: 'USER', description: 'Usuario' },
+  MODERATOR: { id: 3, name: 'MODERATOR', description: 'Moderador' }
+};
+
+/** Fecha ISO desplazada N días (y horas) hacia atrás respecto a ahora */
+const daysAgo = (days: number, hours = 0): string =>
+  new Date(Date.now() - (days * 24 + hours) * 60 * 60 * 1000).toISOString();
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FakeBackendDb {
+  users: FakeUserRecord[] = [];
+  posts: FakePostRecord[] = [];
+  comments: FakeCommentRecord[] = [];
+  reactions: FakeReactionRecord[] = [];
+  follows: FakeFollowRecord[] = [];
+  notifications: FakeNotificationRecord[] = [];
+  reports: FakeReportRecord[] = [];
+  adminActions: FakeAdminActionRecord[] = [];
+  chatMessages: FakeChatMessageRecord[] = [];
+  sessions: FakeSessionRecord[] = [];
+  loginHistory: FakeLoginAttemptRecord[] = [];
+
+  /** Refresh tokens emitidos → usuario y sesión a la que pertenecen */
+  readonly refreshTokens = new Map<string, { userId: number; sessionId: string }>();
+
+  /** Sesiones cerradas: sus tokens de acceso dejan de valer aunque no hayan caducado */
+  readonly revokedSessionIds = new Set<string>();
+
+  /** Tokens de restablecimiento de contraseña → usuario y caducidad (ms) */
+  readonly passwordResetTokens = new Map<string, { userId: number; expiresAt: number }>();
+
+  /** Instantes (ms) de las últimas solicitudes de restablecimiento por email */
+  readonly passwordResetRequests = new Map<string, number[]>();
+
+  /** Tokens de verificación de email → usuario y caducidad (ms) */
+  readonly emailVerificationTokens = new Map<string, { userId: number; expiresAt: number }>();
+
+  /** Último envío (ms) del email de verificación por ID de usuario */
+  readonly emailVerificationSentAt = new Map<number, number>();
+
+  /** Retos de segundo factor pendientes → usuario, vía del primer paso, caducidad (ms) e intentos fallidos */
+  readonly twoFactorChallenges = new Map<string, { userId: number; method: LoginMethod; expiresAt: number; attempts: number }>();
+
+  /** Códigos de autorización del IdP simulado → identidad, PKCE, redirect_uri y caducidad (ms) */
+  readonly ssoAuthorizationCodes = new Map<string, {
+    identity: FakeIdpIdentity;
+    codeChallenge: string;
+    redirectUri: string;
+    expiresAt: number;
+  }>();
+
+  /** Vinculaciones SSO pendientes de confirmar con la contraseña → identidad, cuenta y caducidad (ms) */
+  readonly ssoLinkTokens = new Map<string, { identity: FakeIdpIdentity; userId: number; expiresAt: number }>();
+
+  /** Política de seguridad de la plataforma */
+  securityPolicy = { requireTwoFactorForAdmins: false };
+
+  private lastId = 1000;
+
+  constructor() {
+    this.reset();
+  }
+
+  /**
+   * Genera un ID único para cualquier colección.
+   */
+  nextId(): number {
+    return ++this.lastId;
+  }
+
+  /**
+   * Restaura los datos sembrados (útil entre tests).
+   */
+  reset(): void {
+    this.lastId = 1000;
+    this.refreshTokens.clear();
+    this.revokedSessionIds.clear();
+    this.passwordResetTokens.clear();
+    this.passwordResetRequests.clear();
+    this.emailVerificationTokens.clear();
+    this.emailVerificationSentAt.clear();
+    this.twoFactorChallenges.clear();
+    this.ssoAuthorizationCodes.clear();
+    this.ssoLinkTokens.clear();
+    this.securityPolicy = { requireTwoFactorForAdmins: false };
+
+    this.users = [
+      this.seedUser(1, 'admin', 'Ana', 'Administradora', FAKE_ROLES.ADMIN, { password: 'admin123', days: 400 }),
+      this.seedUser(2, 'laura', 'Laura', 'Gómez', FAKE_ROLES.USER, { days: 200, biography: 'Fotógrafa y viajera.' }),
+      this.seedUser(3, 'carlos', 'Carlos', 'Ruiz', FAKE_ROLES.USER, { days: 150, privacyType: PrivacyType.PRIVATE }),
+      this.seedUser(4, 'marta', 'Marta', 'López', FAKE_ROLES.USER, { days: 90, biography: 'Desarrolladora frontend.' }),
+      this.seedUser(5, 'pablo', 'Pablo', 'Sanz', FAKE_ROLES.USER, { days: 60, active: false }),
+      this.seedUser(6, 'sofia', 'Sofía', 'Moreno', FAKE_ROLES.MODERATOR, { days: 120, biography: 'Moderadora de la comunidad.' })
+    ];
+
+    this.posts = [
+      { id: 1, authorId: 2, content: 'Primer atardecer del verano desde el mirador. 🌅', privacyType: PrivacyType.PUBLIC, creationDate: daysAgo(0, 2) },
+      { id: 2, authorId: 3, content: 'Notas privadas de mi proyecto de fin de semana.', privacyType: PrivacyType.PRIVATE, creationDate: daysAgo(0, 5) },
+      { id: 3, authorId: 4, content: 'Hoy he migrado un proyecto entero a signals. ¡Qué diferencia!', privacyType: PrivacyType.PUBLIC, creationDate: daysAgo(1) },
+      { id: 4, authorId: 2, content: 'Recomendaciones de libros para las vacaciones, ¿alguna idea?', privacyType: PrivacyType.PUBLIC, creationDate: daysAgo(1, 6) },
+      { id: 5, authorId: 1, content: 'Recordatorio: revisad las normas de la comunidad antes de publicar.', privacyType: PrivacyType.PUBLIC, creationDate: daysAgo(2) },
+      { id: 6, authorId: 3, content: 'Receta de pan casero en 5 pasos.', privacyType: PrivacyType.PUBLIC, creationDate: daysAgo(3) },
+      { id: 7, authorId: 4, content: 'Compro seguidores baratos, escríbeme por privado.', privacyType: PrivacyType.PUBLIC, creationDate: daysAgo(4) },
+      { id: 8, authorId: 2, content: 'Ruta en bici por la costa: 60 km y mucho viento.', privacyType: PrivacyType.PRIVATE, creationDate: daysAgo(5) },
+      { id: 9, authorId: 4, content: 'Checklist de accesibilidad para formularios.', privacyType: PrivacyType.PUBLIC, creationDate: daysAgo(6) },
+      { id: 10, authorId: 3, content: 'Mi setup de escritorio después de la mudanza.', privacyType: PrivacyType.PUBLIC, creationDate: daysAgo(8) },
+      { id: 11, authorId: 2, content: 'Exposición de fotografía este sábado en el centro cultural.', privacyType: PrivacyType.PUBLIC, creationDate: daysAgo(10) },
+      { id: 12, authorId: 4, content: 'Cómo organizo mis tareas con una sola libreta.', privacyType: PrivacyType.PUBLIC, creationDate: daysAgo(12) }
+    ];
+
+    this.comments = [
+      { id: 1, postId: 1, authorId: 4, content: '¡Qué colores!', creationDate: daysAgo(0, 1) },
+      { id: 2, postId: 1, authorId: 3, content: '¿Dónde es eso?', creationDate: daysAgo(0, 1) },
+      { id: 3, postId: 3, authorId: 2, content: 'Tienes que enseñarme cómo lo hiciste.', creationDate: daysAgo(0, 20) },
+      { id: 4, postId: 4, authorId: 4, content: 'Cualquiera de Ursula K. Le Guin.', creationDate: daysAgo(1, 2) },
+      { id: 5, postId: 6, authorId: 2, content: 'La probaré este finde.', creationDate: daysAgo(2, 12) }
+    ];
+
+    this.reactions = [
+      { id: 1, postId: 1, userId: 3, reactionType: ReactionType.LIKE, creationDate: daysAgo(0, 1) },
+      { id: 2, postId: 1, userId: 4, reactionType: ReactionType.LIKE, creationDate: daysAgo(0, 1) },
+      { id: 3, postId: 3, userId: 2, reactionType: ReactionType.LIKE, creationDate: daysAgo(0, 22) },
+      { id: 4, postId: 6, userId: 2, reactionType: ReactionType.LIKE, creationDate: daysAgo(2, 10) },
+      { id: 5, postId: 9, userId: 1, reactionType: ReactionType.LIKE, creationDate: daysAgo(5) }
+    ];
+
+    this.follows = [
+      { id: 1, followerId: 2, followedId: 3, followDate: daysAgo(100) },
+      { id: 2, followerId: 2, followedId: 4, followDate: daysAgo(80) },
+      { id: 3, followerId: 3, followedId: 2, followDate: daysAgo(99) },
+      { id: 4, followerId: 4, followedId: 2, followDate: daysAgo(70) },
+      { id: 5, followerId: 1, followedId: 2, followDate: daysAgo(50) }
+    ];
+
+    this.notifications = [
+      {
+        id: 1, userId: 2, title: 'Nuevo comentario', message: 'Marta López ha comentado tu publicación',
+        notificationType: NotificationType.COMMENT, read: false, creationDate: daysAgo(0, 1),
+        referenciaId: 1, referenciaTabla: 'posts'
+      },
+      {
+        id: 2, userId: 2, title: 'Nueva reacción', message: 'A Carlos Ruiz le gusta tu publicación',
+        notificationType: NotificationType.REACTION, read: false, creationDate: daysAgo(0, 1),
+        referenciaId: 1, referenciaTabla: 'posts'
+      },
+      {
+        id: 3, userId: 1, title: 'Nuevo reporte', message: 'Se ha reportado una publicación por spam',
+        notificationType: NotificationType.REPORT, read: false, creationDate: daysAgo(3),
+        referenciaId: 1, referenciaTabla: 'reports'
+      }
+    ];
+
+    this.reports = [
+      {
+        id: 1, reporterId: 2, postId: 7, postContent: this.posts[6].content, postAuthorId: 4,
+        reason: 'SPAM', description: 'Venta de seguidores', status: ReportStatus.PENDING, reportDate: daysAgo(3)
+      },
+      {
+        id: 2, reporterId: 3, postId: 9, postContent: this.posts[8].content, postAuthorId: 4,
+        reason: 'OTRO', status: ReportStatus.REJECTED, reportDate: daysAgo(5), reviewDate: daysAgo(4)
+      }
+    ];
+
+    this.adminActions = [
+      {
+        id: 1, adminId: 1, actionType: ActionType.DEACTIVATE_USER, title: 'Usuario desactivado',
+        description: 'Cuenta desactivada por inactividad prolongada', entityId: 5, entityType: 'USER',
+        affectedUserId: 5, actionDate: daysAgo(20)
+      },
+      {
+        id: 2, adminId: 1, actionType: ActionType.REJECT_REPORT, title: 'Reporte rechazado',
+        description: 'El contenido reportado no incumple las normas', entityId: 2, entityType: 'REPORT',
+        affectedUserId: 3, actionDate: daysAgo(4)
+      }
+    ];
+
+    this.chatMessages = [];
+
+    const iphone: DeviceInfo = { deviceType: 'MOBILE', os: 'iOS', browser: 'Safari', ipAddress: '88.12.54.201', location: 'Barcelona, España' };
+    const office: DeviceInfo = { deviceType: 'DESKTOP', os: 'Windows', browser: 'Edge', ipAddress: '212.170.33.18', location: 'Valencia, España' };
+    const unknown: DeviceInfo = { deviceType: 'DESKTOP', os: 'Linux', browser: 'Firefox', ipAddress: '185.220.101.44', location: 'Ámsterdam, Países Bajos' };
+
+    this.sessions = [
+      { id: 'seed-session-1', userId: 2, ...iphone, createdAt: daysAgo(6), lastSeenAt: daysAgo(0, 3) },
+      { id: 'seed-session-2', userId: 2, ...office, createdAt: daysAgo(12), lastSeenAt: daysAgo(4) },
+      { id: 'seed-session-3', userId: 1, ...office, createdAt: daysAgo(3), lastSeenAt: daysAgo(1) }
+    ];
+
+    this.loginHistory = [
+      { id: 1, userId: 2, ...unknown, date: daysAgo(1, 5), success: false, method: 'PASSWORD', failureReason: 'INVALID_CREDENTIALS' },
+      { id: 2, userId: 2, ...unknown, date: daysAgo(1, 5), success: false, method: 'PASSWORD', failureReason: 'INVALID_CREDENTIALS' },
+      { id: 3, userId: 2, ...iphone, date: daysAgo(6), success: true, method: 'PASSWORD' },
+      { id: 4, userId: 2, ...office, date: daysAgo(12), success: true, method: 'PASSWORD' },
+      { id: 5, userId: 1, ...office, date: daysAgo(3), success: true, method: 'PASSWORD' }
+    ];
+  }
+
+  // CONSULTAS AUXILIARES
+
+  findUser(id: number): FakeUserRecord | undefined {
+    return this.users.find(user => user.id === id);
+  }
+
+  findPost(id: number): FakePostRecord | undefined {
+    return this.posts.find(post => post.id === id);
+  }
+
+  isFollowing(followerId: number, followedId: number): boolean {
+    return this.follows.some(f => f.followerId === followerId && f.followedId === followedId);
+  }
+
+  /**
+   * Crea una notificación para un usuario (si no es el propio autor de la acción).
+   */
+  notify(
+    userId: number,
+    actorId: number | null,
+    notification: Pick<NotificationResponse, 'title' | 'message' | 'notificationType' | 'referenciaId' | 'referenciaTabla'>
+  ): void {
+    if (userId === actorId) {
+      return;
+    }
+
+    this.notifications.unshift({
+      ...notification,
+      id: this.nextId(),
+      userId,
+      read: false,
+      creationDate: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Registra una acción administrativa.
+   */
+  logAdminAction(action: Omit<FakeAdminActionRecord, 'id' | 'actionDate'>): void {
+    this.adminActions.unshift({ ...action, id: this.nextId(), actionDate: new Date().toISOString() });
+  }
+
+  // SESIONES
+
+  /**
+   * Abre una sesión para el navegador actual.
+   */
+  openSession(userId: number): FakeSessionRecord {
+    const timestamp = new Date().toISOString();
+    const session = { id: crypto.randomUUID(), userId, ...describeCurrentDevice(), createdAt: timestamp, lastSeenAt: timestamp };
+    this.sessions.push(session);
+    return session;
+  }
+
+  /**
+   * Marca actividad en la sesión de un token de acceso.
+   * Los datos en memoria se pierden al recargar: una sesión desconocida (no cerrada) se vuelve a registrar.
+   * @returns false si la sesión se ha cerrado
+   */
+  touchSession(id: string, userId: number): boolean {
+    if (this.revokedSessionIds.has(id)) {
+      return false;
+    }
+
+    const session = this.sessions.find(s => s.id === id);
+    if (session) {
+      session.lastSeenAt = new Date().toISOString();
+    } else {
+      const timestamp = new Date().toISOString();
+      this.sessions.push({ id, userId, ...describeCurrentDevice(), createdAt: timestamp, lastSeenAt: timestamp });
+    }
+    return true;
+  }
+
+  /**
+   * Cierra las sesiones indicadas e invalida sus refresh tokens.
+   */
+  revokeSessions(predicate: (session: FakeSessionRecord) => boolean): number {
+    const revoked = this.sessions.filter(predicate);
+    const ids = new Set(revoked.map(s => s.id));
+
+    ids.forEach(id => this.revokedSessionIds.add(id));
+    this.sessions = this.sessions.filter(s => !ids.has(s.id));
+    this.refreshTokens.forEach((entry, token) => {
+      if (ids.has(entry.sessionId)) {
+        this.refreshTokens.delete(token);
+      }
+    });
+    return revoked.length;
+  }
+
+  /**
+   * Anota un intento de inicio de sesión desde el navegador actual.
+   */
+  recordLoginAttempt(userId: number, method: LoginMethod, failureReason?: LoginFailureReason): void {
+    this.loginHistory.unshift({
+      id: this.nextId(),
+      userId,
+      ...describeCurrentDevice(),
+      date: new Date().toISOString(),
+      success: !failureReason,
+      method,
+      failureReason
+    });
+  }
+
+  private seedUser(
+    id: number,
+    username: string,
+    firstName: string,
+    lastName: string,
+    role: Role,
+    options: {
+      password?: string;
+      days: number;
+      privacyType?: PrivacyType;
+      active?: boolean;
+      biography?: string;
+    }
+  ): FakeUserRecord {
+    return {
+      id,
+      username,
+      firstName,
+      lastName,
+      email: `${username}@mindhub.dev`,
+      password: options.password ?? FAKE_DEFAULT_PASSWORD,
+      biography: options.biography,
+      role,
+      privacyType: options.privacyType ?? PrivacyType.PUBLIC,
+      active: options.active ?? true,
+      registrationDate: daysAgo(options.days),
+      lastActivityDate: daysAgo(0, id)
+    };
+  }
+}
@@ -0,0 +1,43 @@
+// FAKE BACKEND DEVICE: dispositivo y ubicación de las peticiones del backend simulado
+// Un backend real los sacaría de la cabecera User-Agent y de la IP de la conexión
+
+import { DeviceInfo } from '../../features/auth/models';
+
+/** IP y ubicación con las que se registra este navegador (no hay geolocalización real) */
+const FAKE_CLIENT_ADDRESS = { ipAddress: '83.44.121.7', location: 'Madrid, España' };
+
+/**
+ * Dispositivo del navegador que ejecuta la aplicación.
+ */
+export const describeCurrentDevice = (): DeviceInfo => ({
+  ...parseUserAgent(navigator.userAgent),
+  ...FAKE_CLIENT_ADDRESS
+});
+
+/**
+ * Tipo de dispositivo, sistema y navegador a partir de un User-Agent.
+ * El orden importa: Edge y Opera también anuncian "Chrome", y Chrome anuncia "Safari".
+ */
+export const parseUserAgent = (userAgent: string): Pick<DeviceInfo, 'deviceType' | 'os' | 'browser'> => {
+  const ua = userAgent.toLowerCase();
+
+  const deviceType = /ipad|tablet/.test(ua) || (ua.includes('android') && !ua.includes('mobile'))
+    ? 'TABLET'
+    : /mobile|iphone|android/.test(ua) ? 'MOBILE' : 'DESKTOP';
+
+  const os = /iphone|ipad/.test(ua) ? 'iOS'
+    : ua.includes('android') ? 'Android'
+    : ua.includes('windows') ? 'Windows'
+    : ua.includes('mac os') ? 'macOS'
+    : ua.includes('linux') ? 'Linux'
+    : 'Desconocido';
+
+  const browser = ua.includes('edg/') ? 'Edge'
+    : ua.includes('opr/') ? 'Opera'
+    : ua.includes('firefox/') ? 'Firefox'
+    : ua.includes('chrome/') ? 'Chrome'
+    : ua.includes('safari/') ? 'Safari'
+    : 'Navegador desconocido';
+
+  return { deviceType, os, browser };
+};
@@ -0,0 +1,123 @@
+import { HttpParams, HttpRequest } from '@angular/common/http';
+import { CursorPage } from '../../shared/common';
+import { FakeBackendDb } from './fake-backend.db';
+import { FakeRequestContext, paginate, paginateByCursor, paginateList, readBody, sortBy } from './fake-backend.http';
+
+const items = Array.from({ length: 25 }, (_, index) => ({ id: index + 1, name: `item-${index + 1}` }));
+const params = (values: Record<string, string>) => new HttpParams({ fromObject: values });
+
+describe('paginate', () => {
+  it('devuelve la página pedida con los metadatos de Spring', () => {
+    const page = paginate(items, params({ page: '1', size: '10' }));
+
+    expect(page.content.map(item => item.id)).toEqual([11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+    expect(page).toMatchObject({ totalElements: 25, totalPages: 3, size: 10, number: 1, first: false, last: false });
+  });
+
+  it('marca la última página aunque venga incompleta', () => {
+    const page = paginate(items, params({ page: '2', size: '10' }));
+
+    expect(page.content.map(item => item.id)).toEqual([21, 22, 23, 24, 25]);
+    expect(page.last).toBe(true);
+  });
+
+  it('usa page=0 y size=10 si faltan o no son válidos', () => {
+    const page = paginate(items, params({ page: '-3', size: 'abc' }));
+
+    expect(page).toMatchObject({ number: 0, size: 10, first: true });
+    expect(page.content).toHaveLength(10);
+  });
+
+  it('pagina una colección vacía', () => {
+    const page = paginate([], new HttpParams());
+
+    expect(page).toMatchObject({ content: [], totalElements: 0, totalPages: 0, first: true, last: true });
+  });
+});
+
+describe('paginateByCursor', () => {
+  it('empieza por el principio con el cursor vacío', () => {
+    const page = paginateByCursor(items, params({ cursor: '', size: '10' }));
+
+    expect(page.content.map(item => item.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(page.nextCursor).toBe(btoa('10'));
+  });
+
+  it('continúa tras el último elemento entregado', () => {
+    const page = paginateByCursor(items, params({ cursor: btoa('10'), size: '10' }));
+
+    expect(page.content[0].id).toBe(11);
+  });
+
+  it('no desplaza la página siguiente si se insertan elementos delante', () => {
+    const first = paginateByCursor(items, params({ cursor: '', size: '10' }));
+    const withNewItem = [{ id: 99, name: 'nuevo' }, ...items];
+
+    const second = paginateByCursor(withNewItem, params({ cursor: first.nextCursor!, size: '10' }));
+
+    expect(second.content.map(item => item.id)).toEqual([11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+  });
+
+  it('no devuelve cursor en la última página', () => {
+    const page = paginateByCursor(items, params({ cursor: btoa('20'), size: '10' }));
+
+    expect(page.content.map(item => item.id)).toEqual([21, 22, 23, 24, 25]);
+    expect(page.nextCursor).toBeNull();
+  });
+});
+
+describe('paginateList', () => {
+  it('pagina por cursor solo si la petición trae el parámetro', () => {
+    expect('nextCursor' in paginateList(items, params({ cursor: '' }))).toBe(true);
+    expect('totalPages' in paginateList(items, params({ page: '0' }))).toBe(true);
+  });
+
+  it('devuelve un CursorPage con el tamaño pedido', () => {
+    const page = paginateList(items, params({ cursor: '', size: '5' })) as CursorPage<typeof items[number]>;
+
+    expect(page.size).toBe(5);
+    expect(page.content).toHaveLength(5);
+  });
+});
+
+describe('sortBy', () => {
+  const people = [
+    { name: 'Carlos', age: 30 },
+    { name: 'Ana', age: 30 },
+    { name: 'Marta', age: 25 }
+  ];
+  const valueOf = (person: typeof people[number], field: string) => field === 'age' ? person.age : person.name;
+
+  it('ordena por varios criterios, cada uno desempatando al anterior', () => {
+    const sorted = sortBy(people, ['age,desc', 'name,asc'], valueOf);
+
+    expect(sorted.map(person => person.name)).toEqual(['Ana', 'Carlos', 'Marta']);
+  });
+
+  it('no modifica la colección original', () => {
+    sortBy(people, 'name', valueOf);
+
+    expect(people[0].name).toBe('Carlos');
+  });
+});
+
+describe('readBody', () => {
+  const contextWith = (body: unknown): FakeRequestContext => ({
+    req: new HttpRequest('POST', '/api/test', body),
+    params: [],
+    query: new HttpParams(),
+    body,
+    currentUser: null,
+    currentSessionId: null,
+    db: {} as FakeBackendDb
+  });
+
+  it('devuelve el cuerpo si es un objeto', () => {
+    expect(readBody<{ content: string }>(contextWith({ content: 'hola' })).content).toBe('hola');
+  });
+
+  it('devuelve un objeto vacío si no hay cuerpo o no es un objeto', () => {
+    expect(readBody(contextWith(null))).toEqual({});
+    expect(readBody(contextWith('texto'))).toEqual({});
+  });
+});
@@ -0,0 +1,238 @@
+// FAKE BACKEND HTTP: tipos y utilidades compartidas por las rutas del backend simulado
+
+import { HttpParams, HttpRequest, HttpResponse } from '@angular/common/http';
+import { CursorPage, PaginatedResponse } from '../../shared/common';
+import { ROLE_PERMISSIONS } from '../../features/auth/models';
+import { ApiErrorCode } from '../errors';
+import { FakeBackendDb, FakeUserRecord } from './fake-backend.db';
+
+/** Nivel de acceso requerido por una ruta ('moderator' admite ADMIN y MODERATOR) */
+export type FakeRouteAccess = 'public' | 'user' | 'moderator' | 'admin';
+
+/** Datos que recibe cada handler */
+export interface FakeRequestContext {
+  req: HttpRequest<unknown>;
+  /** Grupos capturados por el patrón de la ruta */
+  params: string[];
+  query: HttpParams;
+  /** Cuerpo sin validar: los handlers lo leen con readBody */
+  body: unknown;
+  /** Usuario autenticado (null en rutas públicas sin token) */
+  currentUser: FakeUserRecord | null;
+  /** Sesión del token de acceso (claim `sid`) */
+  currentSessionId: string | null;
+  db: FakeBackendDb;
+}
+
+/** Ruta del backend simulado: método + patrón sobre la ruta relativa a apiUrl */
+export interface FakeRoute {
+  method: string;
+  path: RegExp;
+  access: FakeRouteAccess;
+  handle: (ctx: FakeRequestContext) => HttpResponse<unknown>;
+}
+
+/** Error que un handler lanza para responder con un status distinto de 2xx */
+export class FakeHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code?: ApiErrorCode,
+    /** Errores por campo de un 422 (campo → mensaje) */
+    readonly fieldErrors?: Record<string, string>,
+    /** Cabeceras de la respuesta de error (p. ej. Retry-After) */
+    readonly headers?: Record<string, string>
+  ) {
+    super(message);
+  }
+}
+
+/** Duración del token de acceso simulado (s): corta para ejercitar el refresh */
+export const FAKE_TOKEN_TTL = 15 * 60;
+
+/**
+ * Respuesta 2xx.
+ */
+export const ok = <T>(body: T, status = 200): HttpResponse<T> => new HttpResponse({ status, body });
+
+/**
+ * Corta el handler con un error HTTP; `code` viaja en el cuerpo problem+json.
+ */
+export const fail = (status: number, message: string, code?: ApiErrorCode): never => {
+  throw new FakeHttpError(status, message, code);
+};
+
+/**
+ * Corta el handler con un 422 VALIDATION_FAILED si hay errores por campo.
+ */
+export const failOnFieldErrors = (fieldErrors: Record<string, string>): void => {
+  if (Object.keys(fieldErrors).length) {
+    throw new FakeHttpError(422, 'Validation failed', 'VALIDATION_FAILED', fieldErrors);
+  }
+};
+
+/**
+ * Corta el handler con un 429 TOO_MANY_REQUESTS que indica cuándo reintentar.
+ */
+export const failTooManyRequests = (retryAfterSeconds: number): never => {
+  throw new FakeHttpError(429, 'Too many requests', 'TOO_MANY_REQUESTS', undefined, {
+    'Retry-After': String(Math.max(1, retryAfterSeconds))
+  });
+};
+
+/**
+ * Respuesta de confirmación con forma ApiResponse.
+ */
+export const message = (text: string) => ok({ message: text, success: true });
+
+/**
+ * Lee el cuerpo con la forma del DTO que espera el handler. Los campos pueden faltar
+ * (o no tener el tipo declarado): el handler valida los que necesita.
+ */
+export const readBody = <T extends object>(ctx: FakeRequestContext): Partial<T> =>
+  typeof ctx.body === 'object' && ctx.body !== null ? ctx.body as Partial<T> : {};
+
+/**
+ * Devuelve el usuario autenticado; solo se llama desde rutas protegidas.
+ */
+export const requireUser = (ctx: FakeRequestContext): FakeUserRecord =>
+  ctx.currentUser ?? fail(401, 'No autenticado');
+
+export const isAdmin = (user: FakeUserRecord | null): boolean => user?.role.name === 'ADMIN';
+
+export const canModerate = (user: FakeUserRecord | null): boolean =>
+  isAdmin(user) || user?.role.name === 'MODERATOR';
+
+/**
+ * La política exige 2FA a los administradores y este aún no lo ha activado.
+ */
+export const needsTwoFactorSetup = (user: FakeUserRecord | null, db: FakeBackendDb): boolean =>
+  db.securityPolicy.requireTwoFactorForAdmins && isAdmin(user) && !user?.twoFactorEnabled;
+
+/**
+ * Pagina una colección con los parámetros page/size de Spring.
+ */
+export const paginate = <T>(items: T[], query: HttpParams): PaginatedResponse<T> => {
+  const size = Math.max(1, Number(query.get('size')) || 10);
+  const page = Math.max(0, Number(query.get('page')) || 0);
+  const totalPages = Math.ceil(items.length / size);
+
+  return {
+    content: items.slice(page * size, (page + 1) * size),
+    totalElements: items.length,
+    totalPages,
+    size,
+    number: page,
+    first: page === 0,
+    last: page >= totalPages - 1
+  };
+};
+
+/**
+ * Página por cursor (keyset): el cursor es el ID del último elemento entregado,
+ * así que lo insertado delante entre dos peticiones no desplaza la página siguiente.
+ */
+export const paginateByCursor = <T extends { id: number }>(items: T[], query: HttpParams): CursorPage<T> => {
+  const size = Math.max(1, Number(query.get('size')) || 10);
+  const cursor = query.get('cursor');
+  const start = cursor ? items.findIndex(item => item.id === Number(atob(cursor))) + 1 : 0;
+  const content = items.slice(start, start + size);
+  const hasMore = start + size < items.length;
+
+  return {
+    content,
+    nextCursor: hasMore && content.length > 0 ? btoa(String(content[content.length - 1].id)) : null,
+    size
+  };
+};
+
+/**
+ * Pagina por cursor si la petición lo pide (parámetro `cursor`, vacío en la primera página)
+ * y por número de página en otro caso.
+ */
+export const paginateList = <T extends { id: number }>(items: T[], query: HttpParams): PaginatedResponse<T> | CursorPage<T> =>
+  query.has('cursor') ? paginateByCursor(items, query) : paginate(items, query);
+
+/**
+ * Ordena con el formato de Spring (`campo,asc|desc`). Con varios criterios,
+ * cada uno desempata los anteriores.
+ */
+export const sortBy = <T>(
+  items: T[],
+  sort: string | readonly string[] | null,
+  valueOf: (item: T, field: string) => string | number
+): T[] => {
+  const criteria = (typeof sort === 'string' ? [sort] : sort ?? []).map(criterion => {
+    const [field, direction = 'asc'] = criterion.split(',');
+    return { field, factor: direction.toLowerCase() === 'desc' ? -1 : 1 };
+  });
+
+  if (criteria.length === 0) {
+    return items;
+  }
+
+  return [...items].sort((a, b) => {
+    for (const { field, factor } of criteria) {
+      const valueA = valueOf(a, field);
+      const valueB = valueOf(b, field);
+      if (valueA !== valueB) {
+        return valueA < valueB ? -factor : factor;
+      }
+    }
+    return 0;
+  });
+};
+
+/**
+ * Coincidencia de texto sin distinguir mayúsculas.
+ */
+export const matchesQuery = (query: string | null, ...values: (string | undefined)[]): boolean => {
+  const term = query?.trim().toLowerCase();
+  return !term || values.some(value => value?.toLowerCase().includes(term));
+};
+
+/**
+ * Emite un JWT sin firma real con el mismo payload que lee AuthService.
+ * `sid` identifica la sesión (dispositivo) a la que pertenece el token.
+ */
+export const createFakeToken = (user: FakeUserRecord, sessionId: string): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = encodeSegment({ alg: 'none', typ: 'JWT' });
+  const payload = encodeSegment({
+    sub: user.username,
+    userId: user.id,
+    sid: sessionId,
+    role: user.role.name,
+    permissions: fakePermissionsFor(user),
+    iat: now,
+    exp: now + FAKE_TOKEN_TTL
+  });
+  return `${header}.${payload}.fake-signature`;
+};
+
+/**
+ * Permisos que el backend simulado concede a un usuario según su rol.
+ */
+export const fakePermissionsFor = (user: FakeUserRecord): string[] => [...(ROLE_PERMISSIONS[user.role.name] ?? [])];
+
+/**
+ * Lee el payload de un token emitido por createFakeToken (null si no es válido o ha caducado).
+ */
+export const readFakeToken = (token: string): { userId: number; sid?: string; exp: number } | null => {
+  try {
+    const payload = JSON.parse(decodeSegment(token.split('.')[1]));
+    return payload.exp * 1000 > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+const encodeSegment = (value: object): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decodeSegment = (segment: string): string => {
+  const binary = atob(segment.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
@@ -0,0 +1,131 @@
+// FAKE BACKEND MAPPERS: registros en memoria → DTOs que devuelve el backend real
+
+import { User, PostResponse, CommentResponse, ReactionResponse, FollowResponse } from '../../features/user/models';
+import { ReportResponse, AdminActionResponse } from '../../features/admin/models';
+import { NotificationResponse } from '../../features/notification/data-access/notification-response.interface';
+import { ChatBotMessageResponse } from '../../features/chatbot/data-access/chatbot-message-response.interface';
+import { ActiveSession, LoginAttempt } from '../../features/auth/models';
+import {
+  FakeAdminActionRecord,
+  FakeBackendDb,
+  FakeChatMessageRecord,
+  FakeCommentRecord,
+  FakeFollowRecord,
+  FakeLoginAttemptRecord,
+  FakeNotificationRecord,
+  FakePostRecord,
+  FakeReactionRecord,
+  FakeReportRecord,
+  FakeSessionRecord,
+  FakeUserRecord
+} from './fake-backend.db';
+
+/** Nombre del asistente en las respuestas del chatbot */
+export const FAKE_CHATBOT_NAME = 'MindBot';
+
+export const toUserDto = (
+  { password, twoFactorSecret, pendingTwoFactorSecret, recoveryCodes, ssoSubject, ...user }: FakeUserRecord
+): User => ({ ...user });
+
+export const toPostDto = (post: FakePostRecord, db: FakeBackendDb): PostResponse => ({
+  id: post.id,
+  content: post.content,
+  imageUrl: post.imageUrl,
+  privacyType: post.privacyType,
+  creationDate: post.creationDate,
+  updateDate: post.updateDate,
+  author: toUserDto(db.findUser(post.authorId)!),
+  commentCount: db.comments.filter(c => c.postId === post.id).length,
+  likeCount: db.reactions.filter(r => r.postId === post.id).length
+});
+
+export const toCommentDto = (comment: FakeCommentRecord, db: FakeBackendDb): CommentResponse => ({
+  id: comment.id,
+  content: comment.content,
+  creationDate: comment.creationDate,
+  editDate: comment.editDate,
+  author: toUserDto(db.findUser(comment.authorId)!),
+  postId: comment.postId
+});
+
+export const toReactionDto = (reaction: FakeReactionRecord, db: FakeBackendDb): ReactionResponse => ({
+  id: reaction.id,
+  reactionType: reaction.reactionType,
+  creationDate: reaction.creationDate,
+  user: toUserDto(db.findUser(reaction.userId)!),
+  postId: reaction.postId
+});
+
+export const toFollowDto = (follow: FakeFollowRecord, db: FakeBackendDb): FollowResponse => {
+  const follower = db.findUser(follow.followerId)!;
+  const followed = db.findUser(follow.followedId)!;
+
+  return {
+    id: follow.id,
+    followerId: follower.id,
+    followerUsername: follower.username,
+    followerName: `${follower.firstName} ${follower.lastName}`,
+    followerProfilePicture: follower.profilePicture,
+    followedId: followed.id,
+    followedUsername: followed.username,
+    followedName: `${followed.firstName} ${followed.lastName}`,
+    followedProfilePicture: followed.profilePicture,
+    followDate: follow.followDate
+  };
+};
+
+export const toNotificationDto = ({ userId, ...notification }: FakeNotificationRecord): NotificationResponse =>
+  ({ ...notification });
+
+export const toReportDto = (report: FakeReportRecord, db: FakeBackendDb): ReportResponse => ({
+  id: report.id,
+  reason: report.reason,
+  description: report.description,
+  status: report.status,
+  reportDate: report.reportDate,
+  reviewDate: report.reviewDate,
+  reporter: toUserDto(db.findUser(report.reporterId)!),
+  post: {
+    id: report.postId,
+    content: report.postContent,
+    author: toUserDto(db.findUser(report.postAuthorId)!),
+    exists: !!db.findPost(report.postId)
+  }
+});
+
+export const toAdminActionDto = (action: FakeAdminActionRecord, db: FakeBackendDb): AdminActionResponse => {
+  const admin = db.findUser(action.adminId);
+  const affected = action.affectedUserId ? db.findUser(action.affectedUserId) : undefined;
+
+  return {
+    id: action.id,
+    adminUsername: admin?.username ?? 'desconocido',
+    adminFirstName: admin?.firstName ?? '',
+    adminLastName: admin?.lastName ?? '',
+    actionType: action.actionType,
+    title: action.title,
+    description: action.description,
+    entityId: action.entityId,
+    entityType: action.entityType,
+    affectedUserUsername: affected?.username,
+    affectedUserFirstName: affected?.firstName,
+    affectedUserLastName: affected?.lastName,
+    actionDate: action.actionDate
+  };
+};
+
+export const toChatMessageDto = (message: FakeChatMessageRecord, db: FakeBackendDb): ChatBotMessageResponse => ({
+  id: message.id,
+  content: message.content,
+  messageType: message.messageType,
+  creationDate: message.creationDate,
+  sessionId: message.sessionId,
+  user: toUserDto(db.findUser(message.userId)!),
+  chatBotName: FAKE_CHATBOT_NAME
+});
+
+export const toSessionDto = ({ userId, ...session }: FakeSessionRecord, currentSessionId: string | null): ActiveSession =>
+  ({ ...session, current: session.id === currentSessionId });
+
+export const toLoginAttemptDto = ({ userId, ...attempt }: FakeLoginAttemptRecord): LoginAttempt =>
+  ({ ...attempt });
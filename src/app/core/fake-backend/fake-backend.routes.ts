@@ -0,0 +1,1662 @@
+// FAKE BACKEND ROUTES: endpoints simulados (misma forma que la API de Spring)
+
+import {
+  AuthResponse,
+  ForgotPasswordRequest,
+  LoginMethod,
+  LoginResponse,
+  RefreshTokenRequest,
+  ResendVerificationRequest,
+  ResetPasswordRequest,
+  SsoExchangeRequest,
+  SsoLinkRequest,
+  TwoFactorChallengeResponse,
+  TwoFactorCodeRequest,
+  TwoFactorVerifyRequest,
+  UserLoginRequest,
+  VerifyEmailRequest
+} from '../../features/auth/models';
+import { DevIdpAuthorizeRequest } from '../../features/auth/data-access/dev-idp.service';
+import { ReportRequest, SecurityPolicy } from '../../features/admin/models';
+import { ChatBotMessageRequest } from '../../features/chatbot/data-access/chatbot.service';
+import { CommentRequest, FollowRequest, PostCreateRequest } from '../../features/user/models';
+import {
+  ActionType,
+  MessageType,
+  NotificationType,
+  PrivacyType,
+  ReactionType,
+  ReportStatus
+} from '../../shared/models/enums/enums';
+import { FAKE_ROLES, FakeBackendDb, FakePostRecord, FakeUserRecord } from './fake-backend.db';
+import {
+  FakeRequestContext,
+  FakeRoute,
+  canModerate,
+  createFakeToken,
+  fail,
+  failOnFieldErrors,
+  failTooManyRequests,
+  fakePermissionsFor,
+  isAdmin,
+  matchesQuery,
+  message,
+  ok,
+  paginate,
+  paginateList,
+  readBody,
+  requireUser,
+  sortBy
+} from './fake-backend.http';
+import {
+  FAKE_CHATBOT_NAME,
+  toAdminActionDto,
+  toChatMessageDto,
+  toCommentDto,
+  toFollowDto,
+  toNotificationDto,
+  toPostDto,
+  toReactionDto,
+  toLoginAttemptDto,
+  toReportDto,
+  toSessionDto,
+  toUserDto
+} from './fake-backend.mappers';
+import { FAKE_IDP_CLIENT_ID, FAKE_IDP_DIRECTORY, pkceChallenge } from './fake-backend.idp';
+import { generateRecoveryCodes, generateTotpSecret, totpAuthUrl, verifyTotp } from './fake-backend.totp';
+
+// UTILIDADES DE DOMINIO
+
+const now = (): string => new Date().toISOString();
+const today = (): string => now().split('T')[0];
+const idParam = (ctx: FakeRequestContext, index = 0): number => Number(ctx.params[index]);
+const fullName = (user: FakeUserRecord): string => `${user.firstName} ${user.lastName}`;
+
+/** Campos de usuario que puede traer el body (registro, edición y perfil) */
+type FakeUserBody = Partial<FakeUserRecord> & { roleName?: string };
+
+/** Campos de perfil que se pueden editar desde UserProfileRequest */
+const PROFILE_FIELDS = [
+  'birthDate', 'occupation', 'interests', 'website', 'location', 'socialMedia', 'education', 'company'
+] as const satisfies readonly (keyof FakeUserRecord)[];
+
+/** Campos básicos que se pueden editar desde UserUpdateRequest */
+const USER_FIELDS = [
+  'firstName', 'lastName', 'email', 'phone', 'profilePicture', 'address', 'biography', 'privacyType'
+] as const satisfies readonly (keyof FakeUserRecord)[];
+
+/**
+ * Emite un token de acceso y un refresh token nuevos para el usuario.
+ * Sin `sessionId` abre una sesión nueva (login); con él renueva la existente.
+ */
+const issueSession = (user: FakeUserRecord, db: FakeBackendDb, text: string, sessionId?: string): AuthResponse => {
+  const session = sessionId ?? db.openSession(user.id).id;
+  const refreshToken = crypto.randomUUID();
+  db.refreshTokens.set(refreshToken, { userId: user.id, sessionId: session });
+  return { token: createFakeToken(user, session), refreshToken, user: toUserDto(user), message: text };
+};
+
+/** Validez de un reto de segundo factor */
+const TWO_FACTOR_CHALLENGE_TTL = 5 * 60 * 1000;
+
+/** Códigos erróneos permitidos por reto antes de anularlo */
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+/** Emisor que muestran las apps de autenticación */
+const TOTP_ISSUER = 'Red Social';
+
+/**
+ * Crea un reto de segundo factor en lugar de emitir la sesión.
+ */
+const issueTwoFactorChallenge = (user: FakeUserRecord, db: FakeBackendDb, method: LoginMethod): TwoFactorChallengeResponse => {
+  const challengeToken = crypto.randomUUID();
+  const expiresAt = Date.now() + TWO_FACTOR_CHALLENGE_TTL;
+  db.twoFactorChallenges.set(challengeToken, { userId: user.id, method, expiresAt, attempts: 0 });
+  return {
+    twoFactorRequired: true,
+    challengeToken,
+    expiresAt: new Date(expiresAt).toISOString(),
+    message: 'Introduce el código de tu app de autenticación'
+  };
+};
+
+/**
+ * Inicia sesión tras validar las credenciales (contraseña o SSO):
+ * cuenta desactivada → 403; con 2FA → reto; si no → sesión.
+ * El intento queda en el historial de inicios de sesión de la cuenta.
+ */
+const startSession = (user: FakeUserRecord, db: FakeBackendDb, method: LoginMethod): LoginResponse => {
+  if (!user.active) {
+    db.recordLoginAttempt(user.id, method, 'ACCOUNT_DISABLED');
+    fail(403, 'Account disabled', 'AUTH_ACCOUNT_DISABLED');
+  }
+  if (user.twoFactorEnabled) {
+    return issueTwoFactorChallenge(user, db, method);
+  }
+
+  user.lastActivityDate = now();
+  db.recordLoginAttempt(user.id, method);
+  return issueSession(user, db, 'Login correcto');
+};
+
+/** Intentos que devuelve el historial de inicios de sesión */
+const LOGIN_HISTORY_LIMIT = 20;
+
+/** Validez de un código de autorización del IdP simulado */
+const SSO_CODE_TTL = 60 * 1000;
+
+/** Validez de una vinculación SSO pendiente */
+const SSO_LINK_TTL = 10 * 60 * 1000;
+
+/**
+ * Comprueba un código de la app de autenticación del usuario.
+ */
+const matchesTotp = (user: FakeUserRecord, code: unknown): boolean =>
+  !!user.twoFactorSecret && verifyTotp(user.twoFactorSecret, String(code ?? ''));
+
+/**
+ * Consume un código de recuperación (cada uno sirve una sola vez).
+ */
+const consumeRecoveryCode = (user: FakeUserRecord, code: unknown): boolean => {
+  const normalized = String(code ?? '').trim().toUpperCase().replace(/^(\w{4})-?(\w{4})$/, '$1-$2');
+  const index = (user.recoveryCodes ?? []).indexOf(normalized);
+  if (index < 0) return false;
+
+  user.recoveryCodes!.splice(index, 1);
+  return true;
+};
+
+/**
+ * Marca en cada usuario si la política le exige 2FA (se muestra en el perfil).
+ */
+const syncTwoFactorRequirement = (db: FakeBackendDb): void => {
+  db.users.forEach(user => user.twoFactorRequired = db.securityPolicy.requireTwoFactorForAdmins && isAdmin(user));
+};
+
+/** Solicitudes de restablecimiento permitidas por email dentro de la ventana */
+const RESET_REQUEST_LIMIT = 3;
+
+/** Ventana del límite de solicitudes de restablecimiento (ms) */
+const RESET_REQUEST_WINDOW = 15 * 60 * 1000;
+
+/** Validez del enlace de restablecimiento (ms) */
+const RESET_TOKEN_TTL = 30 * 60 * 1000;
+
+/**
+ * Token de restablecimiento vigente (400 si no existe o ya se usó, 410 si caducó).
+ */
+const findResetToken = (db: FakeBackendDb, token: string | null | undefined): { userId: number; expiresAt: number } => {
+  const entry = (token ? db.passwordResetTokens.get(token) : undefined)
+    ?? fail(400, 'Reset token inválido', 'AUTH_RESET_TOKEN_INVALID');
+
+  if (entry.expiresAt <= Date.now()) {
+    fail(410, 'Reset token caducado', 'AUTH_RESET_TOKEN_EXPIRED');
+  }
+  return entry;
+};
+
+/** Validez del enlace de verificación de email (ms) */
+const VERIFICATION_TOKEN_TTL = 24 * 60 * 60 * 1000;
+
+/** Espera mínima entre dos envíos del email de verificación (ms) */
+const VERIFICATION_RESEND_COOLDOWN = 60 * 1000;
+
+/**
+ * Emite un token de verificación para el email actual del usuario (anula los anteriores).
+ */
+const sendVerificationEmail = (db: FakeBackendDb, user: FakeUserRecord): void => {
+  db.emailVerificationTokens.forEach((entry, token) => {
+    if (entry.userId === user.id) {
+      db.emailVerificationTokens.delete(token);
+    }
+  });
+
+  const token = crypto.randomUUID();
+  db.emailVerificationTokens.set(token, { userId: user.id, expiresAt: Date.now() + VERIFICATION_TOKEN_TTL });
+  db.emailVerificationSentAt.set(user.id, Date.now());
+  // No hay servidor de correo: el enlace del email se muestra en la consola
+  console.info(`[fake-backend] Enlace de verificación para ${user.email}: /auth/verify?token=${token}`);
+};
+
+/**
+ * Token de verificación vigente (400 si no existe o ya se usó, 410 si caducó).
+ */
+const findVerificationToken = (db: FakeBackendDb, token: string | null | undefined): { userId: number; expiresAt: number } => {
+  const entry = (token ? db.emailVerificationTokens.get(token) : undefined)
+    ?? fail(400, 'Verification token inválido', 'AUTH_VERIFICATION_TOKEN_INVALID');
+
+  if (entry.expiresAt <= Date.now()) {
+    fail(410, 'Verification token caducado', 'AUTH_VERIFICATION_TOKEN_EXPIRED');
+  }
+  return entry;
+};
+
+const findUserOr404 = (db: FakeBackendDb, id: number): FakeUserRecord =>
+  db.findUser(id) ?? fail(404, 'User not found', 'USER_NOT_FOUND');
+
+const findPostOr404 = (db: FakeBackendDb, id: number): FakePostRecord =>
+  db.findPost(id) ?? fail(404, 'Publicación no encontrada', 'POST_NOT_FOUND');
+
+/**
+ * Comprueba que username y email no estén en uso por otro usuario.
+ */
+const ensureUnique = (db: FakeBackendDb, username?: string, email?: string, exceptId?: number): void => {
+  const taken = db.users.find(user => user.id !== exceptId &&
+    (user.username === username || (!!email && user.email === email)));
+
+  if (taken?.username === username) {
+    fail(409, 'Username already exists', 'USER_USERNAME_TAKEN');
+  }
+  if (taken) {
+    fail(409, 'Email already exists', 'USER_EMAIL_TAKEN');
+  }
+};
+
+/**
+ * Validación de los datos de usuario (mismas reglas que las anotaciones del backend).
+ * Con `partial` solo se validan los campos presentes en el body.
+ */
+const validateUserFields = (body: FakeUserBody, partial: boolean): void => {
+  const errors: Record<string, string> = {};
+  const check = (field: keyof FakeUserBody, valid: (value: string) => boolean, text: string) => {
+    const value = body[field];
+    if ((value !== undefined || !partial) && !valid(String(value ?? '').trim())) {
+      errors[field] = text;
+    }
+  };
+
+  check('username', value => /^[\w.]{3,30}$/.test(value),
+    'Entre 3 y 30 caracteres: letras, números, punto o guion bajo');
+  check('email', value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value), 'El email no tiene un formato válido');
+  check('firstName', value => value.length >= 2, 'El nombre debe tener al menos 2 caracteres');
+  check('lastName', value => value.length >= 2, 'El apellido debe tener al menos 2 caracteres');
+  if (!partial) {
+    check('password', value => value.length >= 6, 'La contraseña debe tener al menos 6 caracteres');
+  }
+
+  failOnFieldErrors(errors);
+};
+
+/**
+ * Copia al usuario los campos permitidos presentes en el body.
+ */
+const applyFields = <K extends keyof FakeUserRecord>(user: FakeUserRecord, body: Partial<FakeUserRecord>, fields: readonly K[]): void => {
+  fields.forEach(field => {
+    const value = body[field];
+    if (value !== undefined) {
+      user[field] = value;
+    }
+  });
+};
+
+/**
+ * Un post es visible para su autor, para admins, si es público o si el lector sigue al autor.
+ */
+const canViewPost = (post: FakePostRecord, viewer: FakeUserRecord, db: FakeBackendDb): boolean =>
+  post.authorId === viewer.id ||
+  isAdmin(viewer) ||
+  post.privacyType === PrivacyType.PUBLIC ||
+  db.isFollowing(viewer.id, post.authorId);
+
+/**
+ * Filtra por privacidad, ordena y pagina una lista de posts.
+ */
+const postPage = (posts: FakePostRecord[], ctx: FakeRequestContext) => {
+  const privacy = ctx.query.get('privacy')?.toUpperCase();
+  const filtered = posts.filter(post => !privacy || post.privacyType === privacy);
+  const dtos = filtered.map(post => toPostDto(post, ctx.db));
+
+  const sorted = sortBy(dtos, ctx.query.get('sort') ?? 'creationDate,desc', (post, field) => {
+    switch (field) {
+      case 'reactionCount': return post.likeCount ?? 0;
+      case 'commentCount': return post.commentCount ?? 0;
+      default: return post.creationDate;
+    }
+  });
+
+  return paginateList(sorted, ctx.query);
+};
+
+/**
+ * Ordena usuarios con los valores de UserListParams.sort.
+ */
+const sortUsers = (users: FakeUserRecord[], sort: string | null): FakeUserRecord[] => {
+  switch (sort) {
+    case 'oldest': return sortBy(users, 'registrationDate,asc', user => user.registrationDate);
+    case 'name': return sortBy(users, 'name,asc', user => fullName(user).toLowerCase());
+    case 'email': return sortBy(users, 'email,asc', user => user.email);
+    default: return sortBy(users, 'registrationDate,desc', user => user.registrationDate);
+  }
+};
+
+/**
+ * Elimina un usuario y todo su contenido.
+ */
+const removeUser = (db: FakeBackendDb, id: number): void => {
+  const postIds = new Set(db.posts.filter(p => p.authorId === id).map(p => p.id));
+
+  db.users = db.users.filter(u => u.id !== id);
+  db.posts = db.posts.filter(p => p.authorId !== id);
+  db.comments = db.comments.filter(c => c.authorId !== id && !postIds.has(c.postId));
+  db.reactions = db.reactions.filter(r => r.userId !== id && !postIds.has(r.postId));
+  db.follows = db.follows.filter(f => f.followerId !== id && f.followedId !== id);
+  db.notifications = db.notifications.filter(n => n.userId !== id);
+  db.reports = db.reports.filter(r => r.reporterId !== id && r.postAuthorId !== id);
+  db.chatMessages = db.chatMessages.filter(m => m.userId !== id);
+  db.loginHistory = db.loginHistory.filter(a => a.userId !== id);
+  db.revokeSessions(s => s.userId === id);
+};
+
+/**
+ * Elimina un post con sus comentarios y reacciones.
+ */
+const removePost = (db: FakeBackendDb, id: number): void => {
+  db.posts = db.posts.filter(p => p.id !== id);
+  db.comments = db.comments.filter(c => c.postId !== id);
+  db.reactions = db.reactions.filter(r => r.postId !== id);
+};
+
+/**
+ * Actualización administrativa de un usuario (compartida por /auth/admin/user y /users/{id}/admin).
+ * Si el admin cambia su propio username se emite un token nuevo.
+ */
+const adminUpdateUser = (ctx: FakeRequestContext, id: number) => {
+  const admin = requireUser(ctx);
+  const user = findUserOr404(ctx.db, id);
+  const body = readBody<FakeUserBody>(ctx);
+
+  validateUserFields(body, true);
+  ensureUnique(ctx.db, body.username ?? user.username, body.email, user.id);
+
+  const usernameChanged = !!body.username && body.username !== user.username;
+  applyFields(user, body, ['username', ...USER_FIELDS]);
+
+  if (body.roleName) {
+    const role = FAKE_ROLES[body.roleName as keyof typeof FAKE_ROLES] ?? fail(400, `Rol desconocido: ${body.roleName}`);
+    if (user.id === admin.id && role.name !== 'ADMIN') {
+      fail(400, 'No puedes quitarte el rol de administrador', 'USER_SELF_ACTION_FORBIDDEN');
+    }
+    user.role = role;
+    syncTwoFactorRequirement(ctx.db);
+  }
+
+  ctx.db.logAdminAction({
+    adminId: admin.id,
+    actionType: ActionType.UPDATE_USER,
+    title: 'Usuario actualizado',
+    description: `Datos de ${user.username} actualizados`,
+    entityId: user.id,
+    entityType: 'USER',
+    affectedUserId: user.id
+  });
+
+  if (user.id === admin.id && usernameChanged) {
+    return ok(issueSession(user, ctx.db, 'Usuario actualizado', ctx.currentSessionId ?? undefined));
+  }
+
+  return ok({ user: toUserDto(user), message: 'Usuario actualizado' });
+};
+
+/**
+ * Cambia el estado de un reporte y registra la acción.
+ * Resolver un reporte elimina la publicación reportada.
+ */
+const reviewReport = (ctx: FakeRequestContext, status: ReportStatus.RESOLVED | ReportStatus.REJECTED) => {
+  const reviewer = requireUser(ctx);
+  const report = ctx.db.reports.find(r => r.id === idParam(ctx)) ?? fail(404, 'Reporte no encontrado');
+
+  if (report.status !== ReportStatus.PENDING) {
+    fail(409, 'El reporte ya ha sido revisado', 'REPORT_ALREADY_REVIEWED');
+  }
+
+  report.status = status;
+  report.reviewDate = today();
+
+  const resolved = status === ReportStatus.RESOLVED;
+  if (resolved) {
+    removePost(ctx.db, report.postId);
+  }
+
+  ctx.db.logAdminAction({
+    adminId: reviewer.id,
+    actionType: resolved ? ActionType.RESOLVE_REPORT : ActionType.REJECT_REPORT,
+    title: resolved ? 'Reporte resuelto' : 'Reporte rechazado',
+    description: readBody<{ reason: string }>(ctx).reason || (resolved ? 'Publicación eliminada' : 'El contenido no incumple las normas'),
+    entityId: report.id,
+    entityType: 'REPORT',
+    affectedUserId: report.postAuthorId
+  });
+
+  ctx.db.notify(report.reporterId, reviewer.id, {
+    title: resolved ? 'Reporte resuelto' : 'Reporte rechazado',
+    message: resolved
+      ? 'Hemos eliminado la publicación que reportaste'
+      : 'Hemos revisado tu reporte y la publicación no incumple las normas',
+    notificationType: NotificationType.REPORT,
+    referenciaId: report.id,
+    referenciaTabla: 'reports'
+  });
+
+  return message(resolved ? 'Reporte resuelto' : 'Reporte rechazado');
+};
+
+/**
+ * Respuesta del asistente simulado.
+ */
+const chatbotReply = (text: string): string => {
+  const lower = text.toLowerCase();
+
+  if (lower.includes('hola')) {
+    return `¡Hola! Soy ${FAKE_CHATBOT_NAME}, el asistente de MindHub. ¿En qué te ayudo?`;
+  }
+  if (lower.includes('publica') || lower.includes('post')) {
+    return 'Puedes crear una publicación desde el botón "Crear publicación" del feed.';
+  }
+  if (lower.includes('seguir') || lower.includes('seguidores')) {
+    return 'Busca a otros usuarios desde el buscador y pulsa "Seguir" en su perfil.';
+  }
+  return 'Estoy funcionando en modo de demostración, así que mis respuestas son limitadas.';
+};
+
+// RUTAS
+
+export const FAKE_ROUTES: FakeRoute[] = [
+
+  // AUTH
+
+  {
+    method: 'POST', path: /^\/auth\/login$/, access: 'public',
+    handle: ctx => {
+      const { username, password } = readBody<UserLoginRequest>(ctx);
+      const user = ctx.db.users.find(u => u.username === username || u.email === username);
+
+      if (!user || user.password !== password) {
+        if (user) {
+          ctx.db.recordLoginAttempt(user.id, 'PASSWORD', 'INVALID_CREDENTIALS');
+        }
+        fail(401, 'Invalid credentials', 'AUTH_INVALID_CREDENTIALS');
+      }
+
+      return ok(startSession(user!, ctx.db, 'PASSWORD'));
+    }
+  },
+  {
+    method: 'POST', path: /^\/auth\/sso\/exchange$/, access: 'public',
+    handle: ctx => {
+      const { code = '', codeVerifier, redirectUri } = readBody<SsoExchangeRequest>(ctx);
+      const grant = ctx.db.ssoAuthorizationCodes.get(code);
+      // Cada código se canjea una sola vez, también si el canje falla
+      ctx.db.ssoAuthorizationCodes.delete(code);
+
+      if (!grant || grant.expiresAt < Date.now() || grant.redirectUri !== redirectUri
+        || typeof codeVerifier !== 'string' || pkceChallenge(codeVerifier) !== grant.codeChallenge) {
+        fail(400, 'Invalid authorization code', 'AUTH_SSO_CODE_INVALID');
+      }
+
+      const { identity } = grant!;
+      const linked = ctx.db.users.find(u => u.ssoSubject === identity.sub);
+      if (linked) {
+        return ok(startSession(linked, ctx.db, 'SSO'));
+      }
+
+      // Cuenta existente con el mismo username o email: el usuario confirma que es suya
+      const existing = ctx.db.users.find(u =>
+        u.username === identity.preferredUsername || u.email.toLowerCase() === identity.email.toLowerCase()
+      );
+      if (existing) {
+        const linkToken = crypto.randomUUID();
+        ctx.db.ssoLinkTokens.set(linkToken, { identity, userId: existing.id, expiresAt: Date.now() + SSO_LINK_TTL });
+        return ok({
+          linkRequired: true,
+          linkToken,
+          username: existing.username,
+          email: existing.email,
+          message: 'Confirma tu contraseña para vincular la cuenta'
+        });
+      }
+
+      // Primera entrada: se crea la cuenta con los datos del IdP (email ya verificado por el IdP)
+      const user: FakeUserRecord = {
+        id: ctx.db.nextId(),
+        username: identity.preferredUsername,
+        password: crypto.randomUUID(),
+        firstName: identity.givenName,
+        lastName: identity.familyName,
+        email: identity.email,
+        emailVerified: true,
+        ssoSubject: identity.sub,
+        role: FAKE_ROLES.USER,
+        privacyType: PrivacyType.PUBLIC,
+        active: true,
+        registrationDate: now(),
+        lastActivityDate: now()
+      };
+      ctx.db.users.push(user);
+      return ok(startSession(user, ctx.db, 'SSO'));
+    }
+  },
+  {
+    method: 'POST', path: /^\/auth\/sso\/link$/, access: 'public',
+    handle: ctx => {
+      const { linkToken = '', password } = readBody<SsoLinkRequest>(ctx);
+      const pending = ctx.db.ssoLinkTokens.get(linkToken);
+
+      if (!pending || pending.expiresAt < Date.now()) {
+        ctx.db.ssoLinkTokens.delete(linkToken);
+        fail(401, 'SSO link expired', 'AUTH_SSO_LINK_EXPIRED');
+      }
+
+      const user = findUserOr404(ctx.db, pending!.userId);
+      if (user.password !== password) {
+        ctx.db.recordLoginAttempt(user.id, 'SSO', 'INVALID_CREDENTIALS');
+        fail(401, 'Invalid credentials', 'AUTH_INVALID_CREDENTIALS');
+      }
+
+      ctx.db.ssoLinkTokens.delete(linkToken);
+      user.ssoSubject = pending!.identity.sub;
+      return ok(startSession(user, ctx.db, 'SSO'));
+    }
+  },
+  {
+    method: 'POST', path: /^\/auth\/2fa\/verify$/, access: 'public',
+    handle: ctx => {
+      const { challengeToken = '', code, recoveryCode } = readBody<TwoFactorVerifyRequest>(ctx);
+      const challenge = ctx.db.twoFactorChallenges.get(challengeToken);
+
+      if (!challenge || challenge.expiresAt < Date.now() || challenge.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+        ctx.db.twoFactorChallenges.delete(challengeToken);
+        fail(401, 'Two-factor challenge expired', 'AUTH_TWO_FACTOR_CHALLENGE_EXPIRED');
+      }
+
+      const user = findUserOr404(ctx.db, challenge!.userId);
+      const valid = recoveryCode ? consumeRecoveryCode(user, recoveryCode) : matchesTotp(user, code);
+
+      if (!valid) {
+        challenge!.attempts++;
+        ctx.db.recordLoginAttempt(user.id, challenge!.method, 'INVALID_TWO_FACTOR_CODE');
+        fail(401, 'Invalid two-factor code', 'AUTH_TWO_FACTOR_INVALID_CODE');
+      }
+
+      ctx.db.twoFactorChallenges.delete(challengeToken);
+      user.lastActivityDate = now();
+      ctx.db.recordLoginAttempt(user.id, challenge!.method);
+      return ok(issueSession(user, ctx.db, 'Login correcto'));
+    }
+  },
+  {
+    method: 'POST', path: /^\/auth\/2fa\/setup$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      if (user.twoFactorEnabled) {
+        fail(409, 'La verificación en dos pasos ya está activada');
+      }
+
+      user.pendingTwoFactorSecret = generateTotpSecret();
+      return ok({
+        secret: user.pendingTwoFactorSecret,
+        otpauthUrl: totpAuthUrl(TOTP_ISSUER, user.email, user.pendingTwoFactorSecret)
+      });
+    }
+  },
+  {
+    method: 'POST', path: /^\/auth\/2fa\/enable$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const secret = user.pendingTwoFactorSecret ?? fail(400, 'Inicia primero la configuración');
+
+      const { code } = readBody<TwoFactorCodeRequest>(ctx);
+      failOnFieldErrors(verifyTotp(secret, String(code ?? '')) ? {} : { code: 'El código no es correcto' });
+
+      user.twoFactorSecret = secret;
+      user.pendingTwoFactorSecret = undefined;
+      user.twoFactorEnabled = true;
+      user.recoveryCodes = generateRecoveryCodes();
+      return ok({ recoveryCodes: [...user.recoveryCodes], user: toUserDto(user) });
+    }
+  },
+  {
+    method: 'POST', path: /^\/auth\/2fa\/disable$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      if (user.twoFactorRequired) {
+        fail(403, 'Two-factor required by policy', 'AUTH_TWO_FACTOR_REQUIRED');
+      }
+      const { code } = readBody<TwoFactorCodeRequest>(ctx);
+      if (!matchesTotp(user, code) && !consumeRecoveryCode(user, code)) {
+        fail(400, 'Invalid two-factor code', 'AUTH_TWO_FACTOR_INVALID_CODE');
+      }
+
+      user.twoFactorSecret = undefined;
+      user.recoveryCodes = undefined;
+      user.twoFactorEnabled = false;
+      return ok(toUserDto(user));
+    }
+  },
+  {
+    method: 'POST', path: /^\/auth\/2fa\/recovery-codes$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      if (!user.twoFactorEnabled) {
+        fail(400, 'La verificación en dos pasos no está activada');
+      }
+      if (!matchesTotp(user, readBody<TwoFactorCodeRequest>(ctx).code)) {
+        fail(400, 'Invalid two-factor code', 'AUTH_TWO_FACTOR_INVALID_CODE');
+      }
+
+      user.recoveryCodes = generateRecoveryCodes();
+      return ok({ recoveryCodes: [...user.recoveryCodes], user: toUserDto(user) });
+    }
+  },
+  {
+    method: 'POST', path: /^\/auth\/register$/, access: 'public',
+    handle: ctx => {
+      const body = readBody<FakeUserBody>(ctx);
+      validateUserFields(body, false);
+      ensureUnique(ctx.db, body.username, body.email);
+
+      const user: FakeUserRecord = {
+        id: ctx.db.nextId(),
+        username: body.username ?? '',
+        password: body.password ?? '',
+        firstName: body.firstName ?? '',
+        lastName: body.lastName ?? '',
+        email: body.email ?? '',
+        role: FAKE_ROLES.USER,
+        privacyType: body.privacyType ?? PrivacyType.PUBLIC,
+        active: true,
+        emailVerified: false,
+        registrationDate: now(),
+        lastActivityDate: now()
+      };
+      applyFields(user, body, ['phone', 'profilePicture', 'address', 'biography']);
+      ctx.db.users.push(user);
+      sendVerificationEmail(ctx.db, user);
+
+      return ok(toUserDto(user), 201);
+    }
+  },
+  {
+    method: 'POST', path: /^\/auth\/refresh$/, access: 'public',
+    handle: ctx => {
+      const { refreshToken = '' } = readBody<RefreshTokenRequest>(ctx);
+      const entry = ctx.db.refreshTokens.get(refreshToken);
+      const user = entry ? ctx.db.findUser(entry.userId) : undefined;
+
+      if (!user || !user.active) {
+        fail(401, 'Refresh token inválido o caducado', 'AUTH_TOKEN_INVALID');
+      }
+
+      // Rotación: cada refresh token solo se usa una vez (la sesión sigue siendo la misma)
+      ctx.db.refreshTokens.delete(refreshToken);
+      return ok(issueSession(user!, ctx.db, 'Token renovado', entry!.sessionId));
+    }
+  },
+  {
+    method: 'POST', path: /^\/auth\/forgot-password$/, access: 'public',
+    handle: ctx => {
+      const email = String(readBody<ForgotPasswordRequest>(ctx).email ?? '').trim().toLowerCase();
+      failOnFieldErrors(/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? {} : { email: 'El email no tiene un formato válido' });
+
+      // Límite por email: pasada la cuota, 429 hasta que caduque la solicitud más antigua
+      const since = Date.now() - RESET_REQUEST_WINDOW;
+      const recent = (ctx.db.passwordResetRequests.get(email) ?? []).filter(time => time > since);
+      if (recent.length >= RESET_REQUEST_LIMIT) {
+        failTooManyRequests(Math.ceil((recent[0] + RESET_REQUEST_WINDOW - Date.now()) / 1000));
+      }
+      ctx.db.passwordResetRequests.set(email, [...recent, Date.now()]);
+
+      const user = ctx.db.users.find(u => u.email.toLowerCase() === email && u.active);
+      if (user) {
+        const token = crypto.randomUUID();
+        ctx.db.passwordResetTokens.set(token, { userId: user.id, expiresAt: Date.now() + RESET_TOKEN_TTL });
+        // No hay servidor de correo: el enlace del email se muestra en la consola
+        console.info(`[fake-backend] Enlace de restablecimiento para ${user.email}: /auth/reset-password?token=${token}`);
+      }
+
+      // La respuesta es la misma exista o no la cuenta
+      return message('Si el email está registrado, recibirás un enlace para restablecer la contraseña');
+    }
+  },
+  {
+    method: 'GET', path: /^\/auth\/reset-password\/validate$/, access: 'public',
+    handle: ctx => {
+      const entry = findResetToken(ctx.db, ctx.query.get('token'));
+      return ok({ valid: true, expiresAt: new Date(entry.expiresAt).toISOString() });
+    }
+  },
+  {
+    method: 'POST', path: /^\/auth\/reset-password$/, access: 'public',
+    handle: ctx => {
+      const { token, newPassword = '' } = readBody<ResetPasswordRequest>(ctx);
+      const entry = findResetToken(ctx.db, token);
+      failOnFieldErrors(String(newPassword).length >= 6
+        ? {}
+        : { newPassword: 'La contraseña debe tener al menos 6 caracteres' });
+
+      const user = findUserOr404(ctx.db, entry.userId);
+      user.password = newPassword;
+      ctx.db.passwordResetTokens.delete(token!);
+
+      // Cambiar la contraseña cierra las sesiones abiertas
+      ctx.db.revokeSessions(s => s.userId === user.id);
+
+      return message('Contraseña actualizada');
+    }
+  },
+  {
+    method: 'POST', path: /^\/auth\/verify-email$/, access: 'public',
+    handle: ctx => {
+      const { token } = readBody<VerifyEmailRequest>(ctx);
+      const user = findUserOr404(ctx.db, findVerificationToken(ctx.db, token).userId);
+
+      user.emailVerified = true;
+      ctx.db.emailVerificationTokens.delete(token!);
+      return ok(toUserDto(user));
+    }
+  },
+  {
+    method: 'POST', path: /^\/auth\/verify-email\/resend$/, access: 'public',
+    handle: ctx => {
+      const email = String(readBody<ResendVerificationRequest>(ctx).email ?? '').trim().toLowerCase();
+      failOnFieldErrors(/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? {} : { email: 'El email no tiene un formato válido' });
+
+      const user = ctx.db.users.find(u => u.email.toLowerCase() === email);
+      if (user && user.emailVerified === false) {
+        const elapsed = Date.now() - (ctx.db.emailVerificationSentAt.get(user.id) ?? 0);
+        if (elapsed < VERIFICATION_RESEND_COOLDOWN) {
+          failTooManyRequests(Math.ceil((VERIFICATION_RESEND_COOLDOWN - elapsed) / 1000));
+        }
+        sendVerificationEmail(ctx.db, user);
+      }
+
+      // La respuesta es la misma exista o no la cuenta
+      return message('Si la cuenta está pendiente de verificar, recibirás un nuevo enlace');
+    }
+  },
+  {
+    method: 'PUT', path: /^\/auth\/user$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const body = readBody<FakeUserBody>(ctx);
+      validateUserFields(body, true);
+      ensureUnique(ctx.db, user.username, body.email, user.id);
+
+      const previousEmail = user.email;
+      applyFields(user, body, USER_FIELDS);
+      // Un email nuevo hay que volver a verificarlo
+      if (user.email !== previousEmail) {
+        user.emailVerified = false;
+        sendVerificationEmail(ctx.db, user);
+      }
+      return ok(toUserDto(user));
+    }
+  },
+  {
+    method: 'PUT', path: /^\/auth\/user\/profile$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      applyFields(user, readBody<FakeUserBody>(ctx), PROFILE_FIELDS);
+      return ok(toUserDto(user));
+    }
+  },
+  {
+    method: 'PUT', path: /^\/auth\/admin\/user\/(\d+)$/, access: 'admin',
+    handle: ctx => adminUpdateUser(ctx, idParam(ctx))
+  },
+  {
+    method: 'GET', path: /^\/auth\/sessions$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const sessions = ctx.db.sessions
+        .filter(s => s.userId === user.id)
+        .map(s => toSessionDto(s, ctx.currentSessionId))
+        .sort((a, b) => Number(b.current) - Number(a.current) || b.lastSeenAt.localeCompare(a.lastSeenAt));
+      return ok(sessions);
+    }
+  },
+  {
+    method: 'DELETE', path: /^\/auth\/sessions$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const revoked = ctx.db.revokeSessions(s => s.userId === user.id && s.id !== ctx.currentSessionId);
+      return message(revoked === 1 ? 'Se ha cerrado 1 sesión' : `Se han cerrado ${revoked} sesiones`);
+    }
+  },
+  {
+    method: 'DELETE', path: /^\/auth\/sessions\/([\w-]+)$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const id = ctx.params[0];
+      if (!ctx.db.sessions.some(s => s.id === id && s.userId === user.id)) {
+        fail(404, 'Sesión no encontrada');
+      }
+
+      ctx.db.revokeSessions(s => s.id === id);
+      return message('Sesión cerrada');
+    }
+  },
+  {
+    method: 'GET', path: /^\/auth\/login-history$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const attempts = ctx.db.loginHistory
+        .filter(a => a.userId === user.id)
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .slice(0, LOGIN_HISTORY_LIMIT)
+        .map(toLoginAttemptDto);
+      return ok(attempts);
+    }
+  },
+
+  // USERS
+
+  {
+    method: 'GET', path: /^\/users\/me$/, access: 'user',
+    handle: ctx => ok(toUserDto(requireUser(ctx)))
+  },
+  {
+    method: 'PUT', path: /^\/users\/me$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const body = readBody<FakeUserBody>(ctx);
+      validateUserFields(body, true);
+      ensureUnique(ctx.db, user.username, body.email, user.id);
+      applyFields(user, body, USER_FIELDS);
+      return ok(toUserDto(user));
+    }
+  },
+  {
+    method: 'DELETE', path: /^\/users\/me$/, access: 'user',
+    handle: ctx => {
+      removeUser(ctx.db, requireUser(ctx).id);
+      return message('Cuenta eliminada');
+    }
+  },
+  {
+    method: 'GET', path: /^\/users\/me\/permissions$/, access: 'user',
+    handle: ctx => ok({ permissions: fakePermissionsFor(requireUser(ctx)) })
+  },
+  {
+    method: 'GET', path: /^\/users\/me\/profile$/, access: 'user',
+    handle: ctx => ok(toUserDto(requireUser(ctx)))
+  },
+  {
+    method: 'PUT', path: /^\/users\/me\/profile$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      applyFields(user, readBody<FakeUserBody>(ctx), PROFILE_FIELDS);
+      return ok(toUserDto(user));
+    }
+  },
+  {
+    method: 'GET', path: /^\/users\/search$/, access: 'user',
+    handle: ctx => {
+      const current = requireUser(ctx);
+      const query = ctx.query.get('query');
+      const privacy = ctx.query.get('privacyType');
+
+      const users = ctx.db.users
+        .filter(u => u.id !== current.id && u.active)
+        .filter(u => !privacy || u.privacyType === privacy)
+        .filter(u => matchesQuery(query, u.username, u.firstName, u.lastName, fullName(u)))
+        .map(toUserDto);
+
+      return ok({ ...paginate(users, ctx.query), query: query ?? '' });
+    }
+  },
+  {
+    method: 'GET', path: /^\/users$/, access: 'admin',
+    handle: ctx => {
+      const privacy = ctx.query.get('privacyType');
+      const active = ctx.query.get('active');
+
+      const users = ctx.db.users
+        .filter(u => !privacy || u.privacyType === privacy)
+        .filter(u => active === null || String(u.active) === active);
+
+      return ok(paginate(sortUsers(users, ctx.query.get('sort')).map(toUserDto), ctx.query));
+    }
+  },
+  {
+    method: 'GET', path: /^\/users\/admins\/count$/, access: 'admin',
+    handle: ctx => ok(ctx.db.users.filter(u => isAdmin(u) && u.active).length)
+  },
+  {
+    method: 'POST', path: /^\/users\/admin$/, access: 'admin',
+    handle: ctx => {
+      const admin = requireUser(ctx);
+      const body = readBody<FakeUserBody>(ctx);
+      ensureUnique(ctx.db, body.username, body.email);
+
+      const user: FakeUserRecord = {
+        id: ctx.db.nextId(),
+        username: body.username ?? '',
+        password: body.password ?? '',
+        firstName: body.firstName ?? '',
+        lastName: body.lastName ?? '',
+        email: body.email ?? '',
+        role: FAKE_ROLES.ADMIN,
+        privacyType: body.privacyType ?? PrivacyType.PUBLIC,
+        active: true,
+        registrationDate: now(),
+        lastActivityDate: now()
+      };
+      ctx.db.users.push(user);
+      syncTwoFactorRequirement(ctx.db);
+
+      ctx.db.logAdminAction({
+        adminId: admin.id,
+        actionType: ActionType.CREATE_ADMIN,
+        title: 'Administrador creado',
+        description: `Nueva cuenta de administrador: ${user.username}`,
+        entityId: user.id,
+        entityType: 'USER',
+        affectedUserId: user.id
+      });
+
+      return ok(toUserDto(user), 201);
+    }
+  },
+  {
+    method: 'GET', path: /^\/users\/(\d+)$/, access: 'user',
+    handle: ctx => ok(toUserDto(findUserOr404(ctx.db, idParam(ctx))))
+  },
+  {
+    method: 'PUT', path: /^\/users\/(\d+)$/, access: 'user',
+    handle: ctx => {
+      const current = requireUser(ctx);
+      const user = findUserOr404(ctx.db, idParam(ctx));
+
+      if (user.id !== current.id && !isAdmin(current)) {
+        fail(403, 'No puedes modificar a otro usuario');
+      }
+
+      const body = readBody<FakeUserBody>(ctx);
+      ensureUnique(ctx.db, user.username, body.email, user.id);
+      applyFields(user, body, USER_FIELDS);
+      return ok(toUserDto(user));
+    }
+  },
+  {
+    method: 'PUT', path: /^\/users\/(\d+)\/admin$/, access: 'admin',
+    handle: ctx => adminUpdateUser(ctx, idParam(ctx))
+  },
+  {
+    method: 'DELETE', path: /^\/users\/(\d+)$/, access: 'admin',
+    handle: ctx => {
+      const admin = requireUser(ctx);
+      const user = findUserOr404(ctx.db, idParam(ctx));
+
+      if (isAdmin(user) && ctx.db.users.filter(u => isAdmin(u) && u.active).length <= 1) {
+        fail(409, 'No se puede eliminar al último administrador', 'USER_LAST_ADMIN');
+      }
+
+      removeUser(ctx.db, user.id);
+      ctx.db.logAdminAction({
+        adminId: admin.id,
+        actionType: isAdmin(user) ? ActionType.DELETE_ADMIN : ActionType.DELETE_USER,
+        title: 'Usuario eliminado',
+        description: `Cuenta ${user.username} eliminada`,
+        entityId: user.id,
+        entityType: 'USER'
+      });
+
+      return message('Usuario eliminado');
+    }
+  },
+  {
+    method: 'PUT', path: /^\/users\/(\d+)\/(activate|deactivate)$/, access: 'admin',
+    handle: ctx => {
+      const admin = requireUser(ctx);
+      const user = findUserOr404(ctx.db, idParam(ctx));
+      const activate = ctx.params[1] === 'activate';
+
+      if (!activate && user.id === admin.id) {
+        fail(400, 'No puedes desactivar tu propia cuenta', 'USER_SELF_ACTION_FORBIDDEN');
+      }
+
+      user.active = activate;
+      ctx.db.logAdminAction({
+        adminId: admin.id,
+        actionType: activate ? ActionType.ACTIVATE_USER : ActionType.DEACTIVATE_USER,
+        title: activate ? 'Usuario activado' : 'Usuario desactivado',
+        description: `Cuenta ${user.username} ${activate ? 'activada' : 'desactivada'}`,
+        entityId: user.id,
+        entityType: 'USER',
+        affectedUserId: user.id
+      });
+
+      return message(activate ? 'Usuario activado' : 'Usuario desactivado');
+    }
+  },
+
+  // POSTS
+
+  {
+    method: 'POST', path: /^\/posts$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      if (user.emailVerified === false) {
+        fail(403, 'Email pendiente de verificar', 'AUTH_EMAIL_NOT_VERIFIED');
+      }
+      const body = readBody<PostCreateRequest>(ctx);
+      const content = body.content?.trim();
+      if (!content) {
+        fail(400, 'El contenido es obligatorio', 'POST_CONTENT_REQUIRED');
+      }
+      if (body.imageUrl && !/^https?:\/\/\S+$/.test(body.imageUrl)) {
+        failOnFieldErrors({ imageUrl: 'La URL de la imagen debe empezar por http:// o https://' });
+      }
+
+      const post: FakePostRecord = {
+        id: ctx.db.nextId(),
+        authorId: user.id,
+        content: content!,
+        imageUrl: body.imageUrl,
+        privacyType: body.privacyType ?? PrivacyType.PUBLIC,
+        creationDate: now()
+      };
+      ctx.db.posts.push(post);
+
+      return ok(toPostDto(post, ctx.db), 201);
+    }
+  },
+  {
+    method: 'GET', path: /^\/posts$/, access: 'user',
+    handle: ctx => {
+      const viewer = requireUser(ctx);
+      return ok(postPage(ctx.db.posts.filter(p => canViewPost(p, viewer, ctx.db)), ctx));
+    }
+  },
+  {
+    method: 'GET', path: /^\/posts\/feed$/, access: 'user',
+    handle: ctx => {
+      const viewer = requireUser(ctx);
+      const posts = ctx.db.posts.filter(p =>
+        p.authorId === viewer.id || ctx.db.isFollowing(viewer.id, p.authorId));
+      return ok(postPage(posts, ctx));
+    }
+  },
+  {
+    method: 'GET', path: /^\/posts\/me$/, access: 'user',
+    handle: ctx => {
+      const viewer = requireUser(ctx);
+      return ok(postPage(ctx.db.posts.filter(p => p.authorId === viewer.id), ctx));
+    }
+  },
+  {
+    method: 'GET', path: /^\/posts\/user\/(\d+)$/, access: 'user',
+    handle: ctx => {
+      const viewer = requireUser(ctx);
+      const author = findUserOr404(ctx.db, idParam(ctx));
+      const posts = ctx.db.posts.filter(p => p.authorId === author.id && canViewPost(p, viewer, ctx.db));
+      return ok(postPage(posts, ctx));
+    }
+  },
+  {
+    method: 'GET', path: /^\/posts\/(\d+)$/, access: 'user',
+    handle: ctx => {
+      const post = findPostOr404(ctx.db, idParam(ctx));
+      if (!canViewPost(post, requireUser(ctx), ctx.db)) {
+        fail(403, 'No tienes acceso a esta publicación', 'POST_FORBIDDEN');
+      }
+      return ok(toPostDto(post, ctx.db));
+    }
+  },
+  {
+    method: 'PUT', path: /^\/posts\/(\d+)$/, access: 'user',
+    handle: ctx => {
+      const post = findPostOr404(ctx.db, idParam(ctx));
+      if (post.authorId !== requireUser(ctx).id) {
+        fail(403, 'Solo el autor puede editar la publicación', 'POST_FORBIDDEN');
+      }
+
+      const body = readBody<PostCreateRequest>(ctx);
+      post.content = body.content ?? post.content;
+      post.imageUrl = body.imageUrl ?? post.imageUrl;
+      post.privacyType = body.privacyType ?? post.privacyType;
+      post.updateDate = now();
+      return ok(toPostDto(post, ctx.db));
+    }
+  },
+  {
+    method: 'DELETE', path: /^\/posts\/(\d+)$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const post = findPostOr404(ctx.db, idParam(ctx));
+
+      if (post.authorId !== user.id && !isAdmin(user)) {
+        fail(403, 'Solo el autor puede eliminar la publicación', 'POST_FORBIDDEN');
+      }
+
+      removePost(ctx.db, post.id);
+      if (post.authorId !== user.id) {
+        ctx.db.logAdminAction({
+          adminId: user.id,
+          actionType: ActionType.DELETE_POST,
+          title: 'Publicación eliminada',
+          description: post.content.slice(0, 80),
+          entityId: post.id,
+          entityType: 'POST',
+          affectedUserId: post.authorId
+        });
+      }
+
+      return message('Publicación eliminada');
+    }
+  },
+
+  // COMMENTS
+
+  {
+    method: 'POST', path: /^\/comments$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const body = readBody<CommentRequest>(ctx);
+      const post = findPostOr404(ctx.db, Number(body.postId));
+      const content = body.content?.trim();
+
+      if (!content) {
+        fail(400, 'El comentario no puede estar vacío');
+      }
+      if (!canViewPost(post, user, ctx.db)) {
+        fail(403, 'No tienes acceso a esta publicación', 'POST_FORBIDDEN');
+      }
+
+      const comment = { id: ctx.db.nextId(), postId: post.id, authorId: user.id, content: content!, creationDate: now() };
+      ctx.db.comments.push(comment);
+      ctx.db.notify(post.authorId, user.id, {
+        title: 'Nuevo comentario',
+        message: `${fullName(user)} ha comentado tu publicación`,
+        notificationType: NotificationType.COMMENT,
+        referenciaId: post.id,
+        referenciaTabla: 'posts'
+      });
+
+      return ok(toCommentDto(comment, ctx.db), 201);
+    }
+  },
+  {
+    method: 'GET', path: /^\/comments$/, access: 'user',
+    handle: ctx => ok(paginate(ctx.db.comments.map(c => toCommentDto(c, ctx.db)), ctx.query))
+  },
+  {
+    method: 'GET', path: /^\/comments\/post\/(\d+)$/, access: 'user',
+    handle: ctx => {
+      const post = findPostOr404(ctx.db, idParam(ctx));
+      const comments = ctx.db.comments
+        .filter(c => c.postId === post.id)
+        .map(c => toCommentDto(c, ctx.db));
+      const order = ctx.query.get('sort') === 'newest' ? 'creationDate,desc' : 'creationDate,asc';
+      return ok(paginateList(sortBy(comments, order, c => c.creationDate), ctx.query));
+    }
+  },
+  {
+    method: 'GET', path: /^\/comments\/(\d+)$/, access: 'user',
+    handle: ctx => {
+      const comment = ctx.db.comments.find(c => c.id === idParam(ctx)) ?? fail(404, 'Comentario no encontrado', 'COMMENT_NOT_FOUND');
+      return ok(toCommentDto(comment, ctx.db));
+    }
+  },
+  {
+    method: 'PUT', path: /^\/comments\/(\d+)$/, access: 'user',
+    handle: ctx => {
+      const comment = ctx.db.comments.find(c => c.id === idParam(ctx)) ?? fail(404, 'Comentario no encontrado', 'COMMENT_NOT_FOUND');
+      if (comment.authorId !== requireUser(ctx).id) {
+        fail(403, 'Solo el autor puede editar el comentario', 'POST_FORBIDDEN');
+      }
+      comment.content = readBody<CommentRequest>(ctx).content ?? comment.content;
+      comment.editDate = now();
+      return ok(toCommentDto(comment, ctx.db));
+    }
+  },
+  {
+    method: 'DELETE', path: /^\/comments\/(\d+)$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const comment = ctx.db.comments.find(c => c.id === idParam(ctx)) ?? fail(404, 'Comentario no encontrado', 'COMMENT_NOT_FOUND');
+      if (comment.authorId !== user.id && !isAdmin(user)) {
+        fail(403, 'Solo el autor puede eliminar el comentario', 'POST_FORBIDDEN');
+      }
+      ctx.db.comments = ctx.db.comments.filter(c => c.id !== comment.id);
+      return message('Comentario eliminado');
+    }
+  },
+
+  // REACTIONS
+
+  {
+    method: 'POST', path: /^\/reactions\/posts\/(\d+)\/react$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const post = findPostOr404(ctx.db, idParam(ctx));
+      const type = (ctx.query.get('type') ?? ReactionType.LIKE) as ReactionType;
+      const existing = ctx.db.reactions.find(r => r.postId === post.id && r.userId === user.id);
+
+      // Repetir la misma reacción la quita (toggle)
+      if (existing?.reactionType === type) {
+        ctx.db.reactions = ctx.db.reactions.filter(r => r !== existing);
+        return message('Reacción eliminada');
+      }
+
+      if (existing) {
+        existing.reactionType = type;
+        return ok(toReactionDto(existing, ctx.db));
+      }
+
+      const reaction = { id: ctx.db.nextId(), postId: post.id, userId: user.id, reactionType: type, creationDate: now() };
+      ctx.db.reactions.push(reaction);
+      ctx.db.notify(post.authorId, user.id, {
+        title: 'Nueva reacción',
+        message: `A ${fullName(user)} le gusta tu publicación`,
+        notificationType: NotificationType.REACTION,
+        referenciaId: post.id,
+        referenciaTabla: 'posts'
+      });
+
+      return ok(toReactionDto(reaction, ctx.db), 201);
+    }
+  },
+  {
+    method: 'DELETE', path: /^\/reactions\/posts\/(\d+)\/react$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const postId = idParam(ctx);
+      ctx.db.reactions = ctx.db.reactions.filter(r => !(r.postId === postId && r.userId === user.id));
+      return message('Reacción eliminada');
+    }
+  },
+  {
+    method: 'GET', path: /^\/reactions\/posts\/(\d+)\/my-reaction$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const reaction = ctx.db.reactions.find(r => r.postId === idParam(ctx) && r.userId === user.id);
+      return ok(reaction ? toReactionDto(reaction, ctx.db) : null);
+    }
+  },
+  {
+    method: 'GET', path: /^\/reactions$/, access: 'user',
+    handle: ctx => ok(paginate(ctx.db.reactions.map(r => toReactionDto(r, ctx.db)), ctx.query))
+  },
+  {
+    method: 'GET', path: /^\/reactions\/(\d+)$/, access: 'user',
+    handle: ctx => {
+      const reaction = ctx.db.reactions.find(r => r.id === idParam(ctx)) ?? fail(404, 'Reacción no encontrada');
+      return ok(toReactionDto(reaction, ctx.db));
+    }
+  },
+
+  // FOLLOWS
+
+  {
+    method: 'POST', path: /^\/follows$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const target = findUserOr404(ctx.db, Number(readBody<FollowRequest>(ctx).userId));
+
+      if (target.id === user.id) {
+        fail(400, 'No puedes seguirte a ti mismo', 'FOLLOW_SELF');
+      }
+      if (ctx.db.isFollowing(user.id, target.id)) {
+        fail(409, 'Ya sigues a este usuario', 'FOLLOW_ALREADY_EXISTS');
+      }
+
+      const follow = { id: ctx.db.nextId(), followerId: user.id, followedId: target.id, followDate: now() };
+      ctx.db.follows.push(follow);
+      return ok(toFollowDto(follow, ctx.db), 201);
+    }
+  },
+  {
+    method: 'GET', path: /^\/follows$/, access: 'user',
+    handle: ctx => ok(paginate(ctx.db.follows.map(f => toFollowDto(f, ctx.db)), ctx.query))
+  },
+  {
+    // El backend recibe el ID del usuario seguido, no el de la relación
+    method: 'DELETE', path: /^\/follows\/(\d+)$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const followedId = idParam(ctx);
+
+      if (!ctx.db.isFollowing(user.id, followedId)) {
+        fail(404, 'No sigues a este usuario', 'FOLLOW_NOT_FOUND');
+      }
+
+      ctx.db.follows = ctx.db.follows.filter(f => !(f.followerId === user.id && f.followedId === followedId));
+      return message('Has dejado de seguir al usuario');
+    }
+  },
+  {
+    method: 'GET', path: /^\/follows\/check\/(\d+)$/, access: 'user',
+    handle: ctx => ok(ctx.db.isFollowing(requireUser(ctx).id, idParam(ctx)))
+  },
+  {
+    method: 'GET', path: /^\/follows\/(\d+)\/followers$/, access: 'user',
+    handle: ctx => {
+      const user = findUserOr404(ctx.db, idParam(ctx));
+      const follows = ctx.db.follows.filter(f => f.followedId === user.id).map(f => toFollowDto(f, ctx.db));
+      return ok(paginate(follows, ctx.query));
+    }
+  },
+  {
+    method: 'GET', path: /^\/follows\/my-followers$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const follows = ctx.db.follows.filter(f => f.followedId === user.id).map(f => toFollowDto(f, ctx.db));
+      return ok(paginateList(follows, ctx.query));
+    }
+  },
+  {
+    method: 'GET', path: /^\/follows\/my-following$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const follows = ctx.db.follows.filter(f => f.followerId === user.id).map(f => toFollowDto(f, ctx.db));
+      return ok(paginateList(follows, ctx.query));
+    }
+  },
+
+  // NOTIFICATIONS
+
+  {
+    method: 'GET', path: /^\/notifications$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const type = ctx.query.get('type');
+      const notifications = ctx.db.notifications
+        .filter(n => n.userId === user.id && (!type || n.notificationType === type))
+        .map(toNotificationDto);
+      return ok(paginateList(notifications, ctx.query));
+    }
+  },
+  {
+    method: 'GET', path: /^\/notifications\/unread$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const notifications = ctx.db.notifications.filter(n => n.userId === user.id && !n.read).map(toNotificationDto);
+      return ok(paginate(notifications, ctx.query));
+    }
+  },
+  {
+    method: 'GET', path: /^\/notifications\/unread\/count$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      return ok({ count: ctx.db.notifications.filter(n => n.userId === user.id && !n.read).length });
+    }
+  },
+  {
+    method: 'PUT', path: /^\/notifications\/read-all$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      ctx.db.notifications
+        .filter(n => n.userId === user.id && !n.read)
+        .forEach(n => {
+          n.read = true;
+          n.readDate = now();
+        });
+      return message('Notificaciones marcadas como leídas');
+    }
+  },
+  {
+    method: 'PUT', path: /^\/notifications\/(\d+)\/read$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const notification = ctx.db.notifications.find(n => n.id === idParam(ctx) && n.userId === user.id)
+        ?? fail(404, 'Notificación no encontrada');
+      notification.read = true;
+      notification.readDate = now();
+      return message('Notificación marcada como leída');
+    }
+  },
+  {
+    method: 'GET', path: /^\/notifications\/(\d+)$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const notification = ctx.db.notifications.find(n => n.id === idParam(ctx) && n.userId === user.id)
+        ?? fail(404, 'Notificación no encontrada');
+      return ok(toNotificationDto(notification));
+    }
+  },
+  {
+    method: 'DELETE', path: /^\/notifications\/(\d+)$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      ctx.db.notifications = ctx.db.notifications.filter(n => !(n.id === idParam(ctx) && n.userId === user.id));
+      return message('Notificación eliminada');
+    }
+  },
+
+  // REPORTS
+
+  {
+    method: 'POST', path: /^\/reports$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const body = readBody<ReportRequest>(ctx);
+      const post = findPostOr404(ctx.db, Number(body.postId));
+
+      if (post.authorId === user.id) {
+        fail(400, 'No puedes reportar tu propia publicación', 'REPORT_OWN_POST');
+      }
+      if (ctx.db.reports.some(r => r.postId === post.id && r.reporterId === user.id)) {
+        fail(409, 'Ya has reportado esta publicación', 'REPORT_ALREADY_SUBMITTED');
+      }
+
+      const report = {
+        id: ctx.db.nextId(),
+        reporterId: user.id,
+        postId: post.id,
+        postContent: post.content,
+        postAuthorId: post.authorId,
+        reason: body.reason ?? 'OTRO',
+        description: body.description,
+        status: ReportStatus.PENDING,
+        reportDate: now()
+      };
+      ctx.db.reports.push(report);
+
+      ctx.db.users.filter(u => canModerate(u)).forEach(moderator => ctx.db.notify(moderator.id, user.id, {
+        title: 'Nuevo reporte',
+        message: `Se ha reportado una publicación: ${report.reason}`,
+        notificationType: NotificationType.REPORT,
+        referenciaId: report.id,
+        referenciaTabla: 'reports'
+      }));
+
+      return ok(toReportDto(report, ctx.db), 201);
+    }
+  },
+  {
+    method: 'GET', path: /^\/reports$/, access: 'moderator',
+    handle: ctx => {
+      const status = ctx.query.get('status');
+      const reports = ctx.db.reports
+        .filter(r => !status || r.status === status)
+        .map(r => toReportDto(r, ctx.db));
+      return ok(paginate(sortBy(reports, 'reportDate,desc', r => r.reportDate), ctx.query));
+    }
+  },
+  {
+    method: 'GET', path: /^\/reports\/(\d+)$/, access: 'moderator',
+    handle: ctx => {
+      const report = ctx.db.reports.find(r => r.id === idParam(ctx)) ?? fail(404, 'Reporte no encontrado');
+      return ok(toReportDto(report, ctx.db));
+    }
+  },
+  {
+    method: 'PUT', path: /^\/reports\/(\d+)\/resolve$/, access: 'moderator',
+    handle: ctx => reviewReport(ctx, ReportStatus.RESOLVED)
+  },
+  {
+    method: 'PUT', path: /^\/reports\/(\d+)\/reject$/, access: 'moderator',
+    handle: ctx => reviewReport(ctx, ReportStatus.REJECTED)
+  },
+
+  // ADMIN
+
+  {
+    method: 'GET', path: /^\/admin\/dashboard$/, access: 'moderator',
+    handle: ctx => {
+      const { users, posts, reports } = ctx.db;
+      return ok({
+        totalUsuarios: users.length,
+        usuariosActivos: users.filter(u => u.active).length,
+        usuariosInactivos: users.filter(u => !u.active).length,
+        totalPosts: posts.length,
+        reportesPendientes: reports.filter(r => r.status === ReportStatus.PENDING).length,
+        reportesRechazados: reports.filter(r => r.status === ReportStatus.REJECTED).length,
+        reportesResueltos: reports.filter(r => r.status === ReportStatus.RESOLVED).length
+      });
+    }
+  },
+  {
+    method: 'GET', path: /^\/admin\/actions$/, access: 'admin',
+    handle: ctx => {
+      const search = ctx.query.get('search');
+      const actions = ctx.db.adminActions
+        .map(a => toAdminActionDto(a, ctx.db))
+        .filter(a => matchesQuery(search, a.title, a.description, a.adminUsername, a.affectedUserUsername));
+      return ok(paginate(sortBy(actions, 'actionDate,desc', a => a.actionDate), ctx.query));
+    }
+  },
+  {
+    method: 'GET', path: /^\/admin\/reports$/, access: 'moderator',
+    handle: ctx => {
+      const status = ctx.query.get('status');
+      const search = ctx.query.get('search');
+      const reports = ctx.db.reports
+        .filter(r => !status || r.status === status)
+        .map(r => toReportDto(r, ctx.db))
+        .filter(r => matchesQuery(search, r.reason, r.description, r.reporter.username, r.post.content));
+
+      const sorted = sortBy(reports, ctx.query.getAll('sort') ?? 'reportDate,desc', (report, field) => {
+        switch (field) {
+          case 'reason': return report.reason.toLowerCase();
+          case 'status': return report.status;
+          case 'reporter': return report.reporter.username.toLowerCase();
+          case 'reportDate': return report.reportDate;
+          default: return report.id;
+        }
+      });
+
+      return ok(paginate(sorted, ctx.query));
+    }
+  },
+  {
+    method: 'GET', path: /^\/admin\/users$/, access: 'admin',
+    handle: ctx => {
+      const query = ctx.query.get('query');
+      const role = ctx.query.get('roleName');
+      const active = ctx.query.get('active');
+      const privacy = ctx.query.get('privacyType');
+      const users = ctx.db.users
+        .filter(u => matchesQuery(query, u.username, u.email, u.firstName, u.lastName, fullName(u)))
+        .filter(u => (!role || u.role.name === role)
+          && (active === null || String(u.active) === active)
+          && (!privacy || u.privacyType === privacy));
+
+      const sorted = sortBy(users, ctx.query.getAll('sort'), (user, field) => {
+        switch (field) {
+          case 'name': return fullName(user).toLowerCase();
+          case 'username': return user.username.toLowerCase();
+          case 'email': return user.email.toLowerCase();
+          case 'role': return user.role.name;
+          case 'privacyType': return user.privacyType;
+          case 'active': return user.active ? 1 : 0;
+          case 'registrationDate': return user.registrationDate;
+          case 'lastActivityDate': return user.lastActivityDate ?? '';
+          default: return user.id;
+        }
+      });
+
+      return ok(paginate(sorted.map(toUserDto), ctx.query));
+    }
+  },
+  {
+    method: 'GET', path: /^\/admin\/security-policy$/, access: 'admin',
+    handle: ctx => ok({ ...ctx.db.securityPolicy })
+  },
+  {
+    method: 'PUT', path: /^\/admin\/security-policy$/, access: 'admin',
+    handle: ctx => {
+      const admin = requireUser(ctx);
+      const requireTwoFactorForAdmins = !!readBody<SecurityPolicy>(ctx).requireTwoFactorForAdmins;
+
+      // Quien activa la política no puede quedarse fuera del panel
+      if (requireTwoFactorForAdmins && !admin.twoFactorEnabled) {
+        fail(403, 'Two-factor setup required', 'AUTH_TWO_FACTOR_SETUP_REQUIRED');
+      }
+
+      ctx.db.securityPolicy = { requireTwoFactorForAdmins };
+      syncTwoFactorRequirement(ctx.db);
+      return ok({ ...ctx.db.securityPolicy });
+    }
+  },
+
+  // CHATBOT
+
+  {
+    method: 'POST', path: /^\/chatbot\/send$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      const text = readBody<ChatBotMessageRequest>(ctx).message?.trim() ?? fail(400, 'El mensaje no puede estar vacío');
+      const sessionId = `fake-session-${user.id}`;
+
+      ctx.db.chatMessages.push({
+        id: ctx.db.nextId(), userId: user.id, content: text,
+        messageType: MessageType.USER, creationDate: now(), sessionId
+      });
+
+      const reply = {
+        id: ctx.db.nextId(), userId: user.id, content: chatbotReply(text),
+        messageType: MessageType.CHATBOT, creationDate: now(), sessionId
+      };
+      ctx.db.chatMessages.push(reply);
+
+      return ok(toChatMessageDto(reply, ctx.db));
+    }
+  },
+  {
+    method: 'GET', path: /^\/chatbot\/conversation$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      return ok(ctx.db.chatMessages.filter(m => m.userId === user.id).map(m => toChatMessageDto(m, ctx.db)));
+    }
+  },
+  {
+    method: 'DELETE', path: /^\/chatbot\/conversation$/, access: 'user',
+    handle: ctx => {
+      const user = requireUser(ctx);
+      ctx.db.chatMessages = ctx.db.chatMessages.filter(m => m.userId !== user.id);
+      return message('Conversación eliminada');
+    }
+  },
+
+  // IDP CORPORATIVO SIMULADO (lo usa la página /auth/sso/dev-idp)
+
+  {
+    method: 'GET', path: /^\/dev-idp\/directory$/, access: 'public',
+    handle: () => ok(FAKE_IDP_DIRECTORY)
+  },
+  {
+    method: 'POST', path: /^\/dev-idp\/authorize$/, access: 'public',
+    handle: ctx => {
+      const { clientId, redirectUri, codeChallenge, codeChallengeMethod, sub } = readBody<DevIdpAuthorizeRequest>(ctx);
+
+      if (clientId !== FAKE_IDP_CLIENT_ID) {
+        fail(400, `client_id desconocido: ${clientId}`);
+      }
+      if (codeChallengeMethod !== 'S256' || !codeChallenge) {
+        fail(400, 'PKCE obligatorio (code_challenge_method=S256)');
+      }
+      const identity = FAKE_IDP_DIRECTORY.find(i => i.sub === sub) ?? fail(404, 'Identidad desconocida');
+
+      const code = crypto.randomUUID();
+      ctx.db.ssoAuthorizationCodes.set(code, {
+        identity,
+        codeChallenge: codeChallenge!,
+        redirectUri: redirectUri ?? '',
+        expiresAt: Date.now() + SSO_CODE_TTL
+      });
+      return ok({ code });
+    }
+  }
+];
@@ -0,0 +1,154 @@
+// FAKE BACKEND TOTP: secretos, códigos de 6 dígitos (RFC 6238) y códigos de recuperación
+// Síncrono (SHA-1 propio) porque los handlers del backend simulado no son asíncronos
+
+/** Segundos de validez de cada código */
+export const TOTP_PERIOD = 30;
+
+/** Dígitos de cada código */
+export const TOTP_DIGITS = 6;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Secreto aleatorio de 20 bytes en base32 (32 caracteres).
+ */
+export const generateTotpSecret = (): string =>
+  base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+
+/**
+ * URI otpauth:// que leen las apps de autenticación (Google Authenticator, Authy...).
+ */
+export const totpAuthUrl = (issuer: string, account: string, secret: string): string =>
+  `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(account)}` +
+  `?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD}`;
+
+/**
+ * Comprueba un código admitiendo un periodo de desfase de reloj en cada sentido.
+ */
+export const verifyTotp = (secret: string, code: string, time = Date.now()): boolean => {
+  const counter = Math.floor(time / 1000 / TOTP_PERIOD);
+  return /^\d{6}$/.test(code) && [-1, 0, 1].some(offset => totpCode(secret, counter + offset) === code);
+};
+
+/**
+ * Diez códigos de recuperación de un solo uso con formato XXXX-XXXX.
+ */
+export const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: 10 }, () => {
+    const chars = base32Encode(crypto.getRandomValues(new Uint8Array(5)));
+    return `${chars.slice(0, 4)}-${chars.slice(4, 8)}`;
+  });
+
+/**
+ * Código TOTP de un contador (HOTP con truncado dinámico).
+ */
+export const totpCode = (secret: string, counter: number): string => {
+  const message = new Uint8Array(8);
+  let value = counter;
+  for (let i = 7; i >= 0; i--) {
+    message[i] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+
+  const hash = hmacSha1(base32Decode(secret), message);
+  const offset = hash[hash.length - 1] & 0x0f;
+  const binary = ((hash[offset] & 0x7f) << 24) | (hash[offset + 1] << 16) | (hash[offset + 2] << 8) | hash[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+// UTILIDADES PRIVADAS
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[^A-Z2-7]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function hmacSha1(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const blockSize = 64;
+  const normalized = new Uint8Array(blockSize);
+  normalized.set(key.length > blockSize ? sha1(key) : key);
+
+  const inner = new Uint8Array(blockSize + message.length);
+  const outer = new Uint8Array(blockSize + 20);
+  for (let i = 0; i < blockSize; i++) {
+    inner[i] = normalized[i] ^ 0x36;
+    outer[i] = normalized[i] ^ 0x5c;
+  }
+  inner.set(message, blockSize);
+  outer.set(sha1(inner), blockSize);
+  return sha1(outer);
+}
+
+function sha1(data: Uint8Array): Uint8Array {
+  const length = data.length;
+  const paddedLength = Math.ceil((length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(length / 0x20000000));
+  view.setUint32(paddedLength - 4, (length * 8) >>> 0);
+
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+  const w = new Array<number>(80);
+  const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 80; i++) w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+
+    let [a, b, c, d, e] = h;
+    for (let i = 0; i < 80; i++) {
+      const [f, k] = i < 20 ? [(b & c) | (~b & d), 0x5a827999]
+        : i < 40 ? [b ^ c ^ d, 0x6ed9eba1]
+          : i < 60 ? [(b & c) | (b & d) | (c & d), 0x8f1bbcdc]
+            : [b ^ c ^ d, 0xca62c1d6];
+      const temp = (rotl(a, 5) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30);
+      b = a;
+      a = temp;
+    }
+
+    h[0] = (h[0] + a) | 0;
+    h[1] = (h[1] + b) | 0;
+    h[2] = (h[2] + c) | 0;
+    h[3] = (h[3] + d) | 0;
+    h[4] = (h[4] + e) | 0;
+  }
+
+  const result = new Uint8Array(20);
+  const out = new DataView(result.buffer);
+  h.forEach((word, i) => out.setUint32(i * 4, word >>> 0));
+  return result;
+}
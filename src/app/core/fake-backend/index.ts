@@ -0,0 +1,8 @@
+// Barrel file: Fake Backend
+export * from './fake-backend.db';
+export * from './fake-backend.device';
+export * from './fake-backend.http';
+export * from './fake-backend.idp';
+export * from './fake-backend.mappers';
+export * from './fake-backend.routes';
+export * from './fake-backend.totp';
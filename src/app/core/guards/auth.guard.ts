@@ -1,9 +1,10 @@
 import { inject } from '@angular/core';
-import { Router } from '@angular/router';
+import { CanActivateFn, Router } from '@angular/router';
 import { AuthService } from '../../features/auth/data-access/auth.service';
+import { createLoginUrlTree } from './return-url';
 
 // AUTH GUARD: protege rutas que requieren autenticación
-export const authGuard = () => {
+export const authGuard: CanActivateFn = (_, state) => {
   const authService = inject(AuthService);
   const router = inject(Router);
 
@@ -13,7 +14,6 @@ export const authGuard = () => {
     return true;
   }
 
-  // Usuario NO autenticado, redirigir al Login
-  router.navigate(['/auth/login']);
-  return false;
+  // Usuario NO autenticado: al login, recordando la ruta pedida
+  return createLoginUrlTree(router, state.url);
 };
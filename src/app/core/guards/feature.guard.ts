@@ -0,0 +1,15 @@
+import { inject } from '@angular/core';
+import { CanMatchFn } from '@angular/router';
+import { FeatureFlagService } from '../services/feature-flag.service';
+
+/**
+ * FEATURE GUARD: solo deja que la ruta coincida si el flag está activo
+ *
+ * Con el flag desactivado la ruta se comporta como si no existiera
+ * (el router sigue buscando y acaba en la página 404).
+ *
+ * @param flag - Nombre del flag (config.json → features)
+ * @returns Guard canMatch para la definición de la ruta
+ */
+export const featureGuard = (flag: string): CanMatchFn => () =>
+  inject(FeatureFlagService).isEnabled(flag);
@@ -1,22 +1,23 @@
 import { inject } from '@angular/core';
-import { Router } from '@angular/router';
+import { CanActivateFn, Router } from '@angular/router';
 import { AuthService } from '../../features/auth';
+import { DEFAULT_RETURN_URL, sanitizeReturnUrl } from './return-url';
 
 /**
  * GUEST GUARD: Protege rutas que solo usuarios NO autenticados deben ver
  * 
- * @returns true si usuario NO está autenticado, false y redirige si lo está
+ * @returns true si usuario NO está autenticado; si lo está, UrlTree al returnUrl o al Dashboard
  */
-export const guestGuard = () => {
+export const guestGuard: CanActivateFn = route => {
   const authService = inject(AuthService);
   const router = inject(Router);
 
   try {
     // Verificar si está autenticado
     if (authService.checkAuthenticationStatus()) {
-      // Redirigir al Dashboard, no permite ver login/Register
-      router.navigate(['/dashboard']);
-      return false;
+      // No permite ver login/Register: vuelve a la ruta pedida o al Dashboard
+      const returnUrl = sanitizeReturnUrl(route.queryParamMap.get('returnUrl'));
+      return router.parseUrl(returnUrl ?? DEFAULT_RETURN_URL);
     }
   } catch (error) {
     // Si hay error al validar el token (ej: username cambió), hacer logout
@@ -1,6 +1,10 @@
 // Barrel file: Core Guards
 export * from './auth.guard';
+export * from './feature.guard';
 export * from './guest.guard';
+export * from './permission.guard';
+export * from './return-url';
+export * from './two-factor-setup.guard';
 
 // Re-export from features
 export { adminGuard } from '../../features/admin/guards/admin.guard';
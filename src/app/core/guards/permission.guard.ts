@@ -0,0 +1,24 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { AuthService } from '../../features/auth/data-access/auth.service';
+import { Permission } from '../../features/auth/models';
+import { createLoginUrlTree } from './return-url';
+
+/**
+ * PERMISSION GUARD: protege rutas que requieren permisos concretos
+ *
+ * Sin sesión redirige al login (con returnUrl); con sesión pero sin permisos, a /unauthorized.
+ *
+ * @param required - Permisos necesarios (todos)
+ * @returns Guard canActivate para la definición de la ruta
+ */
+export const permissionGuard = (...required: Permission[]): CanActivateFn => (_, state) => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+
+  if (!authService.checkAuthenticationStatus()) {
+    return createLoginUrlTree(router, state.url);
+  }
+
+  return authService.hasPermission(...required) || router.createUrlTree(['/unauthorized']);
+};
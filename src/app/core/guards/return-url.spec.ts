@@ -0,0 +1,37 @@
+import { DefaultUrlSerializer, Router } from '@angular/router';
+import { currentReturnUrl, sanitizeReturnUrl } from './return-url';
+
+/** Router mínimo situado en `url` */
+const routerAt = (url: string): Router => {
+  const serializer = new DefaultUrlSerializer();
+  return { url, parseUrl: (value: string) => serializer.parse(value) } as unknown as Router;
+};
+
+describe('sanitizeReturnUrl', () => {
+  it('acepta rutas internas con query y fragmento', () => {
+    expect(sanitizeReturnUrl('/dashboard/user/42?tab=posts#top')).toBe('/dashboard/user/42?tab=posts#top');
+  });
+
+  it.each(['https://evil.example', '//evil.example', '/\\evil.example', 'javascript:alert(1)', '/', '/auth/login'])(
+    'descarta %s',
+    value => {
+      expect(sanitizeReturnUrl(value)).toBeNull();
+    }
+  );
+});
+
+describe('currentReturnUrl', () => {
+  it('usa la ruta actual fuera de /auth', () => {
+    expect(currentReturnUrl(routerAt('/dashboard/user/42?tab=posts'))).toBe('/dashboard/user/42?tab=posts');
+  });
+
+  it('conserva el returnUrl pendiente en las páginas de /auth', () => {
+    const router = routerAt('/auth/login?returnUrl=%2Fdashboard%2Fuser%2F42');
+
+    expect(currentReturnUrl(router)).toBe('/dashboard/user/42');
+  });
+
+  it('no devuelve nada en /auth sin returnUrl', () => {
+    expect(currentReturnUrl(routerAt('/auth/2fa/verify'))).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { Router, UrlTree } from '@angular/router';
+
+/** Ruta del formulario de login */
+export const LOGIN_PATH = '/auth/login';
+
+/** Ruta a la que se vuelve tras el login si no hay returnUrl válido */
+export const DEFAULT_RETURN_URL = '/dashboard';
+
+/** Origen ficticio para resolver la URL sin depender de window */
+const SANITIZE_BASE = 'http://return-url.invalid';
+
+/**
+ * Normaliza un returnUrl recibido por query param o desde el router.
+ *
+ * Solo acepta rutas del propio origen (`/dashboard/user/42?tab=posts`);
+ * descarta URLs absolutas, `//host`, `/\host`, esquemas como `javascript:`
+ * y las rutas de /auth para no volver al login en bucle.
+ *
+ * @param value - URL candidata
+ * @returns Ruta interna segura o null
+ */
+export const sanitizeReturnUrl = (value: string | null | undefined): string | null => {
+  if (!value || !value.startsWith('/') || /[\u0000-\u001f\\]/.test(value)) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value, SANITIZE_BASE);
+  } catch {
+    return null;
+  }
+
+  if (url.origin !== SANITIZE_BASE || url.pathname === '/' || url.pathname.startsWith('/auth')) {
+    return null;
+  }
+
+  return `${url.pathname}${url.search}${url.hash}`;
+};
+
+/**
+ * UrlTree hacia el login que conserva la ruta pedida como returnUrl.
+ *
+ * @param router - Router de la aplicación
+ * @param returnUrl - Ruta a la que volver tras autenticarse
+ */
+export const createLoginUrlTree = (router: Router, returnUrl?: string | null): UrlTree => {
+  const safeUrl = sanitizeReturnUrl(returnUrl);
+  return router.createUrlTree([LOGIN_PATH], safeUrl ? { queryParams: { returnUrl: safeUrl } } : {});
+};
+
+/**
+ * Ruta a la que volver tras el login desde la navegación actual. En las páginas de
+ * /auth (login, 2FA, SSO) se conserva su returnUrl en lugar de descartarlo.
+ *
+ * @param router - Router de la aplicación
+ * @returns Ruta actual o returnUrl pendiente (sin sanear)
+ */
+export const currentReturnUrl = (router: Router): string | null => {
+  const tree = router.parseUrl(router.url);
+  const path = `/${tree.root.children['primary']?.segments.map(segment => segment.path).join('/') ?? ''}`;
+
+  return path.startsWith('/auth') ? tree.queryParamMap.get('returnUrl') : router.url;
+};
@@ -0,0 +1,22 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { AuthService } from '../../features/auth/data-access/auth.service';
+import { getApiErrorMessage } from '../errors';
+import { ToastService } from '../services/toast.service';
+
+/**
+ * TWO FACTOR SETUP GUARD: bloquea el panel de administración mientras la
+ * política exija 2FA a la cuenta y no esté activado
+ *
+ * Redirige a la configuración del perfil, donde se activa la verificación en dos pasos.
+ */
+export const twoFactorSetupGuard: CanActivateFn = () => {
+  const authService = inject(AuthService);
+
+  if (!authService.twoFactorSetupRequired()) {
+    return true;
+  }
+
+  inject(ToastService).warning(getApiErrorMessage('AUTH_TWO_FACTOR_SETUP_REQUIRED'));
+  return inject(Router).createUrlTree(['/dashboard/profile']);
+};
@@ -1,4 +1,6 @@
 // Barrel file: Core
+export * from './config';
 export * from './guards';
 export * from './services';
 export * from './interceptors';
+export * from './errors';
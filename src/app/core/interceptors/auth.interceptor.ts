@@ -1,22 +1,71 @@
-import { HttpInterceptorFn } from '@angular/common/http';
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
 import { inject } from '@angular/core';
+import { Observable, catchError, of, switchMap, throwError } from 'rxjs';
 import { AuthService } from '../../features/auth';
 
-// AUTH INTERCEPTOR: añade token Authorization a peticiones HTTP
+/**
+ * Endpoints de autenticación que nunca llevan token ni disparan un refresh.
+ * Un 401 en ellos son credenciales o códigos incorrectos, no una sesión caducada.
+ */
+const AUTH_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/2fa/verify',
+  '/auth/sso/exchange',
+  '/auth/sso/link'
+];
+
+// AUTH INTERCEPTOR: añade token Authorization y renueva el token de forma silenciosa
 export const authInterceptor: HttpInterceptorFn = (req, next) => {
   // Obtener el token del servicio de autenticación
   const authService = inject(AuthService);
-  const token = authService.getToken();
 
-  // Solo modificar la petición si existe un token válido
-  if (token) {
-    req = req.clone({
-      setHeaders: {
-        Authorization: `Bearer ${token}`
-      }
-    });
+  if (isAuthEndpoint(req)) {
+    return next(req);
   }
 
-  // Continuar con la petición (modificada o no)
-  return next(req);
+  // Si hay un refresh en curso o el token está a punto de caducar, esperar al token nuevo.
+  // Si el refresh proactivo falla se continúa con el token actual (aún no ha caducado).
+  const mustWaitForRefresh = authService.isRefreshing() ||
+    (authService.isTokenExpiringSoon() && !!authService.getRefreshToken());
+
+  const token$: Observable<string | null> = mustWaitForRefresh
+    ? authService.refreshAccessToken().pipe(catchError(() => of(authService.getToken())))
+    : of(authService.getToken());
+
+  return token$.pipe(
+    switchMap(token => next(withToken(req, token))),
+    catchError((error: unknown) => {
+      // Solo se intenta renovar ante un 401 y si existe refresh token
+      if (!(error instanceof HttpErrorResponse) || error.status !== 401 || !authService.getRefreshToken()) {
+        return throwError(() => error);
+      }
+
+      // Todas las peticiones que reciben 401 comparten el mismo refresh y se reenvían al terminar
+      return authService.refreshAccessToken().pipe(
+        catchError(() => {
+          // El refresh ha fallado: ahora sí se cierra la sesión
+          authService.logout();
+          return throwError(() => error);
+        }),
+        switchMap(newToken => next(withToken(req, newToken)))
+      );
+    })
+  );
+};
+
+/**
+ * Clona la petición añadiendo la cabecera Authorization si hay token.
+ */
+const withToken = (req: HttpRequest<unknown>, token: string | null): HttpRequest<unknown> =>
+  token ? req.clone({ setHeaders: { Authorization: `Bearer ${token}` } }) : req;
+
+/**
+ * Indica si la petición va dirigida a un endpoint de autenticación.
+ * Se compara el final de la ruta: `/auth/login-history` sí lleva token.
+ */
+export const isAuthEndpoint = (req: HttpRequest<unknown>): boolean => {
+  const path = req.url.split('?')[0];
+  return AUTH_ENDPOINTS.some(endpoint => path.endsWith(endpoint));
 };
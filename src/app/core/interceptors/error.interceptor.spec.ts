@@ -0,0 +1,67 @@
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
+import { AuthService } from '../../features/auth';
+import { NotificationService } from '../../features/notification/data-access/notification.service';
+import { AppConfig, APP_CONFIG } from '../config';
+import { ErrorHandlerService } from '../services/error-handler.service';
+import { ToastService } from '../services/toast.service';
+import { errorInterceptor } from './error.interceptor';
+
+const API_URL = 'http://localhost/api';
+
+describe('errorInterceptor', () => {
+  let http: HttpClient;
+  let httpTesting: HttpTestingController;
+  let router: Router;
+  const authService = { logout: vi.fn() };
+  const toastService = { error: vi.fn() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([errorInterceptor])),
+        provideHttpClientTesting(),
+        provideRouter([]),
+        { provide: APP_CONFIG, useValue: { apiUrl: API_URL, debug: false } as AppConfig },
+        { provide: AuthService, useValue: authService },
+        { provide: ToastService, useValue: toastService },
+        { provide: NotificationService, useValue: {} },
+        { provide: ErrorHandlerService, useValue: { getHttpErrorMessage: () => 'Error' } }
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    httpTesting = TestBed.inject(HttpTestingController);
+    router = TestBed.inject(Router);
+    vi.spyOn(router, 'navigateByUrl').mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    httpTesting.verify();
+  });
+
+  const respond401 = (url: string) => {
+    http.post(url, {}).subscribe({ error: () => { } });
+    httpTesting.expectOne(url).flush({ code: 'AUTH_INVALID_CREDENTIALS' }, { status: 401, statusText: 'Unauthorized' });
+  };
+
+  it.each(['/auth/login', '/auth/2fa/verify', '/auth/sso/exchange', '/auth/sso/link'])(
+    'un 401 de %s no cierra sesión ni navega',
+    endpoint => {
+      respond401(`${API_URL}${endpoint}`);
+
+      expect(authService.logout).not.toHaveBeenCalled();
+      expect(router.navigateByUrl).not.toHaveBeenCalled();
+      expect(toastService.error).toHaveBeenCalled();
+    }
+  );
+
+  it('un 401 de una ruta autenticada cierra sesión y lleva al login', () => {
+    respond401(`${API_URL}/auth/login-history`);
+
+    expect(authService.logout).toHaveBeenCalled();
+    expect(router.navigateByUrl).toHaveBeenCalled();
+  });
+});
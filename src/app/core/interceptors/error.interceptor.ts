@@ -6,18 +6,26 @@ import { Router } from '@angular/router';
 import { catchError, throwError } from 'rxjs';
 import { AuthService } from '../../features/auth';
 import { NotificationService } from '../../features/notification/data-access/notification.service';
-import { environment } from '../../../environments/environment';
+import { ErrorHandlerService } from '../services/error-handler.service';
+import { ToastService } from '../services/toast.service';
+import { OUTBOX_TARGET, SKIP_ERROR_TOAST } from './http-context.tokens';
+import { APP_CONFIG } from '../config';
+import { createLoginUrlTree, currentReturnUrl } from '../guards/return-url';
+import { isAuthEndpoint } from './auth.interceptor';
 
 // Error interceptor funcional: captura y maneja errores HTTP
 export const errorInterceptor: HttpInterceptorFn = (req, next) => {
   const router = inject(Router);
   const authService = inject(AuthService);
   const injector = inject(Injector);
+  const errorHandlerService = inject(ErrorHandlerService);
+  const toastService = inject(ToastService);
+  const { debug } = inject(APP_CONFIG);
 
   return next(req).pipe(
     catchError((error: HttpErrorResponse) => {
       // Logging moderno con template literals y destructuring
-      if (environment.debug) {
+      if (debug) {
         const { url, method } = req;
         const { status, error: errorBody } = error;
 
@@ -31,9 +39,21 @@ export const errorInterceptor: HttpInterceptorFn = (req, next) => {
       // Obtener NotificationService de forma lazy para evitar dependencia circular
       const notificationService = injector.get(NotificationService);
 
-      // Manejo moderno con pattern matching
-      const errorHandler = getErrorHandler(error.status);
-      errorHandler(authService, router, notificationService, error);
+      // Toast global salvo que la petición lo desactive (error mostrado inline)
+      // o que sea una mutación sin red que ya ha guardado outboxInterceptor
+      const queuedOffline = error.status === 0 && !!req.context.get(OUTBOX_TARGET);
+      const notify: ErrorNotifier = (message) => {
+        if (!req.context.get(SKIP_ERROR_TOAST) && !queuedOffline) {
+          toastService.error(message ?? errorHandlerService.getHttpErrorMessage(error));
+        }
+      };
+
+      // Manejo moderno con pattern matching.
+      // Un 401 de login, 2FA o SSO no cierra sesión: el formulario muestra el error y deja reintentar
+      const errorHandler = error.status === 401 && isAuthEndpoint(req)
+        ? handleRejectedCredentialsError
+        : getErrorHandler(error.status);
+      errorHandler(authService, router, notificationService, error, notify, debug);
 
       // Re-lanzar error con función arrow moderna
       return throwError(() => error);
@@ -59,6 +79,11 @@ const getErrorHandler = (status: number) => {
   return handlers.get(status) ?? handleGenericError;
 };
 
+/**
+ * Muestra el toast de error; sin mensaje usa el de ErrorHandlerService.
+ */
+type ErrorNotifier = (message?: string) => void;
+
 /**
  * Tipo para handlers de error con tipado estricto.
  */
@@ -66,28 +91,43 @@ type ErrorHandler = (
   authService: AuthService,
   router: Router,
   notificationService: NotificationService,
-  error: HttpErrorResponse
+  error: HttpErrorResponse,
+  notify: ErrorNotifier,
+  debug: boolean
 ) => void;
 
 /**
  * Maneja errores 401 (no autorizado) - Ultra moderno.
+ * Solo llega aquí un 401 que authInterceptor no pudo recuperar con el refresh token.
  */
-const handleUnauthorizedError: ErrorHandler = (authService, router) => {
+const handleUnauthorizedError: ErrorHandler = (authService, router, _, __, notify) => {
+  const returnUrl = currentReturnUrl(router);
   authService.logout();
-  router.navigate(['/auth/login']);
+  router.navigateByUrl(createLoginUrlTree(router, returnUrl));
+  notify();
+};
+
+/**
+ * Maneja los 401 de los endpoints de autenticación (credenciales o código incorrectos).
+ * No hay sesión que cerrar ni a la que volver: se queda en la página actual.
+ */
+const handleRejectedCredentialsError: ErrorHandler = (_, __, ___, ____, notify) => {
+  notify();
 };
 
 /**
  * Maneja errores 403 (prohibido) - Ultra moderno.
  */
-const handleForbiddenError: ErrorHandler = (_, router, notificationService, error) => {
+const handleForbiddenError: ErrorHandler = (_, router, notificationService, error, notify, debug) => {
   // Solo navegar a /unauthorized si no es un error de comentarios/recursos
   const url = error.url || '';
   if (!url.includes('/comments/') && !url.includes('/posts/')) {
     router.navigate(['/unauthorized']);
+  } else {
+    notify();
   }
   // Para errores de recursos específicos, solo logear
-  if (environment.debug) {
+  if (debug) {
     console.warn('Acceso prohibido a recurso:', url);
   }
 };
@@ -95,8 +135,9 @@ const handleForbiddenError: ErrorHandler = (_, router, notificationService, erro
 /**
  * Maneja errores 404 (no encontrado) - Ultra moderno.
  */
-const handleNotFoundError: ErrorHandler = () => {
-  if (environment.debug) {
+const handleNotFoundError: ErrorHandler = (_, __, ___, ____, notify, debug) => {
+  notify();
+  if (debug) {
     console.warn('Recurso no encontrado');
   }
 };
@@ -104,8 +145,9 @@ const handleNotFoundError: ErrorHandler = () => {
 /**
  * Maneja errores 409 (conflicto) - Ultra moderno.
  */
-const handleConflictError: ErrorHandler = () => {
-  if (environment.debug) {
+const handleConflictError: ErrorHandler = (_, __, ___, ____, notify, debug) => {
+  notify();
+  if (debug) {
     console.warn('Conflicto detectado');
   }
 };
@@ -113,19 +155,20 @@ const handleConflictError: ErrorHandler = () => {
 /**
  * Maneja errores 422 (validación) - Ultra moderno.
  */
-const handleValidationError: ErrorHandler = (_, __, ___, error) => {
-  const message = error.error?.message ?? 'Los datos proporcionados no son válidos.';
+const handleValidationError: ErrorHandler = (_, __, ___, error, notify, debug) => {
+  notify();
 
-  if (environment.debug) {
-    console.warn('Error de validación:', message);
+  if (debug) {
+    console.warn('Error de validación:', error.error);
   }
 };
 
 /**
  * Maneja errores 500 (servidor) - Ultra moderno.
  */
-const handleServerError: ErrorHandler = () => {
-  if (environment.debug) {
+const handleServerError: ErrorHandler = (_, __, ___, ____, notify, debug) => {
+  notify();
+  if (debug) {
     console.error('Error interno del servidor');
   }
 };
@@ -133,8 +176,9 @@ const handleServerError: ErrorHandler = () => {
 /**
  * Maneja errores de red (status 0) - Ultra moderno.
  */
-const handleNetworkError: ErrorHandler = () => {
-  if (environment.debug) {
+const handleNetworkError: ErrorHandler = (_, __, ___, ____, notify, debug) => {
+  notify();
+  if (debug) {
     console.error('Error de conexión de red');
   }
 };
@@ -142,10 +186,11 @@ const handleNetworkError: ErrorHandler = () => {
 /**
  * Maneja errores genéricos - Ultra moderno.
  */
-const handleGenericError: ErrorHandler = (_, __, ___, error) => {
+const handleGenericError: ErrorHandler = (_, __, ___, error, notify, debug) => {
   const message = error.error?.message ?? `Error ${error.status}: ${error.statusText}`;
+  notify();
 
-  if (environment.debug) {
+  if (debug) {
     console.error('Error genérico:', message);
   }
 };
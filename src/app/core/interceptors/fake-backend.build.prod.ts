@@ -0,0 +1,10 @@
+// FAKE BACKEND BUILD (producción): sustituye a fake-backend.build.ts (angular.json → fileReplacements)
+// Nada importa el backend simulado, así que no entra en el bundle.
+
+import { HttpInterceptorFn } from '@angular/common/http';
+
+/** El build incluye el backend simulado (useFakeBackend puede activarlo) */
+export const FAKE_BACKEND_INCLUDED = false;
+
+/** Interceptores que solo existen con el backend simulado */
+export const FAKE_BACKEND_INTERCEPTORS: HttpInterceptorFn[] = [];
@@ -0,0 +1,12 @@
+// FAKE BACKEND BUILD: el backend simulado forma parte de este build (desarrollo)
+// En producción angular.json lo sustituye por fake-backend.build.prod.ts, así que
+// los datos sembrados, los secretos TOTP y el IdP de pruebas no llegan al bundle.
+
+import { HttpInterceptorFn } from '@angular/common/http';
+import { fakeBackendInterceptor } from './fake-backend.interceptor';
+
+/** El build incluye el backend simulado (useFakeBackend puede activarlo) */
+export const FAKE_BACKEND_INCLUDED = true;
+
+/** Interceptores que solo existen con el backend simulado */
+export const FAKE_BACKEND_INTERCEPTORS: HttpInterceptorFn[] = [fakeBackendInterceptor];
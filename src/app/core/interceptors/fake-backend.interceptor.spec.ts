@@ -0,0 +1,94 @@
+import { HttpClient, HttpErrorResponse, HttpHeaders, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { TestBed } from '@angular/core/testing';
+import { Observable, firstValueFrom } from 'rxjs';
+import { AppConfig, APP_CONFIG } from '../config';
+import { FAKE_DEFAULT_PASSWORD, FakeBackendDb } from '../fake-backend';
+import { AuthResponse } from '../../features/auth/models';
+import { User } from '../../features/user/models';
+import { fakeBackendInterceptor } from './fake-backend.interceptor';
+
+const API_URL = 'http://localhost/api';
+
+describe('fakeBackendInterceptor', () => {
+  let http: HttpClient;
+  let db: FakeBackendDb;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([fakeBackendInterceptor])),
+        { provide: APP_CONFIG, useValue: { apiUrl: API_URL, useFakeBackend: true } as AppConfig }
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    db = TestBed.inject(FakeBackendDb);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Lanza la petición y avanza la latencia simulada */
+  const send = async <T>(request$: Observable<T>): Promise<T> => {
+    const settled = firstValueFrom(request$).then(
+      value => ({ value }),
+      (error: unknown) => ({ error })
+    );
+    await vi.advanceTimersByTimeAsync(1000);
+    const result = await settled;
+    if ('error' in result) {
+      throw result.error;
+    }
+    return result.value;
+  };
+
+  const login = (username: string, password = FAKE_DEFAULT_PASSWORD) =>
+    send(http.post<AuthResponse>(`${API_URL}/auth/login`, { username, password }));
+
+  const authHeaders = (token: string) => new HttpHeaders({ Authorization: `Bearer ${token}` });
+
+  it('inicia sesión y atiende las rutas protegidas con el token emitido', async () => {
+    const { token, user } = await login('laura');
+    const me = await send(http.get<User>(`${API_URL}/users/me`, { headers: authHeaders(token) }));
+
+    expect(user.username).toBe('laura');
+    expect(me.id).toBe(user.id);
+  });
+
+  it('rechaza credenciales incorrectas con el código de la API', async () => {
+    await expect(login('laura', 'incorrecta')).rejects.toMatchObject({
+      status: 401,
+      error: { code: 'AUTH_INVALID_CREDENTIALS' }
+    });
+  });
+
+  it('responde 401 a las rutas protegidas sin token', async () => {
+    await expect(send(http.get(`${API_URL}/users/me`))).rejects.toMatchObject({
+      status: 401,
+      error: { code: 'AUTH_TOKEN_INVALID' }
+    });
+  });
+
+  it('devuelve los errores por campo de un registro no válido', async () => {
+    const error = await send(http.post(`${API_URL}/auth/register`, { username: 'x', email: 'no-es-un-email' }))
+      .then(() => null, (e: HttpErrorResponse) => e);
+    const fields = error?.error.errors.map((e: { field: string }) => e.field);
+
+    expect(error?.status).toBe(422);
+    expect(fields).toEqual(expect.arrayContaining(['username', 'email', 'firstName', 'lastName', 'password']));
+  });
+
+  it('solo copia al usuario los campos editables del body', async () => {
+    const { token, user } = await login('laura');
+
+    const updated = await send(http.put<User>(
+      `${API_URL}/users/me`,
+      { firstName: 'Laurita', password: 'cambiada', role: { name: 'ADMIN' } },
+      { headers: authHeaders(token) }
+    ));
+
+    expect(updated.firstName).toBe('Laurita');
+    expect(db.findUser(user.id)).toMatchObject({ password: FAKE_DEFAULT_PASSWORD, role: { name: 'USER' } });
+  });
+});
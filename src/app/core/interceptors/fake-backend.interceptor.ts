@@ -0,0 +1,128 @@
+import { HttpErrorResponse, HttpHeaders, HttpInterceptorFn, HttpRequest, HttpResponse } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { Observable, of, switchMap, throwError, timer } from 'rxjs';
+import { ApiErrorCode } from '../errors';
+import {
+  FAKE_ROUTES,
+  FakeBackendDb,
+  FakeHttpError,
+  FakeRoute,
+  FakeUserRecord,
+  canModerate,
+  isAdmin,
+  needsTwoFactorSetup,
+  readFakeToken
+} from '../fake-backend';
+import { APP_CONFIG } from '../config';
+
+/** Latencia simulada de cada respuesta (ms) */
+const FAKE_LATENCY = 250;
+
+// FAKE BACKEND INTERCEPTOR: responde a la API desde datos en memoria (sin backend Spring)
+// Solo se registra en builds de desarrollo (fake-backend.build.ts) y actúa con useFakeBackend en config.json
+export const fakeBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  const { apiUrl, useFakeBackend } = inject(APP_CONFIG);
+  if (!useFakeBackend || !req.url.startsWith(apiUrl)) {
+    return next(req);
+  }
+
+  const db = inject(FakeBackendDb);
+
+  // La respuesta se calcula al vencer la latencia para que refleje el estado en ese momento
+  return timer(FAKE_LATENCY).pipe(
+    switchMap(() => handleFakeRequest(req, req.url.slice(apiUrl.length).split('?')[0], db))
+  );
+};
+
+/**
+ * Busca la ruta, aplica autenticación y roles y ejecuta el handler.
+ * `path` es la URL relativa a apiUrl, sin query string.
+ */
+const handleFakeRequest = (
+  req: HttpRequest<unknown>,
+  path: string,
+  db: FakeBackendDb
+): Observable<HttpResponse<unknown>> => {
+  try {
+    const { route, params } = findRoute(req.method, path)
+      ?? fakeError(404, `Endpoint no disponible en el backend simulado: ${req.method} ${path}`);
+
+    const { currentUser, currentSessionId } = resolveSession(req, db);
+
+    if (route.access !== 'public' && !currentUser) {
+      fakeError(401, 'Token inválido o caducado', 'AUTH_TOKEN_INVALID');
+    }
+    if (route.access === 'admin' && !isAdmin(currentUser)) {
+      fakeError(403, 'Acceso denegado: se requiere rol ADMIN');
+    }
+    if (route.access === 'moderator' && !canModerate(currentUser)) {
+      fakeError(403, 'Acceso denegado: se requiere rol ADMIN o MODERATOR');
+    }
+    // Con la política activa, un ADMIN sin 2FA no puede usar el panel
+    if ((route.access === 'admin' || route.access === 'moderator') && needsTwoFactorSetup(currentUser, db)) {
+      fakeError(403, 'Se requiere verificación en dos pasos', 'AUTH_TWO_FACTOR_SETUP_REQUIRED');
+    }
+
+    return of(route.handle({ req, params, query: req.params, body: req.body, currentUser, currentSessionId, db }));
+  } catch (error) {
+    if (!(error instanceof FakeHttpError)) {
+      return throwError(() => error);
+    }
+
+    return throwError(() => new HttpErrorResponse({
+      status: error.status,
+      statusText: error.message,
+      url: req.url,
+      headers: new HttpHeaders(error.headers ?? {}),
+      // problem+json (RFC 7807) con los campos del formato anterior de Spring
+      error: {
+        type: error.code ? `/problems/${error.code.toLowerCase().replace(/_/g, '-')}` : 'about:blank',
+        title: error.message,
+        status: error.status,
+        detail: error.message,
+        instance: path,
+        code: error.code,
+        errors: Object.entries(error.fieldErrors ?? {}).map(([field, message]) => ({ field, message })),
+        error: error.message,
+        message: error.message,
+        timestamp: new Date().toISOString(),
+        path
+      }
+    }));
+  }
+};
+
+/**
+ * Primera ruta cuyo método y patrón coinciden.
+ */
+const findRoute = (method: string, path: string): { route: FakeRoute; params: string[] } | null => {
+  for (const route of FAKE_ROUTES) {
+    const match = route.method === method ? route.path.exec(path) : null;
+    if (match) {
+      return { route, params: match.slice(1) };
+    }
+  }
+  return null;
+};
+
+/**
+ * Usuario activo y sesión asociados al Bearer token (null si no hay token válido
+ * o su sesión se ha cerrado). Cada petición autenticada actualiza la última actividad de la sesión.
+ */
+const resolveSession = (
+  req: HttpRequest<unknown>,
+  db: FakeBackendDb
+): { currentUser: FakeUserRecord | null; currentSessionId: string | null } => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer /, '');
+  const payload = token ? readFakeToken(token) : null;
+  const user = payload ? db.findUser(payload.userId) : undefined;
+
+  if (!user?.active || (payload?.sid && !db.touchSession(payload.sid, user.id))) {
+    return { currentUser: null, currentSessionId: null };
+  }
+  return { currentUser: user, currentSessionId: payload?.sid ?? null };
+};
+
+const fakeError = (status: number, message: string, code?: ApiErrorCode): never => {
+  throw new FakeHttpError(status, message, code);
+};
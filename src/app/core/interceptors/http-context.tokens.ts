@@ -0,0 +1,36 @@
+// HTTP CONTEXT TOKENS: opciones por petición que leen los interceptores
+
+import { HttpContext, HttpContextToken } from '@angular/common/http';
+
+/**
+ * Desactiva los reintentos de retryInterceptor en una petición concreta.
+ * Uso: `http.get(url, { context: new HttpContext().set(SKIP_RETRY, true) })`
+ */
+export const SKIP_RETRY = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Evita el toast global de errorInterceptor cuando el componente muestra su propio error inline.
+ */
+export const SKIP_ERROR_TOAST = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Contexto listo para peticiones cuyo error se muestra inline en el componente.
+ * @returns HttpContext con SKIP_ERROR_TOAST activado
+ */
+export const withInlineErrors = (): HttpContext => new HttpContext().set(SKIP_ERROR_TOAST, true);
+
+/** Tipos de mutación que se guardan en el outbox si falla la red */
+export type OutboxKind = 'post' | 'comment' | 'reaction';
+
+/**
+ * Destino de una mutación encolable: tipo y post al que afecta (para pintar su estado pendiente).
+ */
+export interface OutboxTarget {
+  kind: OutboxKind;
+  postId?: number;
+}
+
+/**
+ * Marca una mutación para que outboxInterceptor la guarde y la reenvíe si falla por falta de red.
+ */
+export const OUTBOX_TARGET = new HttpContextToken<OutboxTarget | null>(() => null);
@@ -1,4 +1,7 @@
 // Barrel file: Core Interceptors
 export * from './auth.interceptor';
 export * from './error.interceptor';
+export * from './http-context.tokens';
 export * from './interceptor.config';
+export * from './outbox.interceptor';
+export * from './retry.interceptor';
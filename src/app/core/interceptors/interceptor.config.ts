@@ -3,8 +3,23 @@
 import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { authInterceptor } from './auth.interceptor';
 import { errorInterceptor } from './error.interceptor';
+import { FAKE_BACKEND_INTERCEPTORS } from './fake-backend.build';
+import { outboxInterceptor } from './outbox.interceptor';
+import { retryInterceptor } from './retry.interceptor';
 
-// Configuración centralizada de interceptores HTTP y su orden
+// Configuración centralizada de interceptores HTTP y su orden.
+// errorInterceptor va por fuera para ver solo los errores que sobreviven a los
+// reintentos y al refresh silencioso de authInterceptor (un 401 ya recuperado no llega a él).
+// outboxInterceptor es el más externo: solo guarda una mutación cuando ya se han agotado los reintentos.
+// retryInterceptor va antes que authInterceptor para que cada reintento lleve el token vigente.
+// fakeBackendInterceptor (solo en builds de desarrollo y con useFakeBackend en config.json)
+// es el último: sustituye a la red y recibe las peticiones ya autenticadas.
 export const httpConfig = provideHttpClient(
-  withInterceptors([authInterceptor, errorInterceptor])
+  withInterceptors([
+    outboxInterceptor,
+    errorInterceptor,
+    retryInterceptor,
+    authInterceptor,
+    ...FAKE_BACKEND_INTERCEPTORS
+  ])
 );
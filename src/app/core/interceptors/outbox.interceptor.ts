@@ -0,0 +1,31 @@
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { catchError, throwError } from 'rxjs';
+import { OutboxService } from '../services/outbox.service';
+import { ToastService } from '../services/toast.service';
+import { OUTBOX_TARGET } from './http-context.tokens';
+
+// OUTBOX INTERCEPTOR: guarda en el outbox las mutaciones marcadas que fallan por falta de red
+export const outboxInterceptor: HttpInterceptorFn = (req, next) => {
+  const target = req.context.get(OUTBOX_TARGET);
+
+  if (!target) {
+    return next(req);
+  }
+
+  const outboxService = inject(OutboxService);
+  const toastService = inject(ToastService);
+
+  return next(req).pipe(
+    catchError((error: unknown) => {
+      // Status 0: no hubo respuesta del servidor. El error se relanza para que
+      // el componente lo trate como "en cola" (OutboxService.wasQueued)
+      if (error instanceof HttpErrorResponse && error.status === 0) {
+        outboxService.enqueue(req, target);
+        toastService.info('Sin conexión: se enviará automáticamente al recuperar la red');
+      }
+
+      return throwError(() => error);
+    })
+  );
+};
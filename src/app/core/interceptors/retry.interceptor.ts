@@ -0,0 +1,75 @@
+// RETRY INTERCEPTOR: reintenta peticiones idempotentes ante fallos transitorios (TS)
+
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { retry, throwError, timer } from 'rxjs';
+import { SKIP_RETRY } from './http-context.tokens';
+
+/** Métodos idempotentes que es seguro repetir */
+const RETRYABLE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/** Códigos HTTP considerados transitorios (0 = error de red) */
+const RETRYABLE_STATUSES = new Set([0, 408, 429, 502, 503, 504]);
+
+/** Número máximo de reintentos */
+const MAX_RETRIES = 3;
+
+/** Retardo base del backoff exponencial (ms) */
+const BASE_DELAY = 500;
+
+/** Retardo máximo entre reintentos (ms); un Retry-After mayor cancela los reintentos */
+const MAX_DELAY = 10000;
+
+// Retry interceptor funcional: backoff exponencial con jitter y soporte de Retry-After
+export const retryInterceptor: HttpInterceptorFn = (req, next) => {
+  if (req.context.get(SKIP_RETRY) || !RETRYABLE_METHODS.has(req.method)) {
+    return next(req);
+  }
+
+  return next(req).pipe(
+    retry({
+      count: MAX_RETRIES,
+      delay: (error: unknown, retryCount: number) => {
+        if (!(error instanceof HttpErrorResponse) || !RETRYABLE_STATUSES.has(error.status)) {
+          return throwError(() => error);
+        }
+
+        // Si el servidor pide esperar más de lo que estamos dispuestos, no se reintenta
+        const retryAfter = getRetryAfterDelay(error);
+        if (retryAfter !== null && retryAfter > MAX_DELAY) {
+          return throwError(() => error);
+        }
+
+        return timer(retryAfter ?? getBackoffDelay(retryCount));
+      }
+    })
+  );
+};
+
+/**
+ * Calcula el retardo con backoff exponencial y "full jitter".
+ * @param retryCount - Número de reintento (empieza en 1)
+ * @returns Retardo en ms entre 0 y min(MAX_DELAY, BASE_DELAY * 2^(n-1))
+ */
+const getBackoffDelay = (retryCount: number): number => {
+  const exponentialDelay = Math.min(MAX_DELAY, BASE_DELAY * 2 ** (retryCount - 1));
+  return Math.round(Math.random() * exponentialDelay);
+};
+
+/**
+ * Lee la cabecera Retry-After (segundos o fecha HTTP).
+ * @param error - Respuesta de error
+ * @returns Retardo en ms o null si no hay cabecera válida
+ */
+const getRetryAfterDelay = (error: HttpErrorResponse): number | null => {
+  const retryAfter = error.headers?.get('Retry-After');
+  if (!retryAfter) {
+    return null;
+  }
+
+  const seconds = Number(retryAfter);
+  const delay = Number.isNaN(seconds)
+    ? new Date(retryAfter).getTime() - Date.now()
+    : seconds * 1000;
+
+  return Number.isNaN(delay) ? null : Math.max(0, delay);
+};
@@ -1,7 +1,9 @@
 import { Injectable, signal, inject, computed } from '@angular/core';
-import { HttpClient, HttpParams } from '@angular/common/http';
+import { HttpClient, HttpContext, HttpParams } from '@angular/common/http';
 import { Observable, catchError, throwError, tap } from 'rxjs';
-import { ApiResponse, PaginatedResponse, SortableListParams } from '../../shared/common';
+import { ApiResponse, CursorListParams, CursorPage, PaginatedResponse, SortableListParams } from '../../shared/common';
+import { HttpCacheService } from './http-cache.service';
+import { APP_CONFIG } from '../config';
 
 /**
  * Parámetros base para listados con paginación y ordenamiento.
@@ -18,6 +20,12 @@ export abstract class BaseCrudService<
   TListParams extends BaseListParams = BaseListParams
 > {
   protected readonly http = inject(HttpClient);
+  protected readonly cache = inject(HttpCacheService);
+
+  /**
+   * URL base de la API (config.json), para componer API_URL y los prefijos de caché.
+   */
+  protected readonly apiUrl = inject(APP_CONFIG).apiUrl;
 
   // Signals privados para el estado interno
   protected readonly _isLoading = signal<boolean>(false);
@@ -51,19 +59,28 @@ export abstract class BaseCrudService<
    */
   protected abstract readonly entityName: string;
 
+  /**
+   * Activa la caché stale-while-revalidate en los GET del servicio (opt-in).
+   * `cache.enabled` en config.json la desactiva en toda la aplicación.
+   */
+  protected readonly cacheEnabled: boolean = false;
+
   // MÉTODOS CRUD GENÉRICOS
 
   /**
    * Crea una nueva entidad.
    * @param request - Datos de la entidad a crear
+   * @param context - Contexto HTTP opcional (p. ej. para mostrar el error inline)
    * @returns Observable con la entidad creada
    */
-  create(request: TCreate): Observable<T> {
+  create(request: TCreate, context?: HttpContext): Observable<T> {
     this._isLoading.set(true);
 
-    return this.http.post<T>(this.API_URL, request)
+    return this.http.post<T>(this.API_URL, request, { context })
       .pipe(
         tap(item => {
+          this.invalidateCache();
+          this.storeEntities([item]);
           this._items.update(items => [item, ...items]);
           this._isLoading.set(false);
         }),
@@ -82,9 +99,10 @@ export abstract class BaseCrudService<
   getById(id: number): Observable<T> {
     this._isLoading.set(true);
 
-    return this.http.get<T>(`${this.API_URL}/${id}`)
+    return this.cachedGet<T>(`${this.API_URL}/${id}`, undefined, item => this.storeEntities([item]))
       .pipe(
         tap(item => {
+          this.storeEntities([item]);
           this._currentItem.set(item);
           this._isLoading.set(false);
         }),
@@ -99,14 +117,17 @@ export abstract class BaseCrudService<
    * Actualiza una entidad existente.
    * @param id - ID de la entidad a actualizar
    * @param request - Nuevos datos de la entidad
+   * @param context - Contexto HTTP opcional (p. ej. para mostrar el error inline)
    * @returns Observable con la entidad actualizada
    */
-  update(id: number, request: TUpdate): Observable<T> {
+  update(id: number, request: TUpdate, context?: HttpContext): Observable<T> {
     this._isLoading.set(true);
 
-    return this.http.put<T>(`${this.API_URL}/${id}`, request)
+    return this.http.put<T>(`${this.API_URL}/${id}`, request, { context })
       .pipe(
         tap(updatedItem => {
+          this.invalidateCache();
+          this.storeEntities([updatedItem]);
           this._currentItem.set(updatedItem);
           this._items.update(items =>
             items.map(item => this.getItemId(item) === id ? updatedItem : item)
@@ -123,14 +144,17 @@ export abstract class BaseCrudService<
   /**
    * Elimina una entidad del sistema.
    * @param id - ID de la entidad a eliminar
+   * @param context - Contexto HTTP opcional (p. ej. para mostrar el error inline)
    * @returns Observable con la confirmación de eliminación
    */
-  delete(id: number): Observable<ApiResponse> {
+  delete(id: number, context?: HttpContext): Observable<ApiResponse> {
     this._isLoading.set(true);
 
-    return this.http.delete<ApiResponse>(`${this.API_URL}/${id}`)
+    return this.http.delete<ApiResponse>(`${this.API_URL}/${id}`, { context })
       .pipe(
         tap(() => {
+          this.invalidateCache();
+          this.evictEntity(id);
           this._items.update(items => items.filter(item => this.getItemId(item) !== id));
           if (this._currentItem() && this.getItemId(this._currentItem()!) === id) {
             this._currentItem.set(null);
@@ -159,21 +183,94 @@ export abstract class BaseCrudService<
       if (params.sort) httpParams = httpParams.set('sort', params.sort);
     }
 
-    return this.http.get<PaginatedResponse<T>>(this.API_URL, { params: httpParams })
-      .pipe(
-        tap(response => {
-          this._items.set(response.content);
-          this._isLoading.set(false);
-        }),
-        catchError(error => {
-          this._isLoading.set(false);
-          return throwError(() => error);
-        })
-      );
+    return this.cachedGet<PaginatedResponse<T>>(
+      this.API_URL,
+      httpParams,
+      response => this.storeEntities(response.content)
+    ).pipe(
+      tap(response => {
+        this.storeEntities(response.content);
+        this._items.set(response.content);
+        this._isLoading.set(false);
+      }),
+      catchError(error => {
+        this._isLoading.set(false);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Obtiene una página de entidades por cursor.
+   * Para listas con scroll infinito; las tablas siguen usando getList (número de página).
+   * @param params - Cursor de la página anterior y tamaño
+   * @returns Observable con la página y el cursor de la siguiente
+   */
+  getPage(params: CursorListParams = {}): Observable<CursorPage<T>> {
+    return this.fetchCursorPage(this.API_URL, params);
   }
 
   // MÉTODOS AUXILIARES
 
+  /**
+   * GET paginado por cursor. El parámetro `cursor` va siempre (vacío en la primera
+   * página) para que el backend responda con CursorPage en lugar de PaginatedResponse.
+   * No usa la caché: una página cacheada y su revalidación desordenarían la lista.
+   * @param url - URL del recurso
+   * @param params - Cursor y tamaño
+   * @param filters - Filtros adicionales de la consulta
+   * @returns Observable con la página
+   */
+  protected fetchCursorPage(url: string, params: CursorListParams, filters = new HttpParams()): Observable<CursorPage<T>> {
+    const httpParams = filters
+      .set('cursor', params.cursor ?? '')
+      .set('size', (params.size ?? 10).toString());
+
+    return this.http.get<CursorPage<T>>(url, { params: httpParams }).pipe(
+      tap(page => this.storeEntities(page.content))
+    );
+  }
+
+  /**
+   * GET que pasa por la caché si el servicio la tiene activada.
+   * @param url - URL del recurso
+   * @param params - Parámetros de la consulta
+   * @param onRevalidate - Recibe la respuesta revalidada en segundo plano si ha cambiado
+   * @returns Observable con la respuesta (emite una sola vez, con o sin caché)
+   */
+  protected cachedGet<R>(url: string, params?: HttpParams, onRevalidate?: (value: R) => void): Observable<R> {
+    return this.cacheEnabled
+      ? this.cache.get<R>(url, { params, onRevalidate })
+      : this.http.get<R>(url, { params });
+  }
+
+  /**
+   * Prefijos de URL cuya caché queda obsoleta cuando este servicio modifica datos.
+   * Los servicios cuyas mutaciones afectan a otros recursos lo amplían.
+   */
+  protected relatedCachePrefixes(): string[] {
+    return [this.API_URL];
+  }
+
+  /**
+   * Invalida la caché propia y la de los recursos relacionados.
+   */
+  protected invalidateCache(): void {
+    this.cache.invalidate(...this.relatedCachePrefixes());
+  }
+
+  /**
+   * Vuelca en el EntityStoreService las entidades recibidas del backend.
+   * Los servicios cuyas entidades se muestran en varias vistas lo sobrescriben.
+   * @param items - Entidades recibidas
+   */
+  protected storeEntities(items: T[]): void { }
+
+  /**
+   * Quita del EntityStoreService una entidad eliminada en el backend.
+   * @param id - ID de la entidad
+   */
+  protected evictEntity(id: number): void { }
 
   /**
    * Obtiene el ID de una entidad.
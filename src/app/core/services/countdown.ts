@@ -0,0 +1,51 @@
+/** Countdown - cuenta atrás en segundos (reenvíos, límites de intentos) */
+
+import { DestroyRef, computed, inject, signal } from '@angular/core';
+
+/**
+ * Estado y acciones de una cuenta atrás.
+ */
+export interface Countdown {
+    /** Segundos que faltan (0 cuando no hay cuenta atrás) */
+    readonly remaining: () => number;
+    readonly active: () => boolean;
+    /** Empieza (o reinicia) la cuenta desde `seconds` */
+    start(seconds: number): void;
+    stop(): void;
+}
+
+/**
+ * Crea una cuenta atrás de un segundo por paso. Debe llamarse en un contexto de
+ * inyección: el intervalo se detiene al destruir el componente.
+ * @param onFinish - Se llama cuando la cuenta llega a 0
+ */
+export function createCountdown(onFinish?: () => void): Countdown {
+    const remaining = signal(0);
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    const stop = () => {
+        clearInterval(timer);
+        timer = undefined;
+        remaining.set(0);
+    };
+    inject(DestroyRef).onDestroy(() => clearInterval(timer));
+
+    return {
+        remaining: remaining.asReadonly(),
+        active: computed(() => remaining() > 0),
+        start: seconds => {
+            clearInterval(timer);
+            remaining.set(Math.max(0, Math.ceil(seconds)));
+            if (remaining() === 0) return;
+
+            timer = setInterval(() => {
+                remaining.update(value => value - 1);
+                if (remaining() === 0) {
+                    stop();
+                    onFinish?.();
+                }
+            }, 1000);
+        },
+        stop
+    };
+}
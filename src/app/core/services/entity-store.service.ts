@@ -0,0 +1,147 @@
+/** EntityStore Service - almacén normalizado (por ID) de usuarios y publicaciones */
+
+import { Injectable, signal } from '@angular/core';
+import { PostResponse, User } from '../../features/user/models';
+
+/** Cambios a aplicar sobre una entidad: parciales o calculados a partir de la actual */
+export type EntityChanges<T> = Partial<T> | ((current: T) => Partial<T>);
+
+/** Publicación guardada sin copiar a su autor (se resuelve desde `users`) */
+type StoredPost = Omit<PostResponse, 'author'> & { authorId: number };
+
+/**
+ * Los servicios de data-access escriben aquí todo usuario o publicación que reciben
+ * y los componentes guardan solo IDs y leen las entidades con `user()`/`selectPosts()`.
+ * Así, editar un avatar o un post se refleja en todas las vistas que lo muestran.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class EntityStoreService {
+
+    private readonly _users = signal<ReadonlyMap<number, User>>(new Map());
+    private readonly _posts = signal<ReadonlyMap<number, StoredPost>>(new Map());
+
+    // LECTURA (reactiva: dentro de un computed o template se actualiza sola)
+
+    /**
+     * Usuario por ID.
+     */
+    user(id: number | null | undefined): User | undefined {
+        return id == null ? undefined : this._users().get(id);
+    }
+
+    /**
+     * Publicación por ID con su autor actualizado.
+     */
+    post(id: number | null | undefined): PostResponse | undefined {
+        const stored = id == null ? undefined : this._posts().get(id);
+        return stored && this.denormalize(stored);
+    }
+
+    /**
+     * Publicaciones en el orden de los IDs; omite las que ya no existen.
+     */
+    selectPosts(ids: readonly number[]): PostResponse[] {
+        return ids
+            .map(id => this.post(id))
+            .filter((post): post is PostResponse => post !== undefined);
+    }
+
+    // ESCRITURA
+
+    /**
+     * Guarda o actualiza usuarios (los campos recibidos pisan a los guardados).
+     */
+    upsertUsers(...users: User[]): void {
+        if (users.length === 0) return;
+
+        this._users.update(current => {
+            const next = new Map(current);
+            users.forEach(user => next.set(user.id, { ...next.get(user.id), ...user }));
+            return next;
+        });
+    }
+
+    /**
+     * Guarda o actualiza publicaciones; sus autores van a `users`.
+     */
+    upsertPosts(...posts: PostResponse[]): void {
+        if (posts.length === 0) return;
+
+        this.upsertUsers(...posts.map(post => post.author).filter(Boolean));
+        this._posts.update(current => {
+            const next = new Map(current);
+            posts.forEach(({ author, ...post }) =>
+                next.set(post.id, { ...next.get(post.id), ...post, authorId: author.id })
+            );
+            return next;
+        });
+    }
+
+    /**
+     * Modifica un usuario ya guardado (no hace nada si no está).
+     */
+    patchUser(id: number, changes: EntityChanges<User>): void {
+        this._users.update(current => this.patch(current, id, changes));
+    }
+
+    /**
+     * Modifica una publicación ya guardada (no hace nada si no está).
+     */
+    patchPost(id: number, changes: EntityChanges<Omit<PostResponse, 'author'>>): void {
+        this._posts.update(current => this.patch<StoredPost>(current, id, changes));
+    }
+
+    /**
+     * Elimina un usuario y sus publicaciones.
+     */
+    removeUser(id: number): void {
+        this._users.update(current => this.without(current, id));
+        this._posts.update(current => {
+            const next = new Map(current);
+            current.forEach((post, postId) => {
+                if (post.authorId === id) next.delete(postId);
+            });
+            return next;
+        });
+    }
+
+    /**
+     * Elimina una publicación.
+     */
+    removePost(id: number): void {
+        this._posts.update(current => this.without(current, id));
+    }
+
+    /**
+     * Vacía el almacén (al cerrar sesión).
+     */
+    clear(): void {
+        this._users.set(new Map());
+        this._posts.set(new Map());
+    }
+
+    // UTILIDADES PRIVADAS
+
+    private denormalize({ authorId, ...post }: StoredPost): PostResponse {
+        return { ...post, author: this._users().get(authorId)! };
+    }
+
+    private patch<T extends object>(map: ReadonlyMap<number, T>, id: number, changes: EntityChanges<T>): ReadonlyMap<number, T> {
+        const current = map.get(id);
+        if (!current) return map;
+
+        const next = new Map(map);
+        next.set(id, { ...current, ...(typeof changes === 'function' ? changes(current) : changes) });
+        return next;
+    }
+
+    private without<T>(map: ReadonlyMap<number, T>, id: number): ReadonlyMap<number, T> {
+        if (!map.has(id)) return map;
+
+        const next = new Map(map);
+        next.delete(id);
+        return next;
+    }
+}
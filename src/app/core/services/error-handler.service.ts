@@ -2,6 +2,31 @@
 
 import { Injectable } from '@angular/core';
 import { HttpErrorResponse } from '@angular/common/http';
+import { ApiErrorCode, getApiErrorMessage, parseApiError } from '../errors';
+
+/** Código específico que sustituye a uno genérico en un contexto concreto */
+type ErrorCodeFallbacks = Partial<Record<ApiErrorCode, ApiErrorCode>>;
+
+/** Autenticación: login, registro y refresh */
+const AUTH_FALLBACKS: ErrorCodeFallbacks = {
+    UNAUTHORIZED: 'AUTH_INVALID_CREDENTIALS',
+    FORBIDDEN: 'AUTH_ACCOUNT_DISABLED',
+    CONFLICT: 'USER_ALREADY_EXISTS',
+    NOT_FOUND: 'USER_NOT_FOUND'
+};
+
+/** CRUD de usuarios */
+const USER_FALLBACKS: ErrorCodeFallbacks = {
+    CONFLICT: 'USER_ALREADY_EXISTS',
+    NOT_FOUND: 'USER_NOT_FOUND'
+};
+
+/** Publicaciones */
+const POST_FALLBACKS: ErrorCodeFallbacks = {
+    UNAUTHORIZED: 'POST_FORBIDDEN',
+    FORBIDDEN: 'POST_FORBIDDEN',
+    NOT_FOUND: 'POST_NOT_FOUND'
+};
 
 @Injectable({
     providedIn: 'root'
@@ -12,100 +37,43 @@ export class ErrorHandlerService {
      * Obtiene mensaje de error para operaciones de autenticación
      */
     getAuthErrorMessage(error: HttpErrorResponse): string {
-        // Cuenta desactivada / inactiva (varios formatos del backend)
-        const msg = (error?.error?.message || '').toString().toLowerCase();
-        const errType = (error?.error?.error || '').toString().toLowerCase();
-        if (
-            msg.includes('disabled') ||
-            msg.includes('desactiv') ||
-            msg.includes('deshabil') ||
-            msg.includes('inactiv') ||
-            errType.includes('account disabled') ||
-            error?.status === 403 && (msg.includes('account') || errType.includes('disabled'))
-        ) {
-            return 'Cuenta inactiva. Contactar con soporte técnico.';
-        }
-
-        // Usuario no encontrado
-        if (error?.error?.message?.toLowerCase().includes('user not found')) {
-            return 'Usuario no encontrado.';
-        }
-
-        // Contraseña incorrecta
-        if (error?.status === 401 ||
-            error?.error?.message?.toLowerCase().includes('unexpected error') ||
-            error?.error?.message?.toLowerCase().includes('invalid credentials')) {
-            return 'Contraseña incorrecta.';
-        }
-
-        // Usuario o email ya existe
-        if (error?.error?.message?.toLowerCase().includes('already exists') ||
-            error?.error?.message?.toLowerCase().includes('username') ||
-            error?.error?.message?.toLowerCase().includes('email')) {
-            return 'Usuario o email ya existe.';
-        }
-
-        return this.getGenericErrorMessage(error);
+        return this.resolveMessage(error, AUTH_FALLBACKS);
     }
 
     /**
      * Obtiene mensaje de error para operaciones CRUD de usuarios
      */
     getUserErrorMessage(error: HttpErrorResponse): string {
-        if (error?.error?.message && !error?.error?.message?.toLowerCase().includes('unexpected error')) {
-            return error.error.message;
-        }
-
-        if (error?.status === 409) {
-            return 'Usuario o email ya existe.';
-        }
-
-        if (error?.status === 400) {
-            return 'Datos inválidos.';
-        }
-
-        if (error?.status === 404) {
-            return 'Usuario no encontrado.';
-        }
-
-        return this.getGenericErrorMessage(error);
+        return this.resolveMessage(error, USER_FALLBACKS);
     }
 
     /**
      * Obtiene mensaje de error para operaciones de posts
      */
     getPostErrorMessage(error: HttpErrorResponse): string {
-        if (error?.error?.message) {
-            return error.error.message;
-        }
-
-        if (error?.status === 400) {
-            return 'Datos inválidos. Verifica la información ingresada.';
-        }
-
-        if (error?.status === 401) {
-            return 'No tienes permisos para esta acción.';
-        }
-
-        if (error?.status === 404) {
-            return 'Publicación no encontrada.';
-        }
+        return this.resolveMessage(error, POST_FALLBACKS);
+    }
 
-        return this.getGenericErrorMessage(error);
+    /**
+     * Obtiene el mensaje que se muestra en el toast global de errores HTTP
+     */
+    getHttpErrorMessage(error: HttpErrorResponse): string {
+        return this.resolveMessage(error);
     }
 
     /**
      * Obtiene mensaje de error genérico basado en código HTTP
      */
     getGenericErrorMessage(error: HttpErrorResponse): string {
-        if (error?.status === 403) {
-            return 'Acceso denegado.';
-        }
-
-        if (error?.status === 0 || error?.status === 500) {
-            return 'Error de conexión.';
-        }
+        return this.resolveMessage(error);
+    }
 
-        return 'Error inesperado. Intenta nuevamente.';
+    /**
+     * Mensaje del registro para el código del error.
+     * Si el backend solo envió un código genérico, el contexto puede concretarlo.
+     */
+    private resolveMessage(error: unknown, fallbacks: ErrorCodeFallbacks = {}): string {
+        const { code } = parseApiError(error);
+        return getApiErrorMessage(fallbacks[code] ?? code);
     }
 }
@@ -0,0 +1,105 @@
+/** FeatureFlag Service - resolución de flags de funcionalidades */
+
+import { Injectable, Signal, computed, inject, signal } from '@angular/core';
+import { AuthService } from '../../features/auth/data-access/auth.service';
+import { APP_CONFIG } from '../config';
+
+/** Clave de localStorage con los overrides de desarrollo (solo con `debug`): `{"chatbot": false}` */
+const DEV_OVERRIDES_STORAGE_KEY = 'featureFlags';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class FeatureFlagService {
+    private readonly authService = inject(AuthService);
+    private readonly config = inject(APP_CONFIG);
+
+    /** Overrides locales de desarrollo (localStorage); sin `debug` en config.json no se leen ni se guardan */
+    private readonly _devOverrides = signal<Record<string, boolean>>(this.readDevOverrides());
+    readonly devOverrides = this._devOverrides.asReadonly();
+
+    /**
+     * Flags resueltos para el usuario actual. Prioridad (de mayor a menor):
+     * override local de desarrollo → override del usuario en config.json → valor por defecto de config.json.
+     */
+    readonly flags = computed<Record<string, boolean>>(() => {
+        const username = this.authService.currentUser()?.username;
+        const userOverrides = username ? this.config.featureOverrides?.[username] : undefined;
+
+        return {
+            ...this.config.features,
+            ...userOverrides,
+            ...this._devOverrides()
+        };
+    });
+
+    /**
+     * Indica si un flag está activo (los flags desconocidos están desactivados).
+     * Es reactivo: leído dentro de un computed o template se actualiza al cambiar de usuario.
+     * @param flag - Nombre del flag
+     */
+    isEnabled(flag: string): boolean {
+        return this.flags()[flag] ?? false;
+    }
+
+    /**
+     * Signal con el estado de un flag.
+     * @param flag - Nombre del flag
+     */
+    watch(flag: string): Signal<boolean> {
+        return computed(() => this.isEnabled(flag));
+    }
+
+    /**
+     * Fuerza un flag en este navegador (solo para desarrollo y pruebas: requiere `debug`).
+     * @param flag - Nombre del flag
+     * @param enabled - Valor forzado, o null para volver al de la configuración
+     */
+    setDevOverride(flag: string, enabled: boolean | null): void {
+        if (!this.config.debug) {
+            return;
+        }
+
+        this._devOverrides.update(overrides => {
+            const { [flag]: _, ...rest } = overrides;
+            return enabled === null ? rest : { ...rest, [flag]: enabled };
+        });
+        this.persistDevOverrides();
+    }
+
+    /**
+     * Elimina todos los overrides locales.
+     */
+    clearDevOverrides(): void {
+        this._devOverrides.set({});
+        this.persistDevOverrides();
+    }
+
+    private readDevOverrides(): Record<string, boolean> {
+        if (!this.config.debug) {
+            return {};
+        }
+
+        try {
+            const stored = JSON.parse(localStorage.getItem(DEV_OVERRIDES_STORAGE_KEY) ?? '{}');
+            return Object.fromEntries(
+                Object.entries(stored ?? {}).filter(([, value]) => typeof value === 'boolean')
+            ) as Record<string, boolean>;
+        } catch {
+            return {};
+        }
+    }
+
+    private persistDevOverrides(): void {
+        if (!this.config.debug) {
+            return;
+        }
+
+        const overrides = this._devOverrides();
+        if (Object.keys(overrides).length) {
+            localStorage.setItem(DEV_OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+        } else {
+            localStorage.removeItem(DEV_OVERRIDES_STORAGE_KEY);
+        }
+    }
+}
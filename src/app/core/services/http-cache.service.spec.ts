@@ -0,0 +1,85 @@
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { AuthService } from '../../features/auth/data-access/auth.service';
+import { AppConfig, APP_CONFIG } from '../config';
+import { HttpCacheService } from './http-cache.service';
+
+const URL = 'http://localhost/api/admin/reports';
+const TTL = 1000;
+
+describe('HttpCacheService', () => {
+  let cache: HttpCacheService;
+  let httpTesting: HttpTestingController;
+
+  const setup = (enabled = true) => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: APP_CONFIG, useValue: { cache: { enabled, ttl: TTL } } as AppConfig },
+        { provide: AuthService, useValue: { currentUser: signal({ id: 1 }) } }
+      ]
+    });
+    cache = TestBed.inject(HttpCacheService);
+    httpTesting = TestBed.inject(HttpTestingController);
+  };
+
+  /** Lanza el GET y devuelve lo que emite */
+  const read = (options: Parameters<HttpCacheService['get']>[1] = {}) => {
+    const values: unknown[] = [];
+    cache.get(URL, options).subscribe(value => values.push(value));
+    return values;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    httpTesting.verify();
+    vi.useRealTimers();
+  });
+
+  it('sirve la respuesta fresca sin ir a la red', () => {
+    setup();
+    read();
+    httpTesting.expectOne(URL).flush({ total: 1 });
+
+    expect(read()).toEqual([{ total: 1 }]);
+  });
+
+  it('emite la respuesta caducada y revalida en segundo plano', () => {
+    setup();
+    const onRevalidate = vi.fn();
+    read();
+    httpTesting.expectOne(URL).flush({ total: 1 });
+    vi.advanceTimersByTime(TTL);
+
+    expect(read({ onRevalidate })).toEqual([{ total: 1 }]);
+    httpTesting.expectOne(URL).flush({ total: 2 });
+    expect(onRevalidate).toHaveBeenCalledWith({ total: 2 });
+  });
+
+  it('con staleWhileRevalidate: false espera a la red si la entrada ha caducado', () => {
+    setup();
+    read();
+    httpTesting.expectOne(URL).flush({ total: 1 });
+    vi.advanceTimersByTime(TTL);
+
+    const values = read({ staleWhileRevalidate: false });
+    expect(values).toEqual([]);
+    httpTesting.expectOne(URL).flush({ total: 2 });
+    expect(values).toEqual([{ total: 2 }]);
+  });
+
+  it('va siempre a la red si la caché está desactivada en la configuración', () => {
+    setup(false);
+    read();
+    httpTesting.expectOne(URL).flush({ total: 1 });
+
+    read();
+    httpTesting.expectOne(URL).flush({ total: 1 });
+  });
+});
@@ -0,0 +1,169 @@
+/** HttpCache Service - caché stale-while-revalidate para peticiones GET */
+
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpContext, HttpParams } from '@angular/common/http';
+import { EMPTY, Observable, catchError, filter, finalize, of, shareReplay, tap } from 'rxjs';
+import { AuthService } from '../../features/auth/data-access/auth.service';
+import { SKIP_ERROR_TOAST } from '../interceptors/http-context.tokens';
+import { APP_CONFIG } from '../config';
+
+/** Opciones de una petición GET cacheada */
+export interface CachedGetOptions<T = unknown> {
+    params?: HttpParams;
+    /** Tiempo (ms) durante el que la respuesta se sirve sin revalidar */
+    ttl?: number;
+    /**
+     * Con `false`, una entrada caducada se vuelve a pedir antes de emitir en lugar de
+     * servirse al instante. Para listas paginadas y tablas, donde la revalidación en
+     * segundo plano no puede corregir el contenido, el orden ni los totales ya pintados.
+     */
+    staleWhileRevalidate?: boolean;
+    /**
+     * Recibe la respuesta revalidada si ha cambiado. No se emite por el observable
+     * para no repetir los `next` de quien se suscribe (cargas, paginación, etc.).
+     */
+    onRevalidate?: (value: T) => void;
+}
+
+/** Respuesta guardada en caché */
+interface CacheEntry {
+    url: string;
+    value: unknown;
+    storedAt: number;
+}
+
+@Injectable({
+    providedIn: 'root'
+})
+export class HttpCacheService {
+    private readonly http = inject(HttpClient);
+    private readonly authService = inject(AuthService);
+    private readonly config = inject(APP_CONFIG);
+
+    private readonly entries = new Map<string, CacheEntry>();
+    private readonly inFlight = new Map<string, Observable<unknown>>();
+
+    /**
+     * GET cacheado por URL y parámetros.
+     * - Sin caché: hace la petición y guarda la respuesta.
+     * - Caché fresca (dentro del TTL): la emite sin ir a la red.
+     * - Caché caducada: la emite al instante y revalida en segundo plano;
+     *   la respuesta nueva actualiza la caché y, si ha cambiado, se pasa a `onRevalidate`.
+     *   Con `staleWhileRevalidate: false` se trata como si no hubiera caché.
+     * - Caché desactivada en la configuración: petición directa, sin guardar nada.
+     * El observable emite siempre una sola vez.
+     * @param url - URL del recurso
+     * @param options - Parámetros, TTL y modo de revalidación
+     */
+    get<T>(url: string, options: CachedGetOptions<T> = {}): Observable<T> {
+        if (!this.config.cache.enabled) {
+            return this.http.get<T>(url, { params: options.params });
+        }
+
+        const key = this.buildKey(url, options.params);
+        const ttl = options.ttl ?? this.config.cache.ttl;
+        const entry = this.entries.get(key);
+        const isFresh = !!entry && Date.now() - entry.storedAt < ttl;
+
+        if (!entry || (!isFresh && options.staleWhileRevalidate === false)) {
+            return this.fetch<T>(key, url, options.params);
+        }
+
+        // Se emiten copias para que los componentes puedan mutar los datos sin tocar la caché
+        const cached$ = of(structuredClone(entry.value) as T);
+
+        if (isFresh) {
+            return cached$;
+        }
+
+        return cached$.pipe(
+            tap({ subscribe: () => this.revalidate(key, url, entry, options) })
+        );
+    }
+
+    /**
+     * Elimina las entradas cuya URL empieza por alguno de los prefijos.
+     * Las peticiones en curso para esas URLs ya no guardarán su respuesta.
+     * @param prefixes - Prefijos de URL (normalmente el API_URL del servicio)
+     */
+    invalidate(...prefixes: string[]): void {
+        const matches = (url: string) => prefixes.some(prefix => url.startsWith(prefix));
+
+        this.entries.forEach((entry, key) => {
+            if (matches(entry.url)) {
+                this.entries.delete(key);
+            }
+        });
+
+        this.inFlight.forEach((_, key) => {
+            if (matches(this.urlFromKey(key))) {
+                this.inFlight.delete(key);
+            }
+        });
+    }
+
+    /**
+     * Vacía la caché por completo.
+     */
+    clear(): void {
+        this.entries.clear();
+        this.inFlight.clear();
+    }
+
+    /**
+     * Revalida una entrada caducada sin emitir por el observable del consumidor.
+     * El usuario ya tiene datos: un fallo al revalidar no se notifica.
+     */
+    private revalidate<T>(key: string, url: string, entry: CacheEntry, options: CachedGetOptions<T>): void {
+        this.fetch<T>(
+            key,
+            url,
+            options.params,
+            new HttpContext().set(SKIP_ERROR_TOAST, true)
+        ).pipe(
+            filter(value => JSON.stringify(value) !== JSON.stringify(entry.value)),
+            catchError(() => EMPTY)
+        ).subscribe(value => options.onRevalidate?.(structuredClone(value)));
+    }
+
+    /**
+     * Hace la petición compartiendo la que ya esté en curso para la misma clave.
+     */
+    private fetch<T>(key: string, url: string, params?: HttpParams, context?: HttpContext): Observable<T> {
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            return pending as Observable<T>;
+        }
+
+        const request$: Observable<T> = this.http.get<T>(url, { params, context }).pipe(
+            tap(value => {
+                // Si se invalidó mientras tanto, la respuesta puede estar desfasada
+                if (this.inFlight.get(key) === request$) {
+                    this.entries.set(key, { url, value: structuredClone(value), storedAt: Date.now() });
+                }
+            }),
+            finalize(() => {
+                if (this.inFlight.get(key) === request$) {
+                    this.inFlight.delete(key);
+                }
+            }),
+            shareReplay(1)
+        );
+
+        this.inFlight.set(key, request$);
+        return request$;
+    }
+
+    /**
+     * Clave de caché: usuario + URL + parámetros (cada usuario tiene sus propios datos).
+     */
+    private buildKey(url: string, params?: HttpParams): string {
+        const userId = this.authService.currentUser()?.id ?? 'anon';
+        const query = params?.toString();
+        return `${userId}|${query ? `${url}?${query}` : url}`;
+    }
+
+    private urlFromKey(key: string): string {
+        return key.slice(key.indexOf('|') + 1);
+    }
+}
@@ -1,3 +1,12 @@
 // Barrel file: Core Services
 export * from './base-crud.service';
+export * from './countdown';
+export * from './entity-store.service';
 export * from './error-handler.service';
+export * from './feature-flag.service';
+export * from './http-cache.service';
+export * from './infinite-list';
+export * from './outbox.service';
+export * from './optimistic-update.service';
+export * from './session-timeout.service';
+export * from './toast.service';
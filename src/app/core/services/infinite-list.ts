@@ -0,0 +1,96 @@
+/** InfiniteList - lista con scroll infinito sobre páginas por cursor */
+
+import { DestroyRef, computed, inject, signal } from '@angular/core';
+import { Observable, Subscription } from 'rxjs';
+import { CursorPage } from '../../shared/common';
+
+/**
+ * Configuración de una lista infinita.
+ */
+export interface InfiniteListOptions<T> {
+    /** Pide la página que empieza en `cursor` (null para la primera) */
+    load: (cursor: string | null) => Observable<CursorPage<T>>;
+    /** Identidad de cada elemento, para no repetir los que ya están en la lista */
+    trackBy: (item: T) => number;
+    /** Se llama tras añadir cada página */
+    onPage?: (page: CursorPage<T>) => void;
+}
+
+/**
+ * Estado y acciones de una lista infinita.
+ */
+export interface InfiniteList<T> {
+    readonly items: () => T[];
+    /** Cargando la primera página */
+    readonly loading: () => boolean;
+    /** Cargando una página siguiente */
+    readonly loadingMore: () => boolean;
+    readonly hasMore: () => boolean;
+    readonly error: () => unknown;
+    /** Vacía la lista y pide la primera página */
+    reset(): void;
+    /** Pide la página siguiente (no hace nada si ya hay una en curso o no quedan más) */
+    loadMore(): void;
+    /** Modifica los elementos ya cargados (p. ej. añadir un post recién creado) */
+    update(fn: (items: T[]) => T[]): void;
+}
+
+/**
+ * Crea una lista infinita paginada por cursor. Debe llamarse en un contexto de
+ * inyección: la petición en curso se cancela al destruir el componente.
+ *
+ * A diferencia de la paginación por número de página, los elementos creados entre
+ * una página y la siguiente no provocan duplicados ni saltos.
+ */
+export function createInfiniteList<T>(options: InfiniteListOptions<T>): InfiniteList<T> {
+    const items = signal<T[]>([]);
+    const nextCursor = signal<string | null>(null);
+    const hasMore = signal(true);
+    const fetching = signal(false);
+    const error = signal<unknown>(null);
+
+    let subscription: Subscription | undefined;
+    inject(DestroyRef).onDestroy(() => subscription?.unsubscribe());
+
+    const fetch = (cursor: string | null) => {
+        fetching.set(true);
+        error.set(null);
+
+        subscription = options.load(cursor).subscribe({
+            next: page => {
+                items.update(current => {
+                    const known = new Set(current.map(options.trackBy));
+                    return [...current, ...page.content.filter(item => !known.has(options.trackBy(item)))];
+                });
+                nextCursor.set(page.nextCursor);
+                hasMore.set(page.nextCursor !== null);
+                fetching.set(false);
+                options.onPage?.(page);
+            },
+            error: err => {
+                error.set(err);
+                fetching.set(false);
+            }
+        });
+    };
+
+    return {
+        items: items.asReadonly(),
+        loading: computed(() => fetching() && items().length === 0),
+        loadingMore: computed(() => fetching() && items().length > 0),
+        hasMore: hasMore.asReadonly(),
+        error: error.asReadonly(),
+        reset: () => {
+            subscription?.unsubscribe();
+            items.set([]);
+            nextCursor.set(null);
+            hasMore.set(true);
+            fetch(null);
+        },
+        loadMore: () => {
+            if (fetching() || !hasMore()) return;
+            fetch(nextCursor());
+        },
+        update: fn => items.update(fn)
+    };
+}
@@ -0,0 +1,76 @@
+/** OptimisticUpdate Service - mutaciones optimistas con rollback automático */
+
+import { Injectable, WritableSignal, inject } from '@angular/core';
+import { HttpContext } from '@angular/common/http';
+import { Observable, catchError, tap, throwError } from 'rxjs';
+import { withInlineErrors } from '../interceptors/http-context.tokens';
+import { ErrorHandlerService } from './error-handler.service';
+import { OutboxService } from './outbox.service';
+import { ToastService } from './toast.service';
+
+/** Deshace un cambio local */
+export type Rollback = () => void;
+
+/**
+ * Descripción de una mutación optimista.
+ */
+export interface OptimisticMutation<R> {
+    /** Aplica el cambio local y devuelve cómo deshacerlo */
+    apply: () => Rollback;
+    /** Petición al servidor; recibe el contexto HTTP que desactiva el toast global */
+    request: (context: HttpContext) => Observable<R>;
+    /** Ajusta el estado local con la respuesta real del servidor */
+    reconcile?: (response: R) => void;
+    /** Mensaje del toast si falla (por defecto, el de ErrorHandlerService) */
+    errorMessage?: string;
+    /** La petición va marcada con OUTBOX_TARGET: sin red se encola y no es un fallo */
+    queueable?: boolean;
+}
+
+/**
+ * Cambia un signal y devuelve el rollback que restaura el valor anterior.
+ * @param target - Signal a modificar
+ * @param update - Función que calcula el nuevo valor
+ */
+export function patchSignal<T>(target: WritableSignal<T>, update: (current: T) => T): Rollback {
+    const previous = target();
+    target.set(update(previous));
+    return () => target.set(previous);
+}
+
+/**
+ * La interfaz refleja el cambio al instante y, si el servidor lo rechaza, vuelve
+ * al estado anterior y avisa con un toast. Las mutaciones que se quedan en el
+ * outbox por falta de red también se deshacen, pero sin toast: se pintan como
+ * pendientes y se aplican al completarse.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class OptimisticUpdateService {
+
+    private readonly toastService = inject(ToastService);
+    private readonly errorHandler = inject(ErrorHandlerService);
+    private readonly outboxService = inject(OutboxService);
+
+    /**
+     * Ejecuta una mutación optimista.
+     * @param mutation - Cambio local, petición y reconciliación
+     * @returns Observable con la respuesta del servidor (el error se relanza tras el rollback)
+     */
+    execute<R>(mutation: OptimisticMutation<R>): Observable<R> {
+        // El toast lo muestra este servicio, no errorInterceptor
+        const rollback = mutation.apply();
+
+        return mutation.request(withInlineErrors()).pipe(
+            tap(response => mutation.reconcile?.(response)),
+            catchError(error => {
+                rollback();
+                if (!(mutation.queueable && this.outboxService.wasQueued(error))) {
+                    this.toastService.error(mutation.errorMessage ?? this.errorHandler.getHttpErrorMessage(error));
+                }
+                return throwError(() => error);
+            })
+        );
+    }
+}
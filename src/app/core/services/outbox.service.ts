@@ -0,0 +1,364 @@
+/** Outbox Service - cola persistente (IndexedDB) de mutaciones hechas sin conexión */
+
+import { DestroyRef, Injectable, computed, inject, signal } from '@angular/core';
+import { HttpClient, HttpContext, HttpErrorResponse, HttpRequest } from '@angular/common/http';
+import { Observable, Subject, catchError, firstValueFrom, map, of, tap } from 'rxjs';
+import { AuthService } from '../../features/auth/data-access/auth.service';
+import { OutboxKind, OutboxTarget, SKIP_ERROR_TOAST } from '../interceptors/http-context.tokens';
+import { ErrorHandlerService } from './error-handler.service';
+
+/** Estado de un elemento del outbox */
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+/** Mutación guardada a la espera de poder enviarse */
+export interface OutboxItem {
+    id: string;
+    userId: number | null;
+    kind: OutboxKind;
+    postId?: number;
+    method: string;
+    url: string;
+    body: unknown;
+    params: Record<string, string>;
+    createdAt: string;
+    status: OutboxStatus;
+    error?: string;
+}
+
+/** Mutación del outbox ya aceptada por el servidor */
+export interface OutboxCompletion {
+    item: OutboxItem;
+    response: unknown;
+}
+
+/** Resultado de reenviar un elemento */
+type ReplayResult = 'sent' | 'failed' | 'offline';
+
+const DB_NAME = 'mindhub-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'items';
+/** Lock de Web Locks que garantiza una sola pestaña vaciando la cola */
+const FLUSH_LOCK = 'mindhub-outbox-flush';
+/** Canal por el que las pestañas se avisan de cambios en la cola */
+const CHANNEL_NAME = 'mindhub-outbox';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class OutboxService {
+    private readonly http = inject(HttpClient);
+    private readonly authService = inject(AuthService);
+    private readonly errorHandler = inject(ErrorHandlerService);
+
+    /** Conexión a IndexedDB (null si el navegador no lo soporta: la cola vive solo en memoria) */
+    private readonly db: Promise<IDBDatabase | null> = this.openDatabase();
+    private readonly channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME);
+    /** Elementos encolados en esta pestaña que aún no se han escrito en IndexedDB */
+    private readonly unsavedIds = new Set<string>();
+    private isFlushing = false;
+
+    private readonly _items = signal<OutboxItem[]>([]);
+
+    /** Elementos del usuario actual, en orden de creación */
+    readonly items = computed(() => {
+        const userId = this.authService.currentUser()?.id ?? null;
+        return this._items().filter(item => item.userId === userId);
+    });
+
+    readonly pendingCount = computed(() => this.items().length);
+
+    private readonly _completed = new Subject<OutboxCompletion>();
+    /** Emite cada mutación que el servidor acepta al vaciar la cola */
+    readonly completed$ = this._completed.asObservable();
+
+    constructor() {
+        const handleOnline = () => this.flush();
+        window.addEventListener('online', handleOnline);
+        if (this.channel) {
+            this.channel.onmessage = () => this.reload();
+        }
+        inject(DestroyRef).onDestroy(() => {
+            window.removeEventListener('online', handleOnline);
+            this.channel?.close();
+        });
+
+        this.reload().then(() => this.flush());
+    }
+
+    /**
+     * Guarda una petición que no pudo enviarse por falta de red.
+     * @param req - Petición original
+     * @param target - Tipo de mutación y post afectado
+     */
+    enqueue(req: HttpRequest<unknown>, target: OutboxTarget): OutboxItem {
+        const params: Record<string, string> = {};
+        req.params.keys().forEach(key => {
+            const value = req.params.get(key);
+            if (value !== null) {
+                params[key] = value;
+            }
+        });
+
+        const item: OutboxItem = {
+            id: crypto.randomUUID(),
+            userId: this.authService.currentUser()?.id ?? null,
+            kind: target.kind,
+            postId: target.postId,
+            method: req.method,
+            url: req.url,
+            body: req.body,
+            params,
+            createdAt: new Date().toISOString(),
+            status: 'pending'
+        };
+
+        this._items.update(items => [...items, item]);
+        this.unsavedIds.add(item.id);
+        this.persist(item);
+        return item;
+    }
+
+    /**
+     * Reenvía en orden los elementos pendientes. Se detiene si vuelve a faltar la red;
+     * los rechazados por el servidor quedan como 'failed' para que el usuario decida.
+     * Si otra pestaña ya está vaciando la cola no hace nada: esa pestaña lee la cola
+     * de IndexedDB y enviará también lo encolado aquí.
+     */
+    flush(): void {
+        if (this.isFlushing || !navigator.onLine) {
+            return;
+        }
+
+        if (!this.items().some(item => item.status !== 'failed')) {
+            return;
+        }
+
+        this.isFlushing = true;
+        this.withFlushLock(() => this.drain()).finally(() => this.isFlushing = false);
+    }
+
+    /**
+     * Vuelve a poner en cola un elemento fallido y lo reenvía.
+     */
+    retry(id: string): void {
+        this.patchItem(id, { status: 'pending', error: undefined });
+        this.flush();
+    }
+
+    /**
+     * Elimina un elemento de la cola sin enviarlo.
+     */
+    discard(id: string): void {
+        this._items.update(items => items.filter(item => item.id !== id));
+        this.runInStore('readwrite', store => store.delete(id)).then(() => this.notifyTabs());
+    }
+
+    /**
+     * Indica si el error corresponde a una mutación que se ha quedado en el outbox.
+     * Solo tiene sentido para peticiones marcadas con OUTBOX_TARGET.
+     */
+    wasQueued(error: unknown): boolean {
+        return error instanceof HttpErrorResponse && error.status === 0;
+    }
+
+    /**
+     * Ejecuta la tarea con el lock de vaciado si el navegador tiene Web Locks.
+     * Sin él no hay coordinación entre pestañas, pero el reclamo en IndexedDB
+     * sigue impidiendo que dos envíos simultáneos tomen el mismo elemento.
+     */
+    private withFlushLock(task: () => Promise<void>): Promise<void> {
+        if (!navigator.locks) {
+            return task();
+        }
+
+        return navigator.locks.request<void>(FLUSH_LOCK, { ifAvailable: true }, async lock => {
+            if (lock) {
+                await task();
+            }
+        });
+    }
+
+    /**
+     * Vacía la cola con el lock tomado, reclamando cada elemento antes de enviarlo.
+     */
+    private async drain(): Promise<void> {
+        await this.reload();
+
+        // Con el lock en nuestro poder, un 'sending' es de una pestaña que se cerró a medio envío
+        this.items()
+            .filter(item => item.status === 'sending')
+            .forEach(item => this.patchItem(item.id, { status: 'pending' }));
+
+        while (navigator.onLine) {
+            const next = this.items().find(item => item.status === 'pending');
+            if (!next) {
+                return;
+            }
+
+            const claimed = await this.claim(next);
+            if (!claimed) {
+                // Otra pestaña lo envió o lo descartó: se sincroniza y se sigue con el resto
+                await this.reload();
+                if (this.items().some(item => item.id === next.id && item.status === 'pending')) {
+                    return;
+                }
+                continue;
+            }
+
+            this._items.update(items => items.map(item => item.id === claimed.id ? claimed : item));
+            if (await firstValueFrom(this.replay(claimed)) === 'offline') {
+                return;
+            }
+        }
+    }
+
+    /**
+     * Marca el elemento como 'sending' en IndexedDB solo si sigue pendiente. Lectura y
+     * escritura van en la misma transacción, así que dos pestañas no pueden reclamarlo a la vez.
+     * @returns El elemento reclamado, o null si ya no está pendiente
+     */
+    private claim(item: OutboxItem): Promise<OutboxItem | null> {
+        return this.db.then(db => {
+            if (!db) {
+                return { ...item, status: 'sending' as const };
+            }
+
+            return new Promise<OutboxItem | null>(resolve => {
+                const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+                const request = store.get(item.id);
+                request.onsuccess = () => {
+                    const stored = request.result as OutboxItem | undefined;
+                    if (stored?.status !== 'pending') {
+                        resolve(null);
+                        return;
+                    }
+                    const claimed = { ...stored, status: 'sending' as const };
+                    store.put(claimed);
+                    resolve(claimed);
+                };
+                request.onerror = () => resolve(null);
+            });
+        }).catch(() => null);
+    }
+
+    /**
+     * Envía un elemento ya reclamado y actualiza su estado según la respuesta.
+     */
+    private replay(item: OutboxItem): Observable<ReplayResult> {
+        return this.http.request(item.method, item.url, {
+            body: item.body,
+            params: item.params,
+            context: new HttpContext().set(SKIP_ERROR_TOAST, true)
+        }).pipe(
+            tap(response => {
+                this.discard(item.id);
+                this._completed.next({ item, response });
+            }),
+            map((): ReplayResult => 'sent'),
+            catchError((error: HttpErrorResponse) => {
+                if (error.status === 0) {
+                    this.patchItem(item.id, { status: 'pending' });
+                    return of<ReplayResult>('offline');
+                }
+
+                this.patchItem(item.id, {
+                    status: 'failed',
+                    error: this.errorHandler.getHttpErrorMessage(error)
+                });
+                return of<ReplayResult>('failed');
+            })
+        );
+    }
+
+    /**
+     * Actualiza un elemento en memoria y en IndexedDB.
+     */
+    private patchItem(id: string, changes: Partial<OutboxItem>): void {
+        let updated: OutboxItem | undefined;
+        this._items.update(items => items.map(item => {
+            if (item.id !== id) {
+                return item;
+            }
+            updated = { ...item, ...changes };
+            return updated;
+        }));
+
+        if (updated) {
+            this.persist(updated);
+        }
+    }
+
+    private persist(item: OutboxItem): void {
+        this.runInStore('readwrite', store => store.put(item)).then(() => {
+            this.unsavedIds.delete(item.id);
+            this.notifyTabs();
+        });
+    }
+
+    private notifyTabs(): void {
+        this.channel?.postMessage('changed');
+    }
+
+    /**
+     * Sustituye la cola en memoria por la de IndexedDB, que comparten todas las pestañas.
+     * Lo encolado aquí y aún no escrito se conserva.
+     */
+    private reload(): Promise<void> {
+        return this.db.then(db => {
+            if (!db) {
+                return;
+            }
+
+            return this.readAll().then(stored => {
+                const storedIds = new Set(stored.map(item => item.id));
+                this._items.update(current => [
+                    ...stored,
+                    ...current.filter(item => !storedIds.has(item.id) && this.unsavedIds.has(item.id))
+                ].sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+            });
+        });
+    }
+
+    private readAll(): Promise<OutboxItem[]> {
+        return this.runInStore('readonly', store => store.getAll())
+            .then(items => (items as OutboxItem[] | undefined) ?? []);
+    }
+
+    /**
+     * Ejecuta una operación sobre el almacén. Los errores de IndexedDB no bloquean
+     * la cola en memoria: solo se pierde la persistencia.
+     */
+    private runInStore<T>(
+        mode: IDBTransactionMode,
+        operation: (store: IDBObjectStore) => IDBRequest<T>
+    ): Promise<T | undefined> {
+        return this.db.then(db => {
+            if (!db) {
+                return undefined;
+            }
+
+            return new Promise<T | undefined>(resolve => {
+                const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => resolve(undefined);
+            });
+        }).catch(() => undefined);
+    }
+
+    private openDatabase(): Promise<IDBDatabase | null> {
+        if (typeof indexedDB === 'undefined') {
+            return Promise.resolve(null);
+        }
+
+        return new Promise(resolve => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                    request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => resolve(null);
+        });
+    }
+}
@@ -0,0 +1,191 @@
+/** SessionTimeout Service - cierre por inactividad y aviso previo a la expiración de la sesión */
+
+import { Injectable, inject, signal } from '@angular/core';
+import { Router } from '@angular/router';
+import { MatDialog, MatDialogRef } from '@angular/material/dialog';
+import { Subscription, interval } from 'rxjs';
+import { AuthService } from '../../features/auth/data-access/auth.service';
+import { SessionExpiryDialogComponent } from '../../shared/ui/session-expiry-dialog/session-expiry-dialog.component';
+import { APP_CONFIG } from '../config';
+import { createLoginUrlTree, currentReturnUrl } from '../guards/return-url';
+
+/** Eventos del DOM que cuentan como actividad del usuario */
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
+/** Clave de localStorage compartida entre pestañas con la última actividad */
+const ACTIVITY_STORAGE_KEY = 'lastActivity';
+
+/** Cada cuánto se persiste la actividad en localStorage (ms) */
+const ACTIVITY_PERSIST_INTERVAL = 5000;
+
+/** Intervalo de comprobación de la sesión (ms) */
+const CHECK_INTERVAL = 1000;
+
+/** Final de la sesión y si se puede alargar desde el aviso */
+interface SessionDeadline {
+    at: number;
+    /** false si termina por la expiración de un token que no se puede renovar (sin refresh token) */
+    extendable: boolean;
+}
+
+@Injectable({
+    providedIn: 'root'
+})
+export class SessionTimeoutService {
+    private readonly authService = inject(AuthService);
+    private readonly router = inject(Router);
+    private readonly dialog = inject(MatDialog);
+    private readonly config = inject(APP_CONFIG);
+
+    private lastActivity = Date.now();
+    private lastPersistedActivity = 0;
+    private ticker: Subscription | null = null;
+    private dialogRef: MatDialogRef<SessionExpiryDialogComponent, boolean> | null = null;
+    /** Fin de sesión no ampliable cuyo aviso ya ha cerrado el usuario (no se vuelve a mostrar) */
+    private acknowledgedDeadline: number | null = null;
+
+    /** Tiempo restante (ms) antes del cierre de sesión */
+    private readonly _remainingTime = signal<number | null>(null);
+    readonly remainingTime = this._remainingTime.asReadonly();
+
+    /**
+     * Empieza a vigilar la actividad del usuario y la expiración del token.
+     */
+    start(): void {
+        if (this.ticker) {
+            return;
+        }
+
+        this.recordActivity();
+        ACTIVITY_EVENTS.forEach(event =>
+            document.addEventListener(event, this.handleActivity, { passive: true })
+        );
+        this.ticker = interval(CHECK_INTERVAL).subscribe(() => this.checkSession());
+    }
+
+    /**
+     * Deja de vigilar la sesión y cierra el aviso si está abierto.
+     */
+    stop(): void {
+        ACTIVITY_EVENTS.forEach(event => document.removeEventListener(event, this.handleActivity));
+        this.ticker?.unsubscribe();
+        this.ticker = null;
+        this.dialogRef?.close();
+        this.dialogRef = null;
+        this._remainingTime.set(null);
+    }
+
+    /**
+     * Mantiene la sesión abierta: reinicia la inactividad y renueva el token si está por caducar.
+     */
+    extendSession(): void {
+        this.recordActivity();
+
+        if (this.authService.isTokenExpiringSoon() && this.authService.getRefreshToken()) {
+            // Un refresh fallido lo gestiona authInterceptor en la siguiente petición
+            this.authService.refreshAccessToken().subscribe({ error: () => undefined });
+        }
+    }
+
+    /**
+     * Registra actividad del usuario mientras no se muestra el aviso.
+     */
+    private readonly handleActivity = (): void => {
+        if (!this.dialogRef) {
+            this.recordActivity();
+        }
+    };
+
+    /**
+     * Guarda la última actividad en memoria y, con throttle, en localStorage.
+     */
+    private recordActivity(): void {
+        this.lastActivity = Date.now();
+
+        if (this.lastActivity - this.lastPersistedActivity >= ACTIVITY_PERSIST_INTERVAL) {
+            this.lastPersistedActivity = this.lastActivity;
+            localStorage.setItem(ACTIVITY_STORAGE_KEY, this.lastActivity.toString());
+        }
+    }
+
+    /**
+     * Calcula el tiempo restante y muestra el aviso o cierra la sesión.
+     */
+    private checkSession(): void {
+        if (!this.authService.isAuthenticated()) {
+            this.stop();
+            return;
+        }
+
+        const deadline = this.getSessionDeadline();
+        const remaining = deadline.at - Date.now();
+        this._remainingTime.set(remaining);
+
+        if (remaining <= 0) {
+            this.expireSession();
+        } else if (remaining <= this.config.session.warningTime) {
+            if (!this.dialogRef && (deadline.extendable || deadline.at !== this.acknowledgedDeadline)) {
+                this.openWarningDialog(deadline);
+            }
+        } else if (this.dialogRef) {
+            // Hubo actividad en otra pestaña: el aviso ya no aplica
+            this.dialogRef.close();
+        }
+    }
+
+    /**
+     * Instante en el que termina la sesión: inactividad o expiración del token,
+     * lo que ocurra antes. Con refresh token la expiración del token no cuenta
+     * porque se renueva sola; sin él, la actividad no puede alargarla.
+     */
+    private getSessionDeadline(): SessionDeadline {
+        const sharedActivity = Number(localStorage.getItem(ACTIVITY_STORAGE_KEY)) || 0;
+        const idleDeadline = Math.max(this.lastActivity, sharedActivity) + this.config.session.idleTimeout;
+
+        const tokenExpiration = this.authService.getRefreshToken()
+            ? null
+            : this.authService.getTokenExpiration();
+
+        return tokenExpiration !== null && tokenExpiration < idleDeadline
+            ? { at: tokenExpiration, extendable: false }
+            : { at: idleDeadline, extendable: true };
+    }
+
+    /**
+     * Abre el diálogo de cuenta atrás. Si la sesión no se puede alargar,
+     * el diálogo solo avisa de la hora de cierre y no vuelve a abrirse al cerrarlo.
+     */
+    private openWarningDialog(deadline: SessionDeadline): void {
+        this.dialogRef = this.dialog.open(SessionExpiryDialogComponent, {
+            width: '440px',
+            maxWidth: '90vw',
+            disableClose: true,
+            data: { remainingTime: this.remainingTime, canExtend: deadline.extendable, endsAt: deadline.at }
+        });
+
+        this.dialogRef.afterClosed().subscribe(staySignedIn => {
+            this.dialogRef = null;
+
+            if (staySignedIn === true) {
+                if (deadline.extendable) {
+                    this.extendSession();
+                } else {
+                    this.acknowledgedDeadline = deadline.at;
+                }
+            } else if (staySignedIn === false) {
+                this.expireSession();
+            }
+        });
+    }
+
+    /**
+     * Cierra la sesión y redirige al login conservando la ruta actual como returnUrl.
+     */
+    private expireSession(): void {
+        const returnUrl = currentReturnUrl(this.router);
+
+        this.stop();
+        this.authService.logout();
+        this.router.navigateByUrl(createLoginUrlTree(this.router, returnUrl));
+    }
+}
@@ -0,0 +1,87 @@
+/** Toast Service - notificaciones globales (snackbar de Angular Material) */
+
+import { Injectable, inject } from '@angular/core';
+import { MatSnackBar } from '@angular/material/snack-bar';
+
+/** Tipos de toast disponibles */
+export type ToastType = 'success' | 'error' | 'info' | 'warning';
+
+/** Duración por defecto de un toast (ms) */
+const TOAST_DURATION = 5000;
+
+/** Ventana en la que un mismo mensaje repetido se descarta (ms) */
+const DEDUPE_WINDOW = 4000;
+
+@Injectable({
+    providedIn: 'root'
+})
+export class ToastService {
+    private readonly snackBar = inject(MatSnackBar);
+
+    /** Último instante en que se mostró cada mensaje */
+    private readonly recentMessages = new Map<string, number>();
+
+    /**
+     * Muestra un toast de error.
+     */
+    error(message: string): void {
+        this.show(message, 'error');
+    }
+
+    /**
+     * Muestra un toast de éxito.
+     */
+    success(message: string): void {
+        this.show(message, 'success');
+    }
+
+    /**
+     * Muestra un toast informativo.
+     */
+    info(message: string): void {
+        this.show(message, 'info');
+    }
+
+    /**
+     * Muestra un toast de aviso.
+     */
+    warning(message: string): void {
+        this.show(message, 'warning');
+    }
+
+    /**
+     * Muestra un toast, descartando ráfagas del mismo mensaje.
+     * @param message - Texto a mostrar
+     * @param type - Tipo de toast (define el estilo)
+     */
+    show(message: string, type: ToastType = 'info'): void {
+        const now = Date.now();
+        const key = `${type}:${message}`;
+        const lastShown = this.recentMessages.get(key);
+
+        if (lastShown !== undefined && now - lastShown < DEDUPE_WINDOW) {
+            return;
+        }
+
+        this.recentMessages.set(key, now);
+        this.pruneRecentMessages(now);
+
+        this.snackBar.open(message, 'Cerrar', {
+            duration: TOAST_DURATION,
+            horizontalPosition: 'center',
+            verticalPosition: 'top',
+            panelClass: ['app-toast', `app-toast-${type}`]
+        });
+    }
+
+    /**
+     * Elimina las entradas que ya están fuera de la ventana de deduplicación.
+     */
+    private pruneRecentMessages(now: number): void {
+        this.recentMessages.forEach((shownAt, key) => {
+            if (now - shownAt >= DEDUPE_WINDOW) {
+                this.recentMessages.delete(key);
+            }
+        });
+    }
+}
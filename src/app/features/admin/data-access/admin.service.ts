@@ -1,23 +1,25 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
 import { Observable, catchError, throwError } from 'rxjs';
-import { environment } from 'src/environments/environment';
 import {
   User,
   ReportResponse,
   AdminActionResponse,
-  NotificationResponse
+  NotificationResponse,
+  SecurityPolicy
 } from '../models';
 import {
   PaginatedResponse,
-  SearchableListParams
+  MultiSortListParams
 } from '../../../shared/common';
+import { HttpCacheService } from '../../../core/services';
+import { APP_CONFIG } from '../../../core/config';
 
 /**
  * Parámetros para listas administrativas paginadas.
- * Extiende SearchableListParams para funcionalidad de búsqueda.
+ * Extiende MultiSortListParams para búsqueda y ordenamiento por varias columnas.
  */
-export interface AdminListParams extends SearchableListParams {
+export interface AdminListParams extends MultiSortListParams {
   status?: string;
 }
 
@@ -41,8 +43,11 @@ export interface DashboardStats {
 })
 export class AdminService {
 
-  private readonly API_URL = `${environment.apiUrl}/admin`;
+  private readonly API_URL = `${inject(APP_CONFIG).apiUrl}/admin`;
 
+  // Las lecturas pasan por la caché; ReportService y UserService la invalidan.
+  // Sin staleWhileRevalidate: el panel pinta cada respuesta una sola vez y no vería la revalidación
+  private readonly cache = inject(HttpCacheService);
   private readonly http = inject(HttpClient);
 
   // DASHBOARD
@@ -52,7 +57,7 @@ export class AdminService {
    * @returns Observable con las estadísticas del sistema
    */
   getDashboardStats(): Observable<DashboardStats> {
-    return this.http.get<DashboardStats>(`${this.API_URL}/dashboard`)
+    return this.cache.get<DashboardStats>(`${this.API_URL}/dashboard`, { staleWhileRevalidate: false })
       .pipe(
         catchError(error => throwError(() => error))
       );
@@ -68,9 +73,9 @@ export class AdminService {
   getAdminActions(params: AdminListParams = {}): Observable<PaginatedResponse<AdminActionResponse>> {
     const httpParams = this.buildHttpParams(params);
 
-    return this.http.get<PaginatedResponse<AdminActionResponse>>(
+    return this.cache.get<PaginatedResponse<AdminActionResponse>>(
       `${this.API_URL}/actions`,
-      { params: httpParams }
+      { params: httpParams, staleWhileRevalidate: false }
     ).pipe(
       catchError(error => throwError(() => error))
     );
@@ -86,14 +91,40 @@ export class AdminService {
   getAllReports(params: AdminListParams = {}): Observable<PaginatedResponse<ReportResponse>> {
     const httpParams = this.buildHttpParams(params);
 
-    return this.http.get<PaginatedResponse<ReportResponse>>(
+    return this.cache.get<PaginatedResponse<ReportResponse>>(
       `${this.API_URL}/reports`,
-      { params: httpParams }
+      { params: httpParams, staleWhileRevalidate: false }
     ).pipe(
       catchError(error => throwError(() => error))
     );
   }
 
+  // POLÍTICA DE SEGURIDAD
+
+  /**
+   * Obtiene la política de seguridad de la plataforma (sin caché: es un ajuste que se edita).
+   * @returns Observable con la política vigente
+   */
+  getSecurityPolicy(): Observable<SecurityPolicy> {
+    return this.http.get<SecurityPolicy>(`${this.API_URL}/security-policy`)
+      .pipe(
+        catchError(error => throwError(() => error))
+      );
+  }
+
+  /**
+   * Actualiza la política de seguridad. Para exigir 2FA a los administradores,
+   * quien la activa debe tenerlo activado.
+   * @param policy - Política nueva
+   * @returns Observable con la política guardada
+   */
+  updateSecurityPolicy(policy: SecurityPolicy): Observable<SecurityPolicy> {
+    return this.http.put<SecurityPolicy>(`${this.API_URL}/security-policy`, policy)
+      .pipe(
+        catchError(error => throwError(() => error))
+      );
+  }
+
   // MÉTODOS PRIVADOS
   /**
    * Construye los parámetros HTTP para las consultas paginadas.
@@ -115,9 +146,9 @@ export class AdminService {
       httpParams = httpParams.set('search', params.query);
     }
 
-    // Agregar parámetro de ordenamiento si está presente
-    if (params.sort) {
-      httpParams = httpParams.set('sort', params.sort);
+    // Agregar criterios de ordenamiento (uno por parámetro `sort`)
+    for (const sort of [params.sort ?? []].flat()) {
+      httpParams = httpParams.append('sort', sort);
     }
 
     return httpParams;
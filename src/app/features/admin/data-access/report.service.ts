@@ -1,7 +1,6 @@
 import { Injectable, signal, computed } from '@angular/core';
 import { HttpParams } from '@angular/common/http';
 import { Observable, catchError, throwError, tap, map } from 'rxjs';
-import { environment } from 'src/environments/environment';
 import {
   ReportRequest,
   ReportResponse,
@@ -49,7 +48,7 @@ export class ReportService extends BaseCrudService<
   ReportListParams
 > {
 
-  protected readonly API_URL = `${environment.apiUrl}/reports`;
+  protected readonly API_URL = `${this.apiUrl}/reports`;
   protected readonly entityName = 'report';
 
   // Signals adicionales específicos de reportes
@@ -69,11 +68,17 @@ export class ReportService extends BaseCrudService<
     return report.id;
   }
 
+  /**
+   * Los reportes alimentan los listados y estadísticas del panel de administración.
+   */
+  protected override relatedCachePrefixes(): string[] {
+    return [this.API_URL, `${this.apiUrl}/admin`];
+  }
 
   // ADMINISTRACIÓN 
 
   /**
-   * Resuelve un reporte (solo admin).
+   * Resuelve un reporte (admin o moderador).
    * @param id - ID del reporte
    * @param reason - Razón de la resolución
    * @returns Observable con la confirmación de resolución
@@ -82,6 +87,7 @@ export class ReportService extends BaseCrudService<
     return this.http.put<ReportApiResponse>(`${this.API_URL}/${id}/resolve`, { reason })
       .pipe(
         tap(() => {
+          this.invalidateCache();
           // Actualizar el estado local del reporte
           this._items.update(reports =>
             reports.map(report =>
@@ -96,7 +102,7 @@ export class ReportService extends BaseCrudService<
   }
 
   /**
-   * Rechaza un reporte (solo admin).
+   * Rechaza un reporte (admin o moderador).
    * @param id - ID del reporte
    * @param reason - Razón del rechazo
    * @returns Observable con la confirmación de rechazo
@@ -105,6 +111,7 @@ export class ReportService extends BaseCrudService<
     return this.http.put<ReportApiResponse>(`${this.API_URL}/${id}/reject`, { reason })
       .pipe(
         tap(() => {
+          this.invalidateCache();
           // Actualizar el estado local del reporte
           this._items.update(reports =>
             reports.map(report =>
@@ -127,7 +134,7 @@ export class ReportService extends BaseCrudService<
   getReportsStatistics(): Observable<ReportStatistics> {
     this._isLoading.set(true);
 
-    return this.http.get<Omit<ReportStatistics, 'totalReportes'>>(`${environment.apiUrl}/admin/dashboard`)
+    return this.http.get<Omit<ReportStatistics, 'totalReportes'>>(`${this.apiUrl}/admin/dashboard`)
       .pipe(
         map(stats => {
           const statistics: ReportStatistics = {
@@ -2,6 +2,7 @@
 export * from './admin-action-response.interface';
 export * from './report-request.interface';
 export * from './report-response.interface';
+export * from './security-policy.interface';
 
 // Re-export from other features for convenience
 export type { User, Role } from '../../user/models';
@@ -0,0 +1,10 @@
+// MODELO: Admin - SecurityPolicy (interface)
+
+/**
+ * Interfaz para la política de seguridad de la plataforma.
+ * Alineada EXACTAMENTE con SecurityPolicy DTO del backend.
+ */
+export interface SecurityPolicy {
+  /** Los administradores deben tener 2FA activado para usar el panel */
+  requireTwoFactorForAdmins: boolean;
+}
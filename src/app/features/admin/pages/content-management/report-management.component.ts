@@ -4,32 +4,27 @@ import { Component, effect, inject, OnDestroy, OnInit, signal, runInInjectionCon
 import { CommonModule } from '@angular/common';
 import { MatIconModule } from '@angular/material/icon';
 import { FormsModule } from '@angular/forms';
-import { catchError, finalize, of } from 'rxjs';
+import { Subscription, catchError, finalize, forkJoin, map, of } from 'rxjs';
 import { AdminService } from '../../data-access/admin.service';
 import { ReportService } from '../../data-access/report.service';
 import { AdminListParams } from '../../data-access/admin.service';
 import { ReportResponse as Report } from '../../models';
 import { ReportActionsComponent } from './components/report-actions/report-actions.component';
 import { ReportDetailModalComponent } from './components/report-detail-modal/report-detail-modal.component';
-import { FooterComponent } from '@shared/components';
-
-// INTERFACES
-interface PaginationInfo {
-  currentPage: number;
-  totalPages: number;
-  totalElements: number;
-  pageSize: number;
-}
-
-interface SortInfo {
-  field: string;
-  direction: 'asc' | 'desc';
-}
-
-interface StatusOption {
-  value: string;
-  label: string;
-}
+import {
+  DataTableCellDirective,
+  DataTableColumn,
+  DataTableComponent,
+  DataTableFilter,
+  DataTableFilterValues,
+  DataTableSort,
+  FooterComponent,
+  toSortParams
+} from '@shared/components';
+import { HasPermissionDirective } from '@shared/directives';
+
+// CONSTANTES
+const PAGE_SIZE = 10;
 
 @Component({
   selector: 'app-content-management',
@@ -40,7 +35,10 @@ interface StatusOption {
     FormsModule,
     ReportActionsComponent,
     ReportDetailModalComponent,
-    FooterComponent
+    FooterComponent,
+    HasPermissionDirective,
+    DataTableComponent,
+    DataTableCellDirective
   ],
   templateUrl: './report-management.component.html',
   styleUrls: ['./report-management.component.css']
@@ -59,10 +57,17 @@ export class ContentManagementComponent implements OnInit, OnDestroy {
   private readonly _showModal = signal<boolean>(false);
 
   // SIGNALS DE FILTROS
-  private readonly _statusFilter = signal<string>('');
   private readonly _searchFilter = signal<string>('');
   private readonly _currentPage = signal<number>(0);
 
+  // ESTADO DE LA TABLA (orden, filtro de estado y selección)
+  readonly sort = signal<DataTableSort[]>([{ field: 'reportDate', direction: 'desc' }]);
+  readonly filterValues = signal<DataTableFilterValues>({});
+  readonly selection = signal<number[]>([]);
+
+  // Petición de la página en curso (se cancela si cambian orden, filtros o página)
+  private loadSubscription?: Subscription;
+
   // SIGNALS DE ESTADÍSTICAS
   private readonly _pendingCount = signal<number>(0);
   private readonly _resolvedCount = signal<number>(0);
@@ -79,7 +84,6 @@ export class ContentManagementComponent implements OnInit, OnDestroy {
   readonly error = this._error.asReadonly();
   readonly selectedReport = this._selectedReport.asReadonly();
   readonly showModal = this._showModal.asReadonly();
-  readonly statusFilter = this._statusFilter.asReadonly();
   readonly searchFilter = this._searchFilter.asReadonly();
   readonly currentPage = this._currentPage.asReadonly();
   readonly totalPages = this._totalPages.asReadonly();
@@ -89,14 +93,30 @@ export class ContentManagementComponent implements OnInit, OnDestroy {
   readonly rejectedCount = this._rejectedCount.asReadonly();
   readonly totalCount = this._totalCount.asReadonly();
 
-  // CONSTANTES
-  readonly statusOptions: StatusOption[] = [
-    { value: '', label: 'Todos los estados' },
-    { value: 'PENDING', label: 'Pendientes' },
-    { value: 'RESOLVED', label: 'Resueltos' },
-    { value: 'REJECTED', label: 'Rechazados' }
+  // COLUMNAS Y FILTROS DE LA TABLA (`sortField` son los campos que ordena /admin/reports)
+  readonly columns: DataTableColumn<Report>[] = [
+    { key: 'id', header: 'ID', sortField: 'id', value: report => report.id },
+    { key: 'reason', header: 'Motivo', sortField: 'reason', required: true },
+    { key: 'status', header: 'Estado', sortField: 'status' },
+    { key: 'reportDate', header: 'Fecha', sortField: 'reportDate' },
+    { key: 'reporter', header: 'Reportador', sortField: 'reporter', value: report => report.reporter.username },
+    { key: 'post', header: 'Publicaciones' },
+    { key: 'actions', header: 'Acciones', required: true }
   ];
 
+  readonly filters: DataTableFilter[] = [
+    {
+      key: 'status', label: 'Estado', options: [
+        { value: 'PENDING', label: 'Pendientes' },
+        { value: 'RESOLVED', label: 'Resueltos' },
+        { value: 'REJECTED', label: 'Rechazados' }
+      ]
+    }
+  ];
+
+  readonly reportId = (report: Report): number => report.id;
+  readonly reportRowClass = (report: Report): string => `report-row ${report.status.toLowerCase()}`;
+
   // SIGNALS PARA BÚSQUEDA
   private readonly _searchQuery = signal<string>('');
 
@@ -108,13 +128,13 @@ export class ContentManagementComponent implements OnInit, OnDestroy {
   }
 
   ngOnDestroy(): void {
-    // No hay subscripciones que limpiar con signals
+    this.loadSubscription?.unsubscribe();
   }
 
   // MÉTODOS PÚBLICOS
 
   /**
-   * Carga los reportes con filtros aplicados
+   * Carga los reportes con la búsqueda, el filtro de estado y el orden de la tabla
    */
   loadReports(): void {
     this._isLoading.set(true);
@@ -122,28 +142,25 @@ export class ContentManagementComponent implements OnInit, OnDestroy {
 
     const params: AdminListParams = {
       page: this._currentPage(),
-      size: 50
+      size: PAGE_SIZE,
+      // `id` desempata para que las filas no cambien de sitio entre recargas
+      sort: [...toSortParams(this.sort()), 'id,desc'],
+      status: this.filterValues()['status'] ?? undefined
     };
 
     if (this._searchFilter() && this._searchFilter().trim() !== '') {
       params.query = this._searchFilter();
     }
 
-    this.adminService.getAllReports(params).pipe(
+    this.loadSubscription?.unsubscribe();
+    this.loadSubscription = this.adminService.getAllReports(params).pipe(
       catchError(error => {
         this._error.set('Error al cargar los reportes');
         return of({ content: [], totalElements: 0, totalPages: 0 });
       }),
       finalize(() => this._isLoading.set(false))
     ).subscribe(response => {
-      let filteredReports = response.content;
-      if (this._statusFilter() && this._statusFilter().trim() !== '') {
-        filteredReports = response.content.filter(report =>
-          report.status === this._statusFilter()
-        );
-      }
-
-      this._reports.set(filteredReports);
+      this._reports.set(response.content);
       this._totalPages.set(response.totalPages);
       this._totalElements.set(response.totalElements);
       this.loadStatistics();
@@ -151,22 +168,21 @@ export class ContentManagementComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Actualiza el filtro de estado
+   * Cambia los criterios de ordenamiento de la tabla
    */
-  onStatusFilterChange(status: string): void {
-    this._statusFilter.set(status);
+  onSortChange(sort: DataTableSort[]): void {
+    this.sort.set(sort);
     this._currentPage.set(0);
     this.loadReports();
   }
 
   /**
-   * Maneja el evento change del select de estado
+   * Cambia el filtro de estado de la tabla
    */
-  handleStatusFilterChange(event: Event): void {
-    const target = event.target as HTMLSelectElement;
-    if (target) {
-      this.onStatusFilterChange(target.value);
-    }
+  onFilterChange(values: DataTableFilterValues): void {
+    this.filterValues.set(values);
+    this._currentPage.set(0);
+    this.loadReports();
   }
 
   /**
@@ -180,84 +196,13 @@ export class ContentManagementComponent implements OnInit, OnDestroy {
    * Limpia todos los filtros
    */
   clearFilters(): void {
-    this._statusFilter.set('');
+    this.filterValues.set({});
     this._searchQuery.set('');
     this._searchFilter.set('');
     this._currentPage.set(0);
     this.loadReports();
   }
 
-  /**
-   * Maneja el cambio de página
-   */
-  onPageChange(page: number): void {
-    this._currentPage.set(page);
-    this.loadReports();
-  }
-
-  /**
-   * Obtiene los números de página para mostrar
-   */
-  getPageNumbers(): number[] {
-    const current = this._currentPage();
-    const total = this._totalPages();
-    const pages: number[] = [];
-
-    if (total <= 7) {
-      for (let i = 0; i < total; i++) {
-        pages.push(i);
-      }
-    } else {
-      if (current <= 3) {
-        for (let i = 0; i < 5; i++) pages.push(i);
-        pages.push(-1, total - 1);
-      } else if (current >= total - 4) {
-        pages.push(0, -1);
-        for (let i = total - 5; i < total; i++) pages.push(i);
-      } else {
-        pages.push(0, -1);
-        for (let i = current - 1; i <= current + 1; i++) pages.push(i);
-        pages.push(-1, total - 1);
-      }
-    }
-
-    return pages;
-  }
-
-  /**
-   * Verifica si hay página anterior
-   */
-  hasPreviousPage(): boolean {
-    return this._currentPage() > 0;
-  }
-
-  /**
-   * Verifica si hay página siguiente
-   */
-  hasNextPage(): boolean {
-    return this._currentPage() < this._totalPages() - 1;
-  }
-
-  /**
-   * Va a la página anterior
-   */
-  previousPage(): void {
-    if (this.hasPreviousPage()) {
-      this._currentPage.update(page => page - 1);
-      this.loadReports();
-    }
-  }
-
-  /**
-   * Va a la página siguiente
-   */
-  nextPage(): void {
-    if (this.hasNextPage()) {
-      this._currentPage.update(page => page + 1);
-      this.loadReports();
-    }
-  }
-
   /**
    * Va a una página específica
    */
@@ -340,6 +285,31 @@ export class ContentManagementComponent implements OnInit, OnDestroy {
     });
   }
 
+  /**
+   * Resuelve o rechaza en bloque los reportes pendientes seleccionados (de la página actual)
+   */
+  reviewSelected(action: 'resolve' | 'reject'): void {
+    const pending = new Set(this._reports().filter(r => r.status === 'PENDING').map(r => r.id));
+    const ids = this.selection().filter(id => pending.has(id));
+    this.selection.set([]);
+    if (!ids.length) return;
+
+    const requests = ids.map(id =>
+      (action === 'resolve' ? this.reportService.resolveReport(id) : this.reportService.rejectReport(id)).pipe(
+        map(() => true),
+        catchError(() => of(false))
+      )
+    );
+
+    forkJoin(requests).subscribe(results => {
+      const failed = results.filter(ok => !ok).length;
+      if (failed) {
+        this._error.set(`No se pudo actualizar ${failed} reporte(s)`);
+      }
+      this.loadReports();
+    });
+  }
+
   // MÉTODOS PRIVADOS
 
   /**
@@ -2,9 +2,11 @@
 
 import { Component, computed, effect, inject, input, model, output, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { AbstractControl, FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
 import { MatIconModule } from '@angular/material/icon';
-import { User } from '../../../../../user/models';
+import { SERVER_ERROR_KEY, applyServerErrors } from '../../../../../../core/errors';
+import { RoleName, User } from '../../../../../user/models';
 
 // INTERFACES
 export interface EditUserData {
@@ -18,7 +20,7 @@ export interface EditUserData {
   address?: string;
   biography?: string;
   privacyType: string;
-  role: 'USER' | 'ADMIN';
+  role: RoleName;
 }
 
 @Component({
@@ -36,6 +38,8 @@ export class UserEditModalComponent {
   readonly isOpen = input.required<boolean>();
   readonly user = input<User | null>(null);
   readonly loading = input<boolean>(false);
+  /** Error del último guardado; los errores de validación se muestran en su campo */
+  readonly submitError = input<unknown>(null);
 
   // OUTPUTS
   readonly updated = output<EditUserData>();
@@ -51,7 +55,7 @@ export class UserEditModalComponent {
   readonly addressModel = model<string>('');
   readonly biographyModel = model<string>('');
   readonly privacyTypeModel = model<string>('PRIVATE');
-  readonly roleModel = model<'USER' | 'ADMIN'>('USER');
+  readonly roleModel = model<RoleName>('USER');
 
   // FORMULARIO REACTIVO
   readonly editForm = this.fb.group({
@@ -115,6 +119,19 @@ export class UserEditModalComponent {
         this.editForm.patchValue({ privacyType: 'PRIVATE' });
       }
     });
+
+    // Effect para mostrar bajo cada campo los errores de validación del backend
+    effect(() => {
+      const error = this.submitError();
+      if (error && applyServerErrors(this.editForm, error)) {
+        Object.keys(this.editForm.controls).forEach(field => this.validateField(field));
+      }
+    });
+
+    // Al editar un campo con error se recalcula su mensaje (y desaparece el del servidor)
+    this.editForm.valueChanges.pipe(takeUntilDestroyed()).subscribe(() => {
+      Object.keys(this._formErrors()).forEach(field => this.validateField(field));
+    });
   }
 
   // MÉTODOS PÚBLICOS
@@ -142,7 +159,7 @@ export class UserEditModalComponent {
         biography: formValue.biography || undefined,
         privacyType: formValue.privacyType || 'PRIVATE',
         // Solo incluir el rol si el usuario actual NO es administrador
-        role: currentUser.role?.name === 'ADMIN' ? currentUser.role.name : formValue.role as 'USER' | 'ADMIN'
+        role: currentUser.role?.name === 'ADMIN' ? 'ADMIN' : formValue.role as RoleName
       };
 
       this.updated.emit(userData);
@@ -192,7 +209,7 @@ export class UserEditModalComponent {
       address: user.address || '',
       biography: user.biography || '',
       privacyType: user.privacyType || 'PRIVATE',
-      role: user.role.name as 'USER' | 'ADMIN'
+      role: user.role.name as RoleName
     });
 
     // Sincronizar modelos
@@ -205,7 +222,7 @@ export class UserEditModalComponent {
     this.addressModel.set(user.address || '');
     this.biographyModel.set(user.biography || '');
     this.privacyTypeModel.set(user.privacyType || 'PRIVATE');
-    this.roleModel.set(user.role.name as 'USER' | 'ADMIN');
+    this.roleModel.set(user.role.name as RoleName);
   }
 
   /**
@@ -254,7 +271,9 @@ export class UserEditModalComponent {
     if (control.errors) {
       const errors = control.errors;
 
-      if (errors['required']) {
+      if (errors[SERVER_ERROR_KEY]) {
+        return errors[SERVER_ERROR_KEY];
+      } else if (errors['required']) {
         return `${this.getFieldLabel(fieldName)} es requerido`;
       } else if (errors['minlength']) {
         return `${this.getFieldLabel(fieldName)} debe tener al menos ${errors['minlength'].requiredLength} caracteres`;
@@ -1,16 +1,25 @@
 // ADMIN: User List — Componente (lista de usuarios)
 
-import { Component, computed, input, output, Input, ChangeDetectionStrategy, inject } from '@angular/core';
+import { Component, input, output, model, Input, ChangeDetectionStrategy, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { MatIconModule } from '@angular/material/icon';
 import { Router } from '@angular/router';
-import { User } from '../../../../../user/models';
+import { PrivacyType, ROLE_NAMES, User } from '../../../../../user/models';
 import { DateFormatPipe } from '@shared/pipes';
+import { HasPermissionDirective } from '@shared/directives';
+import {
+  DataTableCellDirective,
+  DataTableColumn,
+  DataTableComponent,
+  DataTableFilter,
+  DataTableFilterValues,
+  DataTableSort
+} from '@shared/components';
 
 @Component({
   selector: 'app-user-list',
   standalone: true,
-  imports: [CommonModule, MatIconModule, DateFormatPipe],
+  imports: [CommonModule, MatIconModule, DateFormatPipe, HasPermissionDirective, DataTableComponent, DataTableCellDirective],
   templateUrl: './user-list.component.html',
   styleUrls: ['./user-list.component.css'],
   changeDetection: ChangeDetectionStrategy.OnPush
@@ -25,22 +34,50 @@ export class UserListComponent {
   readonly currentPage = input.required<number>();
   readonly totalPages = input.required<number>();
   readonly totalElements = input.required<number>();
-  readonly isLoadingPage = input<boolean>(false);
-  readonly isTransitioning = input<boolean>(false);
   @Input() activeAdminCount: number = 0;
   @Input() currentUserId: number | null = null;
 
+  // Estado de la tabla (lo aplica el backend)
+  readonly sort = model<DataTableSort[]>([]);
+  readonly filterValues = model<DataTableFilterValues>({});
+  readonly selection = model<number[]>([]);
+
   // Outputs
+  readonly pageChange = output<number>();
   readonly userActivated = output<number>();
   readonly userDeactivated = output<number>();
   readonly userDeleted = output<number>();
   readonly userEdited = output<User>();
 
-  // Computed values
-  readonly hasUsers = computed(() => this.users().length > 0);
+  // Columnas: `sortField` son los campos que ordena /admin/users
+  readonly columns: DataTableColumn<User>[] = [
+    { key: 'user', header: 'Usuario', sortField: 'name', required: true, cssClass: 'user-cell' },
+    { key: 'email', header: 'Email', sortField: 'email', value: user => user.email },
+    { key: 'role', header: 'Rol', sortField: 'role', cssClass: 'role-cell' },
+    { key: 'privacy', header: 'Privacidad', sortField: 'privacyType' },
+    { key: 'status', header: 'Estado', sortField: 'active', cssClass: 'status-cell' },
+    { key: 'registrationDate', header: 'Fecha Registro', sortField: 'registrationDate' },
+    { key: 'lastActivityDate', header: 'Última Actividad', sortField: 'lastActivityDate' },
+    { key: 'actions', header: 'Acciones', required: true, cssClass: 'actions-cell' }
+  ];
+
+  readonly filters: DataTableFilter[] = [
+    { key: 'roleName', label: 'Rol', options: ROLE_NAMES.map(name => ({ value: name, label: name })) },
+    {
+      key: 'active', label: 'Estado', options: [
+        { value: 'true', label: 'Activos' },
+        { value: 'false', label: 'Inactivos' }
+      ]
+    },
+    {
+      key: 'privacyType', label: 'Privacidad', options: [
+        { value: PrivacyType.PUBLIC, label: 'Público' },
+        { value: PrivacyType.PRIVATE, label: 'Privado' }
+      ]
+    }
+  ];
 
-  // Math utility for template
-  readonly Math = Math;
+  readonly userId = (user: User): number => user.id;
 
   // Methods
   activateUser(userId: number): void {
@@ -2,16 +2,20 @@
 
 import { Component, computed, inject, OnDestroy, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { finalize, Subject, of, catchError, debounceTime, distinctUntilChanged, switchMap, takeUntil } from 'rxjs';
+import { Subject, Subscription, catchError, debounceTime, distinctUntilChanged, finalize, forkJoin, map, of, takeUntil } from 'rxjs';
 import { AuthService } from '../../../auth';
 import { UserService } from '../../../user/data-access/user.service';
-import { ErrorHandlerService } from '../../../../core/services';
-import { UserListParams } from '../../../user/data-access/user.service';
+import { AdminService } from '../../data-access/admin.service';
+import { EntityStoreService, ErrorHandlerService } from '../../../../core/services';
+import { getApiErrorMessage, parseApiError } from '../../../../core/errors';
+import { AdminUserListParams } from '../../../user/data-access/user.service';
 import { AdminUserUpdateRequest, PrivacyType, User } from '../../../user/models';
 import { UserRegisterRequest } from '../../../auth/models';
+import { SecurityPolicy } from '../../models';
 import { HttpErrorResponse } from '@angular/common/http';
-import { FooterComponent, PaginationComponent } from '@shared/components';
+import { DataTableFilterValues, DataTableSort, FooterComponent, toSortParams } from '@shared/components';
 import { MatIconModule } from '@angular/material/icon';
+import { MatSlideToggleChange, MatSlideToggleModule } from '@angular/material/slide-toggle';
 import { UserListComponent } from './components/user-list/user-list.component';
 import { UserConfirmModalComponent, type ConfirmModalData } from './components/user-confirm-modal/user-confirm-modal.component';
 import { UserCreateModalComponent, type CreateUserData } from './components/user-create-modal/user-create-modal.component';
@@ -23,8 +27,8 @@ import { UserEditModalComponent, type EditUserData } from './components/user-edi
   imports: [
     CommonModule,
     FooterComponent,
-    PaginationComponent,
     MatIconModule,
+    MatSlideToggleModule,
     UserListComponent,
     UserConfirmModalComponent,
     UserCreateModalComponent,
@@ -36,8 +40,10 @@ import { UserEditModalComponent, type EditUserData } from './components/user-edi
 export class UserManagementComponent implements OnDestroy {
   // INYECCIÓN DE SERVICIOS
   private readonly userService = inject(UserService);
+  private readonly adminService = inject(AdminService);
   private readonly authService = inject(AuthService);
   private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly entityStore = inject(EntityStoreService);
 
   // DESTROY SUBJECT
   private readonly destroy$ = new Subject<void>();
@@ -45,12 +51,13 @@ export class UserManagementComponent implements OnDestroy {
   // SEARCH SUBJECT con debounce
   private readonly searchSubject$ = new Subject<string>();
 
+  // Petición de la página en curso (se cancela si cambian orden, filtros o página)
+  private loadSubscription?: Subscription;
+
   // SIGNAL DE ESTADO CONSOLIDADO
   private readonly _state = signal<{
     users: User[];
     loading: boolean;
-    isLoadingPage: boolean;
-    isTransitioning: boolean;
     error: string | null;
     success: string | null;
     currentPage: number;
@@ -61,8 +68,6 @@ export class UserManagementComponent implements OnDestroy {
   }>({
     users: [],
     loading: false,
-    isLoadingPage: false,
-    isTransitioning: false,
     error: null,
     success: null,
     currentPage: 0,
@@ -75,8 +80,6 @@ export class UserManagementComponent implements OnDestroy {
   // SIGNALS COMPUTADOS PARA ACCESO
   readonly users = computed(() => this._state().users);
   readonly loading = computed(() => this._state().loading);
-  readonly isLoadingPage = computed(() => this._state().isLoadingPage);
-  readonly isTransitioning = computed(() => this._state().isTransitioning);
   readonly error = computed(() => this._state().error);
   readonly success = computed(() => this._state().success);
   readonly currentPage = computed(() => this._state().currentPage);
@@ -85,10 +88,21 @@ export class UserManagementComponent implements OnDestroy {
   readonly pageSize = computed(() => this._state().pageSize);
   readonly searchQuery = computed(() => this._state().searchQuery);
 
+  // ESTADO DE LA TABLA (orden, filtros y selección)
+  readonly sort = signal<DataTableSort[]>([]);
+  readonly filterValues = signal<DataTableFilterValues>({});
+  readonly selection = signal<number[]>([]);
+
   // Cuenta de administradores activos (global)
   private readonly _adminCount = signal<number>(0);
   readonly adminCount = computed(() => this._adminCount());
 
+  // POLÍTICA DE SEGURIDAD (2FA obligatorio para administradores)
+  private readonly _securityPolicy = signal<SecurityPolicy | null>(null);
+  private readonly _policySaving = signal<boolean>(false);
+  readonly requireTwoFactorForAdmins = computed(() => this._securityPolicy()?.requireTwoFactorForAdmins ?? false);
+  readonly policySaving = this._policySaving.asReadonly();
+
   // ID del usuario actual logueado
   readonly currentUserId = computed(() => this.authService.getCurrentUser()?.id ?? null);
 
@@ -99,6 +113,8 @@ export class UserManagementComponent implements OnDestroy {
     showConfirm: boolean;
     confirmData: ConfirmModalData | null;
     editingUser: User | null;
+    /** Último error al guardar la edición (se pasa al modal para marcar los campos) */
+    editError: unknown;
     loading: boolean;
   }>({
     showCreate: false,
@@ -106,6 +122,7 @@ export class UserManagementComponent implements OnDestroy {
     showConfirm: false,
     confirmData: null,
     editingUser: null,
+    editError: null,
     loading: false
   });
 
@@ -115,22 +132,21 @@ export class UserManagementComponent implements OnDestroy {
   readonly showConfirmModal = computed(() => this._modalState().showConfirm);
   readonly confirmModalData = computed(() => this._modalState().confirmData);
   readonly editingUser = computed(() => this._modalState().editingUser);
+  readonly editError = computed(() => this._modalState().editError);
   readonly modalLoading = computed(() => this._modalState().loading);
 
-  // VALORES COMPUTADOS
-  readonly hasNextPage = computed(() => this._state().currentPage < this._state().totalPages - 1);
-  readonly hasPreviousPage = computed(() => this._state().currentPage > 0);
-
   // LIFECYCLE HOOKS
   constructor() {
     this.loadUsers();
     // cargar conteo de admins global para habilitar/deshabilitar borrar
     this.refreshAdminCount();
+    this.loadSecurityPolicy();
     // Configurar debounce para búsqueda
     this.setupSearchDebounce();
   }
 
   ngOnDestroy(): void {
+    this.loadSubscription?.unsubscribe();
     this.destroy$.next();
     this.destroy$.complete();
   }
@@ -138,17 +154,26 @@ export class UserManagementComponent implements OnDestroy {
   // MÉTODOS PÚBLICOS
 
   /**
-   * Carga la lista de usuarios con paginación y transiciones suaves
+   * Carga la página actual con la búsqueda, los filtros y el orden de la tabla.
+   * El orden lo aplica el backend; `id` desempata para que las filas no cambien de sitio entre recargas.
    */
   loadUsers(): void {
-    this._state.update(state => ({ ...state, loading: true, error: null }));
-
-    const params: UserListParams = {
-      page: this._state().currentPage,
-      size: this._state().pageSize
+    const state = this._state();
+    const filters = this.filterValues();
+    const params: AdminUserListParams = {
+      query: state.searchQuery,
+      page: state.currentPage,
+      size: state.pageSize,
+      sort: [...toSortParams(this.sort()), 'id,asc'],
+      roleName: filters['roleName'] ?? undefined,
+      active: filters['active'] ? filters['active'] === 'true' : undefined,
+      privacyType: (filters['privacyType'] as PrivacyType | null) ?? undefined
     };
 
-    this.userService.getAllUsers(params).pipe(
+    this._state.update(state => ({ ...state, loading: true, error: null }));
+    this.loadSubscription?.unsubscribe();
+
+    this.loadSubscription = this.userService.searchAllUsers(params).pipe(
       finalize(() => this._state.update(state => ({ ...state, loading: false })))
     ).subscribe({
       next: (response) => {
@@ -169,44 +194,36 @@ export class UserManagementComponent implements OnDestroy {
   }
 
   /**
-   * Carga usuarios con transición suave para paginación - patrón dashboard
+   * Activa o desactiva el 2FA obligatorio para administradores.
+   * Activarlo exige que el propio admin ya lo tenga, para no quedarse fuera del panel.
    */
-  private loadUsersWithTransition(page: number): void {
-    this._state.update(state => ({ ...state, error: null }));
+  onTwoFactorPolicyChange(event: MatSlideToggleChange): void {
+    const revert = () => event.source.checked = !event.checked;
 
-    const params: UserListParams = {
-      page,
-      size: this._state().pageSize
-    };
+    if (event.checked && !this.authService.currentUser()?.twoFactorEnabled) {
+      revert();
+      this._state.update(state => ({ ...state, error: getApiErrorMessage('AUTH_TWO_FACTOR_SETUP_REQUIRED') }));
+      return;
+    }
 
-    this.userService.getAllUsers(params).pipe(
-      finalize(() => {
-        setTimeout(() => {
-          this._state.update(state => ({
-            ...state,
-            isLoadingPage: false,
-            isTransitioning: false
-          }));
-        }, 300);
-      }),
-      catchError(error => {
-        const errorMessage = this.errorHandler.getUserErrorMessage(error);
-        this._state.update(state => ({
-          ...state,
-          error: errorMessage,
-          isLoadingPage: false,
-          isTransitioning: false
-        }));
-        return of({ content: [], totalPages: 0, totalElements: 0 });
-      })
+    this._policySaving.set(true);
+    this.adminService.updateSecurityPolicy({ requireTwoFactorForAdmins: event.checked }).pipe(
+      finalize(() => this._policySaving.set(false))
     ).subscribe({
-      next: (response) => {
+      next: (policy) => {
+        this._securityPolicy.set(policy);
         this._state.update(state => ({
           ...state,
-          users: response.content,
-          totalPages: response.totalPages,
-          totalElements: response.totalElements
+          error: null,
+          success: policy.requireTwoFactorForAdmins
+            ? 'Los administradores deberán usar verificación en dos pasos'
+            : 'La verificación en dos pasos ya no es obligatoria para administradores'
         }));
+        this.clearSuccessMessage();
+      },
+      error: (error) => {
+        revert();
+        this._state.update(state => ({ ...state, error: this.errorHandler.getUserErrorMessage(error) }));
       }
     });
   }
@@ -229,112 +246,86 @@ export class UserManagementComponent implements OnDestroy {
     this.searchSubject$.pipe(
       debounceTime(300), // Esperar 300ms después de la última pulsación
       distinctUntilChanged(), // Solo si el valor cambió
-      takeUntil(this.destroy$),
-      switchMap(query => {
-        // Actualizar estado de loading y currentPage
-        this._state.update(state => ({ ...state, currentPage: 0, loading: true }));
-
-        if (query) {
-          return this.userService.searchAllUsers({ query, page: 0, size: this._state().pageSize }).pipe(
-            finalize(() => this._state.update(state => ({ ...state, loading: false }))),
-            catchError(error => {
-              const errorMessage = this.errorHandler.getUserErrorMessage(error);
-              this._state.update(state => ({ ...state, error: errorMessage, loading: false }));
-              return of({ content: [], totalPages: 0, totalElements: 0 });
-            })
-          );
-        } else {
-          // Si la búsqueda está vacía, cargar todos los usuarios
-          const params: UserListParams = {
-            page: 0,
-            size: this._state().pageSize
-          };
-          return this.userService.getAllUsers(params).pipe(
-            finalize(() => this._state.update(state => ({ ...state, loading: false }))),
-            catchError(error => {
-              const errorMessage = this.errorHandler.getUserErrorMessage(error);
-              this._state.update(state => ({ ...state, error: errorMessage, loading: false }));
-              return of({ content: [], totalPages: 0, totalElements: 0 });
-            })
-          );
-        }
-      })
-    ).subscribe(response => {
-      this._state.update(state => ({
-        ...state,
-        users: response.content,
-        totalPages: response.totalPages,
-        totalElements: response.totalElements
-      }));
-    });
+      takeUntil(this.destroy$)
+    ).subscribe(() => this.reloadFromFirstPage());
   }
 
   /**
-   * Limpia la búsqueda y recarga usuarios
+   * Limpia la búsqueda y los filtros y recarga usuarios
    */
   clearSearch(): void {
-    this._state.update(state => ({ ...state, searchQuery: '', currentPage: 0 }));
-    this.loadUsers();
+    this._state.update(state => ({ ...state, searchQuery: '' }));
+    this.filterValues.set({});
+    this.reloadFromFirstPage();
   }
 
   /**
-   * Va a la página anterior con transición suave - patrón dashboard
+   * Cambia los criterios de ordenamiento de la tabla
    */
-  previousPage(): void {
-    if (!this.hasPreviousPage() || this._state().isLoadingPage) {
-      return;
-    }
-
-    const newPage = this._state().currentPage - 1;
-    this._state.update(state => ({
-      ...state,
-      isTransitioning: true,
-      isLoadingPage: true,
-      currentPage: newPage
-    }));
+  onSortChange(sort: DataTableSort[]): void {
+    this.sort.set(sort);
+    this.reloadFromFirstPage();
+  }
 
-    this.loadUsersWithTransition(newPage);
+  /**
+   * Cambia los filtros de la tabla
+   */
+  onFilterChange(values: DataTableFilterValues): void {
+    this.filterValues.set(values);
+    this.reloadFromFirstPage();
   }
 
   /**
-   * Va a la página siguiente con transición suave - patrón dashboard
+   * Va a una página específica
    */
-  nextPage(): void {
-    if (!this.hasNextPage() || this._state().isLoadingPage) {
+  goToPage(page: number): void {
+    const state = this._state();
+    if (page < 0 || page >= state.totalPages || page === state.currentPage) {
       return;
     }
 
-    const newPage = this._state().currentPage + 1;
-    this._state.update(state => ({
-      ...state,
-      isTransitioning: true,
-      isLoadingPage: true,
-      currentPage: newPage
-    }));
-
-    this.loadUsersWithTransition(newPage);
+    this._state.update(state => ({ ...state, currentPage: page }));
+    this.loadUsers();
   }
 
   /**
-   * Va a una página específica con transición suave - patrón dashboard
+   * Activa o desactiva en bloque los usuarios seleccionados.
+   * Los administradores no se pueden desactivar, así que se omiten.
    */
-  goToPage(page: number): void {
-    const state = this._state();
-    if (page < 0 || page >= state.totalPages || page === state.currentPage || state.isLoadingPage) {
+  setSelectedActive(active: boolean): void {
+    const ids = this.selection().filter(id => {
+      const user = this.entityStore.user(id);
+      return !user || (user.active !== active && (active || user.role.name !== 'ADMIN'));
+    });
+    if (!ids.length) {
+      this.selection.set([]);
       return;
     }
 
-    this._state.update(state => ({
-      ...state,
-      isTransitioning: true,
-      isLoadingPage: true,
-      currentPage: page
-    }));
+    const requests = ids.map(id =>
+      (active ? this.userService.activateUser(id) : this.userService.deactivateUser(id)).pipe(
+        map(() => true),
+        catchError(() => of(false))
+      )
+    );
 
-    this.loadUsersWithTransition(page);
-  }
+    this._modalState.update(state => ({ ...state, loading: true }));
 
+    forkJoin(requests).subscribe(results => {
+      const failed = results.filter(ok => !ok).length;
+      const updated = results.length - failed;
 
+      this._modalState.update(state => ({ ...state, loading: false }));
+      this.selection.set([]);
+      this._state.update(state => ({
+        ...state,
+        success: updated ? `${updated} usuario(s) ${active ? 'activado(s)' : 'desactivado(s)'}` : null,
+        error: failed ? `No se pudo actualizar ${failed} usuario(s)` : null
+      }));
+      this.clearSuccessMessage();
+      this.loadUsers();
+    });
+  }
 
   /**
    * Abre el modal de creación de usuario
@@ -354,14 +345,14 @@ export class UserManagementComponent implements OnDestroy {
    * Abre el modal de edición de usuario
    */
   openEditModal(user: User): void {
-    this._modalState.update(state => ({ ...state, editingUser: user, showEdit: true }));
+    this._modalState.update(state => ({ ...state, editingUser: user, editError: null, showEdit: true }));
   }
 
   /**
    * Cierra el modal de edición de usuario
    */
   closeEditModal(): void {
-    this._modalState.update(state => ({ ...state, showEdit: false, editingUser: null }));
+    this._modalState.update(state => ({ ...state, showEdit: false, editingUser: null, editError: null }));
   }
 
   /**
@@ -412,7 +403,7 @@ export class UserManagementComponent implements OnDestroy {
    * Maneja la actualización de un usuario
    */
   onUpdateUser(userData: EditUserData): void {
-    this._modalState.update(state => ({ ...state, loading: true }));
+    this._modalState.update(state => ({ ...state, loading: true, editError: null }));
 
     const updateRequest: AdminUserUpdateRequest = {
       username: userData.username,
@@ -451,9 +442,12 @@ export class UserManagementComponent implements OnDestroy {
         this.refreshAdminCount();
       },
       error: (error: HttpErrorResponse) => {
-        this._modalState.update(state => ({ ...state, loading: false }));
-        const errorMessage = this.errorHandler.getUserErrorMessage(error);
-        this._state.update(state => ({ ...state, error: errorMessage }));
+        this._modalState.update(state => ({ ...state, loading: false, editError: error }));
+        // Los errores de validación se muestran en el propio modal, junto a cada campo
+        if (parseApiError(error).code !== 'VALIDATION_FAILED') {
+          const errorMessage = this.errorHandler.getUserErrorMessage(error);
+          this._state.update(state => ({ ...state, error: errorMessage }));
+        }
       }
     });
   }
@@ -584,6 +578,15 @@ export class UserManagementComponent implements OnDestroy {
   }
 
   // MÉTODOS PRIVADOS
+
+  /**
+   * Vuelve a la primera página y recarga (al buscar, filtrar u ordenar)
+   */
+  private reloadFromFirstPage(): void {
+    this._state.update(state => ({ ...state, currentPage: 0 }));
+    this.loadUsers();
+  }
+
   /**
    * Limpia el mensaje de éxito después de un delay
    */
@@ -592,54 +595,16 @@ export class UserManagementComponent implements OnDestroy {
   }
 
   /**
-   * Guarda el orden de IDs de usuarios para una página en localStorage
+   * Carga la política de seguridad (el interruptor queda desactivado si falla)
    */
-  private saveUsersOrder(page: number, users: User[]): void {
-    try {
-      const key = `userManagement.order.page.${page}`;
-      const ids = users.map(u => u.id);
-      localStorage.setItem(key, JSON.stringify(ids));
-    } catch (error) {
-      // Silenciar fallos de localStorage
-    }
+  private loadSecurityPolicy(): void {
+    this.adminService.getSecurityPolicy().subscribe({
+      next: (policy) => this._securityPolicy.set(policy),
+      error: () => this._securityPolicy.set(null)
+    });
   }
 
   /**
-   * Aplica el orden guardado (si existe) a la lista de usuarios devuelta por el backend.
-   * Mantiene usuarios nuevos al final.
-   */
-  private applySavedOrder(page: number, users: User[]): User[] {
-    try {
-      const key = `userManagement.order.page.${page}`;
-      const raw = localStorage.getItem(key);
-
-
-      if (!raw) {
-        return users;
-      }
-
-      const ids: number[] = JSON.parse(raw);
-
-      const map = new Map<number, User>();
-      users.forEach(u => map.set(u.id, u));
-
-      const ordered: User[] = [];
-      ids.forEach(id => {
-        const u = map.get(id);
-        if (u) {
-          ordered.push(u);
-          map.delete(id);
-        }
-      });
-
-      // Añadir usuarios que no estaban en el orden guardado (nuevos)
-      map.forEach(u => ordered.push(u));
-
-      return ordered;
-    } catch (error) {
-      return users;
-    }
-  }  /**
    * Refresca el conteo global de administradores activos desde el backend
    * y actualiza la señal interna.
    */
@@ -1,7 +1,10 @@
 // Auth routes — lazy-loaded authentication routes
 
+import { inject } from '@angular/core';
 import { Routes } from '@angular/router';
 import { guestGuard } from '../../core/guards';
+import { APP_CONFIG } from '../../core/config';
+import { FAKE_BACKEND_INCLUDED } from '../../core/interceptors/fake-backend.build';
 
 export const AUTH_ROUTES: Routes = [
 
@@ -21,6 +24,46 @@ export const AUTH_ROUTES: Routes = [
     canActivate: [guestGuard]
   },
 
+  // AVISO TRAS EL REGISTRO: REVISAR EL CORREO (SOLO NO AUTENTICADOS)
+  {
+    path: 'check-email',
+    loadComponent: () => import('./pages/check-email/check-email.component').then(m => m.CheckEmailComponent),
+    title: 'Verifica tu Email - MindHub',
+    canActivate: [guestGuard]
+  },
+
+  // RECUPERACIÓN DE CONTRASEÑA (SOLO NO AUTENTICADOS)
+  {
+    path: 'forgot-password',
+    loadComponent: () => import('./pages/forgot-password/forgot-password.component').then(m => m.ForgotPasswordComponent),
+    title: 'Recuperar Contraseña - MindHub',
+    canActivate: [guestGuard]
+  },
+
+  // RESTABLECIMIENTO DESDE EL ENLACE DEL EMAIL (SOLO NO AUTENTICADOS)
+  {
+    path: 'reset-password',
+    loadComponent: () => import('./pages/reset-password/reset-password.component').then(m => m.ResetPasswordComponent),
+    title: 'Restablecer Contraseña - MindHub',
+    canActivate: [guestGuard]
+  },
+
+  // VUELTA DEL IDP CORPORATIVO (SOLO NO AUTENTICADOS)
+  {
+    path: 'sso/callback',
+    loadComponent: () => import('./pages/sso-callback/sso-callback.component').then(m => m.SsoCallbackComponent),
+    title: 'Inicio de Sesión Corporativo - MindHub',
+    canActivate: [guestGuard]
+  },
+
+  // IDP DE PRUEBAS: SOLO EXISTE CON EL BACKEND SIMULADO
+  {
+    path: 'sso/dev-idp',
+    loadComponent: () => import('./pages/dev-idp/dev-idp.component').then(m => m.DevIdpComponent),
+    title: 'IdP de Pruebas - MindHub',
+    canMatch: [() => FAKE_BACKEND_INCLUDED && inject(APP_CONFIG).useFakeBackend]
+  },
+
   // RUTA POR DEFECTO
   {
     path: '',
@@ -0,0 +1,66 @@
+import { DestroyRef, Injectable, inject } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { AuthSyncMessage } from '../models';
+
+// AUTH SYNC SERVICE: difunde cambios de sesión entre pestañas (TS)
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthSyncService {
+  private readonly CHANNEL_NAME = 'mindhub-auth';
+  private readonly STORAGE_KEY = 'auth-sync';
+
+  // BroadcastChannel si el navegador lo soporta; si no, se usa el evento 'storage'
+  private readonly channel = typeof BroadcastChannel !== 'undefined'
+    ? new BroadcastChannel(this.CHANNEL_NAME)
+    : null;
+
+  private readonly _messages = new Subject<AuthSyncMessage>();
+
+  /** Mensajes recibidos desde otras pestañas */
+  readonly messages$: Observable<AuthSyncMessage> = this._messages.asObservable();
+
+  constructor() {
+    if (this.channel) {
+      this.channel.onmessage = (event: MessageEvent<AuthSyncMessage>) => this._messages.next(event.data);
+    } else {
+      window.addEventListener('storage', this.handleStorageEvent);
+    }
+
+    inject(DestroyRef).onDestroy(() => {
+      this.channel?.close();
+      window.removeEventListener('storage', this.handleStorageEvent);
+      this._messages.complete();
+    });
+  }
+
+  /**
+   * Difunde un cambio de sesión al resto de pestañas abiertas.
+   * @param message - Mensaje a difundir
+   */
+  broadcast(message: AuthSyncMessage): void {
+    if (this.channel) {
+      this.channel.postMessage(message);
+      return;
+    }
+
+    // El timestamp garantiza que el valor cambie y se dispare el evento 'storage'
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify({ ...message, timestamp: Date.now() }));
+  }
+
+  /**
+   * Procesa los mensajes recibidos a través del fallback de localStorage.
+   */
+  private readonly handleStorageEvent = (event: StorageEvent): void => {
+    if (event.key !== this.STORAGE_KEY || !event.newValue) {
+      return;
+    }
+
+    try {
+      const { timestamp, ...message } = JSON.parse(event.newValue);
+      this._messages.next(message as AuthSyncMessage);
+    } catch {
+      // Ignorar valores corruptos
+    }
+  };
+}
@@ -1,61 +1,157 @@
 import { Injectable, signal, inject, computed } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, tap, catchError, throwError } from 'rxjs';
-import { environment } from 'src/environments/environment';
+import { HttpClient, HttpContext, HttpParams } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Observable, tap, catchError, throwError, map, finalize, shareReplay } from 'rxjs';
 import {
   UserLoginRequest,
   UserRegisterRequest,
   AuthResponse,
-  TokenValidationResponse
+  LoginResponse,
+  TwoFactorVerifyRequest,
+  TwoFactorCodeRequest,
+  TwoFactorSetupResponse,
+  TwoFactorRecoveryCodesResponse,
+  isTwoFactorChallenge,
+  SsoExchangeRequest,
+  SsoLinkRequest,
+  SsoLoginResponse,
+  isSsoLinkRequired,
+  ActiveSession,
+  LoginAttempt,
+  TokenValidationResponse,
+  RefreshTokenRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  PasswordResetTokenStatus,
+  VerifyEmailRequest,
+  ResendVerificationRequest,
+  AuthSyncMessage,
+  PERMISSIONS,
+  Permission,
+  PermissionsResponse,
+  ROLE_PERMISSIONS
 } from '../models';
 import { User, UserUpdateRequest, UserProfileRequest, AdminUserUpdateRequest } from '../../user/models';
+import { AuthSyncService } from './auth-sync.service';
+import { SKIP_ERROR_TOAST, withInlineErrors } from '../../../core/interceptors/http-context.tokens';
+import { APP_CONFIG } from '../../../core/config';
+import { EntityStoreService } from '../../../core/services/entity-store.service';
+import { ApiResponse } from '../../../shared/common';
 
 // AUTH SERVICE: gestión de autenticación y sesión (TS)
 @Injectable({
   providedIn: 'root'
 })
 export class AuthService {
-  private readonly API_URL = `${environment.apiUrl}/auth`;
+  private readonly apiUrl = inject(APP_CONFIG).apiUrl;
+  private readonly API_URL = `${this.apiUrl}/auth`;
+
+  /** Margen (segundos) antes de `exp` en el que se renueva el token de forma proactiva */
+  private readonly TOKEN_REFRESH_THRESHOLD = 60;
+
+  /** Renovación en curso compartida por todas las peticiones que esperan un token nuevo */
+  private refreshInFlight$: Observable<string> | null = null;
 
   // Signals privados para el estado interno
   private readonly _currentUser = signal<User | null>(null);
   private readonly _isAuthenticated = signal<boolean>(false);
   private readonly _isLoading = signal<boolean>(false);
+  private readonly _isRefreshing = signal<boolean>(false);
+  /** Permisos enviados por el backend (null: se deducen del rol) */
+  private readonly _grantedPermissions = signal<readonly Permission[] | null>(null);
 
   // Signals públicos readonly para componentes
-  readonly currentUser = this._currentUser.asReadonly();
+  /** Usuario de la sesión, leído del almacén de entidades para reflejar sus cambios */
+  readonly currentUser = computed(() => {
+    const user = this._currentUser();
+    return user ? this.entityStore.user(user.id) ?? user : null;
+  });
   readonly isAuthenticated = this._isAuthenticated.asReadonly();
   readonly isLoading = this._isLoading.asReadonly();
+  readonly isRefreshing = this._isRefreshing.asReadonly();
 
   // Computed values para estado combinado
   readonly authState = computed(() => ({
-    user: this._currentUser(),
+    user: this.currentUser(),
     isAuthenticated: this._isAuthenticated()
   }));
 
+  /**
+   * Permisos efectivos: los del JWT o de /users/me/permissions y,
+   * si el backend no los envía, los del rol (ROLE_PERMISSIONS).
+   */
+  readonly permissions = computed<readonly Permission[]>(() => {
+    const user = this.currentUser();
+    if (!user) {
+      return [];
+    }
+    return this._grantedPermissions() ?? ROLE_PERMISSIONS[user.role?.name] ?? [];
+  });
+
   // Computed values adicionales
-  readonly isAdmin = computed(() => this._currentUser()?.role?.name === 'ADMIN');
-  readonly isUser = computed(() => this._currentUser()?.role?.name === 'USER');
+  readonly isAdmin = computed(() => this.hasPermission('admin.dashboard'));
+  readonly isUser = computed(() => this.currentUser()?.role?.name === 'USER');
   readonly hasUser = computed(() => this._currentUser() !== null);
+  /** Las cuentas sin el campo `emailVerified` (anteriores a la verificación) cuentan como verificadas */
+  readonly isEmailVerified = computed(() => this.currentUser()?.emailVerified !== false);
+  /** La política exige 2FA a la cuenta y aún no está activado */
+  readonly twoFactorSetupRequired = computed(() => {
+    const user = this.currentUser();
+    return !!user?.twoFactorRequired && !user.twoFactorEnabled;
+  });
 
   private readonly http = inject(HttpClient);
+  private readonly router = inject(Router);
+  private readonly entityStore = inject(EntityStoreService);
+  private readonly authSync = inject(AuthSyncService);
 
   constructor() {
     this.loadUserFromStorage();
+
+    // Aplicar los cambios de sesión que llegan desde otras pestañas
+    this.authSync.messages$
+      .pipe(takeUntilDestroyed())
+      .subscribe(message => this.applyRemoteSessionChange(message));
   }
 
   /**
-   * Inicia sesión del usuario.
+   * Inicia sesión del usuario. Si la cuenta tiene 2FA, el backend devuelve un reto
+   * en lugar de la sesión y hay que completarlo con verifyTwoFactor.
    * @param credentials - Credenciales de login
+   * @returns Observable con la sesión o el reto de segundo factor
+   */
+  login(credentials: UserLoginRequest): Observable<LoginResponse> {
+    this._isLoading.set(true);
+
+    // Login y registro muestran su error inline: sin toast global
+    return this.http.post<LoginResponse>(`${this.API_URL}/login`, credentials, { context: withInlineErrors() })
+      .pipe(
+        tap(response => {
+          if (!isTwoFactorChallenge(response)) {
+            this.setAuthData(response.token, response.user, response.refreshToken);
+          }
+          this._isLoading.set(false);
+        }),
+        catchError(error => {
+          this._isLoading.set(false);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  /**
+   * Completa el login con el código de la app de autenticación o un código de recuperación.
+   * @param request - Token del reto y código
    * @returns Observable con la respuesta de autenticación
    */
-  login(credentials: UserLoginRequest): Observable<AuthResponse> {
+  verifyTwoFactor(request: TwoFactorVerifyRequest): Observable<AuthResponse> {
     this._isLoading.set(true);
 
-    return this.http.post<AuthResponse>(`${this.API_URL}/login`, credentials)
+    return this.http.post<AuthResponse>(`${this.API_URL}/2fa/verify`, request, { context: withInlineErrors() })
       .pipe(
         tap(response => {
-          this.setAuthData(response.token, response.user);
+          this.setAuthData(response.token, response.user, response.refreshToken);
           this._isLoading.set(false);
         }),
         catchError(error => {
@@ -65,6 +161,44 @@ export class AuthService {
       );
   }
 
+  // INICIO DE SESIÓN CORPORATIVO (SSO)
+
+  /**
+   * Canjea el código de autorización del IdP. El backend lo valida con el `codeVerifier`
+   * de PKCE y responde con la sesión, un reto de 2FA o la vinculación pendiente
+   * de una cuenta existente con el mismo username o email.
+   * @param request - Código, code_verifier y redirect_uri usados en la autorización
+   * @returns Observable con la respuesta del canje
+   */
+  exchangeSsoCode(request: SsoExchangeRequest): Observable<SsoLoginResponse> {
+    return this.http.post<SsoLoginResponse>(`${this.API_URL}/sso/exchange`, request, { context: withInlineErrors() })
+      .pipe(
+        tap(response => {
+          if (!isSsoLinkRequired(response) && !isTwoFactorChallenge(response)) {
+            this.setAuthData(response.token, response.user, response.refreshToken);
+          }
+        }),
+        catchError(error => throwError(() => error))
+      );
+  }
+
+  /**
+   * Vincula la identidad corporativa a la cuenta existente confirmando su contraseña.
+   * @param request - Token de vinculación y contraseña de MindHub
+   * @returns Observable con la sesión o el reto de segundo factor
+   */
+  linkSsoAccount(request: SsoLinkRequest): Observable<LoginResponse> {
+    return this.http.post<LoginResponse>(`${this.API_URL}/sso/link`, request, { context: withInlineErrors() })
+      .pipe(
+        tap(response => {
+          if (!isTwoFactorChallenge(response)) {
+            this.setAuthData(response.token, response.user, response.refreshToken);
+          }
+        }),
+        catchError(error => throwError(() => error))
+      );
+  }
+
   /**
    * Registra un nuevo usuario.
    * @param userData - Datos del usuario a registrar
@@ -73,7 +207,7 @@ export class AuthService {
   register(userData: UserRegisterRequest): Observable<User> {
     this._isLoading.set(true);
 
-    return this.http.post<User>(`${this.API_URL}/register`, userData)
+    return this.http.post<User>(`${this.API_URL}/register`, userData, { context: withInlineErrors() })
       .pipe(
         tap(() => this._isLoading.set(false)),
         catchError(error => {
@@ -83,6 +217,180 @@ export class AuthService {
       );
   }
 
+  // RESTABLECIMIENTO DE CONTRASEÑA
+
+  /**
+   * Solicita el email con el enlace para restablecer la contraseña.
+   * El backend responde igual exista o no la cuenta (no revela emails registrados).
+   * @param request - Email de la cuenta
+   * @returns Observable con la confirmación
+   */
+  requestPasswordReset(request: ForgotPasswordRequest): Observable<ApiResponse> {
+    return this.http.post<ApiResponse>(`${this.API_URL}/forgot-password`, request, { context: withInlineErrors() })
+      .pipe(
+        catchError(error => throwError(() => error))
+      );
+  }
+
+  /**
+   * Comprueba el token del enlace antes de mostrar el formulario.
+   * @param token - Token recibido por email
+   * @returns Observable con la validez y la caducidad del token
+   */
+  validateResetToken(token: string): Observable<PasswordResetTokenStatus> {
+    return this.http.get<PasswordResetTokenStatus>(`${this.API_URL}/reset-password/validate`, {
+      params: new HttpParams().set('token', token),
+      context: withInlineErrors()
+    }).pipe(
+      catchError(error => throwError(() => error))
+    );
+  }
+
+  /**
+   * Fija la contraseña nueva. El backend invalida el token y cierra las sesiones abiertas.
+   * @param request - Token del email y contraseña nueva
+   * @returns Observable con la confirmación
+   */
+  resetPassword(request: ResetPasswordRequest): Observable<ApiResponse> {
+    return this.http.post<ApiResponse>(`${this.API_URL}/reset-password`, request, { context: withInlineErrors() })
+      .pipe(
+        catchError(error => throwError(() => error))
+      );
+  }
+
+  // VERIFICACIÓN DE EMAIL
+
+  /**
+   * Confirma el email con el token del enlace. Si la cuenta verificada es la de
+   * la sesión, se actualiza el usuario actual (y el resto de pestañas).
+   * @param request - Token recibido por email
+   * @returns Observable con el usuario verificado
+   */
+  verifyEmail(request: VerifyEmailRequest): Observable<User> {
+    return this.http.post<User>(`${this.API_URL}/verify-email`, request, { context: withInlineErrors() })
+      .pipe(
+        tap(user => {
+          if (this._currentUser()?.id === user.id) {
+            this.updateCurrentUser(user);
+          }
+        }),
+        catchError(error => throwError(() => error))
+      );
+  }
+
+  /**
+   * Vuelve a enviar el email de verificación. El backend limita la frecuencia
+   * (429 con Retry-After) y responde igual exista o no la cuenta.
+   * @param request - Email de la cuenta
+   * @returns Observable con la confirmación
+   */
+  resendVerificationEmail(request: ResendVerificationRequest): Observable<ApiResponse> {
+    return this.http.post<ApiResponse>(`${this.API_URL}/verify-email/resend`, request, { context: withInlineErrors() })
+      .pipe(
+        catchError(error => throwError(() => error))
+      );
+  }
+
+  // VERIFICACIÓN EN DOS PASOS
+
+  /**
+   * Genera un secreto TOTP pendiente de confirmar.
+   * @returns Observable con el secreto y la URI otpauth para el código QR
+   */
+  startTwoFactorSetup(): Observable<TwoFactorSetupResponse> {
+    return this.http.post<TwoFactorSetupResponse>(`${this.API_URL}/2fa/setup`, {}, { context: withInlineErrors() })
+      .pipe(
+        catchError(error => throwError(() => error))
+      );
+  }
+
+  /**
+   * Activa el 2FA confirmando un código generado con el secreto nuevo.
+   * @param request - Código de la app de autenticación
+   * @returns Observable con los códigos de recuperación (solo se muestran esta vez)
+   */
+  enableTwoFactor(request: TwoFactorCodeRequest): Observable<TwoFactorRecoveryCodesResponse> {
+    return this.http.post<TwoFactorRecoveryCodesResponse>(`${this.API_URL}/2fa/enable`, request, { context: withInlineErrors() })
+      .pipe(
+        tap(response => this.updateCurrentUser(response.user)),
+        catchError(error => throwError(() => error))
+      );
+  }
+
+  /**
+   * Desactiva el 2FA. Falla si la política lo exige al rol del usuario.
+   * @param request - Código de la app o de recuperación
+   * @returns Observable con el usuario actualizado
+   */
+  disableTwoFactor(request: TwoFactorCodeRequest): Observable<User> {
+    return this.http.post<User>(`${this.API_URL}/2fa/disable`, request, { context: withInlineErrors() })
+      .pipe(
+        tap(user => this.updateCurrentUser(user)),
+        catchError(error => throwError(() => error))
+      );
+  }
+
+  /**
+   * Sustituye los códigos de recuperación por unos nuevos.
+   * @param request - Código de la app de autenticación
+   * @returns Observable con los códigos nuevos
+   */
+  regenerateRecoveryCodes(request: TwoFactorCodeRequest): Observable<TwoFactorRecoveryCodesResponse> {
+    return this.http.post<TwoFactorRecoveryCodesResponse>(`${this.API_URL}/2fa/recovery-codes`, request, { context: withInlineErrors() })
+      .pipe(
+        tap(response => this.updateCurrentUser(response.user)),
+        catchError(error => throwError(() => error))
+      );
+  }
+
+  // SESIONES ABIERTAS Y DISPOSITIVOS
+
+  /**
+   * Sesiones abiertas de la cuenta (una por dispositivo). La actual viene marcada con `current`.
+   * @returns Observable con las sesiones, la actual primero
+   */
+  getActiveSessions(): Observable<ActiveSession[]> {
+    return this.http.get<ActiveSession[]>(`${this.API_URL}/sessions`, { context: withInlineErrors() })
+      .pipe(
+        catchError(error => throwError(() => error))
+      );
+  }
+
+  /**
+   * Cierra una sesión: el dispositivo pierde el acceso en su siguiente petición.
+   * Para la sesión actual hay que llamar además a logout.
+   * @param sessionId - ID de la sesión
+   * @returns Observable con la confirmación
+   */
+  revokeSession(sessionId: string): Observable<ApiResponse> {
+    return this.http.delete<ApiResponse>(`${this.API_URL}/sessions/${sessionId}`, { context: withInlineErrors() })
+      .pipe(
+        catchError(error => throwError(() => error))
+      );
+  }
+
+  /**
+   * Cierra todas las sesiones salvo la actual.
+   * @returns Observable con la confirmación
+   */
+  revokeOtherSessions(): Observable<ApiResponse> {
+    return this.http.delete<ApiResponse>(`${this.API_URL}/sessions`, { context: withInlineErrors() })
+      .pipe(
+        catchError(error => throwError(() => error))
+      );
+  }
+
+  /**
+   * Últimos intentos de inicio de sesión en la cuenta, también los fallidos.
+   * @returns Observable con los intentos, del más reciente al más antiguo
+   */
+  getLoginHistory(): Observable<LoginAttempt[]> {
+    return this.http.get<LoginAttempt[]>(`${this.API_URL}/login-history`, { context: withInlineErrors() })
+      .pipe(
+        catchError(error => throwError(() => error))
+      );
+  }
+
   /**
    * Actualiza información del usuario autenticado.
    * @param userData - Datos a actualizar
@@ -125,7 +433,7 @@ export class AuthService {
         tap(response => {
           // Si el backend devolvió un nuevo token (cambio de username del admin)
           if (response.token) {
-            this.setAuthData(response.token, response.user);
+            this.setAuthData(response.token, response.user, response.refreshToken, 'token');
           } else if (response.user) {
             // Si solo devolvió el usuario, actualizar solo el usuario
             this.updateCurrentUser(response.user);
@@ -135,14 +443,54 @@ export class AuthService {
       );
   }
 
+  /**
+   * Renueva el token de acceso usando el refresh token almacenado.
+   * Si ya hay una renovación en curso, devuelve la misma para que las
+   * peticiones concurrentes esperen un único refresh.
+   * @returns Observable con el nuevo token de acceso
+   */
+  refreshAccessToken(): Observable<string> {
+    if (this.refreshInFlight$) {
+      return this.refreshInFlight$;
+    }
+
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken) {
+      return throwError(() => new Error('No hay refresh token disponible'));
+    }
+
+    const request: RefreshTokenRequest = { refreshToken };
+    this._isRefreshing.set(true);
+
+    this.refreshInFlight$ = this.http.post<AuthResponse>(`${this.API_URL}/refresh`, request)
+      .pipe(
+        tap(response => {
+          const user = response.user ?? this._currentUser();
+          if (user) {
+            this.setAuthData(response.token, user, response.refreshToken ?? refreshToken, 'token');
+          }
+        }),
+        map(response => response.token),
+        finalize(() => {
+          this.refreshInFlight$ = null;
+          this._isRefreshing.set(false);
+        }),
+        shareReplay(1)
+      );
+
+    return this.refreshInFlight$;
+  }
+
   /**
    * Cierra la sesión del usuario.
    */
   logout(): void {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
-    this._currentUser.set(null);
-    this._isAuthenticated.set(false);
+    const wasAuthenticated = this._isAuthenticated();
+    this.clearSession();
+
+    if (wasAuthenticated) {
+      this.authSync.broadcast({ type: 'logout' });
+    }
   }
 
   /**
@@ -152,7 +500,7 @@ export class AuthService {
   checkAuthenticationStatus(): boolean {
     const token = localStorage.getItem('token');
     const user = localStorage.getItem('user');
-    return !!(token && user && this.isTokenValid(token));
+    return !!(token && user && (this.isTokenValid(token) || this.getRefreshToken()));
   }
 
   /**
@@ -160,7 +508,7 @@ export class AuthService {
    * @returns Usuario actual o null
    */
   getCurrentUser(): User | null {
-    return this._currentUser();
+    return this.currentUser();
   }
 
   /**
@@ -171,6 +519,56 @@ export class AuthService {
     return localStorage.getItem('token');
   }
 
+  /**
+   * Obtiene el refresh token.
+   * @returns Refresh token o null
+   */
+  getRefreshToken(): string | null {
+    return localStorage.getItem('refreshToken');
+  }
+
+  /**
+   * Obtiene el instante de expiración del token de acceso.
+   * @returns Timestamp (ms) del claim `exp` o null si no hay token válido
+   */
+  getTokenExpiration(): number | null {
+    const token = this.getToken();
+    if (!token) {
+      return null;
+    }
+
+    try {
+      const payload = JSON.parse(this.decodeToken(token));
+      return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Verifica si el token de acceso caduca en breve y conviene renovarlo.
+   * @returns true si quedan menos de TOKEN_REFRESH_THRESHOLD segundos de validez
+   */
+  isTokenExpiringSoon(): boolean {
+    const expiration = this.getTokenExpiration();
+    if (expiration === null) {
+      return false;
+    }
+
+    return expiration - Date.now() < this.TOKEN_REFRESH_THRESHOLD * 1000;
+  }
+
+  /**
+   * Verifica si el usuario tiene todos los permisos indicados.
+   * Es reactivo: leído en un computed o template se actualiza con la sesión.
+   * @param required - Permisos necesarios
+   * @returns true si los tiene todos
+   */
+  hasPermission(...required: Permission[]): boolean {
+    const granted = this.permissions();
+    return required.every(permission => granted.includes(permission));
+  }
+
   /**
    * Verifica si el usuario tiene un rol específico.
    * @param role - Rol a verificar
@@ -187,20 +585,101 @@ export class AuthService {
    * @param user - Usuario actualizado
    */
   updateCurrentUser(user: User): void {
-    this._currentUser.set(user);
+    this.setCurrentUser(user);
     localStorage.setItem('user', JSON.stringify(user));
+    this.authSync.broadcast({ type: 'user', user });
+  }
+
+  /**
+   * Sustituye el token de la sesión actual (p. ej. tras un cambio de username).
+   * @param token - Nuevo token JWT
+   * @param user - Usuario actualizado
+   * @param refreshToken - Nuevo refresh token (si el backend lo devuelve)
+   */
+  rotateToken(token: string, user: User, refreshToken?: string): void {
+    this.setAuthData(token, user, refreshToken, 'token');
   }
 
   /**
    * Establece los datos de autenticación.
    * @param token - Token JWT
    * @param user - Usuario autenticado
+   * @param refreshToken - Refresh token (si el backend lo devuelve)
+   * @param syncType - Tipo de cambio que se difunde al resto de pestañas
    */
-  private setAuthData(token: string, user: User): void {
+  private setAuthData(token: string, user: User, refreshToken?: string, syncType: 'login' | 'token' = 'login'): void {
     localStorage.setItem('token', token);
     localStorage.setItem('user', JSON.stringify(user));
-    this._currentUser.set(user);
+    if (refreshToken) {
+      localStorage.setItem('refreshToken', refreshToken);
+    }
+    this.setCurrentUser(user);
     this._isAuthenticated.set(true);
+    this.syncPermissions(token, syncType === 'login');
+    this.authSync.broadcast({ type: syncType, user });
+  }
+
+  /**
+   * Elimina los datos de sesión locales sin notificar a otras pestañas.
+   */
+  private clearSession(): void {
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+    localStorage.removeItem('user');
+    this.setCurrentUser(null);
+    this._isAuthenticated.set(false);
+    this._grantedPermissions.set(null);
+  }
+
+  /**
+   * Aplica un cambio de sesión recibido desde otra pestaña.
+   * Los datos ya están en localStorage (compartido), solo se actualizan los signals.
+   * @param message - Mensaje recibido
+   */
+  private applyRemoteSessionChange(message: AuthSyncMessage): void {
+    switch (message.type) {
+      case 'logout':
+        this.setCurrentUser(null);
+        this._isAuthenticated.set(false);
+        this._grantedPermissions.set(null);
+        this.reevaluateGuards();
+        break;
+      case 'login':
+        this.setCurrentUser(message.user);
+        this._isAuthenticated.set(true);
+        this.syncPermissions(this.getToken(), true);
+        this.reevaluateGuards();
+        break;
+      case 'token':
+        this.setCurrentUser(message.user);
+        this._isAuthenticated.set(true);
+        this.syncPermissions(this.getToken(), false);
+        break;
+      case 'user':
+        this.setCurrentUser(message.user);
+        break;
+    }
+  }
+
+  /**
+   * Fija el usuario de la sesión y lo guarda en el almacén de entidades.
+   * Sin usuario (cierre de sesión) el almacén se vacía.
+   * @param user - Usuario autenticado o null
+   */
+  private setCurrentUser(user: User | null): void {
+    if (user) {
+      this.entityStore.upsertUsers(user);
+    } else {
+      this.entityStore.clear();
+    }
+    this._currentUser.set(user);
+  }
+
+  /**
+   * Vuelve a navegar a la URL actual para que los guards decidan la redirección.
+   */
+  private reevaluateGuards(): void {
+    this.router.navigateByUrl(this.router.url, { onSameUrlNavigation: 'reload' });
   }
 
   /**
@@ -210,17 +689,80 @@ export class AuthService {
     const userStr = localStorage.getItem('user');
     const token = localStorage.getItem('token');
 
-    if (userStr && token && this.isTokenValid(token)) {
+    if (userStr && token && (this.isTokenValid(token) || this.getRefreshToken())) {
       try {
         const user: User = JSON.parse(userStr);
-        this._currentUser.set(user);
+        this.setCurrentUser(user);
         this._isAuthenticated.set(true);
+        this.syncPermissions(token, true);
       } catch {
         this.logout();
       }
     }
   }
 
+  /**
+   * Actualiza los permisos a partir del claim `permissions` del token.
+   * Sin claim, los pide a /users/me/permissions (si `fetchIfMissing`);
+   * mientras tanto, o si el endpoint no existe, se usan los del rol.
+   * @param token - Token de acceso vigente
+   * @param fetchIfMissing - Pedirlos al backend si el token no los trae
+   */
+  private syncPermissions(token: string | null, fetchIfMissing: boolean): void {
+    const claim = token ? this.readPermissionClaim(token) : null;
+    if (claim) {
+      this._grantedPermissions.set(claim);
+      return;
+    }
+
+    if (fetchIfMissing) {
+      this._grantedPermissions.set(null);
+      // Fuera del flujo actual: puede llamarse desde el constructor y los interceptores inyectan AuthService
+      queueMicrotask(() => this.loadPermissions());
+    }
+  }
+
+  /**
+   * Pide los permisos al backend; si falla se mantienen los del rol.
+   */
+  private loadPermissions(): void {
+    if (!this._isAuthenticated()) {
+      return;
+    }
+
+    this.http.get<PermissionsResponse>(`${this.apiUrl}/users/me/permissions`, {
+      context: new HttpContext().set(SKIP_ERROR_TOAST, true)
+    }).subscribe({
+      next: response => {
+        if (this._isAuthenticated()) {
+          this._grantedPermissions.set(this.toKnownPermissions(response.permissions));
+        }
+      },
+      error: () => {
+        // Backend sin el endpoint: se siguen usando los permisos del rol
+      }
+    });
+  }
+
+  /**
+   * Lee el claim `permissions` del JWT (null si no lo trae).
+   */
+  private readPermissionClaim(token: string): Permission[] | null {
+    try {
+      const { permissions } = JSON.parse(this.decodeToken(token));
+      return Array.isArray(permissions) ? this.toKnownPermissions(permissions) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Descarta los permisos que la interfaz no conoce.
+   */
+  private toKnownPermissions(values: unknown[]): Permission[] {
+    return values.filter((value): value is Permission => PERMISSIONS.includes(value as Permission));
+  }
+
   /**
    * Verifica si un token JWT es válido.
    * @param token - Token a validar
@@ -0,0 +1,52 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, map } from 'rxjs';
+import { APP_CONFIG } from '../../../core/config';
+import { withInlineErrors } from '../../../core/interceptors/http-context.tokens';
+
+/**
+ * Cuenta del directorio del IdP de pruebas.
+ */
+export interface DevIdpIdentity {
+  sub: string;
+  preferredUsername: string;
+  email: string;
+  givenName: string;
+  familyName: string;
+}
+
+/**
+ * Petición de autorización tal y como llega al IdP en la query string.
+ */
+export interface DevIdpAuthorizeRequest {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  codeChallengeMethod: string;
+  sub: string;
+}
+
+// DEV IDP SERVICE: IdP de pruebas servido por el backend simulado (solo con useFakeBackend)
+@Injectable({
+  providedIn: 'root'
+})
+export class DevIdpService {
+  private readonly http = inject(HttpClient);
+  private readonly API_URL = `${inject(APP_CONFIG).apiUrl}/dev-idp`;
+
+  /**
+   * Cuentas con las que se puede entrar
+   */
+  getDirectory(): Observable<DevIdpIdentity[]> {
+    return this.http.get<DevIdpIdentity[]>(`${this.API_URL}/directory`);
+  }
+
+  /**
+   * Emite un código de autorización para la cuenta elegida
+   * @returns Código de un solo uso para /auth/sso/exchange
+   */
+  authorize(request: DevIdpAuthorizeRequest): Observable<string> {
+    return this.http.post<{ code: string }>(`${this.API_URL}/authorize`, request, { context: withInlineErrors() })
+      .pipe(map(response => response.code));
+  }
+}
@@ -1,2 +1,6 @@
 // Barrel file: Auth Data Access
 export * from './auth.service';
+export * from './auth-sync.service';
+export * from './dev-idp.service';
+export * from './sso.service';
+export * from './verification-resend';
@@ -0,0 +1,104 @@
+import { Injectable, inject } from '@angular/core';
+import { APP_CONFIG } from '../../../core/config';
+
+/** Clave de sessionStorage con el login SSO en curso (sobrevive a la redirección al IdP) */
+const SSO_PENDING_KEY = 'sso_pending';
+
+/** Scopes pedidos si la configuración no indica otros */
+const DEFAULT_SSO_SCOPE = 'openid profile email';
+
+/** Ruta de la aplicación a la que vuelve el IdP */
+export const SSO_CALLBACK_PATH = '/auth/sso/callback';
+
+/**
+ * Login SSO iniciado en esta pestaña y pendiente de la vuelta del IdP.
+ */
+export interface PendingSsoLogin {
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  /** Ruta a la que ir tras iniciar sesión (ya saneada) */
+  returnUrl: string | null;
+}
+
+// SSO SERVICE: inicio de sesión con el IdP corporativo (OIDC authorization code + PKCE)
+@Injectable({
+  providedIn: 'root'
+})
+export class SsoService {
+  private readonly config = inject(APP_CONFIG).sso;
+
+  /** Hay un IdP configurado en config.json */
+  readonly isEnabled = !!this.config;
+  readonly providerName = this.config?.providerName ?? '';
+
+  /**
+   * Redirige al endpoint de autorización del IdP. El `code_verifier` y el `state`
+   * se guardan en sessionStorage para comprobar la vuelta.
+   * @param returnUrl - Ruta a la que volver tras el login
+   */
+  async startLogin(returnUrl: string | null): Promise<void> {
+    if (!this.config) {
+      throw new Error('SSO no configurado');
+    }
+
+    const pending: PendingSsoLogin = {
+      state: randomUrlSafeString(16),
+      codeVerifier: randomUrlSafeString(32),
+      redirectUri: `${window.location.origin}${SSO_CALLBACK_PATH}`,
+      returnUrl
+    };
+    sessionStorage.setItem(SSO_PENDING_KEY, JSON.stringify(pending));
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: pending.redirectUri,
+      scope: this.config.scope ?? DEFAULT_SSO_SCOPE,
+      state: pending.state,
+      code_challenge: await s256Challenge(pending.codeVerifier),
+      code_challenge_method: 'S256'
+    });
+
+    window.location.assign(`${this.config.authorizationEndpoint}?${params}`);
+  }
+
+  /**
+   * Recupera (y borra) el login pendiente si el `state` devuelto por el IdP coincide.
+   * Un `state` distinto indica una respuesta que no inició esta pestaña.
+   * @param state - Parámetro `state` de la URL de vuelta
+   * @returns Login pendiente o null
+   */
+  consumePendingLogin(state: string | null): PendingSsoLogin | null {
+    const stored = sessionStorage.getItem(SSO_PENDING_KEY);
+    sessionStorage.removeItem(SSO_PENDING_KEY);
+
+    try {
+      const pending: PendingSsoLogin | null = stored ? JSON.parse(stored) : null;
+      return pending && state && pending.state === state ? pending : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// UTILIDADES PRIVADAS
+
+/**
+ * Texto aleatorio en base64url (43 caracteres con 32 bytes, como pide RFC 7636).
+ */
+function randomUrlSafeString(bytes: number): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+/**
+ * code_challenge S256: BASE64URL(SHA-256(code_verifier)).
+ */
+async function s256Challenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return toBase64Url(new Uint8Array(digest));
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
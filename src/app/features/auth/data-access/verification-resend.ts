@@ -0,0 +1,74 @@
+// VerificationResend - reenvío del email de verificación con espera entre envíos
+
+import { computed, inject, signal } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { finalize } from 'rxjs';
+import { createCountdown } from '../../../core/services/countdown';
+import { ErrorHandlerService } from '../../../core/services/error-handler.service';
+import { getApiErrorMessage, parseApiError } from '../../../core/errors';
+import { AuthService } from './auth.service';
+
+/** Espera (s) entre dos reenvíos; el backend la impone con un 429 */
+export const VERIFICATION_RESEND_COOLDOWN = 60;
+
+/**
+ * Estado y acciones del reenvío.
+ */
+export interface VerificationResend {
+  readonly sending: () => boolean;
+  /** Segundos hasta poder reenviar (0 = se puede) */
+  readonly cooldown: () => number;
+  readonly canResend: () => boolean;
+  /** Resultado del último envío */
+  readonly feedback: () => { type: 'success' | 'error'; text: string } | null;
+  resend(email: string): void;
+  /** Bloquea el reenvío como si se acabara de enviar (p. ej. justo tras el registro) */
+  startCooldown(): void;
+}
+
+/**
+ * Crea el estado de reenvío del email de verificación. Debe llamarse en un
+ * contexto de inyección (la cuenta atrás se detiene al destruir el componente).
+ */
+export function createVerificationResend(): VerificationResend {
+  const authService = inject(AuthService);
+  const errorHandler = inject(ErrorHandlerService);
+
+  const sending = signal(false);
+  const feedback = signal<{ type: 'success' | 'error'; text: string } | null>(null);
+  const countdown = createCountdown(() => {
+    if (feedback()?.type === 'error') feedback.set(null);
+  });
+
+  return {
+    sending: sending.asReadonly(),
+    cooldown: countdown.remaining,
+    canResend: computed(() => !sending() && !countdown.active()),
+    feedback: feedback.asReadonly(),
+    resend: email => {
+      if (sending() || countdown.active()) return;
+
+      sending.set(true);
+      feedback.set(null);
+
+      authService.resendVerificationEmail({ email })
+        .pipe(finalize(() => sending.set(false)))
+        .subscribe({
+          next: () => {
+            feedback.set({ type: 'success', text: 'Te hemos enviado un nuevo enlace de verificación.' });
+            countdown.start(VERIFICATION_RESEND_COOLDOWN);
+          },
+          error: (error: HttpErrorResponse) => {
+            const apiError = parseApiError(error);
+            if (apiError.code === 'TOO_MANY_REQUESTS') {
+              countdown.start(apiError.retryAfter ?? VERIFICATION_RESEND_COOLDOWN);
+              feedback.set({ type: 'error', text: getApiErrorMessage(apiError.code) });
+            } else {
+              feedback.set({ type: 'error', text: errorHandler.getAuthErrorMessage(error) });
+            }
+          }
+        });
+    },
+    startCooldown: () => countdown.start(VERIFICATION_RESEND_COOLDOWN)
+  };
+}
@@ -1,4 +1,4 @@
-// MODELO: Auth - request interfaces (login/register)
+// MODELO: Auth - request interfaces (login/register/refresh/password reset/email verification/2FA/SSO)
 
 import { PrivacyType } from '../../../shared/models/enums/enums';
 import { Role } from '../../user/models/user-response.interface';
@@ -29,3 +29,84 @@ export interface UserRegisterRequest {
   role?: Role;
   privacyType?: PrivacyType;
 }
+
+/**
+ * Interfaz para solicitud de renovación del token de acceso.
+ * Alineada EXACTAMENTE con RefreshTokenRequest DTO del backend.
+ */
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+/**
+ * Interfaz para solicitar el email de restablecimiento de contraseña.
+ * Alineada EXACTAMENTE con ForgotPasswordRequest DTO del backend.
+ */
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+/**
+ * Interfaz para fijar una contraseña nueva con el token del email.
+ * Alineada EXACTAMENTE con ResetPasswordRequest DTO del backend.
+ */
+export interface ResetPasswordRequest {
+  token: string;
+  newPassword: string;
+}
+
+/**
+ * Interfaz para confirmar el email con el token del enlace.
+ * Alineada EXACTAMENTE con VerifyEmailRequest DTO del backend.
+ */
+export interface VerifyEmailRequest {
+  token: string;
+}
+
+/**
+ * Interfaz para pedir de nuevo el email de verificación.
+ * Alineada EXACTAMENTE con ResendVerificationRequest DTO del backend.
+ */
+export interface ResendVerificationRequest {
+  email: string;
+}
+
+/**
+ * Interfaz para el segundo paso del login: código TOTP o código de recuperación.
+ * Alineada EXACTAMENTE con TwoFactorVerifyRequest DTO del backend.
+ */
+export interface TwoFactorVerifyRequest {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * Interfaz para confirmar una operación de 2FA con un código de la app
+ * (o de recuperación al desactivar).
+ * Alineada EXACTAMENTE con TwoFactorCodeRequest DTO del backend.
+ */
+export interface TwoFactorCodeRequest {
+  code: string;
+}
+
+/**
+ * Interfaz para canjear el código de autorización del IdP corporativo.
+ * El backend lo canjea en el token endpoint con el `codeVerifier` de PKCE.
+ * Alineada EXACTAMENTE con SsoExchangeRequest DTO del backend.
+ */
+export interface SsoExchangeRequest {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+/**
+ * Interfaz para vincular la identidad corporativa a una cuenta existente
+ * confirmando la contraseña de MindHub.
+ * Alineada EXACTAMENTE con SsoLinkRequest DTO del backend.
+ */
+export interface SsoLinkRequest {
+  linkToken: string;
+  password: string;
+}
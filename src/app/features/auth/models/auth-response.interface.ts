@@ -1,15 +1,76 @@
-// MODELO: Auth - AuthResponse / TokenValidationResponse (interfaces)
+// MODELO: Auth - AuthResponse / TwoFactorChallengeResponse / SsoLinkRequiredResponse / TokenValidationResponse / PasswordResetTokenStatus (interfaces)
 
 import { User } from '../../user/models/user-response.interface';
 
 /**
  * Interfaz para respuesta de autenticación exitosa.
- * Contiene el token JWT y los datos del usuario.
+ * Contiene el token JWT, el refresh token y los datos del usuario.
  */
 export interface AuthResponse {
   token: string;
+  refreshToken?: string;
   user: User;
   message: string;
+  twoFactorRequired?: false;
+}
+
+/**
+ * Interfaz para la respuesta de login de una cuenta con 2FA.
+ * La sesión se emite al enviar un código válido con `challengeToken` a /auth/2fa/verify.
+ */
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+  /** Caducidad del reto (ISO 8601) */
+  expiresAt: string;
+  message: string;
+}
+
+/** Respuesta de /auth/login: sesión o reto de segundo factor */
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+/**
+ * Indica si el login necesita el segundo paso.
+ */
+export const isTwoFactorChallenge = (response: LoginResponse): response is TwoFactorChallengeResponse =>
+  response.twoFactorRequired === true;
+
+/**
+ * Interfaz para la respuesta del canje SSO cuando la identidad corporativa coincide
+ * con una cuenta existente aún sin vincular: hay que confirmar su contraseña en /auth/sso/link.
+ */
+export interface SsoLinkRequiredResponse {
+  linkRequired: true;
+  linkToken: string;
+  /** Cuenta de MindHub que se vinculará */
+  username: string;
+  email: string;
+  message: string;
+}
+
+/** Respuesta de /auth/sso/exchange: sesión, reto de 2FA o vinculación pendiente */
+export type SsoLoginResponse = LoginResponse | SsoLinkRequiredResponse;
+
+/**
+ * Indica si el canje SSO necesita vincular una cuenta existente.
+ */
+export const isSsoLinkRequired = (response: SsoLoginResponse): response is SsoLinkRequiredResponse =>
+  'linkRequired' in response && response.linkRequired === true;
+
+/**
+ * Interfaz para el inicio del alta de 2FA: secreto y URI para el código QR.
+ */
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUrl: string;
+}
+
+/**
+ * Interfaz para los códigos de recuperación (se muestran una sola vez).
+ */
+export interface TwoFactorRecoveryCodesResponse {
+  recoveryCodes: string[];
+  user: User;
 }
 
 /**
@@ -20,3 +81,12 @@ export interface TokenValidationResponse {
   valid: boolean;
   user: User;
 }
+
+/**
+ * Interfaz para el estado de un token de restablecimiento de contraseña.
+ * `expiresAt` (ISO 8601) permite avisar antes de que caduque.
+ */
+export interface PasswordResetTokenStatus {
+  valid: boolean;
+  expiresAt: string;
+}
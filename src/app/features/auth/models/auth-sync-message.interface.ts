@@ -0,0 +1,13 @@
+// MODELO: Auth - AuthSyncMessage (mensajes de sesión entre pestañas)
+
+import { User } from '../../user/models/user-response.interface';
+
+/**
+ * Mensaje que una pestaña difunde al resto cuando cambia la sesión.
+ * Los tokens no viajan en el mensaje: todas las pestañas comparten localStorage.
+ */
+export type AuthSyncMessage =
+  | { type: 'login'; user: User }
+  | { type: 'logout' }
+  | { type: 'token'; user: User }
+  | { type: 'user'; user: User };
@@ -1,3 +1,6 @@
 // Barrel file: Auth Models
 export * from './auth-request.interface';
 export * from './auth-response.interface';
+export * from './auth-sync-message.interface';
+export * from './permission.interface';
+export * from './session.interface';
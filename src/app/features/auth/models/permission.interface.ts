@@ -0,0 +1,52 @@
+// MODELO: Auth - Permission (capacidades del usuario autenticado)
+
+/**
+ * Capacidades que la interfaz comprueba.
+ * El backend las envía en el claim `permissions` del JWT o en /users/me/permissions.
+ */
+export const PERMISSIONS = [
+  'admin.dashboard',
+  'users.manage',
+  'users.delete',
+  'users.changeUsername',
+  'reports.view',
+  'reports.resolve',
+  'posts.feed',
+  'follows.manage',
+  'users.search'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+/**
+ * Capacidades por rol, para backends que aún no envían permisos.
+ */
+export const ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  ADMIN: [
+    'admin.dashboard',
+    'users.manage',
+    'users.delete',
+    'users.changeUsername',
+    'reports.view',
+    'reports.resolve'
+  ],
+  MODERATOR: [
+    'reports.view',
+    'reports.resolve',
+    'posts.feed',
+    'follows.manage',
+    'users.search'
+  ],
+  USER: [
+    'posts.feed',
+    'follows.manage',
+    'users.search'
+  ]
+};
+
+/**
+ * Respuesta de GET /users/me/permissions.
+ */
+export interface PermissionsResponse {
+  permissions: string[];
+}
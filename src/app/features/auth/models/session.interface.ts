@@ -0,0 +1,51 @@
+// MODELO: Session - sesiones activas por dispositivo e historial de inicios de sesión (interfaces)
+
+/** Tipo de dispositivo deducido del User-Agent */
+export type DeviceType = 'DESKTOP' | 'MOBILE' | 'TABLET';
+
+/** Vía por la que se inició (o se intentó iniciar) la sesión */
+export type LoginMethod = 'PASSWORD' | 'SSO';
+
+/** Motivo de un intento fallido */
+export type LoginFailureReason = 'INVALID_CREDENTIALS' | 'INVALID_TWO_FACTOR_CODE' | 'ACCOUNT_DISABLED';
+
+/**
+ * Dispositivo desde el que se hace una petición.
+ * La ubicación es aproximada: el backend la deduce de la IP.
+ */
+export interface DeviceInfo {
+  deviceType: DeviceType;
+  /** Sistema operativo (p. ej. "Windows", "iOS") */
+  os: string;
+  /** Navegador (p. ej. "Chrome", "Safari") */
+  browser: string;
+  ipAddress: string;
+  /** Ciudad y país aproximados */
+  location: string;
+}
+
+/**
+ * Sesión abierta (un refresh token vivo) en un dispositivo.
+ * Alineada EXACTAMENTE con ActiveSessionResponse DTO del backend.
+ */
+export interface ActiveSession extends DeviceInfo {
+  id: string;
+  createdAt: string;
+  /** Última petición hecha con la sesión */
+  lastSeenAt: string;
+  /** Es la sesión desde la que se consulta */
+  current: boolean;
+}
+
+/**
+ * Intento de inicio de sesión, correcto o fallido.
+ * Alineada EXACTAMENTE con LoginAttemptResponse DTO del backend.
+ */
+export interface LoginAttempt extends DeviceInfo {
+  id: number;
+  date: string;
+  success: boolean;
+  method: LoginMethod;
+  /** Solo en los intentos fallidos */
+  failureReason?: LoginFailureReason;
+}
@@ -0,0 +1,62 @@
+// CheckEmail component — aviso tras el registro para confirmar el email
+
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormControl, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { createVerificationResend } from '../../data-access/verification-resend';
+
+@Component({
+  selector: 'app-check-email',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './check-email.component.html',
+  styleUrls: ['../login/login.component.css', '../auth-single-card.css', './check-email.component.css'],
+  host: {
+    class: 'check-email-component'
+  }
+})
+export class CheckEmailComponent {
+  // INYECCIÓN DE DEPENDENCIAS
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+
+  /** Email con el que se registró el usuario (?email=...) */
+  readonly email = this.route.snapshot.queryParamMap.get('email');
+
+  /** Reenvío del email de verificación */
+  readonly resend = createVerificationResend();
+
+  /** Email para reenviar cuando se llega sin ?email= */
+  readonly emailControl = new FormControl(this.email ?? '', {
+    nonNullable: true,
+    validators: [Validators.required, Validators.email]
+  });
+
+  constructor() {
+    // El registro acaba de enviar el primer email
+    if (this.email) {
+      this.resend.startCooldown();
+    }
+  }
+
+  // MÉTODOS PÚBLICOS
+
+  /**
+   * Vuelve a enviar el enlace de verificación
+   */
+  resendEmail(): void {
+    if (this.emailControl.invalid) {
+      this.emailControl.markAsTouched();
+      return;
+    }
+    this.resend.resend(this.emailControl.value.trim());
+  }
+
+  /**
+   * Navega a la página de login
+   */
+  goToLogin(): void {
+    this.router.navigate(['/auth/login']);
+  }
+}
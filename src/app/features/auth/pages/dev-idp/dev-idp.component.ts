@@ -0,0 +1,105 @@
+// DevIdp component — pantalla de login del IdP de pruebas (solo con el backend simulado)
+
+import { Component, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute } from '@angular/router';
+import { HttpErrorResponse } from '@angular/common/http';
+import { DevIdpIdentity, DevIdpService } from '../../data-access/dev-idp.service';
+import { ErrorHandlerService } from '../../../../core/services';
+import { parseApiError } from '../../../../core/errors';
+
+@Component({
+  selector: 'app-dev-idp',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './dev-idp.component.html',
+  styleUrls: ['../login/login.component.css', '../auth-single-card.css', './dev-idp.component.css'],
+  host: {
+    class: 'dev-idp-component'
+  }
+})
+export class DevIdpComponent {
+  // INYECCIÓN DE DEPENDENCIAS
+  private readonly devIdp = inject(DevIdpService);
+  private readonly route = inject(ActivatedRoute);
+  private readonly errorHandler = inject(ErrorHandlerService);
+
+  // SIGNALS DE ESTADO
+  private readonly _identities = signal<DevIdpIdentity[]>([]);
+  private readonly _selectedSub = signal<string | null>(null);
+  private readonly _errorMessage = signal<string | null>(null);
+
+  // SIGNALS COMPUTADOS
+  readonly identities = this._identities.asReadonly();
+  readonly selectedSub = this._selectedSub.asReadonly();
+  readonly errorMessage = this._errorMessage.asReadonly();
+
+  /** Parámetros de la petición de autorización (query string) */
+  private readonly params = this.route.snapshot.queryParamMap;
+
+  constructor() {
+    const redirectUri = this.params.get('redirect_uri');
+    if (!redirectUri || !isSameOrigin(redirectUri)) {
+      this._errorMessage.set('redirect_uri no válido: debe apuntar a esta aplicación.');
+      return;
+    }
+
+    this.devIdp.getDirectory().subscribe(identities => this._identities.set(identities));
+  }
+
+  // MÉTODOS PÚBLICOS
+
+  /**
+   * Autoriza a la cuenta elegida y vuelve a la aplicación con el código
+   */
+  signInAs(identity: DevIdpIdentity): void {
+    if (this._selectedSub()) {
+      return;
+    }
+
+    this._selectedSub.set(identity.sub);
+    this._errorMessage.set(null);
+
+    this.devIdp.authorize({
+      clientId: this.params.get('client_id') ?? '',
+      redirectUri: this.params.get('redirect_uri') ?? '',
+      codeChallenge: this.params.get('code_challenge') ?? '',
+      codeChallengeMethod: this.params.get('code_challenge_method') ?? '',
+      sub: identity.sub
+    }).subscribe({
+      next: code => this.returnToClient({ code }),
+      error: (error: HttpErrorResponse) => {
+        this._selectedSub.set(null);
+        // Pantalla de desarrollo: se muestra el motivo exacto (client_id, PKCE...)
+        this._errorMessage.set(parseApiError(error).detail ?? this.errorHandler.getGenericErrorMessage(error));
+      }
+    });
+  }
+
+  /**
+   * Vuelve a la aplicación sin autorizar (como el botón "Cancelar" de un IdP real)
+   */
+  cancel(): void {
+    this.returnToClient({ error: 'access_denied' });
+  }
+
+  // MÉTODOS PRIVADOS
+
+  private returnToClient(result: Record<string, string>): void {
+    const url = new URL(this.params.get('redirect_uri') ?? '/', window.location.origin);
+    Object.entries(result).forEach(([key, value]) => url.searchParams.set(key, value));
+    url.searchParams.set('state', this.params.get('state') ?? '');
+    window.location.assign(url.toString());
+  }
+}
+
+/**
+ * El IdP solo devuelve códigos a la propia aplicación (equivale a la lista de redirect_uri registrados).
+ */
+function isSameOrigin(url: string): boolean {
+  try {
+    return new URL(url).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
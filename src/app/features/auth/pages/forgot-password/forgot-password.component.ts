@@ -0,0 +1,119 @@
+// ForgotPassword component — solicitud del enlace para restablecer la contraseña
+
+import { Component, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { Router } from '@angular/router';
+import { HttpErrorResponse } from '@angular/common/http';
+import { catchError, finalize, tap, throwError } from 'rxjs';
+import { AuthService } from '../../data-access/auth.service';
+import { ErrorHandlerService, createCountdown } from '../../../../core/services';
+import { SERVER_ERROR_KEY, applyServerErrors, getApiErrorMessage, parseApiError } from '../../../../core/errors';
+
+@Component({
+  selector: 'app-forgot-password',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './forgot-password.component.html',
+  styleUrls: ['../login/login.component.css', '../auth-single-card.css'],
+  host: {
+    class: 'forgot-password-component'
+  }
+})
+export class ForgotPasswordComponent {
+  // INYECCIÓN DE DEPENDENCIAS
+  private readonly fb = inject(FormBuilder);
+  private readonly authService = inject(AuthService);
+  private readonly router = inject(Router);
+  private readonly errorHandler = inject(ErrorHandlerService);
+
+  // SIGNALS DE ESTADO
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _errorMessage = signal<string | null>(null);
+  /** Email al que se envió el enlace (null mientras no se ha enviado) */
+  private readonly _sentTo = signal<string | null>(null);
+  /** Espera para volver a pedir el enlace tras un 429 */
+  private readonly retryCountdown = createCountdown(() => this._errorMessage.set(null));
+
+  // SIGNALS COMPUTADOS
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly errorMessage = this._errorMessage.asReadonly();
+  readonly sentTo = this._sentTo.asReadonly();
+  readonly retryIn = this.retryCountdown.remaining;
+  readonly isRateLimited = this.retryCountdown.active;
+
+  // FORMULARIO REACTIVO
+  readonly forgotForm: FormGroup = this.fb.group({
+    email: ['', [Validators.required, Validators.email]]
+  });
+
+  readonly serverErrorKey = SERVER_ERROR_KEY;
+
+  // GETTERS PARA EL TEMPLATE
+  get emailControl() {
+    return this.forgotForm.get('email');
+  }
+
+  // MÉTODOS PÚBLICOS
+
+  /**
+   * Pide el enlace de restablecimiento
+   *
+   * La respuesta es la misma exista o no la cuenta, así que siempre
+   * se muestra la confirmación salvo que el servidor rechace la petición.
+   */
+  onSubmit(): void {
+    if (this.forgotForm.invalid || this._isLoading() || this.isRateLimited()) {
+      return;
+    }
+
+    const email: string = this.forgotForm.value.email.trim();
+    this._isLoading.set(true);
+    this._errorMessage.set(null);
+
+    this.authService.requestPasswordReset({ email })
+      .pipe(
+        tap(() => this._sentTo.set(email)),
+        catchError((error: HttpErrorResponse) => {
+          this.handleError(error);
+          return throwError(() => error);
+        }),
+        finalize(() => this._isLoading.set(false))
+      )
+      .subscribe();
+  }
+
+  /**
+   * Vuelve al formulario para pedir otro enlace
+   */
+  sendAgain(): void {
+    this._sentTo.set(null);
+  }
+
+  /**
+   * Navega a la página de login
+   */
+  goToLogin(): void {
+    this.router.navigate(['/auth/login']);
+  }
+
+  // MÉTODOS PRIVADOS
+
+  /**
+   * Muestra el error del servidor; con un 429 bloquea el envío hasta que pase Retry-After
+   */
+  private handleError(error: HttpErrorResponse): void {
+    const apiError = parseApiError(error);
+
+    if (apiError.code === 'TOO_MANY_REQUESTS') {
+      this._sentTo.set(null);
+      this.retryCountdown.start(apiError.retryAfter ?? 60);
+      this._errorMessage.set(getApiErrorMessage(apiError.code));
+      return;
+    }
+
+    if (!applyServerErrors(this.forgotForm, error)) {
+      this._errorMessage.set(this.errorHandler.getAuthErrorMessage(error));
+    }
+  }
+}
@@ -1,14 +1,23 @@
 // Login component — authentication form and logic
 
-import { Component, effect, inject, signal } from '@angular/core';
+import { Component, computed, effect, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
-import { Router } from '@angular/router';
+import { ActivatedRoute, Router } from '@angular/router';
 import { HttpErrorResponse } from '@angular/common/http';
 import { catchError, finalize, tap, throwError } from 'rxjs';
 import { AuthService } from '../../data-access/auth.service';
+import { SsoService } from '../../data-access/sso.service';
 import { ErrorHandlerService } from '../../../../core/services';
-import { UserLoginRequest } from '../../models';
+import { parseApiError } from '../../../../core/errors';
+import { DEFAULT_RETURN_URL, sanitizeReturnUrl } from '../../../../core/guards/return-url';
+import { TwoFactorChallengeResponse, UserLoginRequest, isTwoFactorChallenge } from '../../models';
+
+/** Código de 6 dígitos de la app de autenticación */
+const TOTP_CODE_PATTERN = /^\d{6}$/;
+
+/** Código de recuperación (XXXX-XXXX, el guion es opcional) */
+const RECOVERY_CODE_PATTERN = /^[A-Za-z0-9]{4}-?[A-Za-z0-9]{4}$/;
 
 @Component({
   selector: 'app-login',
@@ -24,18 +33,27 @@ export class LoginComponent {
   // INYECCIÓN DE DEPENDENCIAS
   private readonly fb = inject(FormBuilder);
   private readonly authService = inject(AuthService);
+  private readonly ssoService = inject(SsoService);
   private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
   private readonly errorHandler = inject(ErrorHandlerService);
 
   // SIGNALS DE ESTADO
   private readonly _isLoading = signal<boolean>(false);
   private readonly _errorMessage = signal<string | null>(null);
   private readonly _showPassword = signal<boolean>(false);
+  /** Reto de 2FA pendiente (segundo paso del login) */
+  private readonly _challenge = signal<TwoFactorChallengeResponse | null>(null);
+  private readonly _useRecoveryCode = signal<boolean>(false);
 
   // SIGNALS COMPUTADOS
   readonly isLoading = this._isLoading.asReadonly();
   readonly errorMessage = this._errorMessage.asReadonly();
   readonly showPassword = this._showPassword.asReadonly();
+  readonly useRecoveryCode = this._useRecoveryCode.asReadonly();
+  readonly awaitingTwoFactor = computed(() => this._challenge() !== null);
+  readonly ssoEnabled = this.ssoService.isEnabled;
+  readonly ssoProviderName = this.ssoService.providerName;
 
   // FORMULARIO REACTIVO
   readonly loginForm: FormGroup = this.fb.group({
@@ -43,6 +61,11 @@ export class LoginComponent {
     password: ['', [Validators.required, Validators.minLength(6)]]
   });
 
+  /** Código de la app (6 dígitos) o de recuperación (XXXX-XXXX) */
+  readonly twoFactorForm: FormGroup = this.fb.group({
+    code: ['', [Validators.required, Validators.pattern(TOTP_CODE_PATTERN)]]
+  });
+
   // GETTERS PARA EL TEMPLATE
   get usernameControl() {
     return this.loginForm.get('username');
@@ -52,8 +75,18 @@ export class LoginComponent {
     return this.loginForm.get('password');
   }
 
+  get codeControl() {
+    return this.twoFactorForm.get('code');
+  }
+
   // CONSTRUCTOR Y EFFECTS
   constructor() {
+    // Un login SSO con 2FA llega desde /auth/sso/callback con el reto ya emitido
+    const challenge = this.router.currentNavigation()?.extras.state?.['twoFactorChallenge'];
+    if (challenge) {
+      this._challenge.set(challenge as TwoFactorChallengeResponse);
+    }
+
     // Effect para limpiar errores cuando el usuario empiece a escribir
     effect(() => {
       const username = this.usernameControl?.value;
@@ -88,8 +121,13 @@ export class LoginComponent {
 
     this.authService.login(credentials)
       .pipe(
-        tap(() => {
-          this.router.navigate(['/dashboard']);
+        tap(response => {
+          if (isTwoFactorChallenge(response)) {
+            this.twoFactorForm.reset();
+            this._challenge.set(response);
+          } else {
+            this.navigateAfterLogin();
+          }
         }),
         catchError((error: HttpErrorResponse) => {
           this._errorMessage.set(this.errorHandler.getAuthErrorMessage(error));
@@ -102,6 +140,110 @@ export class LoginComponent {
       .subscribe();
   }
 
+  /**
+   * Inicia sesión con el IdP corporativo
+   *
+   * Redirige fuera de la aplicación; la vuelta la procesa SsoCallbackComponent.
+   */
+  onSsoLogin(): void {
+    if (this._isLoading()) {
+      return;
+    }
+
+    this._isLoading.set(true);
+    this._errorMessage.set(null);
+
+    const returnUrl = sanitizeReturnUrl(this.route.snapshot.queryParamMap.get('returnUrl'));
+    this.ssoService.startLogin(returnUrl).catch(() => {
+      this._isLoading.set(false);
+      this._errorMessage.set('No se pudo iniciar sesión con tu cuenta corporativa. Inténtalo de nuevo.');
+    });
+  }
+
+  /**
+   * Envía el segundo paso del login (código TOTP o de recuperación)
+   *
+   * Si el reto caduca o se agotan los intentos se vuelve al formulario de credenciales.
+   */
+  onSubmitTwoFactor(): void {
+    const challenge = this._challenge();
+    if (!challenge || this.twoFactorForm.invalid || this._isLoading()) {
+      return;
+    }
+
+    this._isLoading.set(true);
+    this._errorMessage.set(null);
+
+    const code = String(this.twoFactorForm.value.code).trim();
+    this.authService.verifyTwoFactor({
+      challengeToken: challenge.challengeToken,
+      ...(this._useRecoveryCode() ? { recoveryCode: code.toUpperCase() } : { code })
+    })
+      .pipe(
+        tap(() => this.navigateAfterLogin()),
+        catchError((error: HttpErrorResponse) => {
+          if (parseApiError(error).code === 'AUTH_TWO_FACTOR_CHALLENGE_EXPIRED') {
+            this.cancelTwoFactor();
+          }
+          this._errorMessage.set(this.errorHandler.getAuthErrorMessage(error));
+          return throwError(() => error);
+        }),
+        finalize(() => {
+          this._isLoading.set(false);
+        })
+      )
+      .subscribe();
+  }
+
+  /**
+   * Alterna entre el código de la app y un código de recuperación
+   */
+  toggleRecoveryCode(): void {
+    const useRecovery = !this._useRecoveryCode();
+    this._useRecoveryCode.set(useRecovery);
+    this.codeControl?.setValidators([
+      Validators.required,
+      Validators.pattern(useRecovery ? RECOVERY_CODE_PATTERN : TOTP_CODE_PATTERN)
+    ]);
+    this.codeControl?.reset('');
+    this._errorMessage.set(null);
+  }
+
+  /**
+   * Vuelve al formulario de credenciales
+   */
+  cancelTwoFactor(): void {
+    this._challenge.set(null);
+    if (this._useRecoveryCode()) {
+      this.toggleRecoveryCode();
+    }
+    this.loginForm.patchValue({ password: '' });
+  }
+
+  /**
+   * Redirige tras iniciar sesión
+   *
+   * Si la política exige 2FA y la cuenta aún no lo tiene, se va directamente
+   * a la configuración para activarlo.
+   */
+  private navigateAfterLogin(): void {
+    if (this.authService.twoFactorSetupRequired()) {
+      this.router.navigate(['/dashboard/profile']);
+      return;
+    }
+    this.router.navigateByUrl(this.getReturnUrl());
+  }
+
+  /**
+   * Obtiene la ruta a la que volver tras el login
+   * 
+   * Usa el parámetro returnUrl (ruta protegida pedida, 401 o cierre por inactividad)
+   * solo si es una ruta interna; en otro caso vuelve al dashboard.
+   */
+  private getReturnUrl(): string {
+    return sanitizeReturnUrl(this.route.snapshot.queryParamMap.get('returnUrl')) ?? DEFAULT_RETURN_URL;
+  }
+
   /**
    * Alterna la visibilidad de la contraseña
    * 
@@ -122,6 +264,13 @@ export class LoginComponent {
     this.router.navigate(['/auth/register']);
   }
 
+  /**
+   * Navega a la recuperación de contraseña
+   */
+  goToForgotPassword(): void {
+    this.router.navigate(['/auth/forgot-password']);
+  }
+
   /**
    * Navega de vuelta al landing page
    * 
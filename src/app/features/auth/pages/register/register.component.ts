@@ -8,6 +8,7 @@ import { HttpErrorResponse } from '@angular/common/http';
 import { catchError, finalize, tap, throwError } from 'rxjs';
 import { AuthService } from '../../data-access/auth.service';
 import { ErrorHandlerService } from '../../../../core/services';
+import { applyServerErrors } from '../../../../core/errors';
 import { UserRegisterRequest } from '../../models';
 
 @Component({
@@ -79,10 +80,14 @@ export class RegisterComponent {
     this.authService.register(userData as UserRegisterRequest)
       .pipe(
         tap(() => {
-          this.router.navigate(['/auth/login']);
+          // La cuenta queda pendiente de verificar el email
+          this.router.navigate(['/auth/check-email'], { queryParams: { email: userData.email } });
         }),
         catchError((error: HttpErrorResponse) => {
-          this._errorMessage.set(this.errorHandler.getAuthErrorMessage(error));
+          // Los errores por campo se muestran bajo cada input
+          if (!applyServerErrors(this.registerForm, error)) {
+            this._errorMessage.set(this.errorHandler.getAuthErrorMessage(error));
+          }
           return throwError(() => error);
         }),
         finalize(() => {
@@ -0,0 +1,234 @@
+// ResetPassword component — nueva contraseña a partir del enlace recibido por email
+
+import { Component, DestroyRef, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  AbstractControl,
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  ValidationErrors,
+  Validators
+} from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { HttpErrorResponse } from '@angular/common/http';
+import { catchError, finalize, tap, throwError } from 'rxjs';
+import { AuthService } from '../../data-access/auth.service';
+import { ErrorHandlerService, ToastService, createCountdown } from '../../../../core/services';
+import { SERVER_ERROR_KEY, applyServerErrors, getApiErrorMessage, parseApiError } from '../../../../core/errors';
+import { PasswordStrengthComponent } from '@shared/components';
+
+/** Estado del enlace de restablecimiento */
+type ResetTokenState = 'checking' | 'valid' | 'invalid' | 'expired';
+
+/** A partir de aquí se avisa de que el enlace está a punto de caducar (s) */
+const EXPIRY_WARNING_SECONDS = 5 * 60;
+
+@Component({
+  selector: 'app-reset-password',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, PasswordStrengthComponent],
+  templateUrl: './reset-password.component.html',
+  styleUrls: ['../login/login.component.css', '../auth-single-card.css', './reset-password.component.css'],
+  host: {
+    class: 'reset-password-component'
+  }
+})
+export class ResetPasswordComponent {
+  // INYECCIÓN DE DEPENDENCIAS
+  private readonly fb = inject(FormBuilder);
+  private readonly authService = inject(AuthService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly toastService = inject(ToastService);
+  private readonly destroyRef = inject(DestroyRef);
+
+  /** Token del enlace (?token=...) */
+  private readonly token = this.route.snapshot.queryParamMap.get('token');
+
+  // SIGNALS DE ESTADO
+  private readonly _tokenState = signal<ResetTokenState>('checking');
+  private readonly _expiresAt = signal<number | null>(null);
+  private readonly _now = signal<number>(Date.now());
+  private readonly _isLoading = signal<boolean>(false);
+  private readonly _errorMessage = signal<string | null>(null);
+  private readonly _showPassword = signal<boolean>(false);
+  /** Espera para reintentar tras un 429 */
+  private readonly retryCountdown = createCountdown(() => this._errorMessage.set(null));
+
+  // SIGNALS COMPUTADOS
+  readonly tokenState = this._tokenState.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly errorMessage = this._errorMessage.asReadonly();
+  readonly showPassword = this._showPassword.asReadonly();
+  readonly retryIn = this.retryCountdown.remaining;
+  readonly isRateLimited = this.retryCountdown.active;
+
+  /** Segundos de validez que le quedan al enlace */
+  readonly secondsLeft = computed(() => {
+    const expiresAt = this._expiresAt();
+    return expiresAt === null ? null : Math.max(0, Math.ceil((expiresAt - this._now()) / 1000));
+  });
+
+  readonly expiresSoon = computed(() => {
+    const seconds = this.secondsLeft();
+    return seconds !== null && seconds <= EXPIRY_WARNING_SECONDS;
+  });
+
+  private ticker: ReturnType<typeof setInterval> | undefined;
+
+  // FORMULARIO REACTIVO
+  readonly resetForm: FormGroup = this.fb.group({
+    newPassword: ['', [Validators.required, Validators.minLength(6)]],
+    confirmPassword: ['', [Validators.required]]
+  }, { validators: this.passwordMatchValidator });
+
+  readonly serverErrorKey = SERVER_ERROR_KEY;
+
+  // GETTERS PARA EL TEMPLATE
+  get newPasswordControl() {
+    return this.resetForm.get('newPassword');
+  }
+
+  get confirmPasswordControl() {
+    return this.resetForm.get('confirmPassword');
+  }
+
+  constructor() {
+    this.destroyRef.onDestroy(() => clearInterval(this.ticker));
+    this.validateToken();
+  }
+
+  // MÉTODOS PÚBLICOS
+
+  /**
+   * Envía la nueva contraseña y vuelve al login
+   */
+  onSubmit(): void {
+    if (this.resetForm.invalid || this._isLoading() || this.isRateLimited() || !this.token) {
+      return;
+    }
+
+    this._isLoading.set(true);
+    this._errorMessage.set(null);
+
+    this.authService.resetPassword({ token: this.token, newPassword: this.resetForm.value.newPassword })
+      .pipe(
+        tap(() => {
+          this.toastService.success('Contraseña actualizada. Ya puedes iniciar sesión.');
+          this.router.navigate(['/auth/login']);
+        }),
+        catchError((error: HttpErrorResponse) => {
+          this.handleError(error);
+          return throwError(() => error);
+        }),
+        finalize(() => this._isLoading.set(false))
+      )
+      .subscribe();
+  }
+
+  /**
+   * Alterna la visibilidad de la contraseña
+   */
+  togglePasswordVisibility(): void {
+    this._showPassword.update(show => !show);
+  }
+
+  /**
+   * Navega a la solicitud de un enlace nuevo
+   */
+  goToForgotPassword(): void {
+    this.router.navigate(['/auth/forgot-password']);
+  }
+
+  /**
+   * Navega a la página de login
+   */
+  goToLogin(): void {
+    this.router.navigate(['/auth/login']);
+  }
+
+  // MÉTODOS PRIVADOS
+
+  /**
+   * Comprueba el enlace antes de mostrar el formulario
+   */
+  private validateToken(): void {
+    if (!this.token) {
+      this._tokenState.set('invalid');
+      return;
+    }
+
+    this.authService.validateResetToken(this.token).subscribe({
+      next: status => {
+        if (!status.valid) {
+          this._tokenState.set('invalid');
+          return;
+        }
+        this._expiresAt.set(new Date(status.expiresAt).getTime());
+        this._tokenState.set('valid');
+        this.startTicker();
+      },
+      error: (error: HttpErrorResponse) => {
+        this._tokenState.set(parseApiError(error).code === 'AUTH_RESET_TOKEN_EXPIRED' ? 'expired' : 'invalid');
+      }
+    });
+  }
+
+  /**
+   * Errores al enviar: enlace caducado o usado, límite de intentos o validación
+   */
+  private handleError(error: HttpErrorResponse): void {
+    const apiError = parseApiError(error);
+
+    switch (apiError.code) {
+      case 'AUTH_RESET_TOKEN_EXPIRED':
+        this.expire();
+        return;
+      case 'AUTH_RESET_TOKEN_INVALID':
+        clearInterval(this.ticker);
+        this._tokenState.set('invalid');
+        return;
+      case 'TOO_MANY_REQUESTS':
+        this.retryCountdown.start(apiError.retryAfter ?? 60);
+        this._errorMessage.set(getApiErrorMessage(apiError.code));
+        return;
+    }
+
+    if (!applyServerErrors(this.resetForm, error)) {
+      this._errorMessage.set(this.errorHandler.getAuthErrorMessage(error));
+    }
+  }
+
+  /**
+   * Reloj de la cuenta atrás del enlace
+   */
+  private startTicker(): void {
+    clearInterval(this.ticker);
+    this.ticker = setInterval(() => {
+      this._now.set(Date.now());
+      if (this.secondsLeft() === 0) {
+        this.expire();
+      }
+    }, 1000);
+  }
+
+  private expire(): void {
+    clearInterval(this.ticker);
+    this._tokenState.set('expired');
+  }
+
+  /**
+   * Validador personalizado para confirmar que las contraseñas coinciden
+   */
+  private passwordMatchValidator(form: AbstractControl): ValidationErrors | null {
+    const password = form.get('newPassword');
+    const confirmPassword = form.get('confirmPassword');
+
+    if (password && confirmPassword && confirmPassword.value && password.value !== confirmPassword.value) {
+      return { passwordMismatch: true };
+    }
+    return null;
+  }
+}
@@ -0,0 +1,164 @@
+// SsoCallback component — vuelta del IdP corporativo: canje del código y vinculación de cuentas
+
+import { Component, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { HttpErrorResponse } from '@angular/common/http';
+import { finalize } from 'rxjs';
+import { AuthService } from '../../data-access/auth.service';
+import { PendingSsoLogin, SsoService } from '../../data-access/sso.service';
+import { ErrorHandlerService } from '../../../../core/services';
+import { parseApiError } from '../../../../core/errors';
+import { DEFAULT_RETURN_URL } from '../../../../core/guards/return-url';
+import { SsoLinkRequiredResponse, SsoLoginResponse, isSsoLinkRequired, isTwoFactorChallenge } from '../../models';
+
+/** Paso de la vuelta del IdP */
+type SsoCallbackState = 'exchanging' | 'link' | 'error';
+
+@Component({
+  selector: 'app-sso-callback',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './sso-callback.component.html',
+  styleUrls: ['../login/login.component.css', '../auth-single-card.css'],
+  host: {
+    class: 'sso-callback-component'
+  }
+})
+export class SsoCallbackComponent {
+  // INYECCIÓN DE DEPENDENCIAS
+  private readonly fb = inject(FormBuilder);
+  private readonly authService = inject(AuthService);
+  private readonly ssoService = inject(SsoService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly errorHandler = inject(ErrorHandlerService);
+
+  // SIGNALS DE ESTADO
+  private readonly _state = signal<SsoCallbackState>('exchanging');
+  private readonly _errorMessage = signal<string | null>(null);
+  private readonly _link = signal<SsoLinkRequiredResponse | null>(null);
+  private readonly _isLinking = signal<boolean>(false);
+
+  // SIGNALS COMPUTADOS
+  readonly state = this._state.asReadonly();
+  readonly errorMessage = this._errorMessage.asReadonly();
+  readonly link = this._link.asReadonly();
+  readonly isLinking = this._isLinking.asReadonly();
+  readonly providerName = this.ssoService.providerName;
+
+  /** Login pendiente recuperado de sessionStorage (returnUrl) */
+  private pending: PendingSsoLogin | null = null;
+
+  // FORMULARIO REACTIVO
+  readonly linkForm: FormGroup = this.fb.group({
+    password: ['', [Validators.required]]
+  });
+
+  get passwordControl() {
+    return this.linkForm.get('password');
+  }
+
+  constructor() {
+    this.exchange();
+  }
+
+  // MÉTODOS PÚBLICOS
+
+  /**
+   * Vincula la identidad corporativa a la cuenta existente con su contraseña
+   */
+  onSubmitLink(): void {
+    const link = this._link();
+    if (!link || this.linkForm.invalid || this._isLinking()) {
+      return;
+    }
+
+    this._isLinking.set(true);
+    this._errorMessage.set(null);
+
+    this.authService.linkSsoAccount({ linkToken: link.linkToken, password: this.linkForm.value.password })
+      .pipe(finalize(() => this._isLinking.set(false)))
+      .subscribe({
+        next: response => this.handleResponse(response),
+        error: (error: HttpErrorResponse) => {
+          if (parseApiError(error).code === 'AUTH_SSO_LINK_EXPIRED') {
+            this._state.set('error');
+          }
+          this._errorMessage.set(this.errorHandler.getAuthErrorMessage(error));
+        }
+      });
+  }
+
+  /**
+   * Vuelve al formulario de login
+   */
+  goToLogin(): void {
+    this.router.navigate(['/auth/login']);
+  }
+
+  // MÉTODOS PRIVADOS
+
+  /**
+   * Comprueba el `state` de la URL y canjea el código de autorización
+   */
+  private exchange(): void {
+    const params = this.route.snapshot.queryParamMap;
+
+    // El IdP devuelve `error` si el usuario cancela o no tiene acceso a la aplicación
+    if (params.get('error')) {
+      this.fail('Se ha cancelado el inicio de sesión con tu cuenta corporativa.');
+      return;
+    }
+
+    this.pending = this.ssoService.consumePendingLogin(params.get('state'));
+    const code = params.get('code');
+    if (!this.pending || !code) {
+      this.fail('La respuesta del proveedor no corresponde a un inicio de sesión de esta pestaña. Vuelve a intentarlo.');
+      return;
+    }
+
+    this.authService.exchangeSsoCode({
+      code,
+      codeVerifier: this.pending.codeVerifier,
+      redirectUri: this.pending.redirectUri
+    }).subscribe({
+      next: response => this.handleResponse(response),
+      error: (error: HttpErrorResponse) => this.fail(this.errorHandler.getAuthErrorMessage(error))
+    });
+  }
+
+  /**
+   * Sesión iniciada → redirección; 2FA → segundo paso en el login; cuenta existente → vinculación
+   */
+  private handleResponse(response: SsoLoginResponse): void {
+    const returnUrl = this.pending?.returnUrl ?? null;
+
+    if (isSsoLinkRequired(response)) {
+      this.linkForm.reset();
+      this._link.set(response);
+      this._state.set('link');
+      return;
+    }
+
+    if (isTwoFactorChallenge(response)) {
+      this.router.navigate(['/auth/login'], {
+        queryParams: returnUrl ? { returnUrl } : {},
+        state: { twoFactorChallenge: response }
+      });
+      return;
+    }
+
+    if (this.authService.twoFactorSetupRequired()) {
+      this.router.navigate(['/dashboard/profile']);
+      return;
+    }
+    this.router.navigateByUrl(returnUrl ?? DEFAULT_RETURN_URL);
+  }
+
+  private fail(message: string): void {
+    this._errorMessage.set(message);
+    this._state.set('error');
+  }
+}
@@ -0,0 +1,83 @@
+// VerifyEmail component — confirma el email con el token del enlace
+
+import { Component, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
+import { HttpErrorResponse } from '@angular/common/http';
+import { AuthService } from '../../data-access/auth.service';
+import { createVerificationResend } from '../../data-access/verification-resend';
+import { parseApiError } from '../../../../core/errors';
+import { DEFAULT_RETURN_URL } from '../../../../core/guards/return-url';
+
+/** Resultado de la verificación */
+type VerificationState = 'verifying' | 'verified' | 'invalid' | 'expired';
+
+@Component({
+  selector: 'app-verify-email',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './verify-email.component.html',
+  styleUrls: ['../login/login.component.css', '../auth-single-card.css'],
+  host: {
+    class: 'verify-email-component'
+  }
+})
+export class VerifyEmailComponent {
+  // INYECCIÓN DE DEPENDENCIAS
+  private readonly authService = inject(AuthService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+
+  // SIGNALS DE ESTADO
+  private readonly _state = signal<VerificationState>('verifying');
+
+  // SIGNALS COMPUTADOS
+  readonly state = this._state.asReadonly();
+  readonly isAuthenticated = this.authService.isAuthenticated;
+  /** Con sesión iniciada el enlace nuevo se pide aquí mismo para el email de la cuenta */
+  readonly sessionEmail = computed(() => this.authService.currentUser()?.email ?? null);
+
+  /** Reenvío del email de verificación */
+  readonly resend = createVerificationResend();
+
+  constructor() {
+    this.verify(this.route.snapshot.queryParamMap.get('token'));
+  }
+
+  // MÉTODOS PÚBLICOS
+
+  /**
+   * Pide un enlace nuevo: con sesión, para la cuenta actual; sin sesión, desde la página de reenvío
+   */
+  requestNewLink(): void {
+    const email = this.sessionEmail();
+    if (email) {
+      this.resend.resend(email);
+    } else {
+      this.router.navigate(['/auth/check-email']);
+    }
+  }
+
+  /**
+   * Continúa al dashboard con sesión o al login sin ella
+   */
+  continue(): void {
+    this.router.navigateByUrl(this.isAuthenticated() ? DEFAULT_RETURN_URL : '/auth/login');
+  }
+
+  // MÉTODOS PRIVADOS
+
+  private verify(token: string | null): void {
+    if (!token) {
+      this._state.set('invalid');
+      return;
+    }
+
+    this.authService.verifyEmail({ token }).subscribe({
+      next: () => this._state.set('verified'),
+      error: (error: HttpErrorResponse) => {
+        this._state.set(parseApiError(error).code === 'AUTH_VERIFICATION_TOKEN_EXPIRED' ? 'expired' : 'invalid');
+      }
+    });
+  }
+}
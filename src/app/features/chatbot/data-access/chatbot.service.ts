@@ -1,8 +1,8 @@
 import { Injectable, signal, inject } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { Observable, catchError, throwError, tap } from 'rxjs';
-import { environment } from 'src/environments/environment';
 import { ChatBotMessageResponse } from './chatbot-message-response.interface';
+import { APP_CONFIG } from '../../../core/config';
 
 /**
  * Solicitud de mensaje para el chatbot.
@@ -36,7 +36,7 @@ export interface UserMessageTemp {
 })
 export class ChatBotService {
 
-  private readonly API_URL = `${environment.apiUrl}/chatbot`;
+  private readonly API_URL = `${inject(APP_CONFIG).apiUrl}/chatbot`;
 
   // Signals para el estado UI del chatbot
   private readonly _isOpen = signal<boolean>(false);
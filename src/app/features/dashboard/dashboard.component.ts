@@ -1,10 +1,12 @@
 /** Dashboard: layout principal — header, sidebar y contenido. */
 
-import { Component } from '@angular/core';
+import { Component, OnDestroy, OnInit, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterOutlet } from '@angular/router';
 import { HeaderComponent } from '@shared/components';
 import { SidebarComponent } from '@shared/components';
+import { EmailVerificationBannerComponent } from '@shared/components';
+import { SessionTimeoutService } from '@core/services';
 
 @Component({
   selector: 'app-dashboard',
@@ -13,11 +15,22 @@ import { SidebarComponent } from '@shared/components';
     CommonModule,
     RouterOutlet,
     HeaderComponent,
-    SidebarComponent
+    SidebarComponent,
+    EmailVerificationBannerComponent
   ],
   templateUrl: './dashboard.component.html',
   styleUrls: ['./dashboard.component.css']
 })
-export class DashboardComponent {
+export class DashboardComponent implements OnInit, OnDestroy {
   /** Layout del dashboard; la lógica vive en los hijos. */
+  private readonly sessionTimeout = inject(SessionTimeoutService);
+
+  /** Vigila la inactividad mientras el usuario está dentro del dashboard */
+  ngOnInit(): void {
+    this.sessionTimeout.start();
+  }
+
+  ngOnDestroy(): void {
+    this.sessionTimeout.stop();
+  }
 }
@@ -1,7 +1,7 @@
 /** Dashboard routes: navegación interna y lazy loading. */
 
 import { Routes } from '@angular/router';
-import { authGuard, adminGuard } from '../../core/guards';
+import { authGuard, featureGuard, permissionGuard, twoFactorSetupGuard } from '../../core/guards';
 
 export const DASHBOARD_ROUTES: Routes = [
 
@@ -30,6 +30,7 @@ export const DASHBOARD_ROUTES: Routes = [
         path: 'followers',
         loadComponent: () => import('../user/ui/followers/followers.component').then(m => m.FollowersComponent),
         title: 'Seguidores - MindHub',
+        canMatch: [featureGuard('followers')],
         canActivate: [authGuard]
       },
       {
@@ -51,13 +52,13 @@ export const DASHBOARD_ROUTES: Routes = [
         path: 'admin/users',
         loadComponent: () => import('../admin/pages/user-management/user-management.component').then(m => m.UserManagementComponent),
         title: 'Gestión de Usuarios - MindHub',
-        canActivate: [adminGuard]
+        canActivate: [permissionGuard('users.manage'), twoFactorSetupGuard]
       },
       {
         path: 'admin/content',
         loadComponent: () => import('../admin/pages/content-management/report-management.component').then(m => m.ContentManagementComponent),
         title: 'Gestión de Contenido - MindHub',
-        canActivate: [adminGuard]
+        canActivate: [permissionGuard('reports.view'), twoFactorSetupGuard]
       }
     ]
   }
@@ -3,6 +3,7 @@
 import { Component, computed, inject, OnInit, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { AdminService } from '../../../admin/data-access/admin.service';
+import { ReportService, ReportStatistics } from '../../../admin/data-access/report.service';
 import { AuthService } from '../../../auth';
 import { FollowService } from '../../../user/data-access/follow.service';
 import { NotificationService } from '../../../notification/data-access/notification.service';
@@ -82,6 +83,7 @@ export class HomeComponent implements OnInit {
   private readonly followService = inject(FollowService);
   private readonly notificationService = inject(NotificationService);
   private readonly adminService = inject(AdminService);
+  private readonly reportService = inject(ReportService);
 
   // SIGNAL DE ESTADO CONSOLIDADO
   private readonly _state = signal<{
@@ -91,6 +93,7 @@ export class HomeComponent implements OnInit {
     error: string | null;
     userStats: UserStats;
     adminStats: AdminStats;
+    moderationStats: ReportStatistics | null;
     recentActivity: ActivityItem[];
     currentPage: number;
     totalPages: number;
@@ -115,6 +118,7 @@ export class HomeComponent implements OnInit {
       reportesRechazados: 0,
       reportesResueltos: 0
     },
+    moderationStats: null,
     recentActivity: [],
     currentPage: 0,
     totalPages: 0,
@@ -138,10 +142,10 @@ export class HomeComponent implements OnInit {
   // VALORES COMPUTADOS
   readonly currentUser = computed(() => this.authService.currentUser());
 
-  readonly isAdmin = computed(() => {
-    const user = this.currentUser();
-    return user?.role?.name === 'ADMIN';
-  });
+  readonly isAdmin = computed(() => this.authService.hasPermission('admin.dashboard'));
+
+  /** Moderador: panel de usuario más las métricas de reportes */
+  readonly isModerator = computed(() => !this.isAdmin() && this.authService.hasPermission('reports.view'));
 
   readonly hasNextPage = computed(() => this._state().currentPage < this._state().totalPages - 1);
   readonly hasPreviousPage = computed(() => this._state().currentPage > 0);
@@ -159,10 +163,15 @@ export class HomeComponent implements OnInit {
       ];
     } else {
       const stats = this._state().userStats;
+      const moderation = this._state().moderationStats;
       return [
         { label: 'Posts', value: stats.postsCount, icon: 'edit_note', color: '#3b82f6' },
         { label: 'Seguidores', value: stats.followersCount, icon: 'group_add', color: '#10b981' },
-        { label: 'Likes recibidos', value: stats.likesCount, icon: 'thumb_up', color: '#f59e0b' }
+        { label: 'Likes recibidos', value: stats.likesCount, icon: 'thumb_up', color: '#f59e0b' },
+        ...(moderation ? [
+          { label: 'Reportes Pendientes', value: moderation.reportesPendientes, icon: 'flag', color: 'var(--emerald-800)' },
+          { label: 'Reportes Resueltos', value: moderation.reportesResueltos, icon: 'task_alt', color: 'var(--emerald-500)' }
+        ] : [])
       ];
     }
   });
@@ -178,7 +187,7 @@ export class HomeComponent implements OnInit {
     const user = this.currentUser();
 
     // Si es admin y no tiene imagen, usar avatar de admin
-    if (user?.role?.name === 'ADMIN' && (!user.profilePicture || user.profilePicture === '/assets/default-avatar.png')) {
+    if (this.isAdmin() && (!user?.profilePicture || user.profilePicture === '/assets/default-avatar.png')) {
       return '/admin-avatar.png';
     }
 
@@ -284,7 +293,7 @@ export class HomeComponent implements OnInit {
       return;
     }
 
-    if (currentUser.role?.name === 'ADMIN') {
+    if (this.isAdmin()) {
       this.loadAdminData();
     } else {
       this.loadUserData(currentUser.id);
@@ -333,7 +342,10 @@ export class HomeComponent implements OnInit {
       ),
       notifications: this.notificationService.getMyNotifications({ page: currentPage, size: pageSize }).pipe(
         catchError(() => of({ content: [], totalElements: 0, totalPages: 0 }))
-      )
+      ),
+      moderationStats: this.isModerator()
+        ? this.reportService.getReportsStatistics().pipe(catchError(() => of(null)))
+        : of(null)
     }).pipe(
       finalize(() => this._state.update(state => ({ ...state, isLoading: false })))
     ).subscribe({
@@ -345,6 +357,7 @@ export class HomeComponent implements OnInit {
             followersCount: data.followers.totalElements,
             likesCount: this.calculateTotalLikes(data.userPosts.content)
           },
+          moderationStats: data.moderationStats,
           recentActivity: this.formatRecentActivity(data.notifications.content),
           totalPages: data.notifications.totalPages,
           totalElements: data.notifications.totalElements
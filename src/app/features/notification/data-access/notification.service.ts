@@ -1,11 +1,12 @@
 import { Injectable, signal, computed } from '@angular/core';
-import { HttpParams } from '@angular/common/http';
+import { HttpContext, HttpParams } from '@angular/common/http';
 import { Observable, catchError, throwError, tap } from 'rxjs';
-import { environment } from 'src/environments/environment';
 import { NotificationResponse } from './notification-response.interface';
 import {
   PaginatedResponse,
-  ApiResponse
+  ApiResponse,
+  CursorListParams,
+  CursorPage
 } from '../../../shared/common';
 import { BaseCrudService, BaseListParams } from '../../../core/services';
 
@@ -42,7 +43,7 @@ export class NotificationService extends BaseCrudService<
   NotificationListParams
 > {
 
-  protected readonly API_URL = `${environment.apiUrl}/notifications`;
+  protected readonly API_URL = `${this.apiUrl}/notifications`;
   protected readonly entityName = 'notification';
 
   // Signals adicionales específicos de notificaciones
@@ -96,6 +97,15 @@ export class NotificationService extends BaseCrudService<
     );
   }
 
+  /**
+   * Obtiene las notificaciones del usuario autenticado por cursor.
+   * @param params - Cursor y tamaño
+   * @returns Observable con la página y el cursor de la siguiente
+   */
+  getMyNotificationsPage(params: CursorListParams = {}): Observable<CursorPage<NotificationResponse>> {
+    return this.fetchCursorPage(this.API_URL, params);
+  }
+
   /**
    * Obtiene las notificaciones no leídas del usuario autenticado.
    * @param params - Parámetros de paginación
@@ -140,10 +150,11 @@ export class NotificationService extends BaseCrudService<
   /**
    * Marca una notificación específica como leída.
    * @param id - ID de la notificación
+   * @param context - Contexto HTTP opcional
    * @returns Observable con la confirmación de la acción
    */
-  markAsRead(id: number): Observable<NotificationApiResponse> {
-    return this.http.put<NotificationApiResponse>(`${this.API_URL}/${id}/read`, {})
+  markAsRead(id: number, context?: HttpContext): Observable<NotificationApiResponse> {
+    return this.http.put<NotificationApiResponse>(`${this.API_URL}/${id}/read`, {}, { context })
       .pipe(
         tap(() => {
           // Actualizar el estado local
@@ -5,7 +5,7 @@ import { CommonModule } from '@angular/common';
 import { MatIconModule } from '@angular/material/icon';
 import { Subject } from 'rxjs';
 import { AuthService } from '../auth';
-import { ErrorHandlerService } from '../../core/services';
+import { ErrorHandlerService, OptimisticUpdateService } from '../../core/services';
 import { NotificationService } from './data-access/notification.service';
 import { NotificationResponse } from './data-access/notification-response.interface';
 import { DateFormatPipe } from '@shared/pipes';
@@ -55,6 +55,9 @@ export class NotificationsComponent implements OnDestroy {
   /** Servicio de manejo de errores */
   private readonly errorHandler = inject(ErrorHandlerService);
 
+  /** Mutaciones optimistas con rollback */
+  private readonly optimisticUpdate = inject(OptimisticUpdateService);
+
   /** Injector para contexto de inyección */
   private readonly injector = inject(Injector);
 
@@ -137,13 +140,35 @@ export class NotificationsComponent implements OnDestroy {
    * @param id - ID de la notificación a marcar como leída
    */
   markAsRead(id: number): void {
-    this.notificationService.markAsRead(id).subscribe({
-      next: () => {
-        this.loadNotifications();
-        this.closed.emit();
+    const index = this._state().notifications.findIndex(n => n.id === id);
+    if (index < 0) return;
+
+    const notification = this._state().notifications[index];
+
+    this.optimisticUpdate.execute({
+      // La notificación desaparece de la lista antes de que responda el servidor
+      apply: () => {
+        this._state.update(s => {
+          const notifications = s.notifications.filter(n => n.id !== id);
+          return { ...s, notifications, unreadCount: notifications.length };
+        });
+        return () => {
+          // Vuelve a su posición original sin deshacer los cambios posteriores de la lista
+          this._state.update(s => {
+            if (s.notifications.some(n => n.id === id)) return s;
+            const notifications = [...s.notifications];
+            notifications.splice(Math.min(index, notifications.length), 0, notification);
+            return { ...s, notifications, unreadCount: notifications.length };
+          });
+        };
       },
-      error: (error) => {
-        // Error manejado silenciosamente
+      request: context => this.notificationService.markAsRead(id, context),
+      reconcile: () => this.loadNotifications(),
+      errorMessage: 'No se pudo marcar la notificación como leída'
+    }).subscribe({
+      next: () => this.closed.emit(),
+      error: () => {
+        // Rollback y toast a cargo de OptimisticUpdateService
       }
     });
   }
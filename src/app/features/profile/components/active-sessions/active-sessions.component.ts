@@ -0,0 +1,180 @@
+// ActiveSessions component — sesiones abiertas por dispositivo e historial de inicios de sesión
+
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { Router } from '@angular/router';
+import { HttpErrorResponse } from '@angular/common/http';
+import { MatIconModule } from '@angular/material/icon';
+import { finalize, forkJoin } from 'rxjs';
+import { AuthService } from '../../../auth';
+import { ActiveSession, DeviceType, LoginAttempt, LoginFailureReason, LoginMethod } from '../../../auth/models';
+import { ErrorHandlerService, ToastService } from '../../../../core/services';
+import { DateFormatPipe } from '@shared/pipes/date-format.pipe';
+
+/** Icono de Material para cada tipo de dispositivo */
+const DEVICE_ICONS: Record<DeviceType, string> = {
+  DESKTOP: 'computer',
+  MOBILE: 'smartphone',
+  TABLET: 'tablet'
+};
+
+const METHOD_LABELS: Record<LoginMethod, string> = {
+  PASSWORD: 'Contraseña',
+  SSO: 'Cuenta corporativa'
+};
+
+const FAILURE_REASON_LABELS: Record<LoginFailureReason, string> = {
+  INVALID_CREDENTIALS: 'Contraseña incorrecta',
+  INVALID_TWO_FACTOR_CODE: 'Código de verificación incorrecto',
+  ACCOUNT_DISABLED: 'Cuenta desactivada'
+};
+
+/**
+ * Sección "Sesiones" del perfil.
+ *
+ * Lista los dispositivos con sesión abierta y permite cerrar uno o todos los
+ * demás (p. ej. un portátil perdido). Debajo, los últimos intentos de inicio
+ * de sesión, incluidos los fallidos, para detectar accesos que no reconoces.
+ */
+@Component({
+  selector: 'app-active-sessions',
+  standalone: true,
+  imports: [MatIconModule, DateFormatPipe],
+  templateUrl: './active-sessions.component.html',
+  styleUrls: ['./active-sessions.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ActiveSessionsComponent {
+  private readonly authService = inject(AuthService);
+  private readonly router = inject(Router);
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly toast = inject(ToastService);
+
+  // ESTADO
+
+  private readonly _sessions = signal<ActiveSession[]>([]);
+  private readonly _loginHistory = signal<LoginAttempt[]>([]);
+  private readonly _isLoading = signal<boolean>(true);
+  /** Sesión que se está cerrando ('others': todas las demás) */
+  private readonly _revoking = signal<string | null>(null);
+  private readonly _confirmingOthers = signal<boolean>(false);
+  private readonly _errorMessage = signal<string | null>(null);
+
+  readonly sessions = this._sessions.asReadonly();
+  readonly loginHistory = this._loginHistory.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly revoking = this._revoking.asReadonly();
+  readonly confirmingOthers = this._confirmingOthers.asReadonly();
+  readonly errorMessage = this._errorMessage.asReadonly();
+
+  readonly otherSessionsCount = computed(() => this._sessions().filter(session => !session.current).length);
+  readonly failedAttemptsCount = computed(() => this._loginHistory().filter(attempt => !attempt.success).length);
+
+  constructor() {
+    this.load();
+  }
+
+  // CARGA
+
+  /**
+   * Pide las sesiones y el historial a la vez
+   */
+  load(): void {
+    this._isLoading.set(true);
+    this._errorMessage.set(null);
+
+    forkJoin({
+      sessions: this.authService.getActiveSessions(),
+      history: this.authService.getLoginHistory()
+    })
+      .pipe(finalize(() => this._isLoading.set(false)))
+      .subscribe({
+        next: ({ sessions, history }) => {
+          this._sessions.set(sessions);
+          this._loginHistory.set(history);
+        },
+        error: (error: HttpErrorResponse) => this._errorMessage.set(this.errorHandler.getAuthErrorMessage(error))
+      });
+  }
+
+  // CIERRE DE SESIONES
+
+  /**
+   * Cierra la sesión de un dispositivo. Si es la actual, se sale de la aplicación.
+   */
+  revokeSession(session: ActiveSession): void {
+    if (this._revoking()) {
+      return;
+    }
+
+    this._revoking.set(session.id);
+    this._errorMessage.set(null);
+
+    this.authService.revokeSession(session.id)
+      .pipe(finalize(() => this._revoking.set(null)))
+      .subscribe({
+        next: () => {
+          if (session.current) {
+            this.authService.logout();
+            this.router.navigate(['/auth/login']);
+            return;
+          }
+          this._sessions.update(sessions => sessions.filter(s => s.id !== session.id));
+          this.toast.success(`Sesión cerrada en ${this.describeDevice(session)}`);
+        },
+        error: (error: HttpErrorResponse) => this._errorMessage.set(this.errorHandler.getAuthErrorMessage(error))
+      });
+  }
+
+  /**
+   * Pide confirmación antes de cerrar el resto de sesiones
+   */
+  requestRevokeOthers(): void {
+    this._errorMessage.set(null);
+    this._confirmingOthers.set(true);
+  }
+
+  cancelRevokeOthers(): void {
+    this._confirmingOthers.set(false);
+  }
+
+  /**
+   * Cierra todas las sesiones salvo la de este dispositivo
+   */
+  revokeOtherSessions(): void {
+    if (this._revoking()) {
+      return;
+    }
+
+    this._revoking.set('others');
+    this._errorMessage.set(null);
+
+    this.authService.revokeOtherSessions()
+      .pipe(finalize(() => this._revoking.set(null)))
+      .subscribe({
+        next: () => {
+          this._confirmingOthers.set(false);
+          this._sessions.update(sessions => sessions.filter(s => s.current));
+          this.toast.success('Se ha cerrado la sesión en el resto de dispositivos');
+        },
+        error: (error: HttpErrorResponse) => this._errorMessage.set(this.errorHandler.getAuthErrorMessage(error))
+      });
+  }
+
+  // TEXTOS PARA EL TEMPLATE
+
+  deviceIcon(deviceType: DeviceType): string {
+    return DEVICE_ICONS[deviceType] ?? DEVICE_ICONS.DESKTOP;
+  }
+
+  describeDevice(device: Pick<ActiveSession, 'browser' | 'os'>): string {
+    return `${device.browser} en ${device.os}`;
+  }
+
+  methodLabel(method: LoginMethod): string {
+    return METHOD_LABELS[method] ?? method;
+  }
+
+  failureLabel(attempt: LoginAttempt): string {
+    return attempt.failureReason ? FAILURE_REASON_LABELS[attempt.failureReason] : 'Inicio de sesión fallido';
+  }
+}
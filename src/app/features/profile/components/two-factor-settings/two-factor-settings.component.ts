@@ -0,0 +1,215 @@
+// TwoFactorSettings component — alta, códigos de recuperación y baja de la verificación en dos pasos
+
+import { ChangeDetectionStrategy, Component, computed, inject, signal } from '@angular/core';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { HttpErrorResponse } from '@angular/common/http';
+import { MatIconModule } from '@angular/material/icon';
+import { finalize } from 'rxjs';
+import { AuthService } from '../../../auth';
+import { TwoFactorSetupResponse } from '../../../auth/models';
+import { ErrorHandlerService, ToastService } from '../../../../core/services';
+import { applyServerErrors, getServerError } from '../../../../core/errors';
+import { QrCodeComponent } from '@shared/components';
+
+/** Paso del flujo que se está mostrando */
+type TwoFactorStep = 'overview' | 'setup' | 'recovery-codes';
+
+/** Acción sobre un 2FA activo que se confirma con un código */
+type TwoFactorAction = 'disable' | 'regenerate';
+
+/**
+ * Sección "Seguridad" del perfil.
+ *
+ * Alta: se genera un secreto, se muestra como QR (y en texto para escribirlo a mano)
+ * y se confirma con el primer código de la app. Los códigos de recuperación solo
+ * se ven justo después de generarlos.
+ */
+@Component({
+  selector: 'app-two-factor-settings',
+  standalone: true,
+  imports: [ReactiveFormsModule, MatIconModule, QrCodeComponent],
+  templateUrl: './two-factor-settings.component.html',
+  styleUrls: ['./two-factor-settings.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class TwoFactorSettingsComponent {
+  private readonly fb = inject(FormBuilder);
+  private readonly authService = inject(AuthService);
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly toast = inject(ToastService);
+
+  // ESTADO
+
+  private readonly _step = signal<TwoFactorStep>('overview');
+  private readonly _setup = signal<TwoFactorSetupResponse | null>(null);
+  private readonly _recoveryCodes = signal<string[]>([]);
+  private readonly _pendingAction = signal<TwoFactorAction | null>(null);
+  private readonly _isSubmitting = signal<boolean>(false);
+  private readonly _errorMessage = signal<string | null>(null);
+
+  readonly step = this._step.asReadonly();
+  readonly setup = this._setup.asReadonly();
+  readonly recoveryCodes = this._recoveryCodes.asReadonly();
+  readonly pendingAction = this._pendingAction.asReadonly();
+  readonly isSubmitting = this._isSubmitting.asReadonly();
+  readonly errorMessage = this._errorMessage.asReadonly();
+
+  readonly isEnabled = computed(() => !!this.authService.currentUser()?.twoFactorEnabled);
+  /** La política de seguridad exige 2FA a la cuenta: no se puede desactivar */
+  readonly isRequired = computed(() => !!this.authService.currentUser()?.twoFactorRequired);
+
+  /** Secreto en grupos de 4 para copiarlo a mano */
+  readonly formattedSecret = computed(() => this._setup()?.secret.match(/.{1,4}/g)?.join(' ') ?? '');
+
+  // FORMULARIO
+
+  /** Código de la app; al desactivar también se admite uno de recuperación */
+  readonly codeForm = this.fb.nonNullable.group({
+    code: ['', [Validators.required, Validators.pattern(/^(\d{6}|[A-Za-z0-9]{4}-?[A-Za-z0-9]{4})$/)]]
+  });
+
+  get codeControl() {
+    return this.codeForm.controls.code;
+  }
+
+  get codeServerError(): string | null {
+    return getServerError(this.codeControl);
+  }
+
+  // ALTA
+
+  /**
+   * Pide un secreto nuevo y muestra el QR
+   */
+  startSetup(): void {
+    this._isSubmitting.set(true);
+    this._errorMessage.set(null);
+
+    this.authService.startTwoFactorSetup()
+      .pipe(finalize(() => this._isSubmitting.set(false)))
+      .subscribe({
+        next: setup => {
+          this._setup.set(setup);
+          this.codeForm.reset();
+          this._step.set('setup');
+        },
+        error: (error: HttpErrorResponse) => this._errorMessage.set(this.errorHandler.getAuthErrorMessage(error))
+      });
+  }
+
+  /**
+   * Confirma el alta con el primer código de la app
+   */
+  confirmSetup(): void {
+    if (this.codeForm.invalid || this._isSubmitting()) {
+      this.codeForm.markAllAsTouched();
+      return;
+    }
+
+    this._isSubmitting.set(true);
+    this._errorMessage.set(null);
+
+    this.authService.enableTwoFactor({ code: this.codeControl.value.trim() })
+      .pipe(finalize(() => this._isSubmitting.set(false)))
+      .subscribe({
+        next: response => {
+          this._setup.set(null);
+          this.showRecoveryCodes(response.recoveryCodes);
+          this.toast.success('Verificación en dos pasos activada');
+        },
+        error: (error: HttpErrorResponse) => this.handleError(error)
+      });
+  }
+
+  // ACCIONES SOBRE EL 2FA ACTIVO
+
+  /**
+   * Pide el código que confirma la acción
+   */
+  requestAction(action: TwoFactorAction): void {
+    this.codeForm.reset();
+    this._errorMessage.set(null);
+    this._pendingAction.set(action);
+  }
+
+  /**
+   * Ejecuta la acción pendiente con el código introducido
+   */
+  confirmAction(): void {
+    const action = this._pendingAction();
+    if (!action || this.codeForm.invalid || this._isSubmitting()) {
+      this.codeForm.markAllAsTouched();
+      return;
+    }
+
+    this._isSubmitting.set(true);
+    this._errorMessage.set(null);
+    const request = { code: this.codeControl.value.trim() };
+
+    if (action === 'disable') {
+      this.authService.disableTwoFactor(request)
+        .pipe(finalize(() => this._isSubmitting.set(false)))
+        .subscribe({
+          next: () => {
+            this._pendingAction.set(null);
+            this.toast.success('Verificación en dos pasos desactivada');
+          },
+          error: (error: HttpErrorResponse) => this.handleError(error)
+        });
+      return;
+    }
+
+    this.authService.regenerateRecoveryCodes(request)
+      .pipe(finalize(() => this._isSubmitting.set(false)))
+      .subscribe({
+        next: response => {
+          this._pendingAction.set(null);
+          this.showRecoveryCodes(response.recoveryCodes);
+        },
+        error: (error: HttpErrorResponse) => this.handleError(error)
+      });
+  }
+
+  /**
+   * Vuelve al resumen sin guardar nada
+   */
+  cancel(): void {
+    this._setup.set(null);
+    this._pendingAction.set(null);
+    this._errorMessage.set(null);
+    this._step.set('overview');
+  }
+
+  // CÓDIGOS DE RECUPERACIÓN
+
+  /**
+   * Copia los códigos al portapapeles
+   */
+  copyRecoveryCodes(): void {
+    navigator.clipboard.writeText(this._recoveryCodes().join('\n')).then(
+      () => this.toast.success('Códigos copiados'),
+      () => this.toast.error('No se pudieron copiar los códigos')
+    );
+  }
+
+  /**
+   * Oculta los códigos (no se pueden volver a consultar)
+   */
+  finishRecoveryCodes(): void {
+    this._recoveryCodes.set([]);
+    this._step.set('overview');
+  }
+
+  // MÉTODOS PRIVADOS
+
+  private showRecoveryCodes(codes: string[]): void {
+    this._recoveryCodes.set(codes);
+    this._step.set('recovery-codes');
+  }
+
+  private handleError(error: HttpErrorResponse): void {
+    if (!applyServerErrors(this.codeForm, error)) {
+      this._errorMessage.set(this.errorHandler.getAuthErrorMessage(error));
+    }
+  }
+}
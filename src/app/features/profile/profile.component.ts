@@ -8,12 +8,15 @@ import { MatIconModule } from '@angular/material/icon';
 import { AuthService } from '../auth';
 import { UserService } from '../user/data-access/user.service';
 import { ErrorHandlerService } from '../../core/services';
+import { applyServerErrors } from '../../core/errors';
 import { HeaderComponent } from '@shared/components';
 import { SidebarComponent } from '@shared/components';
 import { FooterComponent } from '@shared/components';
 import { DateFormatPipe } from '@shared/pipes/date-format.pipe';
+import { TwoFactorSettingsComponent } from './components/two-factor-settings/two-factor-settings.component';
+import { ActiveSessionsComponent } from './components/active-sessions/active-sessions.component';
 import { catchError, finalize, tap, throwError, switchMap, EMPTY } from 'rxjs';
-import { User } from '../user/models';
+import { RoleName, User } from '../user/models';
 
 // INTERFACES
 
@@ -79,7 +82,9 @@ type ProfileField = {
     SidebarComponent,
     FooterComponent,
     MatIconModule,
-    DateFormatPipe
+    DateFormatPipe,
+    TwoFactorSettingsComponent,
+    ActiveSessionsComponent
   ],
   templateUrl: './profile.component.html',
   styleUrls: ['./profile.component.css']
@@ -116,7 +121,7 @@ export class ProfileComponent {
   readonly userProfile = computed(() => this._state().userProfile);
   readonly showDeleteConfirm = computed(() => this._state().showDeleteConfirm);
   readonly currentUser = computed(() => this._state().currentUser);
-  readonly isAdmin = computed(() => this._state().currentUser?.role?.name === 'ADMIN');
+  readonly isAdmin = computed(() => this.authService.hasPermission('admin.dashboard'));
 
   // Signals de configuración
 
@@ -344,8 +349,7 @@ export class ProfileComponent {
       .subscribe({
         next: () => {
           // Eliminación exitosa: limpiar sesión y redirigir inmediatamente
-          localStorage.removeItem('token');
-          localStorage.removeItem('user');
+          this.authService.logout();
           // Redirigir usando replace para evitar que quede en el historial
           window.location.replace('/');
         },
@@ -498,8 +502,8 @@ export class ProfileComponent {
       company: formData.company
     };
 
-    // Si el usuario es admin, usar el endpoint de admin que permite modificar username
-    if (currentUser.role?.name === 'ADMIN') {
+    // Si el usuario puede cambiar su username, usar el endpoint de admin que lo permite
+    if (this.authService.hasPermission('users.changeUsername')) {
       const adminUpdateData = {
         username: formData.username,
         firstName: formData.firstName,
@@ -510,7 +514,7 @@ export class ProfileComponent {
         address: formData.address || undefined,
         biography: formData.biography || undefined,
         privacyType: formData.privacyType as any,
-        roleName: currentUser.role.name
+        roleName: currentUser.role.name as RoleName
       };
 
       this.userService.updateUserAsAdmin(currentUser.id, adminUpdateData)
@@ -525,7 +529,7 @@ export class ProfileComponent {
             this.loadUserProfile();
           }),
           catchError((error) => {
-            this.handleError('Error al actualizar el perfil. Por favor intenta de nuevo.');
+            this.handleSaveError(error, 'Error al actualizar el perfil. Por favor intenta de nuevo.');
             // No propagamos el error para evitar problemas con la sesión
             return EMPTY;
           }),
@@ -556,7 +560,7 @@ export class ProfileComponent {
             this.loadUserProfile();
           }),
           catchError((error) => {
-            this.handleError('Error al actualizar el perfil');
+            this.handleSaveError(error, 'Error al actualizar el perfil');
             return throwError(() => error);
           }),
           finalize(() => this._state.update(s => ({ ...s, isLoading: false })))
@@ -576,6 +580,24 @@ export class ProfileComponent {
     this._state.update(s => ({ ...s, errorMessage: message, isLoading: false }));
   }
 
+  /**
+   * Maneja el error al guardar el perfil
+   * 
+   * Los errores de validación del backend se muestran bajo su campo;
+   * el resto, con el mensaje general.
+   * 
+   * @param error - Error recibido del backend
+   * @param message - Mensaje general si no hay errores por campo
+   */
+  private handleSaveError(error: unknown, message: string): void {
+    if (applyServerErrors(this.profileForm, error)) {
+      this._state.update(s => ({ ...s, isLoading: false }));
+      return;
+    }
+
+    this.handleError(message);
+  }
+
 
   // Métodos para crear secciones del perfil
 
@@ -587,8 +609,8 @@ export class ProfileComponent {
    * @returns Sección configurada con campos personales
    */
   private createPersonalInfoSection(user: User, profile: User | null): ProfileSection {
-    // Los administradores pueden editar su username
-    const canEditUsername = user.role?.name === 'ADMIN';
+    // Solo quien tiene el permiso puede editar su username
+    const canEditUsername = this.authService.hasPermission('users.changeUsername');
 
     return {
       title: 'Información Personal',
@@ -696,7 +718,7 @@ export class ProfileComponent {
     const user = this.currentUser();
 
     // Si es admin y no tiene imagen, usar avatar de admin
-    if (user?.role?.name === 'ADMIN' && (!user.profilePicture || user.profilePicture === '/assets/default-avatar.png')) {
+    if (this.isAdmin() && (!user?.profilePicture || user.profilePicture === '/assets/default-avatar.png')) {
       return '/admin-avatar.png';
     }
 
@@ -1,13 +1,15 @@
 import { Injectable } from '@angular/core';
-import { HttpParams } from '@angular/common/http';
+import { HttpContext, HttpParams } from '@angular/common/http';
 import { Observable, catchError, throwError } from 'rxjs';
-import { environment } from 'src/environments/environment';
 import { CommentRequest, CommentResponse } from '../models';
 import {
   PaginatedResponse,
   ApiResponse,
+  CursorListParams,
+  CursorPage
 } from '../../../shared/common';
 import { BaseCrudService, BaseListParams } from '../../../core/services';
+import { OUTBOX_TARGET } from '../../../core/interceptors/http-context.tokens';
 
 /**
  * Parámetros para listas de comentarios paginadas.
@@ -34,7 +36,7 @@ export class CommentService extends BaseCrudService<
   CommentListParams
 > {
 
-  protected readonly API_URL = `${environment.apiUrl}/comments`;
+  protected readonly API_URL = `${this.apiUrl}/comments`;
   protected readonly entityName = 'comment';
 
   /**
@@ -46,6 +48,23 @@ export class CommentService extends BaseCrudService<
     return comment.id;
   }
 
+  /**
+   * Crea un comentario. Si no hay red se guarda en el outbox y se envía al reconectar.
+   * @param request - Datos del comentario
+   * @param context - Contexto HTTP opcional
+   * @returns Observable con el comentario creado
+   */
+  override create(request: CommentRequest, context = new HttpContext()): Observable<CommentResponse> {
+    return super.create(request, context.set(OUTBOX_TARGET, { kind: 'comment', postId: request.postId }));
+  }
+
+  /**
+   * Los comentarios cambian el contador de los posts cacheados.
+   */
+  protected override relatedCachePrefixes(): string[] {
+    return [this.API_URL, `${this.apiUrl}/posts`];
+  }
+
   // MÉTODOS ESPECÍFICOS DE COMENTARIOS
 
   // LISTADOS Y BÚSQUEDAS
@@ -67,6 +86,20 @@ export class CommentService extends BaseCrudService<
     );
   }
 
+  /**
+   * Obtiene los comentarios de un post por cursor (para listas con scroll infinito).
+   * @param postId - ID del post
+   * @param params - Cursor, tamaño y ordenamiento
+   * @returns Observable con la página y el cursor de la siguiente
+   */
+  getPostCommentsPage(
+    postId: number,
+    params: CursorListParams & Pick<CommentListParams, 'sort'> = {}
+  ): Observable<CursorPage<CommentResponse>> {
+    const filters = params.sort ? new HttpParams().set('sort', params.sort) : undefined;
+    return this.fetchCursorPage(`${this.API_URL}/post/${postId}`, params, filters);
+  }
+
   // UTILIDADES PRIVADAS
 
   /**
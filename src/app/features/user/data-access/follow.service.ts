@@ -1,7 +1,6 @@
 import { Injectable } from '@angular/core';
-import { HttpParams } from '@angular/common/http';
+import { HttpContext, HttpParams } from '@angular/common/http';
 import { Observable, catchError, throwError } from 'rxjs';
-import { environment } from 'src/environments/environment';
 import {
   FollowRequest,
   FollowResponse,
@@ -9,7 +8,9 @@ import {
 } from '../models';
 import {
   PaginatedResponse,
-  ApiResponse
+  ApiResponse,
+  CursorListParams,
+  CursorPage
 } from '../../../shared/common';
 import { BaseCrudService, BaseListParams } from '../../../core/services';
 
@@ -38,8 +39,9 @@ export class FollowService extends BaseCrudService<
   FollowListParams
 > {
 
-  protected readonly API_URL = `${environment.apiUrl}/follows`;
+  protected readonly API_URL = `${this.apiUrl}/follows`;
   protected readonly entityName = 'follow';
+  protected override readonly cacheEnabled = true;
 
   /**
    * Obtiene el ID de un seguimiento.
@@ -50,24 +52,33 @@ export class FollowService extends BaseCrudService<
     return follow.id;
   }
 
+  /**
+   * Seguir o dejar de seguir cambia el feed y los contadores de los perfiles.
+   */
+  protected override relatedCachePrefixes(): string[] {
+    return [this.API_URL, `${this.apiUrl}/posts`, `${this.apiUrl}/users`];
+  }
+
   // ACCIONES DE SEGUIMIENTO
 
   /**
    * Seguir a un usuario específico.
    * @param request - Datos del seguimiento a crear
+   * @param context - Contexto HTTP opcional
    * @returns Observable con la relación de seguimiento creada
    */
-  followUser(request: FollowRequest): Observable<FollowResponse> {
-    return this.create(request);
+  followUser(request: FollowRequest, context?: HttpContext): Observable<FollowResponse> {
+    return this.create(request, context);
   }
 
   /**
    * Dejar de seguir a un usuario.
    * @param userId - ID del usuario a dejar de seguir
+   * @param context - Contexto HTTP opcional
    * @returns Observable con la confirmación de la acción
    */
-  unfollowUser(userId: number): Observable<FollowApiResponse> {
-    return this.delete(userId);
+  unfollowUser(userId: number, context?: HttpContext): Observable<FollowApiResponse> {
+    return this.delete(userId, context);
   }
 
   /**
@@ -93,9 +104,9 @@ export class FollowService extends BaseCrudService<
   getFollowers(userId: number, params: FollowListParams = {}): Observable<PaginatedResponse<FollowResponse>> {
     const httpParams = this.buildHttpParams(params);
 
-    return this.http.get<PaginatedResponse<FollowResponse>>(
+    return this.cachedGet<PaginatedResponse<FollowResponse>>(
       `${this.API_URL}/${userId}/followers`,
-      { params: httpParams }
+      httpParams
     ).pipe(
       catchError(error => throwError(() => error))
     );
@@ -111,9 +122,9 @@ export class FollowService extends BaseCrudService<
   getMyFollowers(params: FollowListParams = {}): Observable<PaginatedResponse<FollowResponse>> {
     const httpParams = this.buildHttpParams(params);
 
-    return this.http.get<PaginatedResponse<FollowResponse>>(
+    return this.cachedGet<PaginatedResponse<FollowResponse>>(
       `${this.API_URL}/my-followers`,
-      { params: httpParams }
+      httpParams
     ).pipe(
       catchError(error => throwError(() => error))
     );
@@ -127,14 +138,32 @@ export class FollowService extends BaseCrudService<
   getMyFollowing(params: FollowListParams = {}): Observable<PaginatedResponse<FollowResponse>> {
     const httpParams = this.buildHttpParams(params);
 
-    return this.http.get<PaginatedResponse<FollowResponse>>(
+    return this.cachedGet<PaginatedResponse<FollowResponse>>(
       `${this.API_URL}/my-following`,
-      { params: httpParams }
+      httpParams
     ).pipe(
       catchError(error => throwError(() => error))
     );
   }
 
+  /**
+   * Seguidores del usuario autenticado por cursor (para listas con scroll infinito).
+   * @param params - Cursor y tamaño
+   * @returns Observable con la página y el cursor de la siguiente
+   */
+  getMyFollowersPage(params: CursorListParams = {}): Observable<CursorPage<FollowResponse>> {
+    return this.fetchCursorPage(`${this.API_URL}/my-followers`, params);
+  }
+
+  /**
+   * Usuarios seguidos por el usuario autenticado, por cursor.
+   * @param params - Cursor y tamaño
+   * @returns Observable con la página y el cursor de la siguiente
+   */
+  getMyFollowingPage(params: CursorListParams = {}): Observable<CursorPage<FollowResponse>> {
+    return this.fetchCursorPage(`${this.API_URL}/my-following`, params);
+  }
+
   // UTILIDADES PRIVADAS
 
   /**
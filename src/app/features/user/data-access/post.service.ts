@@ -1,7 +1,6 @@
-import { Injectable, signal, computed } from '@angular/core';
-import { HttpParams } from '@angular/common/http';
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { HttpContext, HttpParams } from '@angular/common/http';
 import { Observable, catchError, throwError, tap } from 'rxjs';
-import { environment } from 'src/environments/environment';
 import {
   PostCreateRequest,
   PostResponse,
@@ -9,9 +8,12 @@ import {
 } from '../models';
 import {
   PaginatedResponse,
-  ApiResponse
+  ApiResponse,
+  CursorListParams,
+  CursorPage
 } from '../../../shared/common';
-import { BaseCrudService, BaseListParams } from '../../../core/services';
+import { BaseCrudService, BaseListParams, EntityStoreService } from '../../../core/services';
+import { OUTBOX_TARGET } from '../../../core/interceptors/http-context.tokens';
 
 /**
  * Parámetros para listas de posts paginadas.
@@ -40,8 +42,11 @@ export class PostService extends BaseCrudService<
   PostListParams
 > {
 
-  protected readonly API_URL = `${environment.apiUrl}/posts`;
+  protected readonly API_URL = `${this.apiUrl}/posts`;
   protected readonly entityName = 'post';
+  protected override readonly cacheEnabled = true;
+
+  private readonly entityStore = inject(EntityStoreService);
 
   /**
    * Obtiene el ID de un post.
@@ -52,6 +57,29 @@ export class PostService extends BaseCrudService<
     return post.id;
   }
 
+  /**
+   * Los posts (y sus autores) se comparten con el resto de vistas a través del almacén.
+   */
+  protected override storeEntities(posts: PostResponse[]): void {
+    this.entityStore.upsertPosts(...posts);
+  }
+
+  /**
+   * Un post eliminado desaparece de todas las vistas.
+   */
+  protected override evictEntity(id: number): void {
+    this.entityStore.removePost(id);
+  }
+
+  /**
+   * Crea un post. Si no hay red se guarda en el outbox y se publica al reconectar.
+   * @param request - Datos del post
+   * @param context - Contexto HTTP opcional (p. ej. para mostrar el error inline)
+   * @returns Observable con el post creado
+   */
+  override create(request: PostCreateRequest, context = new HttpContext()): Observable<PostResponse> {
+    return super.create(request, context.set(OUTBOX_TARGET, { kind: 'post' }));
+  }
 
   // MÉTODOS ESPECÍFICOS DE POSTS
 
@@ -67,11 +95,13 @@ export class PostService extends BaseCrudService<
 
     const httpParams = this.buildHttpParams(params);
 
-    return this.http.get<PaginatedResponse<PostResponse>>(
+    return this.cachedGet<PaginatedResponse<PostResponse>>(
       `${this.API_URL}/feed`,
-      { params: httpParams }
+      httpParams,
+      response => this.storeEntities(response.content)
     ).pipe(
       tap(response => {
+        this.storeEntities(response.content);
         this._items.set(response.content);
         this._isLoading.set(false);
       }),
@@ -82,6 +112,19 @@ export class PostService extends BaseCrudService<
     );
   }
 
+  /**
+   * Obtiene el feed personalizado por cursor: los posts publicados mientras se
+   * hace scroll no desplazan las páginas siguientes (sin duplicados ni saltos).
+   * @param params - Cursor, tamaño y filtro de privacidad
+   * @returns Observable con la página y el cursor de la siguiente
+   */
+  getPersonalFeedPage(params: CursorListParams & Pick<PostListParams, 'privacy'> = {}): Observable<CursorPage<PostResponse>> {
+    const filters = params.privacy && params.privacy !== 'all'
+      ? new HttpParams().set('privacy', params.privacy)
+      : undefined;
+    return this.fetchCursorPage(`${this.API_URL}/feed`, params, filters);
+  }
+
   /**
    * Obtiene los posts del usuario autenticado.
    * @param params - Parámetros de paginación y filtrado
@@ -92,11 +135,13 @@ export class PostService extends BaseCrudService<
 
     const httpParams = this.buildHttpParams(params);
 
-    return this.http.get<PaginatedResponse<PostResponse>>(
+    return this.cachedGet<PaginatedResponse<PostResponse>>(
       `${this.API_URL}/me`,
-      { params: httpParams }
+      httpParams,
+      response => this.storeEntities(response.content)
     ).pipe(
       tap(response => {
+        this.storeEntities(response.content);
         this._items.set(response.content);
         this._isLoading.set(false);
       }),
@@ -118,11 +163,13 @@ export class PostService extends BaseCrudService<
 
     const httpParams = this.buildHttpParams(params);
 
-    return this.http.get<PaginatedResponse<PostResponse>>(
+    return this.cachedGet<PaginatedResponse<PostResponse>>(
       `${this.API_URL}/user/${userId}`,
-      { params: httpParams }
+      httpParams,
+      response => this.storeEntities(response.content)
     ).pipe(
       tap(response => {
+        this.storeEntities(response.content);
         this._items.set(response.content);
         this._isLoading.set(false);
       }),
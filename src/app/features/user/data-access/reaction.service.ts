@@ -1,7 +1,6 @@
 import { Injectable, signal, computed } from '@angular/core';
-import { HttpParams } from '@angular/common/http';
+import { HttpContext, HttpParams } from '@angular/common/http';
 import { Observable, catchError, throwError, tap } from 'rxjs';
-import { environment } from 'src/environments/environment';
 import {
   ReactionRequest,
   ReactionResponse,
@@ -12,6 +11,7 @@ import {
   ApiResponse
 } from '../../../shared/common';
 import { BaseCrudService, BaseListParams } from '../../../core/services';
+import { OUTBOX_TARGET } from '../../../core/interceptors/http-context.tokens';
 
 /**
  * Parámetros para listas de reacciones paginadas.
@@ -45,7 +45,7 @@ export class ReactionService extends BaseCrudService<
   ReactionListParams
 > {
 
-  protected readonly API_URL = `${environment.apiUrl}/reactions`;
+  protected readonly API_URL = `${this.apiUrl}/reactions`;
   protected readonly entityName = 'reaction';
 
   /**
@@ -62,19 +62,22 @@ export class ReactionService extends BaseCrudService<
 
   /**
    * Reacciona a un post (crea, actualiza o remueve reacción).
+   * Sin red la reacción queda en el outbox.
    * @param postId - ID del post
    * @param type - Tipo de reacción
+   * @param context - Contexto HTTP opcional
    * @returns Observable con la reacción creada o mensaje de confirmación
    */
-  reactToPost(postId: number, type: ReactionType): Observable<ReactionResponse | ReactionApiResponse> {
+  reactToPost(postId: number, type: ReactionType, context = new HttpContext()): Observable<ReactionResponse | ReactionApiResponse> {
     this.setLoading(true);
 
     return this.http.post<ReactionResponse | ReactionApiResponse>(
       `${this.API_URL}/posts/${postId}/react`,
       null,
-      { params: { type } }
+      { params: { type }, context: this.outboxContext(postId, context) }
     ).pipe(
       tap(response => {
+        this.invalidateCache();
         if ('id' in response) {
           // Es una reacción creada
           this._currentItem.set(response);
@@ -90,14 +93,19 @@ export class ReactionService extends BaseCrudService<
   }
 
   /**
-   * Elimina la reacción de un post.
+   * Elimina la reacción de un post. Sin red la eliminación queda en el outbox.
    * @param postId - ID del post
+   * @param context - Contexto HTTP opcional
    * @returns Observable con la confirmación de eliminación
    */
-  removeReaction(postId: number): Observable<ReactionApiResponse> {
-    return this.http.delete<ReactionApiResponse>(`${this.API_URL}/posts/${postId}/react`)
+  removeReaction(postId: number, context = new HttpContext()): Observable<ReactionApiResponse> {
+    return this.http.delete<ReactionApiResponse>(
+      `${this.API_URL}/posts/${postId}/react`,
+      { context: this.outboxContext(postId, context) }
+    )
       .pipe(
         tap(() => {
+          this.invalidateCache();
           // Remover la reacción del estado local
           this._items.update(reactions =>
             reactions.filter(reaction => reaction.postId !== postId)
@@ -108,6 +116,13 @@ export class ReactionService extends BaseCrudService<
       );
   }
 
+  /**
+   * Las reacciones cambian el contador de likes de los posts cacheados.
+   */
+  protected override relatedCachePrefixes(): string[] {
+    return [this.API_URL, `${this.apiUrl}/posts`];
+  }
+
   // CONSULTAS
 
   /**
@@ -127,6 +142,14 @@ export class ReactionService extends BaseCrudService<
 
   // UTILIDADES PRIVADAS
 
+  /**
+   * Contexto que marca una reacción como encolable en el outbox.
+   * @param postId - ID del post reaccionado
+   * @param context - Contexto recibido por el método público
+   */
+  private outboxContext(postId: number, context: HttpContext): HttpContext {
+    return context.set(OUTBOX_TARGET, { kind: 'reaction', postId });
+  }
 
   /**
    * Construye los parámetros HTTP para las consultas paginadas.
@@ -1,7 +1,6 @@
 import { Injectable, signal, inject } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
 import { Observable, catchError, throwError, tap, map } from 'rxjs';
-import { environment } from 'src/environments/environment';
 import {
   User,
   UserUpdateRequest,
@@ -14,9 +13,12 @@ import {
   PaginatedResponse,
   ApiResponse,
   SortableListParams,
-  SearchableListParams
+  SearchableListParams,
+  MultiSortListParams
 } from '../../../shared/common';
 import { AuthService } from '../../auth';
+import { EntityStoreService, HttpCacheService } from '../../../core/services';
+import { APP_CONFIG } from '../../../core/config';
 
 /**
  * Parámetros para búsqueda de usuarios.
@@ -36,6 +38,16 @@ export interface UserListParams extends SortableListParams {
   active?: boolean;
 }
 
+/**
+ * Parámetros de la tabla de usuarios del panel de administración.
+ * Extiende MultiSortListParams con los filtros de la tabla.
+ */
+export interface AdminUserListParams extends MultiSortListParams {
+  roleName?: string;
+  active?: boolean;
+  privacyType?: PrivacyType;
+}
+
 /**
  * Respuesta de la API para operaciones de usuarios.
  * Extiende la interfaz común ApiResponse.
@@ -56,16 +68,17 @@ export interface UserSearchResponse extends PaginatedResponse<User> {
 })
 export class UserService {
 
-  private readonly API_URL = `${environment.apiUrl}/users`;
+  private readonly apiUrl = inject(APP_CONFIG).apiUrl;
+  private readonly API_URL = `${this.apiUrl}/users`;
 
   // Signals privados para el estado interno
   private readonly _isLoading = signal<boolean>(false);
-  private readonly _currentUser = signal<User | null>(null);
-  private readonly _users = signal<User[]>([]);
-  private readonly _searchResults = signal<User[]>([]);
 
   private readonly http = inject(HttpClient);
   private readonly auth = inject(AuthService);
+  private readonly cache = inject(HttpCacheService);
+  /** Los usuarios recibidos se comparten con el resto de vistas a través del almacén */
+  private readonly entityStore = inject(EntityStoreService);
 
   // USUARIO ACTUAL
 
@@ -79,7 +92,7 @@ export class UserService {
     return this.http.get<User>(`${this.API_URL}/me`)
       .pipe(
         tap(user => {
-          this._currentUser.set(user);
+          this.entityStore.upsertUsers(user);
           this._isLoading.set(false);
         }),
         catchError(error => {
@@ -100,7 +113,8 @@ export class UserService {
     return this.http.put<User>(`${this.API_URL}/me`, request)
       .pipe(
         tap(user => {
-          this._currentUser.set(user);
+          this.invalidateCache();
+          this.entityStore.upsertUsers(user);
           this._isLoading.set(false);
         }),
         catchError(error => {
@@ -118,7 +132,11 @@ export class UserService {
     return this.http.delete<UserApiResponse>(`${this.API_URL}/me`)
       .pipe(
         tap(() => {
-          this._currentUser.set(null);
+          this.invalidateCache();
+          const current = this.auth.getCurrentUser();
+          if (current) {
+            this.entityStore.removeUser(current.id);
+          }
         }),
         catchError(error => throwError(() => error))
       );
@@ -134,9 +152,10 @@ export class UserService {
   getUserById(id: number): Observable<User> {
     this._isLoading.set(true);
 
-    return this.http.get<User>(`${this.API_URL}/${id}`)
+    return this.cache.get<User>(`${this.API_URL}/${id}`, { onRevalidate: user => this.entityStore.upsertUsers(user) })
       .pipe(
         tap(user => {
+          this.entityStore.upsertUsers(user);
           this._isLoading.set(false);
         }),
         catchError(error => {
@@ -158,10 +177,8 @@ export class UserService {
     return this.http.put<User>(`${this.API_URL}/${id}`, request)
       .pipe(
         tap(user => {
-          // Actualizar en la lista local si existe
-          this._users.update(users =>
-            users.map(u => u.id === id ? user : u)
-          );
+          this.invalidateCache();
+          this.entityStore.upsertUsers(user);
           // Si el usuario actualizado coincide con el usuario autenticado,
           // sincronizar estado de autenticación y localStorage para que la
           // UI (header, dashboard, perfil) muestre los datos nuevos.
@@ -190,22 +207,19 @@ export class UserService {
     return this.http.put<any>(`${this.API_URL}/${id}/admin`, request)
       .pipe(
         tap(response => {
+          this.invalidateCache();
           // La respuesta puede ser { user, token?, message } o solo User
           const user = response.user || response;
           const token = response.token;
 
-          // Actualizar en la lista local si existe
-          this._users.update(users =>
-            users.map(u => u.id === id ? user : u)
-          );
+          this.entityStore.upsertUsers(user);
 
           // Si el admin actualiza su propio usuario, sincronizar AuthService
           const current = this.auth.getCurrentUser();
           if (current && current.id === user.id) {
             // Si hay nuevo token (cambio de username), actualizar token también
             if (token) {
-              localStorage.setItem('token', token);
-              localStorage.setItem('user', JSON.stringify(user));
+              this.auth.rotateToken(token, user, response.refreshToken);
               // Programar recarga después de un pequeño delay para permitir que se guarde el orden
               setTimeout(() => {
                 window.location.reload();
@@ -233,8 +247,8 @@ export class UserService {
     return this.http.delete<UserApiResponse>(`${this.API_URL}/${id}`)
       .pipe(
         tap(() => {
-          // Remover de la lista local
-          this._users.update(users => users.filter(u => u.id !== id));
+          this.invalidateCache();
+          this.entityStore.removeUser(id);
         }),
         catchError(error => throwError(() => error))
       );
@@ -257,7 +271,7 @@ export class UserService {
       { params: httpParams }
     ).pipe(
       tap(response => {
-        this._searchResults.set(response.content);
+        this.entityStore.upsertUsers(...response.content);
         this._isLoading.set(false);
       }),
       catchError(error => {
@@ -277,12 +291,13 @@ export class UserService {
 
     const httpParams = this.buildListParams(params);
 
-    return this.http.get<PaginatedResponse<User>>(
+    // Sin staleWhileRevalidate: una página caducada dejaría mal la pertenencia, el orden y los totales
+    return this.cache.get<PaginatedResponse<User>>(
       this.API_URL,
-      { params: httpParams }
+      { params: httpParams, staleWhileRevalidate: false }
     ).pipe(
       tap(response => {
-        this._users.set(response.content);
+        this.entityStore.upsertUsers(...response.content);
         this._isLoading.set(false);
       }),
       catchError(error => {
@@ -294,10 +309,10 @@ export class UserService {
 
   /**
    * Busca usuarios desde el panel de administración (sin restricción de privacidad).
-   * @param params - Parámetros de búsqueda
+   * @param params - Búsqueda, filtros y criterios de ordenamiento
    * @returns Observable con los resultados de búsqueda
    */
-  searchAllUsers(params: UserSearchParams): Observable<PaginatedResponse<User>> {
+  searchAllUsers(params: AdminUserListParams): Observable<PaginatedResponse<User>> {
     this._isLoading.set(true);
 
     let httpParams = new HttpParams()
@@ -309,12 +324,28 @@ export class UserService {
       httpParams = httpParams.set('query', params.query.trim());
     }
 
-    return this.http.get<PaginatedResponse<User>>(
-      `${environment.apiUrl}/admin/users`,
-      { params: httpParams }
+    // Agregar filtros de la tabla si están presentes
+    if (params.roleName) {
+      httpParams = httpParams.set('roleName', params.roleName);
+    }
+    if (params.active !== undefined) {
+      httpParams = httpParams.set('active', params.active.toString());
+    }
+    if (params.privacyType) {
+      httpParams = httpParams.set('privacyType', params.privacyType);
+    }
+
+    // Agregar criterios de ordenamiento (uno por parámetro `sort`)
+    for (const sort of [params.sort ?? []].flat()) {
+      httpParams = httpParams.append('sort', sort);
+    }
+
+    return this.cache.get<PaginatedResponse<User>>(
+      `${this.apiUrl}/admin/users`,
+      { params: httpParams, staleWhileRevalidate: false }
     ).pipe(
       tap(response => {
-        this._users.set(response.content);
+        this.entityStore.upsertUsers(...response.content);
         this._isLoading.set(false);
       }),
       catchError(error => {
@@ -336,7 +367,7 @@ export class UserService {
     return this.http.get<User>(`${this.API_URL}/me/profile`)
       .pipe(
         tap(user => {
-          this._currentUser.set(user);
+          this.entityStore.upsertUsers(user);
           this._isLoading.set(false);
         }),
         catchError(error => {
@@ -357,7 +388,8 @@ export class UserService {
     return this.http.put<User>(`${this.API_URL}/me/profile`, request)
       .pipe(
         tap(user => {
-          this._currentUser.set(user);
+          this.invalidateCache();
+          this.entityStore.upsertUsers(user);
           this._isLoading.set(false);
         }),
         catchError(error => {
@@ -378,10 +410,8 @@ export class UserService {
     return this.http.put<UserApiResponse>(`${this.API_URL}/${id}/activate`, {})
       .pipe(
         tap(() => {
-          // Actualizar estado en la lista local
-          this._users.update(users =>
-            users.map(u => u.id === id ? { ...u, active: true } : u)
-          );
+          this.invalidateCache();
+          this.entityStore.patchUser(id, { active: true });
         }),
         catchError(error => throwError(() => error))
       );
@@ -407,10 +437,8 @@ export class UserService {
     return this.http.put<UserApiResponse>(`${this.API_URL}/${id}/deactivate`, {})
       .pipe(
         tap(() => {
-          // Actualizar estado en la lista local
-          this._users.update(users =>
-            users.map(u => u.id === id ? { ...u, active: false } : u)
-          );
+          this.invalidateCache();
+          this.entityStore.patchUser(id, { active: false });
         }),
         catchError(error => throwError(() => error))
       );
@@ -427,7 +455,8 @@ export class UserService {
     return this.http.post<User>(`${this.API_URL}/admin`, userData)
       .pipe(
         tap(user => {
-          this._users.update(users => [user, ...users]);
+          this.invalidateCache();
+          this.entityStore.upsertUsers(user);
           this._isLoading.set(false);
         }),
         catchError(error => {
@@ -439,6 +468,13 @@ export class UserService {
 
   // UTILIDADES PRIVADAS
 
+  /**
+   * Invalida la caché de usuarios y de los recursos que muestran datos de usuario
+   * (panel de administración y autores de posts).
+   */
+  private invalidateCache(): void {
+    this.cache.invalidate(this.API_URL, `${this.apiUrl}/admin`, `${this.apiUrl}/posts`);
+  }
 
   /**
    * Construye los parámetros HTTP para las consultas de búsqueda.
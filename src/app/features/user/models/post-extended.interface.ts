@@ -9,7 +9,10 @@ export interface PostWithInteractions extends PostResponse {
   commentCount?: number;
   userReaction?: ReactionResponse;
   comments?: CommentResponse[];
-  isAddingComment?: boolean;
   isProcessingLike?: boolean;
 }
 
+/**
+ * Estado de interacción de la vista con un post (los datos del post viven en el almacén de entidades).
+ */
+export type PostInteractions = Omit<PostWithInteractions, keyof PostResponse>;
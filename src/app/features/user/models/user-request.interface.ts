@@ -1,6 +1,7 @@
 // MODELO: User - request interfaces (UserUpdateRequest, AdminUserUpdateRequest)
 
 import { PrivacyType } from '../../../shared/models/enums/enums';
+import { RoleName } from './user-response.interface';
 
 export interface UserUpdateRequest {
   firstName?: string;
@@ -23,5 +24,5 @@ export interface AdminUserUpdateRequest {
   address?: string;
   biography?: string;
   privacyType: PrivacyType;
-  roleName?: string;
+  roleName?: RoleName;
 }
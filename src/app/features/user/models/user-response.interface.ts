@@ -1,7 +1,12 @@
-// MODELO: User - response interfaces (User, Role)
+// MODELO: User - response interfaces (User, Role, RoleName)
 
 import { PrivacyType } from '../../../shared/models/enums/enums';
 
+/** Roles que asigna el backend */
+export const ROLE_NAMES = ['USER', 'MODERATOR', 'ADMIN'] as const;
+
+export type RoleName = typeof ROLE_NAMES[number];
+
 export interface Role {
   id: number;
   name: string;
@@ -21,6 +26,12 @@ export interface User {
   role: Role;
   privacyType: PrivacyType;
   active: boolean;
+  /** false hasta que el usuario confirma su email (ausente en cuentas anteriores a la verificación) */
+  emailVerified?: boolean;
+  /** Verificación en dos pasos (TOTP) activada */
+  twoFactorEnabled?: boolean;
+  /** La política de seguridad exige 2FA al rol del usuario */
+  twoFactorRequired?: boolean;
   registrationDate: string;
   lastActivityDate: string;
 
@@ -10,8 +10,10 @@ import { MatDialogModule, MatDialog } from '@angular/material/dialog';
 import { MatMenuModule } from '@angular/material/menu';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { FormsModule } from '@angular/forms';
-import { Subject, takeUntil } from 'rxjs';
-import { PostService } from '../../data-access/post.service';
+import { ScrollingModule } from '@angular/cdk/scrolling';
+import { HttpContext } from '@angular/common/http';
+import { Subject, finalize, takeUntil } from 'rxjs';
+import { PostListParams, PostService } from '../../data-access/post.service';
 import { AuthService } from '../../../auth';
 import { CommentService } from '../../data-access/comment.service';
 import { ReactionService, ReactionApiResponse } from '../../data-access/reaction.service';
@@ -23,6 +25,7 @@ import {
   ReactionResponse,
   ReactionType,
   PostWithInteractions,
+  PostInteractions,
   PrivacyType
 } from '../../models';
 import { CreatePostModalComponent } from '../post-creator/create-modal.component';
@@ -31,6 +34,9 @@ import { MyPostDeleteModalComponent } from '../post-editor/post-delete-modal/pos
 import { ReportModalComponent, ReportModalResult } from '../post-report/report-modal.component';
 import { FooterComponent } from '@shared/components';
 import { DateFormatPipe } from '@shared/pipes';
+import { VariableItemSizeDirective, VirtualItemKeyDirective } from '@shared/directives';
+import { EntityChanges, EntityStoreService, OptimisticUpdateService, createInfiniteList, OutboxCompletion, OutboxItem, OutboxService, Rollback } from '@core/services';
+import { hasApiErrorCode } from '@core/errors';
 
 // INTERFACES Y TIPOS
 
@@ -56,6 +62,20 @@ interface FeedLoadingState {
   comments: boolean;
 }
 
+/**
+ * Elemento del outbox listo para pintarse en el feed
+ */
+interface PendingFeedItem {
+  /** ID del elemento en el outbox */
+  id: string;
+  /** Texto del post o comentario */
+  content: string;
+  /** Si el servidor lo ha rechazado */
+  failed: boolean;
+  /** Motivo del rechazo */
+  error?: string;
+}
+
 // COMPONENTE PRINCIPAL
 
 @Component({
@@ -71,6 +91,9 @@ interface FeedLoadingState {
     MatMenuModule,
     MatSnackBarModule,
     FormsModule,
+    ScrollingModule,
+    VariableItemSizeDirective,
+    VirtualItemKeyDirective,
     MyPostDeleteModalComponent,
     FooterComponent,
     DateFormatPipe
@@ -89,6 +112,9 @@ export class FeedComponent implements OnInit, OnDestroy {
   private readonly authService = inject(AuthService);
   private readonly dialog = inject(MatDialog);
   private readonly snackBar = inject(MatSnackBar);
+  private readonly outboxService = inject(OutboxService);
+  private readonly entityStore = inject(EntityStoreService);
+  private readonly optimisticUpdate = inject(OptimisticUpdateService);
 
   // PROPIEDADES PRIVADAS
 
@@ -112,43 +138,55 @@ export class FeedComponent implements OnInit, OnDestroy {
 
   // SIGNAL DE ESTADO CONSOLIDADO
   private readonly _state = signal<{
-    posts: PostWithInteractions[];
-    loading: boolean;
-    loadingMore: boolean;
-    error: string | null;
-    hasMore: boolean;
-    currentPage: number;
+    interactions: Record<number, PostInteractions>;
   }>({
-    posts: [],
-    loading: false,
-    loadingMore: false,
-    error: null,
-    hasMore: true,
-    currentPage: 0
+    interactions: {}
+  });
+
+  private readonly PAGE_SIZE = 10;
+  /** Posts restantes por debajo del visible a partir de los que se pide otra página */
+  private readonly PREFETCH_DISTANCE = 3;
+
+  private readonly _statusFilter = signal<PrivacyType | 'ALL'>('ALL');
+  readonly statusFilter = this._statusFilter.asReadonly();
+
+  // PAGINACIÓN POR CURSOR: los posts nuevos no duplican ni saltan los de la página siguiente
+  private readonly feed = createInfiniteList<Post>({
+    load: cursor => this.postService.getPersonalFeedPage({
+      cursor,
+      size: this.PAGE_SIZE,
+      privacy: this.privacyParam()
+    }),
+    trackBy: post => post.id,
+    onPage: () => this.loadUserReactions()
   });
 
   // SIGNALS COMPUTADOS PARA ACCESO ESPECÍFICO
-  readonly posts = computed(() => this._state().posts);
-  readonly loading = computed(() => this._state().loading);
-  readonly loadingMore = computed(() => this._state().loadingMore);
-  readonly error = computed(() => this._state().error);
-  readonly hasMore = computed(() => this._state().hasMore);
-  readonly currentPage = computed(() => this._state().currentPage);
+  /** Posts del almacén de entidades con el estado de interacción de esta vista */
+  readonly posts = computed((): PostWithInteractions[] => {
+    const { interactions } = this._state();
+    return this.entityStore.selectPosts(this.feed.items().map(post => post.id))
+      .map(post => ({ ...post, ...interactions[post.id] }));
+  });
+  /** IDs de los posts pintados, en orden (claves de altura del virtual scroll) */
+  readonly postIds = computed(() => this.posts().map(post => post.id));
+  readonly loading = this.feed.loading;
+  readonly loadingMore = this.feed.loadingMore;
+  readonly error = computed(() => this.feed.error() ? 'Error al cargar el feed' : null);
+  readonly hasMore = this.feed.hasMore;
 
   // VALORES COMPUTADOS
   readonly isEmpty = computed(() => !this.loading() && this.posts().length === 0);
   readonly isLoading = computed(() => this.loading() || this.loadingMore());
+  /** Publicar requiere el email verificado (el aviso lo muestra el layout del dashboard) */
+  readonly canCreatePost = this.authService.isEmailVerified;
 
-  // FILTRO (igual que en MyPosts)
-  private readonly FILTER_LOAD_SIZE = 50;
-  private readonly MAX_LOAD_SIZE = 1000;
-  private readonly PAGE_SIZE = 10;
-
-  private readonly _statusFilter = signal<PrivacyType | 'ALL'>('ALL');
-  readonly statusFilter = this._statusFilter.asReadonly();
-
-  // Cuando aplicamos filtro, cargamos todos los posts en memoria para paginar localmente
-  private _filteredAllPosts: PostWithInteractions[] = [];
+  // OUTBOX: publicaciones hechas sin conexión, pendientes de envío
+  readonly pendingPosts = computed(() =>
+    this.outboxService.items()
+      .filter(item => item.kind === 'post')
+      .map(item => this.toPendingFeedItem(item))
+  );
 
   readonly isLoadingFiltered = computed(() => this._statusFilter() !== 'ALL' && this.loading());
 
@@ -156,6 +194,9 @@ export class FeedComponent implements OnInit, OnDestroy {
 
   ngOnInit(): void {
     this.loadFeed();
+    this.outboxService.completed$.pipe(
+      takeUntil(this.destroy$)
+    ).subscribe(completion => this.applyOutboxCompletion(completion));
     // Agregar listener para cerrar comentarios al hacer clic fuera
     document.addEventListener('click', this.handleDocumentClick.bind(this));
   }
@@ -191,95 +232,43 @@ export class FeedComponent implements OnInit, OnDestroy {
    * Carga el feed inicial de posts
    */
   loadFeed(): void {
-    this._state.update(s => ({ ...s, loading: true, error: null, currentPage: 0 }));
-
-    const size = this._statusFilter() !== 'ALL' ? this.FILTER_LOAD_SIZE : this.PAGE_SIZE;
-
-    this.postService.getPersonalFeed({ page: 0, size, sort: 'newest' }).pipe(
-      takeUntil(this.destroy$)
-    ).subscribe({
-      next: (response) => {
-        if (this._statusFilter() !== 'ALL') {
-          this.processFilteredPosts(response.content);
-        } else {
-          this._state.update(s => ({
-            ...s,
-            posts: response.content,
-            hasMore: response.totalPages > 1,
-            currentPage: 1,
-            loading: false
-          }));
-          this.loadUserReactions();
-        }
-      },
-      error: () => {
-        this._state.update(s => ({ ...s, error: 'Error al cargar el feed', loading: false }));
-      }
-    });
+    this._state.update(s => ({ ...s, interactions: {} }));
+    this.feed.reset();
   }
 
   /**
    * Carga más posts para paginación infinita
    */
   loadMorePosts(): void {
-    if (this.loadingMore() || !this.hasMore()) return;
-
-    // Si hay un filtro activo, paginar sobre los posts ya cargados
-    if (this._statusFilter() !== 'ALL') {
-      this._state.update(s => ({ ...s, loadingMore: true }));
-      const nextPage = this.currentPage();
-      const start = (nextPage) * this.PAGE_SIZE;
-      const end = start + this.PAGE_SIZE;
-      const chunk = this._filteredAllPosts.slice(start, end);
-      this._state.update(s => ({
-        ...s,
-        posts: [...s.posts, ...chunk],
-        hasMore: end < this._filteredAllPosts.length,
-        currentPage: nextPage + 1,
-        loadingMore: false
-      }));
-      this.loadUserReactions();
-      return;
-    }
+    this.feed.loadMore();
+  }
 
-    this._state.update(s => ({ ...s, loadingMore: true }));
-    const nextPage = this.currentPage();
+  /**
+   * Pide la página siguiente cuando el scroll se acerca al final de lo cargado
+   * @param index - Primer post visible
+   */
+  onScrolledIndexChange(index: number): void {
+    if (index >= this.posts().length - this.PREFETCH_DISTANCE) {
+      this.loadMorePosts();
+    }
+  }
 
-    this.postService.getPersonalFeed({ page: nextPage, size: this.PAGE_SIZE, sort: 'newest' }).pipe(
-      takeUntil(this.destroy$)
-    ).subscribe({
-      next: (response) => {
-        this._state.update(s => ({
-          ...s,
-          posts: [...s.posts, ...response.content],
-          hasMore: nextPage + 1 < response.totalPages,
-          currentPage: nextPage + 1,
-          loadingMore: false
-        }));
-        this.loadUserReactions();
-      },
-      error: () => {
-        this._state.update(s => ({ ...s, loadingMore: false }));
-      }
-    });
+  /** Identidad de los posts para *cdkVirtualFor */
+  trackByPostId(_: number, post: PostWithInteractions): number {
+    return post.id;
   }
 
-  /** Cambia el filtro de privacidad del feed */
+  /** Cambia el filtro de privacidad del feed (se aplica en el servidor) */
   onStatusFilterChange(event: Event): void {
     const target = event.target as HTMLSelectElement;
-    const status = target.value as PrivacyType | 'ALL';
-    this._statusFilter.set(status);
-    this._state.update(s => ({ ...s, posts: [], hasMore: true, currentPage: 0 }));
-    this._filteredAllPosts = [];
+    this._statusFilter.set(target.value as PrivacyType | 'ALL');
     this.loadFeed();
   }
 
-  /** Procesa posts cargados para filtrado local y preparar paginación interna */
-  private processFilteredPosts(posts: PostWithInteractions[]): void {
-    this._filteredAllPosts = posts.filter(p => p.privacyType === this._statusFilter());
-    const pageSlice = this._filteredAllPosts.slice(0, this.PAGE_SIZE);
-    this._state.update(s => ({ ...s, posts: pageSlice, hasMore: this._filteredAllPosts.length > this.PAGE_SIZE, currentPage: 1, loading: false }));
-    this.loadUserReactions();
+  /** Filtro de privacidad en el formato de PostListParams */
+  private privacyParam(): PostListParams['privacy'] {
+    const status = this._statusFilter();
+    return status === 'ALL' ? 'all' : status === PrivacyType.PUBLIC ? 'public' : 'private';
   }
 
   /**
@@ -344,42 +333,82 @@ export class FeedComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Agrega un comentario a un post
+   * Agrega un comentario a un post. Se pinta al instante con un ID provisional
+   * y se sustituye por el del servidor al confirmarse.
    */
   addComment(postId: number): void {
     const post = this.posts().find(p => p.id === postId);
-    if (!post || !this.newCommentText[postId]?.trim()) return;
-
-    post.isAddingComment = true;
-    const commentText = this.newCommentText[postId];
+    const currentUser = this.authService.getCurrentUser();
+    const commentText = this.newCommentText[postId]?.trim();
+    if (!post || !currentUser || !commentText) return;
 
-    this.commentService.create({
+    const draft: Comment = {
+      id: -Date.now(),
       content: commentText,
-      postId: postId
+      creationDate: new Date().toISOString(),
+      author: currentUser,
+      postId
+    };
+    this.newCommentText[postId] = '';
+
+    this.optimisticUpdate.execute({
+      apply: () => {
+        this.entityStore.patchPost(postId, p => ({ commentCount: (p.commentCount || 0) + 1 }));
+        if (this.expandedComments.has(postId)) {
+          this.updateInteractions(postId, i => ({ comments: [...(i.comments ?? []), draft] }));
+        }
+        return () => {
+          this.entityStore.patchPost(postId, p => ({ commentCount: Math.max(0, (p.commentCount || 1) - 1) }));
+          this.updateInteractions(postId, i => ({ comments: i.comments?.filter(c => c !== draft) }));
+        };
+      },
+      request: context => this.commentService.create({ content: commentText, postId }, context),
+      reconcile: comment => this.updateInteractions(postId, i => ({
+        comments: i.comments?.map(c => c === draft ? comment : c)
+      })),
+      errorMessage: 'No se pudo publicar el comentario',
+      queueable: true
     }).pipe(
       takeUntil(this.destroy$)
     ).subscribe({
-      next: (comment) => {
-        post.commentCount = (post.commentCount || 0) + 1;
-
-        if (this.expandedComments.has(postId)) {
-          if (!post.comments) {
-            post.comments = [];
-          }
-          post.comments.push(comment);
+      error: (error) => {
+        // Sin red el comentario queda en el outbox y se muestra como pendiente;
+        // si el servidor lo rechaza, el texto vuelve al campo para reintentarlo
+        if (!this.outboxService.wasQueued(error)) {
+          this.newCommentText[postId] = commentText;
         }
-
-        this.newCommentText[postId] = '';
-        post.isAddingComment = false;
-        // Forzar actualización del state
-        this._state.update(s => ({ ...s, posts: [...s.posts] }));
-      },
-      error: () => {
-        post.isAddingComment = false;
       }
     });
   }
 
+  /**
+   * Comentarios de un post que siguen en el outbox
+   * @param postId - ID de la publicación
+   */
+  pendingComments(postId: number): PendingFeedItem[] {
+    return this.outboxService.items()
+      .filter(item => item.kind === 'comment' && item.postId === postId)
+      .map(item => this.toPendingFeedItem(item));
+  }
+
+  /**
+   * Indica si hay una reacción sin enviar para un post
+   * @param postId - ID de la publicación
+   */
+  hasPendingReaction(postId: number): boolean {
+    return this.outboxService.items().some(item => item.kind === 'reaction' && item.postId === postId);
+  }
+
+  /** Reintenta el envío de un elemento del outbox rechazado */
+  retryPending(id: string): void {
+    this.outboxService.retry(id);
+  }
+
+  /** Descarta un elemento del outbox sin enviarlo */
+  discardPending(id: string): void {
+    this.outboxService.discard(id);
+  }
+
 
 
   /**
@@ -389,23 +418,30 @@ export class FeedComponent implements OnInit, OnDestroy {
    */
   deleteComment(postId: number, commentId: number): void {
     const post = this.posts().find(p => p.id === postId);
-    if (!post || !post.comments) return;
-
-    this.commentService.delete(commentId).pipe(
-      takeUntil(this.destroy$)
-    ).subscribe({
-      next: () => {
-        // Eliminar el comentario del array local
-        post.comments = post.comments!.filter(c => c.id !== commentId);
-        // Decrementar el contador de comentarios
-        post.commentCount = Math.max(0, (post.commentCount || 1) - 1);
-        // Forzar actualización del state
-        this._state.update(s => ({ ...s, posts: [...s.posts] }));
+    const index = post?.comments?.findIndex(c => c.id === commentId) ?? -1;
+    if (!post?.comments || index < 0) return;
+
+    const comment = post.comments[index];
+
+    this.optimisticUpdate.execute({
+      apply: () => {
+        this.updateInteractions(postId, i => ({ comments: i.comments?.filter(c => c.id !== commentId) }));
+        this.entityStore.patchPost(postId, p => ({ commentCount: Math.max(0, (p.commentCount || 1) - 1) }));
+        return () => {
+          // Vuelve a su posición original
+          this.updateInteractions(postId, i => {
+            const comments = [...(i.comments ?? [])];
+            comments.splice(index, 0, comment);
+            return { comments };
+          });
+          this.entityStore.patchPost(postId, p => ({ commentCount: (p.commentCount || 0) + 1 }));
+        };
       },
-      error: (error) => {
-        console.error('Error al eliminar comentario:', error);
-      }
-    });
+      request: context => this.commentService.delete(commentId, context),
+      errorMessage: 'No se pudo eliminar el comentario'
+    }).pipe(
+      takeUntil(this.destroy$)
+    ).subscribe({ error: () => {} });
   }
 
   /**
@@ -419,47 +455,42 @@ export class FeedComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Alterna el like de un post
+   * Alterna el like de un post (optimista: el contador cambia al instante)
    */
   toggleLike(postId: number): void {
     const post = this.posts().find(p => p.id === postId);
-    if (!post || post.isProcessingLike) return;
-
-    post.isProcessingLike = true;
-
-    if (post.userReaction?.reactionType === 'LIKE') {
-      this.reactionService.removeReaction(postId).pipe(
-        takeUntil(this.destroy$)
-      ).subscribe({
-        next: () => {
-          post.userReaction = undefined;
-          post.likeCount = Math.max(0, (post.likeCount || 1) - 1);
-          post.isProcessingLike = false;
-          // Forzar actualización del state
-          this._state.update(s => ({ ...s, posts: [...s.posts] }));
-        },
-        error: () => {
-          post.isProcessingLike = false;
-        }
-      });
-    } else {
-      this.reactionService.reactToPost(postId, ReactionType.LIKE).pipe(
-        takeUntil(this.destroy$)
-      ).subscribe({
-        next: (response: ReactionResponse | ReactionApiResponse) => {
-          if ('id' in response) {
-            post.userReaction = response as ReactionResponse;
-            post.likeCount = (post.likeCount || 0) + 1;
-          }
-          post.isProcessingLike = false;
-          // Forzar actualización del state
-          this._state.update(s => ({ ...s, posts: [...s.posts] }));
-        },
-        error: () => {
-          post.isProcessingLike = false;
-        }
-      });
-    }
+    const currentUser = this.authService.getCurrentUser();
+    // Una sola petición de like/unlike en curso por post
+    if (!post || !currentUser || post.isProcessingLike) return;
+
+    const liked = post.userReaction?.reactionType === 'LIKE';
+    // Reacción provisional hasta que el servidor devuelva la real
+    const reaction: ReactionResponse | undefined = liked ? undefined : {
+      id: -Date.now(),
+      reactionType: ReactionType.LIKE,
+      creationDate: new Date().toISOString(),
+      user: currentUser,
+      postId
+    };
+    const request = liked
+      ? (context: HttpContext) => this.reactionService.removeReaction(postId, context)
+      : (context: HttpContext) => this.reactionService.reactToPost(postId, ReactionType.LIKE, context);
+
+    this.updateInteractions(postId, { isProcessingLike: true });
+
+    this.optimisticUpdate.execute<ReactionResponse | ReactionApiResponse>({
+      apply: () => this.applyLike(postId, reaction, post.userReaction),
+      request,
+      // La reacción real sustituye a la provisional
+      reconcile: response => {
+        if ('id' in response) this.updateInteractions(postId, { userReaction: response });
+      },
+      errorMessage: 'No se pudo actualizar el me gusta',
+      queueable: true
+    }).pipe(
+      finalize(() => this.updateInteractions(postId, { isProcessingLike: false })),
+      takeUntil(this.destroy$)
+    ).subscribe({ error: () => {} });
   }
 
   /**
@@ -502,9 +533,8 @@ export class FeedComponent implements OnInit, OnDestroy {
             // Reporte exitoso, no mostrar mensaje
           },
           error: (error) => {
-            const errorMessage = error?.error?.message || error?.message || '';
-            if (errorMessage.toLowerCase().includes('ya has reportado') ||
-              errorMessage.toLowerCase().includes('already reported')) {
+            // Sin código específico, un 409 al reportar solo puede ser un duplicado
+            if (hasApiErrorCode(error, 'REPORT_ALREADY_SUBMITTED', 'CONFLICT')) {
               this.snackBar.open('⚠️ Ya has reportado esta publicación anteriormente', 'Cerrar', {
                 duration: 5000,
                 horizontalPosition: 'center',
@@ -538,6 +568,8 @@ export class FeedComponent implements OnInit, OnDestroy {
 
   /** Abre el modal de creación de posts */
   openCreatePostModal(): void {
+    if (!this.canCreatePost()) return;
+
     const dialogRef = this.dialog.open(CreatePostModalComponent, {
       width: '600px',
       maxWidth: '90vw',
@@ -600,6 +632,76 @@ export class FeedComponent implements OnInit, OnDestroy {
 
   // MÉTODOS PRIVADOS
 
+  /**
+   * Refleja en el feed una mutación del outbox que el servidor ya ha aceptado
+   */
+  private applyOutboxCompletion({ item, response }: OutboxCompletion): void {
+    if (item.kind === 'post') {
+      this.loadFeed();
+      return;
+    }
+
+    const post = this.posts().find(p => p.id === item.postId);
+    if (!post) return;
+
+    if (item.kind === 'comment') {
+      this.entityStore.patchPost(post.id, p => ({ commentCount: (p.commentCount || 0) + 1 }));
+      if (this.expandedComments.has(post.id)) {
+        this.updateInteractions(post.id, i => ({ comments: [...(i.comments ?? []), response as Comment] }));
+      }
+    } else if (item.method === 'DELETE') {
+      this.updateInteractions(post.id, { userReaction: undefined });
+      this.entityStore.patchPost(post.id, p => ({ likeCount: Math.max(0, (p.likeCount || 1) - 1) }));
+    } else if (response && typeof response === 'object' && 'id' in response) {
+      this.updateInteractions(post.id, { userReaction: response as ReactionResponse });
+      this.entityStore.patchPost(post.id, p => ({ likeCount: (p.likeCount || 0) + 1 }));
+    }
+  }
+
+  /**
+   * Marca (con `reaction`) o desmarca el like en local y devuelve el rollback
+   * @param postId - ID de la publicación
+   * @param reaction - Nueva reacción, o undefined para quitarla
+   * @param previous - Reacción anterior, para restaurarla
+   */
+  private applyLike(postId: number, reaction: ReactionResponse | undefined, previous: ReactionResponse | undefined): Rollback {
+    const delta = reaction ? 1 : -1;
+    const adjust = (step: number) =>
+      this.entityStore.patchPost(postId, p => ({ likeCount: Math.max(0, (p.likeCount || 0) + step) }));
+
+    this.updateInteractions(postId, { userReaction: reaction });
+    adjust(delta);
+
+    return () => {
+      this.updateInteractions(postId, { userReaction: previous });
+      adjust(-delta);
+    };
+  }
+
+  /**
+   * Actualiza el estado de interacción de esta vista con un post
+   */
+  private updateInteractions(postId: number, changes: EntityChanges<PostInteractions>): void {
+    this._state.update(s => {
+      const current = s.interactions[postId] ?? {};
+      const next = typeof changes === 'function' ? changes(current) : changes;
+      return { ...s, interactions: { ...s.interactions, [postId]: { ...current, ...next } } };
+    });
+  }
+
+  /**
+   * Adapta un elemento del outbox para pintarlo
+   */
+  private toPendingFeedItem(item: OutboxItem): PendingFeedItem {
+    const body = item.body as { content?: string } | null;
+    return {
+      id: item.id,
+      content: body?.content ?? '',
+      failed: item.status === 'failed',
+      error: item.error
+    };
+  }
+
   /**
    * Carga las reacciones del usuario para todos los posts
    */
@@ -609,7 +711,7 @@ export class FeedComponent implements OnInit, OnDestroy {
         this.reactionService.getMyReaction(post.id).pipe(
           takeUntil(this.destroy$)
         ).subscribe(reaction => {
-          post.userReaction = reaction || undefined;
+          this.updateInteractions(post.id, { userReaction: reaction || undefined });
         });
       }
     });
@@ -626,18 +728,12 @@ export class FeedComponent implements OnInit, OnDestroy {
         takeUntil(this.destroy$)
       ).subscribe({
         next: (response) => {
-          post.comments = response.content || [];
-          // Forzar actualización del state para detectar cambios
-          this._state.update(s => ({ ...s, posts: [...s.posts] }));
+          this.updateInteractions(postId, { comments: response.content || [] });
         },
         error: (error) => {
           console.error('Error al cargar comentarios:', error);
           // No cerrar la sección, solo inicializar vacío si es necesario
-          if (!post.comments) {
-            post.comments = [];
-          }
-          // Forzar actualización incluso en error
-          this._state.update(s => ({ ...s, posts: [...s.posts] }));
+          this.updateInteractions(postId, i => ({ comments: i.comments ?? [] }));
         }
       });
     }
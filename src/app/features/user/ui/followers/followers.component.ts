@@ -11,6 +11,7 @@ import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { FollowService } from '../../data-access/follow.service';
 import { FollowResponse as Follow, UserWithFollow } from '../../models';
 import { FooterComponent } from '@shared/components';
+import { OptimisticUpdateService } from '@core/services';
 import { Router } from '@angular/router';
 
 // INTERFACES Y TIPOS
@@ -53,6 +54,7 @@ export class FollowersComponent implements OnInit {
 
   private readonly followService = inject(FollowService);
   private readonly router = inject(Router);
+  private readonly optimisticUpdate = inject(OptimisticUpdateService);
 
   // SIGNALS PRIVADOS PARA ESTADO INTERNO
 
@@ -183,17 +185,27 @@ export class FollowersComponent implements OnInit {
    * Deja de seguir a un usuario
    */
   unfollowUser(followedId: number): void {
-    this.followService.unfollowUser(followedId).subscribe({
-      next: () => {
+    const index = this._state().following.findIndex(follow => follow.followedId === followedId);
+    if (index < 0) return;
+
+    const removed = this._state().following[index];
+
+    this.optimisticUpdate.execute({
+      apply: () => {
         this._state.update(s => ({
           ...s,
           following: s.following.filter(follow => follow.followedId !== followedId)
         }));
+        // Vuelve a su posición original
+        return () => this._state.update(s => {
+          const following = [...s.following];
+          following.splice(index, 0, removed);
+          return { ...s, following };
+        });
       },
-      error: () => {
-        this._state.update(s => ({ ...s, error: 'Error al dejar de seguir usuario' }));
-      }
-    });
+      request: context => this.followService.unfollowUser(followedId, context),
+      errorMessage: 'Error al dejar de seguir usuario'
+    }).subscribe({ error: () => {} });
   }
 
   // MÉTODOS PRIVADOS
@@ -11,7 +11,9 @@ import { MatIconModule } from '@angular/material/icon';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { Subject, takeUntil } from 'rxjs';
 import { PostService } from '../../data-access/post.service';
-import { ErrorHandlerService } from '@core/services';
+import { ErrorHandlerService, OutboxService } from '@core/services';
+import { withInlineErrors } from '@core/interceptors';
+import { SERVER_ERROR_KEY, applyServerErrors } from '@core/errors';
 import { PrivacyType } from '../../models';
 
 // INTERFACES
@@ -55,6 +57,7 @@ export class CreatePostModalComponent implements OnDestroy {
   private readonly fb = inject(FormBuilder);
   private readonly postService = inject(PostService);
   private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly outboxService = inject(OutboxService);
 
   // DESTROY SUBJECT
   private readonly destroy$ = new Subject<void>();
@@ -132,7 +135,8 @@ export class CreatePostModalComponent implements OnDestroy {
         privacyType: this.privacyType?.value
       };
 
-      this.postService.create(postData).pipe(
+      // El error se muestra dentro del modal: sin toast global
+      this.postService.create(postData, withInlineErrors()).pipe(
         takeUntil(this.destroy$)
       ).subscribe({
         next: (response) => {
@@ -141,7 +145,15 @@ export class CreatePostModalComponent implements OnDestroy {
         },
         error: (error) => {
           this._loading.set(false);
-          this._error.set(this.errorHandler.getPostErrorMessage(error));
+          // Sin red el post queda en el outbox y el feed lo muestra como pendiente
+          if (this.outboxService.wasQueued(error)) {
+            this.dialogRef.close();
+            return;
+          }
+          // Los errores de validación del backend se muestran bajo su campo
+          if (!applyServerErrors(this.postForm, error)) {
+            this._error.set(this.errorHandler.getPostErrorMessage(error));
+          }
         }
       });
     }
@@ -193,6 +205,10 @@ export class CreatePostModalComponent implements OnDestroy {
 
     const errors = field.errors;
 
+    if (errors[SERVER_ERROR_KEY]) {
+      return errors[SERVER_ERROR_KEY];
+    }
+
     if (errors['required']) {
       return 'Este campo es requerido';
     }
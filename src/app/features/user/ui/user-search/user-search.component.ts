@@ -11,7 +11,9 @@ import { MatTabsModule } from '@angular/material/tabs';
 import { MatDialog } from '@angular/material/dialog';
 import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
 import { FormsModule } from '@angular/forms';
-import { Subject, takeUntil } from 'rxjs';
+import { ScrollingModule } from '@angular/cdk/scrolling';
+import { HttpContext } from '@angular/common/http';
+import { Subject, finalize, takeUntil } from 'rxjs';
 import { UserService } from '../../data-access/user.service';
 import { PostService } from '../../data-access/post.service';
 import { FollowService } from '../../data-access/follow.service';
@@ -25,9 +27,13 @@ import {
   ReactionType,
   ReactionResponse,
   UserWithFollow,
-  PostWithInteractions
+  PostWithInteractions,
+  PostInteractions
 } from '../../models';
 import { DateFormatPipe } from '@shared/pipes';
+import { VariableItemSizeDirective, VirtualItemKeyDirective } from '@shared/directives';
+import { hasApiErrorCode } from '@core/errors';
+import { EntityChanges, EntityStoreService, OptimisticUpdateService, OutboxService, Rollback } from '@core/services';
 import { ReportModalComponent, ReportModalResult } from '../post-report/report-modal.component';
 
 // COMPONENTE PRINCIPAL
@@ -44,6 +50,9 @@ import { ReportModalComponent, ReportModalResult } from '../post-report/report-m
     MatTabsModule,
     MatSnackBarModule,
     FormsModule,
+    ScrollingModule,
+    VariableItemSizeDirective,
+    VirtualItemKeyDirective,
     DateFormatPipe
   ],
   templateUrl: './user-search.component.html',
@@ -85,19 +94,32 @@ export class UserFeedComponent implements OnDestroy {
   /** Servicio de notificaciones */
   private readonly snackBar = inject(MatSnackBar);
 
+  /** Almacén normalizado de usuarios y publicaciones */
+  private readonly entityStore = inject(EntityStoreService);
+
+  /** Mutaciones optimistas con rollback */
+  private readonly optimisticUpdate = inject(OptimisticUpdateService);
+
+  /** Cola de mutaciones sin red */
+  private readonly outboxService = inject(OutboxService);
+
   // SIGNALS PRIVADOS PARA ESTADO INTERNO
 
   /** Estado consolidado del componente */
   private readonly _state = signal<{
-    user: UserWithFollow | null;
-    posts: PostWithInteractions[];
+    userId: number | null;
+    isFollowing: boolean;
+    postIds: number[];
+    interactions: Record<number, PostInteractions>;
     loading: boolean;
     postsLoading: boolean;
     error: string | null;
     currentUserId: number | null;
   }>({
-    user: null,
-    posts: [],
+    userId: null,
+    isFollowing: false,
+    postIds: [],
+    interactions: {},
     loading: false,
     postsLoading: false,
     error: null,
@@ -117,11 +139,21 @@ export class UserFeedComponent implements OnDestroy {
 
   // SIGNALS PÚBLICOS (READONLY)
 
-  /** Usuario del perfil (solo lectura) */
-  readonly user = computed(() => this._state().user);
+  /** Usuario del perfil, leído del almacén de entidades (solo lectura) */
+  readonly user = computed((): UserWithFollow | null => {
+    const { userId, isFollowing } = this._state();
+    const user = this.entityStore.user(userId);
+    return user ? { ...user, isFollowing } : null;
+  });
 
-  /** Publicaciones del usuario (solo lectura) */
-  readonly posts = computed(() => this._state().posts);
+  /** Publicaciones del usuario con el estado de interacción de esta vista (solo lectura) */
+  readonly posts = computed((): PostWithInteractions[] => {
+    const { postIds, interactions } = this._state();
+    return this.entityStore.selectPosts(postIds).map(post => ({ ...post, ...interactions[post.id] }));
+  });
+
+  /** IDs de las publicaciones pintadas, en orden (claves de altura del virtual scroll) */
+  readonly postIds = computed(() => this.posts().map(post => post.id));
 
   /** Estado de carga del perfil (solo lectura) */
   readonly loading = computed(() => this._state().loading);
@@ -141,7 +173,7 @@ export class UserFeedComponent implements OnDestroy {
    * Indica si el usuario del perfil es el usuario actual
    */
   readonly isCurrentUser = computed(() => {
-    return this._state().user?.id === this._state().currentUserId;
+    return this._state().userId === this._state().currentUserId;
   });
 
   // CONSTRUCTOR Y CICLO DE VIDA
@@ -160,7 +192,7 @@ export class UserFeedComponent implements OnDestroy {
    * @returns Nombre completo del usuario o cadena vacía
    */
   getUserDisplayName(): string {
-    const user = this._state().user;
+    const user = this.user();
     return user ? `${user.firstName} ${user.lastName}` : '';
   }
 
@@ -171,14 +203,13 @@ export class UserFeedComponent implements OnDestroy {
     const userId = this.route.snapshot.paramMap.get('id');
     if (!userId) return;
 
-    this.followService.followUser({ userId: +userId }).pipe(
+    this.optimisticUpdate.execute({
+      apply: () => this.applyFollowing(true),
+      request: context => this.followService.followUser({ userId: +userId }, context),
+      errorMessage: 'No se pudo seguir al usuario'
+    }).pipe(
       takeUntil(this.destroy$)
-    ).subscribe(() => {
-      this._state.update(s => ({
-        ...s,
-        user: s.user ? { ...s.user, isFollowing: true } : null
-      }));
-    });
+    ).subscribe({ error: () => {} });
   }
 
   /**
@@ -188,14 +219,13 @@ export class UserFeedComponent implements OnDestroy {
     const userId = this.route.snapshot.paramMap.get('id');
     if (!userId) return;
 
-    this.followService.unfollowUser(+userId).pipe(
+    this.optimisticUpdate.execute({
+      apply: () => this.applyFollowing(false),
+      request: context => this.followService.unfollowUser(+userId, context),
+      errorMessage: 'No se pudo dejar de seguir al usuario'
+    }).pipe(
       takeUntil(this.destroy$)
-    ).subscribe(() => {
-      this._state.update(s => ({
-        ...s,
-        user: s.user ? { ...s.user, isFollowing: false } : null
-      }));
-    });
+    ).subscribe({ error: () => {} });
   }
 
   /**
@@ -205,6 +235,13 @@ export class UserFeedComponent implements OnDestroy {
     this.router.navigate(['/dashboard/profile']);
   }
 
+  /**
+   * Identidad de las publicaciones para *cdkVirtualFor
+   */
+  trackByPostId(_: number, post: PostWithInteractions): number {
+    return post.id;
+  }
+
   /**
    * Alterna la expansión del contenido de un post
    */
@@ -248,36 +285,50 @@ export class UserFeedComponent implements OnDestroy {
   }
 
   /**
-   * Agrega un nuevo comentario a una publicación
+   * Agrega un nuevo comentario a una publicación. Se pinta al instante con un ID
+   * provisional y se sustituye por el del servidor al confirmarse.
    * @param postId - ID de la publicación
    */
   addComment(postId: number): void {
     const post = this.posts().find(p => p.id === postId);
+    const currentUser = this.entityStore.user(this._state().currentUserId);
     const text = this.newCommentText[postId]?.trim();
-    if (!post || !text) return;
-
-    this.commentService.create({
-      postId,
-      content: text
-    }).pipe(
-      takeUntil(this.destroy$)
-    ).subscribe({
-      next: (comment) => {
-        post.commentCount = (post.commentCount || 0) + 1;
-
+    if (!post || !currentUser || !text) return;
+
+    const draft: Comment = {
+      id: -Date.now(),
+      content: text,
+      creationDate: new Date().toISOString(),
+      author: currentUser,
+      postId
+    };
+    this.newCommentText[postId] = '';
+
+    this.optimisticUpdate.execute({
+      apply: () => {
+        this.entityStore.patchPost(postId, p => ({ commentCount: (p.commentCount || 0) + 1 }));
         if (this.expandedComments.has(postId)) {
-          if (!post.comments) {
-            post.comments = [];
-          }
-          post.comments.push(comment);
+          this.updateInteractions(postId, i => ({ comments: [...(i.comments ?? []), draft] }));
         }
-
-        this.newCommentText[postId] = '';
-        // Forzar actualización del state
-        this._state.update(s => ({ ...s, posts: [...s.posts] }));
+        return () => {
+          this.entityStore.patchPost(postId, p => ({ commentCount: Math.max(0, (p.commentCount || 1) - 1) }));
+          this.updateInteractions(postId, i => ({ comments: i.comments?.filter(c => c !== draft) }));
+        };
       },
+      request: context => this.commentService.create({ postId, content: text }, context),
+      reconcile: comment => this.updateInteractions(postId, i => ({
+        comments: i.comments?.map(c => c === draft ? comment : c)
+      })),
+      errorMessage: 'No se pudo publicar el comentario',
+      queueable: true
+    }).pipe(
+      takeUntil(this.destroy$)
+    ).subscribe({
       error: (error) => {
-
+        // Si no se ha quedado en el outbox, el texto vuelve al campo para reintentarlo
+        if (!this.outboxService.wasQueued(error)) {
+          this.newCommentText[postId] = text;
+        }
       }
     });
   }
@@ -289,23 +340,30 @@ export class UserFeedComponent implements OnDestroy {
    */
   deleteComment(postId: number, commentId: number): void {
     const post = this.posts().find(p => p.id === postId);
-    if (!post || !post.comments) return;
-
-    this.commentService.delete(commentId).pipe(
-      takeUntil(this.destroy$)
-    ).subscribe({
-      next: () => {
-        // Eliminar el comentario del array local
-        post.comments = post.comments!.filter(c => c.id !== commentId);
-        // Decrementar el contador de comentarios
-        post.commentCount = Math.max(0, (post.commentCount || 1) - 1);
-        // Forzar actualización del state
-        this._state.update(s => ({ ...s, posts: [...s.posts] }));
+    const index = post?.comments?.findIndex(c => c.id === commentId) ?? -1;
+    if (!post?.comments || index < 0) return;
+
+    const comment = post.comments[index];
+
+    this.optimisticUpdate.execute({
+      apply: () => {
+        this.updateInteractions(postId, i => ({ comments: i.comments?.filter(c => c.id !== commentId) }));
+        this.entityStore.patchPost(postId, p => ({ commentCount: Math.max(0, (p.commentCount || 1) - 1) }));
+        return () => {
+          // Vuelve a su posición original
+          this.updateInteractions(postId, i => {
+            const comments = [...(i.comments ?? [])];
+            comments.splice(index, 0, comment);
+            return { comments };
+          });
+          this.entityStore.patchPost(postId, p => ({ commentCount: (p.commentCount || 0) + 1 }));
+        };
       },
-      error: (error) => {
-        console.error('Error al eliminar comentario:', error);
-      }
-    });
+      request: context => this.commentService.delete(commentId, context),
+      errorMessage: 'No se pudo eliminar el comentario'
+    }).pipe(
+      takeUntil(this.destroy$)
+    ).subscribe({ error: () => {} });
   }
 
   /**
@@ -318,50 +376,43 @@ export class UserFeedComponent implements OnDestroy {
   }
 
   /**
-   * Alterna el like de una publicación
+   * Alterna el like de una publicación (optimista: el contador cambia al instante)
    * @param postId - ID de la publicación
    */
   toggleLike(postId: number): void {
     const post = this.posts().find(p => p.id === postId);
-    if (!post) return;
-
-    if (post.isProcessingLike) return;
-    post.isProcessingLike = true;
-
-    if (post.userReaction?.reactionType === 'LIKE') {
-      this.reactionService.removeReaction(postId).pipe(
-        takeUntil(this.destroy$)
-      ).subscribe({
-        next: () => {
-          post.userReaction = undefined;
-          post.likeCount = Math.max(0, (post.likeCount || 1) - 1);
-          post.isProcessingLike = false;
-          // Forzar actualización del state
-          this._state.update(s => ({ ...s, posts: [...s.posts] }));
-        },
-        error: () => {
-          post.isProcessingLike = false;
-        }
-      });
-    } else {
-      this.reactionService.reactToPost(postId, ReactionType.LIKE).pipe(
-        takeUntil(this.destroy$)
-      ).subscribe({
-        next: (response: ReactionResponse | ReactionApiResponse) => {
-          if ('id' in response) {
-            post.userReaction = response as ReactionResponse;
-            post.likeCount = (post.likeCount || 0) + 1;
-          } else if ('message' in response && response.message) {
-          }
-          post.isProcessingLike = false;
-          // Forzar actualización del state
-          this._state.update(s => ({ ...s, posts: [...s.posts] }));
-        },
-        error: () => {
-          post.isProcessingLike = false;
-        }
-      });
-    }
+    const currentUser = this.entityStore.user(this._state().currentUserId);
+    // Una sola petición de like/unlike en curso por post
+    if (!post || !currentUser || post.isProcessingLike) return;
+
+    const liked = post.userReaction?.reactionType === 'LIKE';
+    // Reacción provisional hasta que el servidor devuelva la real
+    const reaction: ReactionResponse | undefined = liked ? undefined : {
+      id: -Date.now(),
+      reactionType: ReactionType.LIKE,
+      creationDate: new Date().toISOString(),
+      user: currentUser,
+      postId
+    };
+    const request = liked
+      ? (context: HttpContext) => this.reactionService.removeReaction(postId, context)
+      : (context: HttpContext) => this.reactionService.reactToPost(postId, ReactionType.LIKE, context);
+
+    this.updateInteractions(postId, { isProcessingLike: true });
+
+    this.optimisticUpdate.execute<ReactionResponse | ReactionApiResponse>({
+      apply: () => this.applyLike(postId, reaction, post.userReaction),
+      request,
+      // La reacción real sustituye a la provisional
+      reconcile: response => {
+        if ('id' in response) this.updateInteractions(postId, { userReaction: response });
+      },
+      errorMessage: 'No se pudo actualizar el me gusta',
+      queueable: true
+    }).pipe(
+      finalize(() => this.updateInteractions(postId, { isProcessingLike: false })),
+      takeUntil(this.destroy$)
+    ).subscribe({ error: () => {} });
   }
 
   /**
@@ -395,9 +446,8 @@ export class UserFeedComponent implements OnDestroy {
             // Reporte exitoso, no mostrar mensaje
           },
           error: (error) => {
-            const errorMessage = error?.error?.message || error?.message || '';
-            if (errorMessage.toLowerCase().includes('ya has reportado') ||
-              errorMessage.toLowerCase().includes('already reported')) {
+            // Sin código específico, un 409 al reportar solo puede ser un duplicado
+            if (hasApiErrorCode(error, 'REPORT_ALREADY_SUBMITTED', 'CONFLICT')) {
               this.snackBar.open('⚠️ Ya has reportado esta publicación anteriormente', 'Cerrar', {
                 duration: 5000,
                 horizontalPosition: 'center',
@@ -430,7 +480,7 @@ export class UserFeedComponent implements OnDestroy {
       takeUntil(this.destroy$)
     ).subscribe(params => {
       const newUserId = params['id'];
-      if (newUserId && newUserId !== this._state().user?.id?.toString()) {
+      if (newUserId && newUserId !== this._state().userId?.toString()) {
         this.loadUserData();
       }
     });
@@ -494,7 +544,7 @@ export class UserFeedComponent implements OnDestroy {
 
     this.userService.getUserById(+userId).subscribe({
       next: (user) => {
-        this._state.update(s => ({ ...s, user, loading: false }));
+        this._state.update(s => ({ ...s, userId: user.id, isFollowing: false, loading: false }));
         this.loadUserPosts();
         this.checkFollowStatus();
       },
@@ -521,7 +571,12 @@ export class UserFeedComponent implements OnDestroy {
 
     posts$.subscribe({
       next: (response) => {
-        this._state.update(s => ({ ...s, posts: response.content, postsLoading: false }));
+        this._state.update(s => ({
+          ...s,
+          postIds: response.content.map(post => post.id),
+          interactions: {},
+          postsLoading: false
+        }));
         this.loadUserReactions();
       },
       error: (err) => {
@@ -534,9 +589,9 @@ export class UserFeedComponent implements OnDestroy {
    * Carga las reacciones del usuario a los posts
    */
   private loadUserReactions(): void {
-    this._state().posts.forEach(post => {
-      this.reactionService.getMyReaction(post.id).subscribe(reaction => {
-        post.userReaction = reaction || undefined;
+    this._state().postIds.forEach(postId => {
+      this.reactionService.getMyReaction(postId).subscribe(reaction => {
+        this.updateInteractions(postId, { userReaction: reaction || undefined });
       });
     });
   }
@@ -549,10 +604,7 @@ export class UserFeedComponent implements OnDestroy {
     if (!userId || this.isCurrentUser()) return;
 
     this.followService.checkFollow(+userId).subscribe(isFollowing => {
-      this._state.update(s => ({
-        ...s,
-        user: s.user ? { ...s.user, isFollowing } : null
-      }));
+      this._state.update(s => ({ ...s, isFollowing }));
     });
   }
 
@@ -568,32 +620,57 @@ export class UserFeedComponent implements OnDestroy {
         takeUntil(this.destroy$)
       ).subscribe({
         next: (response) => {
-          post.comments = response.content || [];
-          // Forzar actualización del state para detectar cambios
-          this._state.update(s => ({ ...s, posts: [...s.posts] }));
+          this.updateInteractions(postId, { comments: response.content || [] });
         },
         error: (error) => {
           console.error('Error al cargar comentarios:', error);
           // No cerrar la sección, solo inicializar vacío si es necesario
-          if (!post.comments) {
-            post.comments = [];
-          }
-          // Forzar actualización incluso en error
-          this._state.update(s => ({ ...s, posts: [...s.posts] }));
+          this.updateInteractions(postId, i => ({ comments: i.comments ?? [] }));
         }
       });
     }
   }
 
   /**
-   * Actualiza el contador de comentarios de una publicación
+   * Cambia en local si se sigue al usuario del perfil y devuelve el rollback
+   * @param following - Nuevo estado
+   */
+  private applyFollowing(following: boolean): Rollback {
+    const previous = this._state().isFollowing;
+    this._state.update(s => ({ ...s, isFollowing: following }));
+    return () => this._state.update(s => ({ ...s, isFollowing: previous }));
+  }
+
+  /**
+   * Marca (con `reaction`) o desmarca el like en local y devuelve el rollback
    * @param postId - ID de la publicación
-   * @param increment - Incremento a aplicar
+   * @param reaction - Nueva reacción, o undefined para quitarla
+   * @param previous - Reacción anterior, para restaurarla
    */
-  private updateCommentCount(postId: number, increment: number): void {
-    const post = this.posts().find(p => p.id === postId);
-    if (post) {
-      post.commentCount = (post.commentCount || 0) + increment;
-    }
+  private applyLike(postId: number, reaction: ReactionResponse | undefined, previous: ReactionResponse | undefined): Rollback {
+    const delta = reaction ? 1 : -1;
+    const adjust = (step: number) =>
+      this.entityStore.patchPost(postId, p => ({ likeCount: Math.max(0, (p.likeCount || 0) + step) }));
+
+    this.updateInteractions(postId, { userReaction: reaction });
+    adjust(delta);
+
+    return () => {
+      this.updateInteractions(postId, { userReaction: previous });
+      adjust(-delta);
+    };
+  }
+
+  /**
+   * Actualiza el estado de interacción de esta vista con una publicación
+   * @param postId - ID de la publicación
+   * @param changes - Cambios a aplicar
+   */
+  private updateInteractions(postId: number, changes: EntityChanges<PostInteractions>): void {
+    this._state.update(s => {
+      const current = s.interactions[postId] ?? {};
+      const next = typeof changes === 'function' ? changes(current) : changes;
+      return { ...s, interactions: { ...s.interactions, [postId]: { ...current, ...next } } };
+    });
   }
 }
@@ -27,3 +27,24 @@ export interface SortableListParams extends BaseListParams {
 export interface SearchableListParams extends SortableListParams {
   query?: string;
 }
+
+/**
+ * Parámetros para tablas ordenables por varias columnas.
+ * Cada criterio (`campo,asc|desc`) se envía como un parámetro `sort` repetido,
+ * en orden de prioridad.
+ */
+export interface MultiSortListParams extends BaseListParams {
+  sort?: string | string[];
+
+  query?: string;
+}
+
+/**
+ * Parámetros para listas paginadas por cursor.
+ * Sin `cursor` se pide la primera página.
+ */
+export interface CursorListParams {
+  cursor?: string | null;
+
+  size?: number;
+}
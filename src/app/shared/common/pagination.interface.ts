@@ -15,3 +15,15 @@ export interface PaginatedResponse<T> {
   first: boolean;
   last: boolean;
 }
+
+/**
+ * Página de una lista paginada por cursor (keyset).
+ * `nextCursor` es opaco: se reenvía tal cual para pedir la página siguiente y es null en la última.
+ *
+ * @template T - Tipo de contenido de la página
+ */
+export interface CursorPage<T> {
+  content: T[];
+  nextCursor: string | null;
+  size: number;
+}
@@ -0,0 +1,44 @@
+// Directiva estructural: muestra su contenido solo si el usuario tiene los permisos indicados
+
+import { Directive, TemplateRef, ViewContainerRef, computed, effect, inject, input } from '@angular/core';
+import { AuthService } from '../../features/auth/data-access/auth.service';
+import { Permission } from '../../features/auth/models';
+
+/**
+ * Uso: `<button *hasPermission="'reports.resolve'">`, con varios permisos
+ * `*hasPermission="['users.manage', 'users.delete']"` o con alternativa
+ * `*hasPermission="'users.delete'; else readOnly"`.
+ */
+@Directive({
+  selector: '[hasPermission]',
+  standalone: true
+})
+export class HasPermissionDirective {
+  private readonly authService = inject(AuthService);
+  private readonly templateRef = inject(TemplateRef<unknown>);
+  private readonly viewContainer = inject(ViewContainerRef);
+
+  /** Permiso o permisos necesarios (todos) */
+  readonly hasPermission = input.required<Permission | Permission[]>();
+
+  /** Plantilla a mostrar sin permisos */
+  readonly hasPermissionElse = input<TemplateRef<unknown> | null>(null);
+
+  /** Plantilla que corresponde pintar; solo cambia si cambia el resultado */
+  private readonly activeTemplate = computed(() => {
+    const required = this.hasPermission();
+    const allowed = this.authService.hasPermission(...(Array.isArray(required) ? required : [required]));
+    return allowed ? this.templateRef : this.hasPermissionElse();
+  });
+
+  constructor() {
+    effect(() => {
+      const template = this.activeTemplate();
+
+      this.viewContainer.clear();
+      if (template) {
+        this.viewContainer.createEmbeddedView(template);
+      }
+    });
+  }
+}
@@ -0,0 +1,41 @@
+// Directiva estructural: muestra su contenido solo si un feature flag está activo
+
+import { Directive, TemplateRef, ViewContainerRef, computed, effect, inject, input } from '@angular/core';
+import { FeatureFlagService } from '../../core/services/feature-flag.service';
+
+/**
+ * Uso: `<button *ifFeature="'chatbot'">` o con alternativa
+ * `<div *ifFeature="'chatbot'; else fallback">`.
+ * Reacciona a los cambios de flag (cambio de usuario u override local).
+ */
+@Directive({
+  selector: '[ifFeature]',
+  standalone: true
+})
+export class IfFeatureDirective {
+  private readonly featureFlags = inject(FeatureFlagService);
+  private readonly templateRef = inject(TemplateRef<unknown>);
+  private readonly viewContainer = inject(ViewContainerRef);
+
+  /** Nombre del flag */
+  readonly ifFeature = input.required<string>();
+
+  /** Plantilla a mostrar cuando el flag está desactivado */
+  readonly ifFeatureElse = input<TemplateRef<unknown> | null>(null);
+
+  /** Plantilla que corresponde pintar; solo cambia si cambia el estado del flag */
+  private readonly activeTemplate = computed(() =>
+    this.featureFlags.isEnabled(this.ifFeature()) ? this.templateRef : this.ifFeatureElse()
+  );
+
+  constructor() {
+    effect(() => {
+      const template = this.activeTemplate();
+
+      this.viewContainer.clear();
+      if (template) {
+        this.viewContainer.createEmbeddedView(template);
+      }
+    });
+  }
+}
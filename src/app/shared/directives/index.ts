@@ -0,0 +1,4 @@
+// Barrel file: Shared Directives
+export * from './has-permission.directive';
+export * from './if-feature.directive';
+export * from './virtual-scroll.directive';
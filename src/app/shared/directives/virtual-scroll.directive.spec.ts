@@ -0,0 +1,104 @@
+import { ListRange } from '@angular/cdk/collections';
+import { CdkVirtualScrollViewport } from '@angular/cdk/scrolling';
+import { VariableSizeVirtualScrollStrategy } from './virtual-scroll.directive';
+
+/**
+ * Viewport con `scrollWindow` simulado: la ventana hace scroll y el viewport
+ * empieza `viewportTop` px más abajo (cabecera, filtros...).
+ */
+class FakeWindowViewport {
+  windowScroll = 0;
+  totalSize = 0;
+  range: ListRange = { start: 0, end: 0 };
+  contentOffset = 0;
+  readonly scrollCalls: number[] = [];
+
+  constructor(public dataLength: number, readonly viewportTop = 300, readonly viewportSize = 600) { }
+
+  getDataLength(): number { return this.dataLength; }
+  getViewportSize(): number { return this.viewportSize; }
+  measureViewportOffset(): number { return this.viewportTop; }
+  measureScrollOffset(): number { return Math.max(0, this.windowScroll - this.viewportTop); }
+  scrollToOffset(offset: number): void {
+    this.scrollCalls.push(offset);
+    this.windowScroll = offset;
+  }
+  setTotalContentSize(size: number): void { this.totalSize = size; }
+  setRenderedRange(range: ListRange): void { this.range = range; }
+  setRenderedContentOffset(offset: number): void { this.contentOffset = offset; }
+}
+
+describe('VariableSizeVirtualScrollStrategy', () => {
+  let viewport: FakeWindowViewport;
+  let strategy: VariableSizeVirtualScrollStrategy;
+
+  const attach = (keys: string[]) => {
+    viewport = new FakeWindowViewport(keys.length);
+    strategy = new VariableSizeVirtualScrollStrategy(100, 0);
+    strategy.setKeys(keys);
+    strategy.attach(viewport as unknown as CdkVirtualScrollViewport);
+  };
+
+  it('usa la altura estimada para los elementos sin medir', () => {
+    attach(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']);
+
+    expect(viewport.totalSize).toBe(800);
+    expect(viewport.range).toEqual({ start: 0, end: 6 });
+  });
+
+  it('sustituye la estimación por la altura medida', () => {
+    attach(['a', 'b', 'c']);
+    strategy.setItemSize('b', 250);
+
+    expect(viewport.totalSize).toBe(450);
+  });
+
+  it('compensa en coordenadas de ventana cuando crece un elemento por encima del visible', () => {
+    attach(['a', 'b', 'c', 'd', 'e']);
+    // 50 px dentro de "c" (que empieza en 200 dentro del viewport)
+    viewport.windowScroll = 300 + 250;
+
+    strategy.setItemSize('a', 160);
+
+    expect(viewport.scrollCalls).toEqual([300 + 310]);
+    expect(viewport.measureScrollOffset()).toBe(310);
+  });
+
+  it('no mueve el scroll si el elemento que cambia está por debajo del visible', () => {
+    attach(['a', 'b', 'c', 'd', 'e']);
+    viewport.windowScroll = 300 + 150;
+
+    strategy.setItemSize('d', 400);
+
+    expect(viewport.scrollCalls).toEqual([]);
+  });
+
+  it('mantiene el elemento visible al insertar otros delante', () => {
+    attach(['c', 'd', 'e']);
+    viewport.windowScroll = 300 + 130;
+
+    viewport.dataLength = 5;
+    strategy.setKeys(['a', 'b', 'c', 'd', 'e']);
+
+    // "d" pasa de empezar en 100 a empezar en 300; se conservan los 30 px dentro de él
+    expect(viewport.measureScrollOffset()).toBe(330);
+  });
+
+  it('no compensa mientras el viewport no ha llegado al borde superior', () => {
+    attach(['a', 'b', 'c']);
+    viewport.windowScroll = 120;
+
+    strategy.setItemSize('a', 300);
+
+    expect(viewport.scrollCalls).toEqual([]);
+  });
+
+  it('scrollToIndex desplaza la ventana hasta el elemento', () => {
+    attach(['a', 'b', 'c', 'd']);
+    strategy.setItemSize('a', 180);
+
+    strategy.scrollToIndex(2, 'auto');
+
+    expect(viewport.scrollCalls).toEqual([300 + 280]);
+  });
+});
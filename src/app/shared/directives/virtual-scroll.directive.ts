@@ -0,0 +1,221 @@
+// Directivas de virtual scroll con elementos de altura variable (sobre @angular/cdk/scrolling)
+
+import { Directive, ElementRef, OnDestroy, effect, forwardRef, inject, input } from '@angular/core';
+import { CdkVirtualScrollViewport, VIRTUAL_SCROLL_STRATEGY, VirtualScrollStrategy } from '@angular/cdk/scrolling';
+import { Subject, distinctUntilChanged } from 'rxjs';
+
+/**
+ * Estrategia del viewport para elementos de altura variable.
+ * Parte de una altura estimada y la sustituye por la real que mide VirtualItemKeyDirective.
+ * Las alturas se guardan por clave (no por índice), así que añadir elementos
+ * delante no las descoloca.
+ */
+export class VariableSizeVirtualScrollStrategy implements VirtualScrollStrategy {
+  private readonly index$ = new Subject<number>();
+  readonly scrolledIndexChange = this.index$.pipe(distinctUntilChanged());
+
+  private viewport: CdkVirtualScrollViewport | null = null;
+  private keys: readonly unknown[] = [];
+  private readonly sizes = new Map<unknown, number>();
+
+  constructor(
+    private estimatedSize: number,
+    private bufferPx: number
+  ) { }
+
+  attach(viewport: CdkVirtualScrollViewport): void {
+    this.viewport = viewport;
+    this.updateRenderedRange();
+  }
+
+  detach(): void {
+    this.index$.complete();
+    this.viewport = null;
+  }
+
+  onContentScrolled(): void {
+    this.updateRenderedRange();
+  }
+
+  onDataLengthChanged(): void {
+    this.updateRenderedRange();
+  }
+
+  onContentRendered(): void { }
+
+  onRenderedOffsetChanged(): void { }
+
+  scrollToIndex(index: number, behavior: ScrollBehavior): void {
+    this.scrollTo(this.offsetOf(index), behavior);
+  }
+
+  /**
+   * Ajusta la estimación y el margen de renderizado.
+   */
+  configure(estimatedSize: number, bufferPx: number): void {
+    this.estimatedSize = estimatedSize;
+    this.bufferPx = bufferPx;
+    this.updateRenderedRange();
+  }
+
+  /**
+   * Claves de los elementos en el orden en que se pintan.
+   * Mantiene en su sitio el elemento visible aunque se inserten otros por encima.
+   */
+  setKeys(keys: readonly unknown[]): void {
+    this.keepAnchor(() => this.keys = keys);
+  }
+
+  /**
+   * Registra la altura real de un elemento (al pintarse, expandir comentarios o cargar una imagen).
+   * Si el elemento está por encima del visible, el scroll se compensa para que no salte.
+   */
+  setItemSize(key: unknown, size: number): void {
+    if (this.sizes.get(key) === size) return;
+    this.keepAnchor(() => this.sizes.set(key, size));
+  }
+
+  // UTILIDADES PRIVADAS
+
+  /**
+   * Aplica un cambio conservando la posición en pantalla del primer elemento visible.
+   */
+  private keepAnchor(change: () => void): void {
+    const viewport = this.viewport;
+    if (!viewport) {
+      change();
+      return;
+    }
+
+    const scrollOffset = viewport.measureScrollOffset();
+    const anchorIndex = this.indexAt(scrollOffset);
+    const anchorKey = this.keys[anchorIndex];
+    const anchorDelta = scrollOffset - this.offsetOf(anchorIndex);
+
+    change();
+
+    const newIndex = anchorKey === undefined ? -1 : this.keys.indexOf(anchorKey);
+    if (newIndex >= 0 && scrollOffset > 0) {
+      const target = this.offsetOf(newIndex) + anchorDelta;
+      if (target !== scrollOffset) {
+        this.scrollTo(target);
+      }
+    }
+    this.updateRenderedRange();
+  }
+
+  /**
+   * Lleva el scroll a un desplazamiento relativo al inicio del viewport.
+   * Con `scrollWindow`, measureScrollOffset() descuenta lo que hay por encima del viewport
+   * pero scrollToOffset() mueve la ventana: hay que volver a sumarlo.
+   */
+  private scrollTo(offset: number, behavior: ScrollBehavior = 'auto'): void {
+    const viewport = this.viewport;
+    viewport?.scrollToOffset(offset + viewport.measureViewportOffset(), behavior);
+  }
+
+  private sizeAt(index: number): number {
+    return this.sizes.get(this.keys[index]) ?? this.estimatedSize;
+  }
+
+  private offsetOf(index: number): number {
+    let offset = 0;
+    for (let i = 0; i < index; i++) offset += this.sizeAt(i);
+    return offset;
+  }
+
+  /** Índice del elemento que ocupa el desplazamiento dado */
+  private indexAt(offset: number): number {
+    const length = this.viewport?.getDataLength() ?? 0;
+    let end = 0;
+    for (let i = 0; i < length; i++) {
+      end += this.sizeAt(i);
+      if (end > offset) return i;
+    }
+    return Math.max(0, length - 1);
+  }
+
+  private updateRenderedRange(): void {
+    const viewport = this.viewport;
+    if (!viewport) return;
+
+    const length = viewport.getDataLength();
+    const scrollOffset = viewport.measureScrollOffset();
+    const viewportSize = viewport.getViewportSize();
+
+    const start = this.indexAt(Math.max(0, scrollOffset - this.bufferPx));
+    let end = start;
+    let offset = this.offsetOf(start);
+    while (end < length && offset < scrollOffset + viewportSize + this.bufferPx) {
+      offset += this.sizeAt(end);
+      end++;
+    }
+
+    viewport.setTotalContentSize(this.offsetOf(length));
+    viewport.setRenderedRange({ start, end });
+    viewport.setRenderedContentOffset(this.offsetOf(start));
+    this.index$.next(this.indexAt(scrollOffset));
+  }
+}
+
+/**
+ * Uso: `<cdk-virtual-scroll-viewport scrollWindow [variableItemSize]="ids">`
+ * con `[virtualItemKey]="id"` en cada elemento pintado por `*cdkVirtualFor`.
+ */
+@Directive({
+  selector: 'cdk-virtual-scroll-viewport[variableItemSize]',
+  standalone: true,
+  providers: [{
+    provide: VIRTUAL_SCROLL_STRATEGY,
+    useFactory: (directive: VariableItemSizeDirective) => directive.strategy,
+    deps: [forwardRef(() => VariableItemSizeDirective)]
+  }]
+})
+export class VariableItemSizeDirective {
+  /** Claves de los elementos, en el mismo orden que los datos de `*cdkVirtualFor` */
+  readonly variableItemSize = input.required<readonly unknown[]>();
+
+  /** Altura estimada (px) de un elemento aún no medido */
+  readonly estimatedItemSize = input(400);
+
+  /** Altura extra (px) que se pinta por encima y por debajo de lo visible */
+  readonly bufferPx = input(800);
+
+  readonly strategy = new VariableSizeVirtualScrollStrategy(400, 800);
+
+  constructor() {
+    effect(() => this.strategy.configure(this.estimatedItemSize(), this.bufferPx()));
+    effect(() => this.strategy.setKeys(this.variableItemSize()));
+  }
+}
+
+/**
+ * Mide un elemento del viewport (ResizeObserver) y comunica su altura a la estrategia.
+ * Conviene que el elemento contenga sus márgenes (p. ej. `display: flow-root`).
+ */
+@Directive({
+  selector: '[virtualItemKey]',
+  standalone: true
+})
+export class VirtualItemKeyDirective implements OnDestroy {
+  private readonly element = inject<ElementRef<HTMLElement>>(ElementRef);
+  private readonly sizing = inject(VariableItemSizeDirective);
+
+  /** Clave del elemento (la misma que en `variableItemSize`) */
+  readonly virtualItemKey = input.required<unknown>();
+
+  private readonly observer = new ResizeObserver(([entry]) => {
+    const size = entry.borderBoxSize?.[0]?.blockSize ?? this.element.nativeElement.offsetHeight;
+    if (size > 0) {
+      this.sizing.strategy.setItemSize(this.virtualItemKey(), size);
+    }
+  });
+
+  constructor() {
+    this.observer.observe(this.element.nativeElement);
+  }
+
+  ngOnDestroy(): void {
+    this.observer.disconnect();
+  }
+}
@@ -1,5 +1,6 @@
 // Barrel file: Shared
 export * from './common';
+export * from './directives';
 export * from './models';
 export * from './pipes';
 export * from './ui';
@@ -0,0 +1,283 @@
+// DataTable component — tabla genérica con ordenamiento en servidor, filtros, columnas y selección
+
+import {
+  ChangeDetectionStrategy,
+  Component,
+  Directive,
+  TemplateRef,
+  computed,
+  contentChildren,
+  inject,
+  input,
+  linkedSignal,
+  model,
+  output
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatChipsModule, MatChipListboxChange } from '@angular/material/chips';
+import { PaginationComponent } from '../pagination/pagination.component';
+
+// INTERFACES Y TIPOS
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Criterio de ordenamiento. Se envía al backend como `sort=campo,dirección`;
+ * con varios criterios el primero manda y los siguientes desempatan.
+ */
+export interface DataTableSort {
+  field: string;
+  direction: SortDirection;
+}
+
+/**
+ * Definición de una columna
+ */
+export interface DataTableColumn<T> {
+  /** Identificador de la columna (y de su plantilla `appDataTableCell`) */
+  key: string;
+  /** Texto de la cabecera */
+  header: string;
+  /** Valor de la celda cuando no hay plantilla */
+  value?: (row: T) => string | number | null | undefined;
+  /** Campo de ordenamiento en el backend; sin él la columna no se puede ordenar */
+  sortField?: string;
+  /** Oculta hasta que se active en el selector de columnas */
+  hidden?: boolean;
+  /** Siempre visible (no aparece en el selector de columnas) */
+  required?: boolean;
+  /** Clase CSS de la cabecera y las celdas */
+  cssClass?: string;
+}
+
+/**
+ * Opción de un filtro
+ */
+export interface DataTableFilterOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Filtro de valor único que se muestra como grupo de chips
+ */
+export interface DataTableFilter {
+  key: string;
+  label: string;
+  options: DataTableFilterOption[];
+}
+
+/** Valor activo de cada filtro (null = sin filtrar) */
+export type DataTableFilterValues = Record<string, string | null>;
+
+/**
+ * Convierte los criterios de la tabla al formato del parámetro `sort`.
+ * @param sort - Criterios en orden de prioridad
+ */
+export function toSortParams(sort: readonly DataTableSort[]): string[] {
+  return sort.map(({ field, direction }) => `${field},${direction}`);
+}
+
+/**
+ * Plantilla de las celdas de una columna. La fila llega como variable implícita:
+ * `<ng-template appDataTableCell="email" let-user>{{ user.email }}</ng-template>`
+ */
+@Directive({
+  selector: 'ng-template[appDataTableCell]',
+  standalone: true
+})
+export class DataTableCellDirective {
+  /** Clave de la columna */
+  readonly appDataTableCell = input.required<string>();
+
+  readonly template = inject<TemplateRef<{ $implicit: unknown }>>(TemplateRef);
+}
+
+// COMPONENTE PRINCIPAL
+
+/**
+ * La tabla no pide datos: emite los cambios de orden, filtros y página
+ * (`sort`, `filterValues`, `pageChange`) y la página recarga con ellos.
+ * Clic en una cabecera ordena por esa columna; Mayús+clic la añade como criterio secundario.
+ */
+@Component({
+  selector: 'app-data-table',
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatIconModule,
+    MatButtonModule,
+    MatMenuModule,
+    MatCheckboxModule,
+    MatChipsModule,
+    PaginationComponent
+  ],
+  templateUrl: './data-table.component.html',
+  styleUrls: ['./data-table.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class DataTableComponent<T> {
+  // INPUTS
+
+  readonly columns = input.required<DataTableColumn<T>[]>();
+  readonly rows = input.required<T[]>();
+  /** ID de cada fila (identidad y selección) */
+  readonly rowId = input.required<(row: T) => number>();
+  readonly loading = input<boolean>(false);
+  /** Nombre accesible de la tabla */
+  readonly label = input<string>('');
+  readonly emptyMessage = input<string>('No se encontraron resultados');
+  readonly emptyIcon = input<string>('inbox');
+  readonly rowClass = input<(row: T) => string>(() => '');
+  readonly filters = input<DataTableFilter[]>([]);
+  readonly selectable = input<boolean>(false);
+  readonly currentPage = input<number>(0);
+  readonly totalPages = input<number>(0);
+  readonly totalElements = input<number>(0);
+
+  // MODELOS (two-way binding)
+
+  readonly sort = model<DataTableSort[]>([]);
+  readonly filterValues = model<DataTableFilterValues>({});
+  /** IDs de las filas seleccionadas (se conservan al cambiar de página) */
+  readonly selection = model<number[]>([]);
+
+  // OUTPUTS
+
+  readonly pageChange = output<number>();
+
+  // ESTADO
+
+  private readonly cellDirectives = contentChildren(DataTableCellDirective);
+
+  /** Plantillas de celda por clave de columna */
+  readonly cellTemplates = computed(() =>
+    new Map(this.cellDirectives().map(cell => [cell.appDataTableCell(), cell.template]))
+  );
+
+  /** Columnas ocultas; se reinicia si cambian las definiciones */
+  private readonly hiddenColumns = linkedSignal(() =>
+    new Set(this.columns().filter(column => column.hidden).map(column => column.key))
+  );
+
+  readonly visibleColumns = computed(() => this.columns().filter(column => !this.hiddenColumns().has(column.key)));
+  readonly toggleableColumns = computed(() => this.columns().filter(column => !column.required));
+
+  private readonly selectedIds = computed(() => new Set(this.selection()));
+  readonly allRowsSelected = computed(() => {
+    const rows = this.rows();
+    return rows.length > 0 && rows.every(row => this.selectedIds().has(this.rowId()(row)));
+  });
+  readonly someRowsSelected = computed(() =>
+    !this.allRowsSelected() && this.rows().some(row => this.selectedIds().has(this.rowId()(row)))
+  );
+
+  readonly hasActiveFilters = computed(() => Object.values(this.filterValues()).some(value => value !== null));
+
+  // ORDENAMIENTO
+
+  /**
+   * Alterna el orden de una columna: ascendente → descendente → sin ordenar.
+   * @param column - Columna pulsada
+   * @param event - Con Mayús se conserva el resto de criterios
+   */
+  toggleSort(column: DataTableColumn<T>, event: MouseEvent | KeyboardEvent): void {
+    const field = column.sortField;
+    if (!field) return;
+
+    const current = this.sort();
+    const existing = current.find(criterion => criterion.field === field);
+    const next: DataTableSort | null = !existing
+      ? { field, direction: 'asc' }
+      : existing.direction === 'asc' ? { field, direction: 'desc' } : null;
+
+    if (event.shiftKey) {
+      const others = current.filter(criterion => criterion.field !== field);
+      this.sort.set(next ? (existing ? current.map(c => c.field === field ? next : c) : [...others, next]) : others);
+    } else {
+      this.sort.set(next ? [next] : []);
+    }
+  }
+
+  /** Dirección actual de una columna */
+  sortDirection(column: DataTableColumn<T>): SortDirection | null {
+    return this.sort().find(criterion => criterion.field === column.sortField)?.direction ?? null;
+  }
+
+  /** Prioridad (1, 2...) de la columna cuando hay varios criterios */
+  sortPriority(column: DataTableColumn<T>): number | null {
+    if (this.sort().length < 2) return null;
+    const index = this.sort().findIndex(criterion => criterion.field === column.sortField);
+    return index >= 0 ? index + 1 : null;
+  }
+
+  /** Valor de aria-sort de una cabecera */
+  ariaSort(column: DataTableColumn<T>): string | null {
+    if (!column.sortField) return null;
+    const direction = this.sortDirection(column);
+    return direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none';
+  }
+
+  // FILTROS
+
+  /** Aplica la opción elegida en un grupo de chips (deseleccionar quita el filtro) */
+  onFilterChange(filter: DataTableFilter, event: MatChipListboxChange): void {
+    this.filterValues.update(values => ({ ...values, [filter.key]: event.value ?? null }));
+  }
+
+  /** Quita todos los filtros */
+  clearFilters(): void {
+    this.filterValues.update(values =>
+      Object.fromEntries(Object.keys(values).map(key => [key, null]))
+    );
+  }
+
+  // COLUMNAS
+
+  isColumnVisible(column: DataTableColumn<T>): boolean {
+    return !this.hiddenColumns().has(column.key);
+  }
+
+  /** Muestra u oculta una columna (siempre queda al menos una visible) */
+  toggleColumn(column: DataTableColumn<T>): void {
+    const hidden = new Set(this.hiddenColumns());
+    if (hidden.has(column.key)) {
+      hidden.delete(column.key);
+    } else if (this.visibleColumns().length > 1) {
+      hidden.add(column.key);
+    }
+    this.hiddenColumns.set(hidden);
+  }
+
+  // SELECCIÓN
+
+  isSelected(row: T): boolean {
+    return this.selectedIds().has(this.rowId()(row));
+  }
+
+  toggleRow(row: T): void {
+    const id = this.rowId()(row);
+    this.selection.update(ids => ids.includes(id) ? ids.filter(selected => selected !== id) : [...ids, id]);
+  }
+
+  /** Selecciona o deselecciona todas las filas de la página */
+  toggleAllRows(): void {
+    const pageIds = this.rows().map(this.rowId());
+    this.selection.update(ids => this.allRowsSelected()
+      ? ids.filter(id => !pageIds.includes(id))
+      : [...new Set([...ids, ...pageIds])]
+    );
+  }
+
+  clearSelection(): void {
+    this.selection.set([]);
+  }
+
+  // UTILIDADES DE PLANTILLA
+
+  trackRow = (_: number, row: T): number => this.rowId()(row);
+}
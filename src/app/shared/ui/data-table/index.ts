@@ -0,0 +1,2 @@
+// Barrel file: DataTable Component
+export * from './data-table.component';
@@ -1,3 +1,7 @@
 // Barrel file: Shared UI
+export * from './data-table';
 export * from './layout';
 export * from './pagination/pagination.component';
+export * from './password-strength';
+export * from './qr-code';
+export * from './session-expiry-dialog';
@@ -0,0 +1,37 @@
+// EmailVerificationBanner standalone: aviso persistente mientras el email está sin verificar
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { MatIconModule } from '@angular/material/icon';
+import { AuthService, createVerificationResend } from '../../../../features/auth';
+
+@Component({
+  selector: 'app-email-verification-banner',
+  standalone: true,
+  imports: [MatIconModule],
+  templateUrl: './email-verification-banner.component.html',
+  styleUrls: ['./email-verification-banner.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class EmailVerificationBannerComponent {
+  // Inyecciones
+  /** Servicio de autenticación */
+  private readonly authService = inject(AuthService);
+
+  // Estado
+  /** Usuario de la sesión */
+  readonly user = this.authService.currentUser;
+
+  /** Se muestra hasta que el usuario verifica (no se puede cerrar) */
+  readonly isEmailVerified = this.authService.isEmailVerified;
+
+  /** Reenvío del email de verificación */
+  readonly resend = createVerificationResend();
+
+  // Acciones
+  /** Reenvía el enlace al email de la cuenta */
+  resendEmail(): void {
+    const email = this.user()?.email;
+    if (email) {
+      this.resend.resend(email);
+    }
+  }
+}
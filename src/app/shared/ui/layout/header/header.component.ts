@@ -13,6 +13,8 @@ import { User } from '../../../../features/user/models';
 import { UserSearchResultsComponent } from './components/user-search.component';
 import { ChatbotComponent } from '../../../../features/chatbot/chatbot.component';
 import { NotificationsComponent } from '../../../../features/notification/notifications.component';
+import { APP_CONFIG } from '../../../../core/config';
+import { IfFeatureDirective } from '../../../directives';
 
 /* Interfaces y tipos */
 /** Estado de notificaciones */
@@ -31,9 +33,6 @@ const MIN_SEARCH_LENGTH = 2;
 /** Máx. resultados de búsqueda */
 const MAX_SEARCH_RESULTS = 5;
 
-/** Intervalo de actualización de notificaciones (ms) */
-const NOTIFICATION_UPDATE_INTERVAL = 30000;
-
 /** Retraso para ocultar resultados de búsqueda (ms) */
 const SEARCH_BLUR_DELAY = 150;
 
@@ -44,6 +43,7 @@ const SEARCH_BLUR_DELAY = 150;
   imports: [
     CommonModule,
     ChatbotComponent,
+    IfFeatureDirective,
     UserSearchResultsComponent,
     NotificationsComponent
   ],
@@ -58,6 +58,7 @@ export class HeaderComponent implements OnInit, OnDestroy {
   private readonly userService = inject(UserService);
   private readonly notificationService = inject(NotificationService);
   private readonly injector = inject(Injector);
+  private readonly config = inject(APP_CONFIG);
 
   /* Subjects y streams RxJS */
   /** Subject para destrucción limpia de suscripciones */
@@ -117,8 +118,8 @@ export class HeaderComponent implements OnInit, OnDestroy {
   /** Indica si el usuario está autenticado */
   readonly isAuthenticated = computed(() => this.authService.checkAuthenticationStatus());
 
-  /** Indica si se debe mostrar la búsqueda (no admin) */
-  readonly showSearch = computed(() => !this.isAdmin());
+  /** Indica si se debe mostrar la búsqueda de usuarios */
+  readonly showSearch = computed(() => this.authService.hasPermission('users.search'));
 
   /** Indica si hay resultados de búsqueda */
   readonly hasSearchResults = computed(() => this._searchResults().length > 0);
@@ -292,7 +293,7 @@ export class HeaderComponent implements OnInit, OnDestroy {
   private setupNotifications(): void {
     this.loadNotificationCount();
 
-    interval(NOTIFICATION_UPDATE_INTERVAL).pipe(
+    interval(this.config.polling.notifications).pipe(
       takeUntil(this.destroy$)
     ).subscribe(() => {
       this.loadNotificationCount();
@@ -2,3 +2,4 @@
 export * from './header/header.component';
 export * from './footer/footer.component';
 export * from './sidebar/sidebar.component';
+export * from './email-verification-banner/email-verification-banner.component';
@@ -2,7 +2,8 @@
 import { Component, computed, inject, signal, type OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { Router, RouterLink, RouterLinkActive } from '@angular/router';
-import { AuthService } from '../../../../features/auth';
+import { AuthService, Permission } from '../../../../features/auth';
+import { FeatureFlagService } from '../../../../core/services/feature-flag.service';
 import { UserConfirmModalComponent, type ConfirmModalData } from '../../../../features/admin/pages/user-management/components/user-confirm-modal/user-confirm-modal.component';
 
 // Tipos
@@ -14,6 +15,10 @@ interface MenuItem {
   icon: string;
   /** Ruta de navegación */
   route: string;
+  /** Permiso necesario para ver el elemento */
+  permission?: Permission;
+  /** Feature flag del que depende la ruta (se oculta si está desactivado) */
+  feature?: string;
 }
 
 @Component({
@@ -28,6 +33,9 @@ export class SidebarComponent implements OnInit {
   /** Servicio de autenticación */
   private readonly authService = inject(AuthService);
 
+  /** Servicio de feature flags */
+  private readonly featureFlags = inject(FeatureFlagService);
+
   /** Servicio de navegación */
   readonly router = inject(Router);
 
@@ -51,17 +59,13 @@ export class SidebarComponent implements OnInit {
     icon: 'logout'
   });
 
-  // Computed values: menú según rol
-  readonly menuItems = computed((): MenuItem[] => {
-    const user = this.authService.currentUser();
-    const isAdmin = user?.role?.name === 'ADMIN';
-
-    if (isAdmin) {
-      return this.getAdminMenuItems();
-    } else {
-      return this.getUserMenuItems();
-    }
-  });
+  // Computed values: menú según permisos
+  readonly menuItems = computed((): MenuItem[] =>
+    this.getMenuItems().filter(item =>
+      (!item.permission || this.authService.hasPermission(item.permission)) &&
+      (!item.feature || this.featureFlags.isEnabled(item.feature))
+    )
+  );
 
   // Métodos públicos
   /** Inicialización del componente */
@@ -100,49 +104,38 @@ export class SidebarComponent implements OnInit {
   }
 
   // Métodos privados
-  /** Retorna los elementos del menú para administradores */
-  private getAdminMenuItems(): MenuItem[] {
-    return [
-      {
-        label: 'Dashboard Admin',
-        icon: 'dashboard',
-        route: '/dashboard'
-      },
-      {
-        label: 'Gestión Usuarios',
-        icon: 'users',
-        route: '/dashboard/admin/users'
-      },
-      {
-        label: 'Gestión Reportes',
-        icon: 'content',
-        route: '/dashboard/admin/content'
-      },
-      {
-        label: 'Configuración',
-        icon: 'settings',
-        route: '/dashboard/profile'
-      }
-    ];
-  }
-
-  /** Retorna los elementos del menú para usuarios normales */
-  private getUserMenuItems(): MenuItem[] {
+  /** Retorna todos los elementos del menú; cada uno indica el permiso que requiere */
+  private getMenuItems(): MenuItem[] {
     return [
       {
-        label: 'Dashboard',
+        label: this.authService.hasPermission('admin.dashboard') ? 'Dashboard Admin' : 'Dashboard',
         icon: 'dashboard',
         route: '/dashboard'
       },
       {
         label: 'Feed',
         icon: 'feed',
-        route: '/dashboard/feed'
+        route: '/dashboard/feed',
+        permission: 'posts.feed'
       },
       {
         label: 'Gestionar seguidores',
         icon: 'followers',
-        route: '/dashboard/followers'
+        route: '/dashboard/followers',
+        permission: 'follows.manage',
+        feature: 'followers'
+      },
+      {
+        label: 'Gestión Usuarios',
+        icon: 'users',
+        route: '/dashboard/admin/users',
+        permission: 'users.manage'
+      },
+      {
+        label: 'Gestión Reportes',
+        icon: 'content',
+        route: '/dashboard/admin/content',
+        permission: 'reports.view'
       },
       {
         label: 'Configuración',
@@ -0,0 +1,2 @@
+// Barrel file: Password Strength
+export * from './password-strength.component';
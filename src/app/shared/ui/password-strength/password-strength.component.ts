@@ -0,0 +1,78 @@
+// PasswordStrength component — medidor de fortaleza de una contraseña
+
+import { ChangeDetectionStrategy, Component, computed, input } from '@angular/core';
+
+// INTERFACES Y TIPOS
+
+/** 0 = vacía o muy débil ... 4 = muy fuerte */
+export type PasswordStrengthScore = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * Resultado de evaluar una contraseña
+ */
+export interface PasswordStrength {
+  score: PasswordStrengthScore;
+  label: string;
+  /** Sugerencias para mejorarla (vacío si ya es fuerte) */
+  hints: string[];
+}
+
+const STRENGTH_LABELS: Record<PasswordStrengthScore, string> = {
+  0: 'Muy débil',
+  1: 'Débil',
+  2: 'Aceptable',
+  3: 'Fuerte',
+  4: 'Muy fuerte'
+};
+
+/**
+ * Evalúa una contraseña por longitud y variedad de caracteres.
+ * Es una orientación para el usuario: el mínimo obligatorio lo valida el formulario.
+ * @param password - Contraseña a evaluar
+ */
+export function evaluatePasswordStrength(password: string): PasswordStrength {
+  if (!password) {
+    return { score: 0, label: STRENGTH_LABELS[0], hints: [] };
+  }
+
+  const checks = [
+    { passed: password.length >= 8, hint: 'Usa al menos 8 caracteres' },
+    { passed: /[a-z]/.test(password) && /[A-Z]/.test(password), hint: 'Combina mayúsculas y minúsculas' },
+    { passed: /\d/.test(password), hint: 'Añade algún número' },
+    { passed: /[^A-Za-z0-9]/.test(password), hint: 'Añade algún símbolo' }
+  ];
+
+  let points = checks.filter(check => check.passed).length + (password.length >= 12 ? 1 : 0);
+  // Repeticiones como "aaaa" o "1111" restan
+  if (/(.)\1{2,}/.test(password)) points--;
+  if (password.length < 6) points = Math.min(points, 1);
+
+  const score = Math.max(0, Math.min(4, points)) as PasswordStrengthScore;
+  return {
+    score,
+    label: STRENGTH_LABELS[score],
+    hints: score >= 4 ? [] : checks.filter(check => !check.passed).map(check => check.hint)
+  };
+}
+
+// COMPONENTE PRINCIPAL
+
+@Component({
+  selector: 'app-password-strength',
+  standalone: true,
+  templateUrl: './password-strength.component.html',
+  styleUrls: ['./password-strength.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PasswordStrengthComponent {
+  // INPUTS
+
+  readonly password = input<string>('');
+
+  // VALORES COMPUTADOS
+
+  readonly strength = computed(() => evaluatePasswordStrength(this.password()));
+
+  /** Segmentos de la barra (uno por nivel a partir de "Débil") */
+  readonly segments = [1, 2, 3, 4];
+}
@@ -0,0 +1,2 @@
+// Barrel file: QR Code
+export * from './qr-code.component';
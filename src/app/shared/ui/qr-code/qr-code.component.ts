@@ -0,0 +1,41 @@
+// QrCode component — código QR en SVG generado en el navegador
+
+import { ChangeDetectionStrategy, Component, computed, input } from '@angular/core';
+import { encodeQrCode } from './qr-code.encoder';
+
+/** Margen en módulos que exige la norma alrededor del código */
+const QUIET_ZONE = 4;
+
+/**
+ * Pinta `value` como código QR. Se genera en local para no enviar
+ * el contenido (p. ej. un secreto TOTP) a servicios externos.
+ */
+@Component({
+  selector: 'app-qr-code',
+  standalone: true,
+  templateUrl: './qr-code.component.html',
+  styleUrls: ['./qr-code.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class QrCodeComponent {
+  // INPUTS
+
+  readonly value = input.required<string>();
+  /** Lado en píxeles */
+  readonly size = input<number>(200);
+  /** Nombre accesible del código */
+  readonly label = input<string>('Código QR');
+
+  // VALORES COMPUTADOS
+
+  private readonly matrix = computed(() => encodeQrCode(this.value()));
+
+  readonly viewBoxSize = computed(() => this.matrix().length + QUIET_ZONE * 2);
+
+  /** Un único path con un cuadrado por módulo oscuro */
+  readonly path = computed(() =>
+    this.matrix().flatMap((row, y) => row.map((dark, x) =>
+      dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : ''
+    )).join('')
+  );
+}
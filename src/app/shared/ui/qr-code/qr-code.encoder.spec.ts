@@ -0,0 +1,54 @@
+import { encodeQrCode, reedSolomonDivisor, reedSolomonRemainder } from './qr-code.encoder';
+
+const fromHex = (hex: string): number[] => hex.split(' ').map(byte => parseInt(byte, 16));
+
+describe('reedSolomonDivisor', () => {
+  it('devuelve (x - 1)(x - 2) = x² + 3x + 2 para grado 2', () => {
+    expect(reedSolomonDivisor(2)).toEqual([3, 2]);
+  });
+});
+
+describe('reedSolomonRemainder', () => {
+  // Ejemplos 1-M de la norma ("01234567", modo numérico) y de "HELLO WORLD" (alfanumérico)
+  it.each([
+    ['10 20 0C 56 61 80 EC 11 EC 11 EC 11 EC 11 EC 11', 'A5 24 D4 C1 ED 36 C7 87 2C 55'],
+    ['20 5B 0B 78 D1 72 DC 4D 43 40 EC 11 EC 11 EC 11', 'C4 23 27 77 EB D7 E7 E2 5D 17']
+  ])('calcula la corrección de %s', (data, ecc) => {
+    expect(reedSolomonRemainder(fromHex(data), reedSolomonDivisor(10))).toEqual(fromHex(ecc));
+  });
+});
+
+describe('encodeQrCode', () => {
+  const sizeOf = (text: string) => encodeQrCode(text).length;
+
+  it('usa la versión 8 (49x49) para una URI otpauth:// con secreto de 160 bits', () => {
+    const uri = 'otpauth://totp/Red%20Social:laura%40mindhub.dev'
+      + '?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Red%20Social&algorithm=SHA1&digits=6&period=30';
+
+    const matrix = encodeQrCode(uri);
+
+    expect(matrix).toHaveLength(49);
+    expect(matrix.every(row => row.length === 49)).toBe(true);
+  });
+
+  it('elige la versión más pequeña en la que cabe el texto', () => {
+    expect(sizeOf('a'.repeat(14))).toBe(21);
+    expect(sizeOf('a'.repeat(15))).toBe(25);
+  });
+
+  it('dibuja los localizadores y el patrón de sincronización', () => {
+    const matrix = encodeQrCode('otpauth://totp/test');
+    const last = matrix.length - 1;
+
+    [[0, 0], [last - 6, 0], [0, last - 6]].forEach(([x, y]) => {
+      expect(matrix[y].slice(x, x + 7)).toEqual([true, true, true, true, true, true, true]);
+      expect(matrix[y + 1].slice(x, x + 7)).toEqual([true, false, false, false, false, false, true]);
+    });
+    expect(matrix[6].slice(8, last - 7)).toEqual(matrix[6].slice(8, last - 7).map((_, i) => i % 2 === 0));
+  });
+
+  it('rechaza textos que no caben en la versión 10', () => {
+    expect(sizeOf('a'.repeat(213))).toBe(57);
+    expect(() => encodeQrCode('a'.repeat(214))).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,368 @@
+// Codificador QR (ISO/IEC 18004): modo byte, corrección de errores M, versiones 1 a 10
+
+/**
+ * Matriz de módulos: `modules[y][x]` es true si el módulo es oscuro.
+ */
+export type QrMatrix = boolean[][];
+
+/** Versión máxima soportada (hasta 213 bytes: sobra para URIs otpauth://) */
+const MAX_VERSION = 10;
+
+/** Codewords de corrección por bloque, nivel M, por versión (índice 0 sin uso) */
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+
+/** Número de bloques de corrección, nivel M, por versión */
+const NUM_ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+
+/** Bits de formato del nivel M */
+const ECC_FORMAT_BITS = 0;
+
+/**
+ * Codifica un texto (UTF-8) en la matriz QR más pequeña que lo admite.
+ * Lanza un error si no cabe en la versión 10.
+ * @param text - Texto a codificar
+ */
+export function encodeQrCode(text: string): QrMatrix {
+  const bytes = Array.from(new TextEncoder().encode(text));
+
+  let version = 1;
+  while (version <= MAX_VERSION && dataCapacityBits(version) < 4 + charCountBits(version) + bytes.length * 8) {
+    version++;
+  }
+  if (version > MAX_VERSION) {
+    throw new RangeError(`Texto demasiado largo para un código QR (${bytes.length} bytes)`);
+  }
+
+  const qr = new QrBuilder(version);
+  qr.drawFunctionPatterns();
+  qr.drawCodewords(addEccAndInterleave(encodeData(bytes, version), version));
+  qr.applyBestMask();
+  return qr.modules;
+}
+
+// DATOS
+
+const charCountBits = (version: number): number => version < 10 ? 8 : 16;
+
+const dataCapacityBits = (version: number): number =>
+  (Math.floor(numRawDataModules(version) / 8)
+    - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version]) * 8;
+
+/** Módulos disponibles para datos y corrección (sin patrones de función) */
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+/** Segmento en modo byte + terminador + relleno hasta la capacidad */
+function encodeData(bytes: number[], version: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, charCountBits(version));
+  bytes.forEach(byte => append(byte, 8));
+
+  const capacity = dataCapacityBits(version);
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - bits.length % 8) % 8);
+  for (let pad = 0xEC; bits.length < capacity; pad ^= 0xEC ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+/** Divide en bloques, añade la corrección Reed-Solomon de cada uno y los intercala */
+function addEccAndInterleave(data: number[], version: number): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - rawCodewords % numBlocks;
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLen);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < numShortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // El hueco de relleno de los bloques cortos no se transmite
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+/**
+ * Código Reed-Solomon de un bloque (exportado para poder comprobarlo con vectores conocidos).
+ */
+export function reedSolomonRemainder(data: readonly number[], divisor: readonly number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coef, i) => result[i] ^= gfMultiply(coef, factor));
+  }
+  return result;
+}
+
+/**
+ * Polinomio generador de grado `degree` (sin el coeficiente principal).
+ */
+export function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+/** Producto en GF(2^8) con el polinomio 0x11D */
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11D);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+// MATRIZ
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  x => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => x * y % 2 + x * y % 3 === 0,
+  (x, y) => (x * y % 2 + x * y % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + x * y % 3) % 2 === 0
+];
+
+class QrBuilder {
+  readonly size: number;
+  readonly modules: QrMatrix;
+  /** Módulos de patrones fijos (no llevan datos ni se enmascaran) */
+  private readonly isFunction: boolean[][];
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    const positions = this.alignmentPatternPositions();
+    const last = positions.length - 1;
+    positions.forEach((y, i) => positions.forEach((x, j) => {
+      // Las esquinas con patrón de localización no llevan alineación
+      if (!(i === 0 && j === 0) && !(i === 0 && j === last) && !(i === last && j === 0)) {
+        this.drawAlignmentPattern(x, y);
+      }
+    }));
+
+    // Reserva las zonas de formato; los bits reales se escriben al elegir la máscara
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  /** Coloca los codewords en zigzag de dos columnas, de abajo arriba y de derecha a izquierda */
+  drawCodewords(data: number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = ((data[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  /** Prueba las 8 máscaras y deja la de menor penalización */
+  applyBestMask(): void {
+    let bestMask = 0;
+    let minPenalty = Infinity;
+    for (let mask = 0; mask < MASKS.length; mask++) {
+      this.applyMask(mask);
+      this.drawFormatBits(mask);
+      const penalty = this.penaltyScore();
+      if (penalty < minPenalty) {
+        bestMask = mask;
+        minPenalty = penalty;
+      }
+      this.applyMask(mask); // XOR: aplicarla otra vez la deshace
+    }
+    this.applyMask(bestMask);
+    this.drawFormatBits(bestMask);
+  }
+
+  private applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && MASKS[mask](x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  private drawFormatBits(mask: number): void {
+    const data = ECC_FORMAT_BITS << 3 | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = (data << 10 | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    // Copia junto al localizador superior izquierdo
+    for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, bit(i));
+    this.setFunctionModule(8, 7, bit(6));
+    this.setFunctionModule(8, 8, bit(7));
+    this.setFunctionModule(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunctionModule(14 - i, 8, bit(i));
+
+    // Copia repartida entre los otros dos localizadores
+    for (let i = 0; i < 8; i++) this.setFunctionModule(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunctionModule(8, this.size - 15 + i, bit(i));
+    this.setFunctionModule(8, this.size - 8, true);
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return;
+
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1F25);
+    const bits = this.version << 12 | rem;
+
+    for (let i = 0; i < 18; i++) {
+      const bit = ((bits >>> i) & 1) === 1;
+      const a = this.size - 11 + i % 3;
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, bit);
+      this.setFunctionModule(b, a, bit);
+    }
+  }
+
+  private drawFinderPattern(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private alignmentPatternPositions(): number[] {
+    if (this.version === 1) return [];
+
+    const numAlign = Math.floor(this.version / 7) + 2;
+    const step = Math.ceil((this.version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+    const result = [6];
+    for (let pos = this.size - 7; result.length < numAlign; pos -= step) {
+      result.splice(1, 0, pos);
+    }
+    return result;
+  }
+
+  private setFunctionModule(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  /**
+   * Penalización de la norma: tramos de 5 o más iguales, bloques 2x2,
+   * patrones parecidos a un localizador y desequilibrio entre claros y oscuros.
+   */
+  private penaltyScore(): number {
+    const lines: boolean[][] = [
+      ...this.modules,
+      ...this.modules.map((_, x) => this.modules.map(row => row[x]))
+    ];
+    let result = 0;
+
+    for (const line of lines) {
+      let runLength = 1;
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          runLength++;
+        } else {
+          if (runLength >= 5) result += runLength - 2;
+          runLength = 1;
+        }
+      }
+
+      // 1011101 con cuatro claros a un lado (el exterior del símbolo cuenta como claro)
+      const padded = [false, false, false, false, ...line, false, false, false, false].map(dark => dark ? 1 : 0).join('');
+      for (let i = padded.indexOf('10111010000'); i >= 0; i = padded.indexOf('10111010000', i + 1)) result += 40;
+      for (let i = padded.indexOf('00001011101'); i >= 0; i = padded.indexOf('00001011101', i + 1)) result += 40;
+    }
+
+    for (let y = 0; y < this.size - 1; y++) {
+      for (let x = 0; x < this.size - 1; x++) {
+        const color = this.modules[y][x];
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          result += 3;
+        }
+      }
+    }
+
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = this.size * this.size;
+    result += Math.max(0, Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+
+    return result;
+  }
+}
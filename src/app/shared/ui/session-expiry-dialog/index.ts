@@ -0,0 +1,2 @@
+// Barrel file: Session Expiry Dialog
+export * from './session-expiry-dialog.component';
@@ -0,0 +1,57 @@
+// SessionExpiryDialog component — aviso con cuenta atrás antes de cerrar la sesión
+
+import { Component, Signal, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatDialogRef, MAT_DIALOG_DATA, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+
+// INTERFACES Y TIPOS
+
+/**
+ * Datos de entrada del diálogo de expiración
+ */
+export interface SessionExpiryDialogData {
+  /** Tiempo restante de sesión en ms (actualizado por SessionTimeoutService) */
+  remainingTime: Signal<number | null>;
+  /** false si la sesión no se puede alargar (token sin refresh): solo se avisa de la hora de cierre */
+  canExtend: boolean;
+  /** Instante (ms) en el que se cerrará la sesión */
+  endsAt: number;
+}
+
+// COMPONENTE PRINCIPAL
+
+@Component({
+  selector: 'app-session-expiry-dialog',
+  standalone: true,
+  imports: [CommonModule, MatDialogModule, MatButtonModule, MatIconModule],
+  templateUrl: './session-expiry-dialog.component.html',
+  styleUrls: ['./session-expiry-dialog.component.css']
+})
+export class SessionExpiryDialogComponent {
+  // INYECCIONES DE DEPENDENCIAS
+
+  /** Referencia al diálogo; devuelve true para seguir conectado y false para salir */
+  private readonly dialogRef = inject<MatDialogRef<SessionExpiryDialogComponent, boolean>>(MatDialogRef);
+
+  /** Datos de entrada del diálogo */
+  protected readonly data = inject<SessionExpiryDialogData>(MAT_DIALOG_DATA);
+
+  // VALORES COMPUTADOS
+
+  /** Segundos que quedan antes del cierre de sesión */
+  readonly secondsLeft = computed(() => Math.max(0, Math.ceil((this.data.remainingTime() ?? 0) / 1000)));
+
+  // MÉTODOS PÚBLICOS
+
+  /** Mantiene la sesión abierta (o, si no se puede alargar, cierra el aviso) */
+  staySignedIn(): void {
+    this.dialogRef.close(true);
+  }
+
+  /** Cierra la sesión inmediatamente */
+  signOut(): void {
+    this.dialogRef.close(false);
+  }
+}
@@ -1,9 +0,0 @@
-// Configuración de entorno (desarrollo)
-export const environment = {
-    production: false,
-    apiUrl: 'http://localhost:8080/api',
-    appName: 'MindHub',
-    version: '2.0.0',
-    debug: true,
-    logLevel: 'debug'
-};
@@ -3,9 +3,16 @@ import { appConfig } from './app/app.config';
 import { App } from './app/app';
 import { registerLocaleData } from '@angular/common';
 import localeEs from '@angular/common/locales/es';
+import { AppConfigError, renderConfigErrorScreen } from './app/core/config';
 
 
 bootstrapApplication(App, appConfig)
-  .catch((err) => console.error(err));
+  .catch((err) => {
+    // Sin una configuración válida la app no arranca: se explica en pantalla
+    if (err instanceof AppConfigError) {
+      renderConfigErrorScreen(err);
+    }
+    console.error(err);
+  });
 
 registerLocaleData(localeEs);